@@ -0,0 +1,947 @@
+import crypto from 'crypto';
+import { CommandError, RunCommandOptions, formatCommand } from '../utils/command.util';
+import { CommandResult, SystemBackend } from '../interfaces/system-backend.interface';
+
+export interface FakeRadio {
+  name: string;
+  type: 'wifi' | 'ethernet';
+  mac: string;
+  /** Name of the connection currently active on this device */
+  connection?: string;
+}
+
+export interface FakeAccessPoint {
+  ssid: string;
+  bssid: string;
+  signal: number;
+  /** Frequency in MHz */
+  freq: number;
+  /** nmcli security string, e.g. "WPA2" or "WPA1 WPA2"; empty for open networks */
+  security: string;
+  password?: string;
+  rate?: string;
+  gateway?: string;
+}
+
+export interface FakeConnection {
+  name: string;
+  ssid: string;
+  mode: 'infrastructure' | 'ap';
+  psk?: string;
+  ipAddress?: string;
+  gateway?: string;
+  timestamp: number;
+  /** Device the profile is bound to (connection.interface-name) */
+  interfaceName?: string;
+  /** Other properties given to "connection add", by full name */
+  settings?: Record<string, string>;
+}
+
+export interface FakeClient {
+  mac: string;
+  ip: string;
+  hostname?: string;
+  /** Signal in dBm */
+  signal: number;
+  connectedSeconds: number;
+  /** Bytes the AP received from / sent to the client */
+  rxBytes?: number;
+  txBytes?: number;
+}
+
+export interface FakeWireGuardPeer {
+  publicKey: string;
+  presharedKey?: string;
+  endpoint?: string;
+  allowedIps: string[];
+  /** Unix timestamp of the latest handshake, 0 if none */
+  latestHandshake: number;
+  rxBytes: number;
+  txBytes: number;
+}
+
+export interface FakeWireGuardInterface {
+  name: string;
+  privateKey: string;
+  listenPort?: number;
+  peers: FakeWireGuardPeer[];
+}
+
+type CommandHandler = (args: string[], options: RunCommandOptions) => CommandResult | Promise<CommandResult>;
+
+/**
+ * In-memory stand-in for the host system. It understands the subset of
+ * nmcli, wg, iptables, tc, systemctl, ip, arp, iw and ping invocations the
+ * services issue, and produces output in the same format as the real tools.
+ * Tests script it through the public state and the `on()` override hook.
+ */
+export class FakeBackend implements SystemBackend {
+  radios: FakeRadio[] = [];
+  accessPoints: FakeAccessPoint[] = [];
+  connections: FakeConnection[] = [];
+  /** Hotspot clients keyed by the radio serving them */
+  clients = new Map<string, FakeClient[]>();
+  wireguard = new Map<string, FakeWireGuardInterface>();
+  files = new Map<string, string>();
+  units = new Map<string, { enabled: boolean; active: boolean }>();
+  iptables: string[] = [];
+  /** tc objects as "<dev> <qdisc|class|filter> <spec>" */
+  tc: string[] = [];
+  sysctl = new Map<string, string>();
+  reachableHosts = new Set<string>(['8.8.8.8']);
+  /** Routes added with `ip route add|replace`, as `ip route show` prints them */
+  routes: string[] = [];
+  /** Every command run, formatted as it would appear in a shell */
+  commandLog: string[] = [];
+  /** There is no NetworkManager on a bus unless a test runs a stub one */
+  supportsDbus = false;
+
+  private handlers = new Map<string, CommandHandler>();
+
+  /**
+   * A Pi with one Wi-Fi radio, an unplugged Ethernet port and a few networks in range
+   */
+  static withDefaults(): FakeBackend {
+    const backend = new FakeBackend();
+    backend.addRadio({ name: 'wlan0', type: 'wifi', mac: 'dc:a6:32:00:00:01' });
+    backend.addRadio({ name: 'eth0', type: 'ethernet', mac: 'dc:a6:32:00:00:02' });
+    backend.addAccessPoint({ ssid: 'CoffeeShop', bssid: '02:00:00:00:01:01', signal: 72, freq: 2437, security: '' });
+    backend.addAccessPoint({ ssid: 'HomeNet', bssid: '02:00:00:00:01:02', signal: 88, freq: 5180, security: 'WPA2', password: 'correcthorse' });
+    backend.addAccessPoint({ ssid: 'Phone 5G', bssid: '02:00:00:00:01:03', signal: 64, freq: 2412, security: 'WPA2 WPA3', password: 'tethering' });
+    return backend;
+  }
+
+  addRadio(radio: FakeRadio): void {
+    this.radios.push(radio);
+  }
+
+  addAccessPoint(ap: FakeAccessPoint): void {
+    this.accessPoints.push(ap);
+  }
+
+  /**
+   * Simulate a client associating with the hotspot and obtaining a DHCP lease
+   */
+  joinClient(client: FakeClient, radio = 'wlan0'): void {
+    const list = this.clients.get(radio) || [];
+    list.push(client);
+    this.clients.set(radio, list);
+    this.writeLeases();
+  }
+
+  leaveClient(mac: string): void {
+    for (const [radio, list] of this.clients.entries()) {
+      this.clients.set(radio, list.filter(c => c.mac !== mac.toLowerCase()));
+    }
+    this.writeLeases();
+  }
+
+  /**
+   * Override the simulated behaviour of a program
+   */
+  on(program: string, handler: CommandHandler): void {
+    this.handlers.set(program, handler);
+  }
+
+  async run(program: string, args: string[] = [], options: RunCommandOptions = {}): Promise<CommandResult> {
+    this.commandLog.push(formatCommand(program, args));
+
+    // Privilege escalation is a no-op in the simulation
+    if (program === 'sudo') {
+      [program, ...args] = args;
+    }
+
+    try {
+      const handler = this.handlers.get(program);
+      if (handler) {
+        return await handler(args, options);
+      }
+      return await this.simulate(program, args, options);
+    } catch (error) {
+      if (error instanceof CommandError && options.throwOnError === false) {
+        return { stdout: error.stdout, stderr: error.stderr };
+      }
+      throw error;
+    }
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    const content = this.files.get(filePath);
+    if (content === undefined) {
+      const error = new Error(`ENOENT: no such file or directory, open '${filePath}'`) as NodeJS.ErrnoException;
+      error.code = 'ENOENT';
+      throw error;
+    }
+    return content.trim();
+  }
+
+  async writeFile(filePath: string, content: string): Promise<void> {
+    this.files.set(filePath, content);
+  }
+
+  async fileExists(filePath: string): Promise<boolean> {
+    return this.files.has(filePath);
+  }
+
+  private fail(program: string, args: string[], stderr: string, code = 1): never {
+    const cmd = formatCommand(program, args);
+    throw new CommandError(`Command failed: ${cmd} (exited with code ${code})\n${stderr}`, {
+      cmd,
+      stdout: '',
+      stderr,
+      code
+    });
+  }
+
+  private ok(stdout = ''): CommandResult {
+    return { stdout: stdout.trim(), stderr: '' };
+  }
+
+  private async simulate(program: string, args: string[], options: RunCommandOptions): Promise<CommandResult> {
+    switch (program) {
+      case 'nmcli': return this.nmcli(args);
+      case 'wg': return this.wg(args, options);
+      case 'systemctl': return this.systemctl(args);
+      case 'iptables': return this.iptablesCmd(args);
+      case 'tc': return this.tcCmd(args);
+      case 'sysctl':
+        if (args[0] === '-w' && args[1]) {
+          const [key, value] = args[1].split('=');
+          this.sysctl.set(key, value);
+          return this.ok(`${key} = ${value}`);
+        }
+        return this.ok(this.sysctl.get(args[args.length - 1]) || '');
+      case 'ip': return this.ip(args);
+      case 'arp': return this.arp(args);
+      case 'iw': return this.iw(args);
+      case 'ping': {
+        const host = args[args.length - 1];
+        if (!this.reachableHosts.has(host) && !this.isLocalAddress(host)) {
+          return this.fail(program, args, '', 1);
+        }
+        return this.ok(`PING ${host}\n1 packets transmitted, 1 received, 0% packet loss, time 0ms\nrtt min/avg/max/mdev = 1.0/1.0/1.0/0.0 ms`);
+      }
+      case 'tee':
+        this.files.set(args[args.length - 1], options.input || '');
+        return this.ok(options.input || '');
+      case 'cat': {
+        const content = this.files.get(args[0]);
+        if (content === undefined) {
+          return this.fail(program, args, `cat: ${args[0]}: No such file or directory`);
+        }
+        return this.ok(content);
+      }
+      case 'test':
+        if (args[0] === '-f' && this.files.has(args[1])) return this.ok();
+        return this.fail(program, args, '');
+      case 'chmod':
+      case 'chown':
+      case 'mkdir':
+      case 'pkill':
+      case 'ipset':
+      case 'nsupdate':
+        return this.ok();
+      case 'rm':
+        this.files.delete(args[args.length - 1]);
+        return this.ok();
+      default:
+        return this.fail(program, args, `${program}: command not found`, 127);
+    }
+  }
+
+  // --- nmcli ---
+
+  private escapeTerse(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/:/g, '\\:');
+  }
+
+  private wifiRadio(name?: string): FakeRadio | undefined {
+    return this.radios.find(r => r.type === 'wifi' && (!name || r.name === name));
+  }
+
+  private activeConnection(radio: FakeRadio): FakeConnection | undefined {
+    return radio.connection ? this.connections.find(c => c.name === radio.connection) : undefined;
+  }
+
+  private activate(conn: FakeConnection, radio: FakeRadio): void {
+    radio.connection = conn.name;
+    conn.timestamp = Math.floor(Date.now() / 1000);
+  }
+
+  private nmcli(args: string[]): CommandResult {
+    const fields = this.optionValue(args, '-g') || this.optionValue(args, '-f');
+    const positional = this.stripOptions(args, ['-g', '-f', '-t', '-s']);
+    const [object, verb, ...rest] = positional;
+
+    if ((object === 'device' || object === 'dev') && verb === 'status') {
+      const rows = [['DEVICE', 'TYPE', 'STATE', 'CONNECTION']];
+      for (const radio of this.radios) {
+        rows.push([radio.name, radio.type, radio.connection ? 'connected' : 'disconnected', radio.connection || '--']);
+      }
+      const widths = rows[0].map((_, i) => Math.max(...rows.map(row => row[i].length)) + 2);
+      return this.ok(rows.map(row => row.map((cell, i) => cell.padEnd(widths[i])).join('').trimEnd()).join('\n'));
+    }
+
+    if ((object === 'device' || object === 'dev') && verb === 'wifi' && rest[0] === 'list') {
+      const activeSsids = new Set(this.radios.map(r => this.activeConnection(r)).filter(c => c && c.mode === 'infrastructure').map(c => c!.ssid));
+      const columns = (fields || 'SSID,SIGNAL,SECURITY,FREQ').split(',');
+      const lines = this.accessPoints.map(ap => columns.map(column => {
+        switch (column) {
+          case 'ACTIVE': return activeSsids.has(ap.ssid) ? 'yes' : 'no';
+          case 'SSID': return this.escapeTerse(ap.ssid);
+          case 'BSSID': return this.escapeTerse(ap.bssid.toUpperCase());
+          case 'SIGNAL': return String(ap.signal);
+          case 'SECURITY': return ap.security;
+          case 'FREQ': return `${ap.freq} MHz`;
+          case 'CHAN': return String(this.channelFor(ap.freq));
+          case 'RATE': return ap.rate || '130 Mbit/s';
+          default: return '';
+        }
+      }).join(':'));
+      return this.ok(lines.join('\n'));
+    }
+
+    if ((object === 'device' || object === 'dev') && verb === 'wifi' && rest[0] === 'connect') {
+      const ssid = rest[1];
+      const ifname = this.optionValue(rest, 'ifname');
+      // Like NetworkManager, reuse the secret of an existing profile when none is given
+      const password = this.optionValue(rest, 'password') ?? this.connections.find(c => c.name === ssid)?.psk;
+      const ap = this.accessPoints.find(a => a.ssid === ssid);
+      if (!ap) {
+        return this.fail('nmcli', args, `Error: No network with SSID '${ssid}' found.`, 10);
+      }
+      if (ap.security && ap.password !== password) {
+        return this.fail('nmcli', args, 'Error: Connection activation failed: Secrets were required, but not provided.', 4);
+      }
+      const radio = this.wifiRadio(ifname);
+      if (!radio) {
+        return this.fail('nmcli', args, 'Error: No Wi-Fi device found.', 10);
+      }
+      let conn = this.connections.find(c => c.name === ssid);
+      if (!conn) {
+        conn = { name: ssid, ssid, mode: 'infrastructure', psk: password, timestamp: 0 };
+        this.connections.push(conn);
+      }
+      conn.psk = password;
+      conn.gateway = ap.gateway || '192.168.1.1';
+      conn.ipAddress = `${conn.gateway.split('.').slice(0, 3).join('.')}.50/24`;
+      this.activate(conn, radio);
+      return this.ok(`Device '${radio.name}' successfully activated.`);
+    }
+
+    if ((object === 'device' || object === 'dev') && verb === 'wifi' && rest[0] === 'hotspot') {
+      const radio = this.wifiRadio(this.optionValue(rest, 'ifname'));
+      if (!radio) {
+        return this.fail('nmcli', args, 'Error: No Wi-Fi device found.', 10);
+      }
+      const ssid = this.optionValue(rest, 'ssid') || `Hotspot-${radio.name}`;
+      const password = this.optionValue(rest, 'password');
+      if (password !== undefined && password.length < 8) {
+        return this.fail('nmcli', args, 'Error: 802-11-wireless-security.psk: property is invalid.', 2);
+      }
+      let conn = this.connections.find(c => c.name === 'Hotspot');
+      if (!conn) {
+        conn = { name: 'Hotspot', ssid, mode: 'ap', timestamp: 0 };
+        this.connections.push(conn);
+      }
+      conn.ssid = ssid;
+      conn.psk = password;
+      conn.ipAddress = '10.42.0.1/24';
+      conn.gateway = undefined;
+      this.activate(conn, radio);
+      return this.ok(`Device '${radio.name}' successfully activated.`);
+    }
+
+    if ((object === 'device' || object === 'dev') && verb === 'disconnect') {
+      const radio = this.radios.find(r => r.name === rest[0]);
+      if (!radio) {
+        return this.fail('nmcli', args, `Error: Device '${rest[0]}' not found.`, 10);
+      }
+      radio.connection = undefined;
+      this.clients.set(radio.name, []);
+      return this.ok(`Device '${radio.name}' successfully disconnected.`);
+    }
+
+    if ((object === 'device' || object === 'dev') && verb === 'show') {
+      const radio = this.radios.find(r => r.name === rest[0]);
+      if (!radio) {
+        return this.fail('nmcli', args, `Error: Device '${rest[0]}' not found.`, 10);
+      }
+      if (fields === 'GENERAL.HWADDR') {
+        return this.ok(this.escapeTerse(radio.mac.toUpperCase()));
+      }
+      return this.ok(`GENERAL.DEVICE:${radio.name}\nGENERAL.HWADDR:${radio.mac.toUpperCase()}`);
+    }
+
+    if (object === 'connection' || object === 'con' || object === 'c') {
+      return this.nmcliConnection(args, verb, rest, fields);
+    }
+
+    return this.fail('nmcli', args, `Error: argument '${positional.join(' ')}' not understood.`, 2);
+  }
+
+  private nmcliConnection(args: string[], verb: string | undefined, rest: string[], fields?: string): CommandResult {
+    const target = rest[0] === 'id' ? rest[1] : rest[0];
+
+    if (verb === undefined || (verb === 'show' && (!target || target === '--active'))) {
+      const activeOnly = args.includes('--active');
+      const activeNames = new Set(this.radios.map(r => r.connection).filter(Boolean));
+      const list = this.connections.filter(c => !activeOnly || activeNames.has(c.name));
+      const columns = (fields || 'NAME').split(',');
+      return this.ok(list.map(c => columns.map(column => {
+        switch (column) {
+          case 'NAME': return this.escapeTerse(c.name);
+          case 'TYPE': return '802-11-wireless';
+          case 'DEVICE': return this.radios.find(r => r.connection === c.name)?.name || '';
+          case 'TIMESTAMP': return String(c.timestamp);
+          case 'ACTIVE': return activeNames.has(c.name) ? 'yes' : 'no';
+          default: return '';
+        }
+      }).join(':')).join('\n'));
+    }
+
+    if (verb === 'add') {
+      const name = this.optionValue(rest, 'con-name');
+      const mode = this.optionValue(rest, '802-11-wireless.mode') || this.optionValue(rest, 'wifi.mode') || 'infrastructure';
+      const psk = this.optionValue(rest, '802-11-wireless-security.psk') || this.optionValue(rest, 'wifi-sec.psk');
+      if (!name || this.optionValue(rest, 'type') !== 'wifi') {
+        return this.fail('nmcli', args, 'Error: only Wi-Fi profiles with a con-name can be added.', 2);
+      }
+      if (psk !== undefined && psk.length < 8) {
+        return this.fail('nmcli', args, `Error: Failed to add '${name}' connection: 802-11-wireless-security.psk: property is invalid`, 2);
+      }
+      const settings: Record<string, string> = {};
+      // Everything after "add" comes in name/value pairs
+      for (let i = 0; i < rest.length - 1; i += 2) {
+        if (rest[i].includes('.')) settings[rest[i]] = rest[i + 1];
+      }
+      const ifname = this.optionValue(rest, 'ifname');
+      this.connections.push({
+        name,
+        ssid: this.optionValue(rest, 'ssid') || name,
+        mode: mode === 'ap' ? 'ap' : 'infrastructure',
+        psk,
+        ipAddress: mode === 'ap' ? (settings['ipv4.addresses'] || '10.42.0.1/24') : undefined,
+        timestamp: 0,
+        interfaceName: ifname && ifname !== '*' ? ifname : undefined,
+        settings
+      });
+      return this.ok(`Connection '${name}' successfully added.`);
+    }
+
+    const conn = this.connections.find(c => c.name === target);
+
+    if (verb === 'show') {
+      if (!conn) {
+        return this.fail('nmcli', args, `Error: ${target} - no such connection profile.`, 10);
+      }
+      const values = (fields || '').split(',').map(field => {
+        switch (field) {
+          case '802-11-wireless.ssid': return conn.ssid;
+          case '802-11-wireless.mode': return conn.mode;
+          case '802-11-wireless-security.psk': return conn.psk || '';
+          case 'connection.timestamp': return String(conn.timestamp);
+          case 'IP4.ADDRESS': return conn.ipAddress || '';
+          case 'IP4.GATEWAY': return conn.gateway || '';
+          default: return conn.settings?.[field] || '';
+        }
+      });
+      return this.ok(values.join('\n'));
+    }
+
+    if (verb === 'up') {
+      if (!conn) {
+        return this.fail('nmcli', args, `Error: unknown connection '${target}'.`, 10);
+      }
+      const radio = this.wifiRadio(this.optionValue(rest, 'ifname') || conn.interfaceName);
+      if (!radio) {
+        return this.fail('nmcli', args, 'Error: no device found for connection.', 10);
+      }
+      if (conn.mode === 'infrastructure' && !this.accessPoints.some(ap => ap.ssid === conn.ssid)) {
+        return this.fail('nmcli', args, 'Error: Connection activation failed: No suitable device found for this connection.', 4);
+      }
+      this.activate(conn, radio);
+      return this.ok('Connection successfully activated');
+    }
+
+    if (verb === 'down') {
+      const radio = this.radios.find(r => r.connection === target);
+      if (!radio) {
+        return this.fail('nmcli', args, `Error: '${target}' is not an active connection.`, 10);
+      }
+      radio.connection = undefined;
+      this.clients.set(radio.name, []);
+      return this.ok(`Connection '${target}' successfully deactivated`);
+    }
+
+    if (verb === 'delete') {
+      if (!conn) {
+        return this.fail('nmcli', args, `Error: unknown connection '${target}'.`, 10);
+      }
+      this.connections = this.connections.filter(c => c !== conn);
+      this.radios.forEach(r => { if (r.connection === target) r.connection = undefined; });
+      return this.ok(`Connection '${target}' successfully deleted.`);
+    }
+
+    return this.fail('nmcli', args, `Error: argument '${verb}' not understood.`, 2);
+  }
+
+  // --- WireGuard ---
+
+  private wg(args: string[], options: RunCommandOptions): CommandResult {
+    const [verb, name, ...rest] = args;
+
+    if (verb === 'genkey') {
+      return this.ok(crypto.randomBytes(32).toString('base64'));
+    }
+    if (verb === 'pubkey') {
+      return this.ok(this.derivePublicKey((options.input || '').trim()));
+    }
+    if (verb === 'genpsk') {
+      return this.ok(crypto.randomBytes(32).toString('base64'));
+    }
+    if (verb === 'show' && name === 'all' && (rest[0] === 'latest-handshakes' || rest[0] === 'transfer')) {
+      // "wg show all <field>" prefixes every line with the interface name
+      const lines: string[] = [];
+      for (const iface of this.wireguard.values()) {
+        const { stdout } = this.wg(['show', iface.name, rest[0]], options);
+        lines.push(...stdout.split('\n').filter(Boolean).map(line => `${iface.name}\t${line}`));
+      }
+      return this.ok(lines.join('\n'));
+    }
+    if (verb === 'show') {
+      const iface = name ? this.wireguard.get(name) : [...this.wireguard.values()][0];
+      if (!iface) {
+        return this.fail('wg', args, `Unable to access interface: No such device`);
+      }
+      const field = rest[0];
+      if (field === 'latest-handshakes') {
+        return this.ok(iface.peers.map(p => `${p.publicKey}\t${p.latestHandshake}`).join('\n'));
+      }
+      if (field === 'transfer') {
+        return this.ok(iface.peers.map(p => `${p.publicKey}\t${p.rxBytes}\t${p.txBytes}`).join('\n'));
+      }
+      if (field === 'dump') {
+        const header = [iface.privateKey, this.derivePublicKey(iface.privateKey), iface.listenPort || 0, 'off'].join('\t');
+        const peers = iface.peers.map(p => [
+          p.publicKey, p.presharedKey || '(none)', p.endpoint || '(none)', p.allowedIps.join(',') || '(none)',
+          p.latestHandshake, p.rxBytes, p.txBytes, 'off'
+        ].join('\t'));
+        return this.ok([header, ...peers].join('\n'));
+      }
+      return this.ok(this.formatWgShow(iface));
+    }
+    if (verb === 'set') {
+      const iface = this.wireguard.get(name);
+      if (!iface) {
+        return this.fail('wg', args, `Unable to modify interface: No such device`);
+      }
+      this.applyWgSet(iface, rest);
+      return this.ok();
+    }
+    return this.fail('wg', args, `Invalid subcommand: '${verb}'`);
+  }
+
+  private applyWgSet(iface: FakeWireGuardInterface, args: string[]): void {
+    let peer: FakeWireGuardPeer | undefined;
+    for (let i = 0; i < args.length; i++) {
+      const key = args[i];
+      const value = args[i + 1];
+      switch (key) {
+        case 'listen-port': iface.listenPort = parseInt(value); i++; break;
+        case 'private-key': i++; break;
+        case 'peer':
+          peer = iface.peers.find(p => p.publicKey === value);
+          if (!peer) {
+            peer = { publicKey: value, allowedIps: [], latestHandshake: 0, rxBytes: 0, txBytes: 0 };
+            iface.peers.push(peer);
+          }
+          i++;
+          break;
+        case 'remove':
+          if (peer) iface.peers = iface.peers.filter(p => p !== peer);
+          break;
+        case 'endpoint': if (peer) peer.endpoint = value; i++; break;
+        case 'allowed-ips': if (peer) peer.allowedIps = value.split(',').filter(Boolean); i++; break;
+        case 'preshared-key': i++; break;
+        case 'persistent-keepalive': i++; break;
+      }
+    }
+  }
+
+  /**
+   * Deterministic stand-in for Curve25519 public key derivation
+   */
+  derivePublicKey(privateKey: string): string {
+    return crypto.createHash('sha256').update(privateKey).digest('base64');
+  }
+
+  private formatWgShow(iface: FakeWireGuardInterface): string {
+    const lines = [
+      `interface: ${iface.name}`,
+      `  public key: ${this.derivePublicKey(iface.privateKey)}`,
+      '  private key: (hidden)'
+    ];
+    if (iface.listenPort) lines.push(`  listening port: ${iface.listenPort}`);
+    for (const peer of iface.peers) {
+      lines.push('', `peer: ${peer.publicKey}`);
+      if (peer.endpoint) lines.push(`  endpoint: ${peer.endpoint}`);
+      lines.push(`  allowed ips: ${peer.allowedIps.join(', ') || '(none)'}`);
+      if (peer.latestHandshake) {
+        const age = Math.max(0, Math.floor(Date.now() / 1000) - peer.latestHandshake);
+        lines.push(`  latest handshake: ${age} seconds ago`);
+      }
+      if (peer.rxBytes || peer.txBytes) {
+        lines.push(`  transfer: ${peer.rxBytes} B received, ${peer.txBytes} B sent`);
+      }
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Bring up a WireGuard interface from its wg-quick file, as wg-quick@ would
+   */
+  private wgQuickUp(name: string): void {
+    const content = this.files.get(`/etc/wireguard/${name}.conf`);
+    if (content === undefined) {
+      throw new CommandError(`wg-quick: \`/etc/wireguard/${name}.conf' does not exist`, {
+        cmd: `wg-quick up ${name}`, stdout: '', stderr: `/etc/wireguard/${name}.conf does not exist`, code: 1
+      });
+    }
+
+    const iface: FakeWireGuardInterface = { name, privateKey: '', peers: [] };
+    let peer: FakeWireGuardPeer | undefined;
+    for (const rawLine of content.split('\n')) {
+      const line = rawLine.replace(/#.*/, '').trim();
+      if (line.toLowerCase() === '[peer]') {
+        peer = { publicKey: '', allowedIps: [], latestHandshake: 0, rxBytes: 0, txBytes: 0 };
+        iface.peers.push(peer);
+        continue;
+      }
+      const match = line.match(/^(\w+)\s*=\s*(.+)$/);
+      if (!match) continue;
+      const [, key, value] = match;
+      switch (key.toLowerCase()) {
+        case 'privatekey': iface.privateKey = value; break;
+        case 'listenport': iface.listenPort = parseInt(value); break;
+        case 'publickey': if (peer) peer.publicKey = value; break;
+        case 'presharedkey': if (peer) peer.presharedKey = value; break;
+        case 'endpoint': if (peer) peer.endpoint = value; break;
+        case 'allowedips': if (peer) peer.allowedIps.push(...value.split(',').map(v => v.trim())); break;
+      }
+    }
+    this.wireguard.set(name, iface);
+  }
+
+  // --- systemd ---
+
+  private systemctl(args: string[]): CommandResult {
+    const [verb, unit] = args;
+    const state = this.units.get(unit) || { enabled: false, active: false };
+    const wgInstance = unit?.startsWith('wg-quick@') ? unit.slice('wg-quick@'.length) : undefined;
+
+    switch (verb) {
+      case 'is-active':
+        if (!state.active) return this.fail('systemctl', args, '', 3);
+        return this.ok('active');
+      case 'is-enabled':
+        if (!state.enabled) return this.fail('systemctl', args, '', 1);
+        return this.ok('enabled');
+      case 'enable': state.enabled = true; break;
+      case 'disable': state.enabled = false; break;
+      case 'start':
+      case 'restart':
+        if (wgInstance) {
+          this.wgQuickUp(wgInstance);
+        }
+        state.active = true;
+        break;
+      case 'stop':
+        if (wgInstance) {
+          this.wireguard.delete(wgInstance);
+        }
+        state.active = false;
+        break;
+      case 'reload':
+        break;
+      default:
+        return this.fail('systemctl', args, `Unknown command verb ${verb}.`);
+    }
+    this.units.set(unit, state);
+    return this.ok();
+  }
+
+  // --- iptables ---
+
+  private iptablesCmd(args: string[]): CommandResult {
+    let table = 'filter';
+    const rest = [...args];
+    const tableIndex = rest.indexOf('-t');
+    if (tableIndex !== -1) {
+      table = rest[tableIndex + 1];
+      rest.splice(tableIndex, 2);
+    }
+    const [action, chain, ...spec] = rest;
+    const rule = [table, chain, ...spec].join(' ');
+
+    switch (action) {
+      case '-A':
+        this.iptables.push(rule);
+        return this.ok();
+      case '-I': {
+        // Optional rule number after the chain
+        const body = /^\d+$/.test(spec[0] || '') ? spec.slice(1) : spec;
+        this.iptables.unshift([table, chain, ...body].join(' '));
+        return this.ok();
+      }
+      case '-D': {
+        const index = this.iptables.indexOf(rule);
+        if (index === -1) {
+          return this.fail('iptables', args, 'iptables: Bad rule (does a matching rule exist in that chain?).');
+        }
+        this.iptables.splice(index, 1);
+        return this.ok();
+      }
+      case '-C':
+        if (!this.iptables.includes(rule)) {
+          return this.fail('iptables', args, 'iptables: Bad rule (does a matching rule exist in that chain?).');
+        }
+        return this.ok();
+      case '-N':
+        if (this.iptables.includes(`${table} :${chain}`)) {
+          return this.fail('iptables', args, 'iptables: Chain already exists.');
+        }
+        this.iptables.push(`${table} :${chain}`);
+        return this.ok();
+      case '-F':
+        this.iptables = this.iptables.filter(r => !r.startsWith(`${table} ${chain} `));
+        return this.ok();
+      case '-X':
+        this.iptables = this.iptables.filter(r => r !== `${table} :${chain}`);
+        return this.ok();
+      case '-S':
+      case '-L':
+        // Printed in "iptables -S" form: "-N CHAIN" for user chains, "-A CHAIN spec" for rules
+        return this.ok(this.iptables
+          .filter(r => r.startsWith(`${table} `) && (!chain || r.startsWith(`${table} ${chain} `) || r === `${table} :${chain}`))
+          .map(r => r.slice(table.length + 1))
+          .map(r => r.startsWith(':') ? `-N ${r.slice(1)}` : `-A ${r}`)
+          .join('\n'));
+      default:
+        return this.fail('iptables', args, `iptables: unknown option "${action}"`, 2);
+    }
+  }
+
+  // --- tc ---
+
+  private tcCmd(args: string[]): CommandResult {
+    const positional = args.filter(a => a !== '-s');
+    const [object, verb, devFlag, dev, ...spec] = positional;
+    if (devFlag !== 'dev' || !dev) {
+      return this.fail('tc', args, 'Command line is not complete. Try option "help"');
+    }
+    if (!this.radios.some(r => r.name === dev)) {
+      return this.fail('tc', args, `Cannot find device "${dev}"`);
+    }
+    const isIngress = (entry: string) => entry.includes('ingress') || entry.includes('ffff:');
+
+    switch (verb) {
+      case 'add':
+      case 'replace':
+        this.tc.push(`${dev} ${object} ${spec.join(' ')}`);
+        return this.ok();
+      case 'del': {
+        // Deleting the root or ingress qdisc removes everything attached to it
+        const ingress = spec[0] === 'ingress';
+        const attached = this.tc.filter(e => e.startsWith(`${dev} `) && isIngress(e) === ingress);
+        if (attached.length === 0) {
+          return this.fail('tc', args, 'Error: Cannot delete qdisc with handle of zero.', 2);
+        }
+        this.tc = this.tc.filter(e => !attached.includes(e));
+        return this.ok();
+      }
+      case 'show':
+        return this.ok(this.tc
+          .filter(e => e.startsWith(`${dev} ${object} `))
+          .map(e => `${object} ${e.slice(dev.length + object.length + 2)}`)
+          .join('\n'));
+      default:
+        return this.fail('tc', args, `Command "${verb}" is unknown, try "tc ${object} help".`);
+    }
+  }
+
+  // --- ip / arp / iw ---
+
+  private ip(args: string[]): CommandResult {
+    const positional = args.filter(a => !a.startsWith('-'));
+    const [object, verb, ...rest] = positional;
+    const brief = args.includes('-brief') || args.includes('-br');
+
+    if (object === 'link' && verb === 'show') {
+      const radio = this.radios.find(r => r.name === rest[0]);
+      if (rest[0] && !radio) return this.fail('ip', args, `Device "${rest[0]}" does not exist.`);
+      const list = radio ? [radio] : this.radios;
+      return this.ok(list.map(r => brief
+        ? `${r.name.padEnd(16)}${(r.connection ? 'UP' : 'DOWN').padEnd(14)}${r.mac} <BROADCAST,MULTICAST,UP>`
+        : `2: ${r.name}: <BROADCAST,MULTICAST,UP> mtu 1500\n    link/ether ${r.mac} brd ff:ff:ff:ff:ff:ff`).join('\n'));
+    }
+
+    if ((object === 'link' && (verb === 'del' || verb === 'delete')) || (object === 'link' && verb === 'set')) {
+      const name = rest[0] === 'dev' ? rest[1] : rest[0];
+      if (!this.wireguard.has(name) && !this.radios.some(r => r.name === name)) {
+        return this.fail('ip', args, `Cannot find device "${name}"`);
+      }
+      if (verb !== 'set') this.wireguard.delete(name);
+      return this.ok();
+    }
+
+    if ((object === 'a' || object === 'addr' || object === 'address') && (verb === 'show' || verb === undefined)) {
+      const name = rest[0];
+      if (name && this.wireguard.has(name)) {
+        return this.ok(`5: ${name}: <POINTOPOINT,NOARP,UP,LOWER_UP> mtu 1420\n    link/none`);
+      }
+      const list = name ? this.radios.filter(r => r.name === name) : this.radios;
+      if (name && list.length === 0) return this.fail('ip', args, `Device "${name}" does not exist.`);
+      return this.ok(list.map(r => {
+        const conn = this.activeConnection(r);
+        if (brief) {
+          return `${r.name.padEnd(16)}${(conn ? 'UP' : 'DOWN').padEnd(14)}${conn?.ipAddress || ''}`;
+        }
+        return `2: ${r.name}: <BROADCAST,MULTICAST,UP>\n    link/ether ${r.mac}` +
+          (conn?.ipAddress ? `\n    inet ${conn.ipAddress} scope global ${r.name}` : '');
+      }).join('\n'));
+    }
+
+    if (object === 'route') {
+      // Routes in other tables (policy routing) are not shown by the main table listing
+      if (args.includes('table')) return this.ok();
+      if (verb === 'add' || verb === 'replace' || verb === 'del' || verb === 'delete') {
+        return this.routeChange(args, verb, rest);
+      }
+
+      let lines: string[] = [];
+      for (const radio of this.radios) {
+        const conn = this.activeConnection(radio);
+        if (conn?.gateway) {
+          lines.push(`default via ${conn.gateway} dev ${radio.name} proto dhcp metric ${radio.type === 'wifi' ? 600 : 100}`);
+        }
+      }
+      // Routes through a device without an active connection went away with its address
+      lines.push(...this.routes.filter(route => {
+        const dev = route.match(/\bdev (\S+)/)?.[1];
+        const radio = this.radios.find(r => r.name === dev);
+        return !radio || !!radio.connection;
+      }));
+      for (const name of this.wireguard.keys()) {
+        lines.push(`10.0.0.0/24 dev ${name} scope link`);
+      }
+      const filter = verb === 'show' || verb === 'list' ? rest : [];
+      if (filter[0] === 'default') lines = lines.filter(line => line.startsWith('default'));
+      const dev = filter.indexOf('dev');
+      if (dev !== -1) lines = lines.filter(line => line.includes(` dev ${filter[dev + 1]} `) || line.endsWith(` dev ${filter[dev + 1]}`));
+      return this.ok(lines.join('\n'));
+    }
+
+    return this.ok();
+  }
+
+  private routeChange(args: string[], verb: string, spec: string[]): CommandResult {
+    const key = (route: string) => {
+      const words = route.split(' ');
+      const at = (name: string) => { const i = words.indexOf(name); return i === -1 ? '' : words[i + 1]; };
+      return `${words[0]} ${at('dev')} ${at('metric')}`;
+    };
+    const route = spec.join(' ');
+    const existing = this.routes.findIndex(r => key(r) === key(route));
+    if (verb === 'del' || verb === 'delete') {
+      if (existing === -1) return this.fail('ip', args, 'RTNETLINK answers: No such process', 2);
+      this.routes.splice(existing, 1);
+      return this.ok();
+    }
+    if (existing !== -1) {
+      if (verb === 'add') return this.fail('ip', args, 'RTNETLINK answers: File exists', 2);
+      this.routes.splice(existing, 1);
+    }
+    this.routes.push(route);
+    return this.ok();
+  }
+
+  private arp(args: string[]): CommandResult {
+    const filter = args.find(a => /^\d+\.\d+\.\d+\.\d+$/.test(a));
+    const lines: string[] = [];
+    for (const [radio, list] of this.clients.entries()) {
+      for (const client of list) {
+        if (filter && client.ip !== filter) continue;
+        lines.push(`${client.hostname || '?'} (${client.ip}) at ${client.mac} [ether] on ${radio}`);
+      }
+    }
+    if (filter && lines.length === 0) {
+      return this.ok(`? (${filter}) at <incomplete> on wlan0`);
+    }
+    return this.ok(lines.join('\n'));
+  }
+
+  private iw(args: string[]): CommandResult {
+    // iw dev <name> station dump | station del <mac>
+    const [, name, object, verb, mac] = args;
+    if (object !== 'station') {
+      return this.ok();
+    }
+    const list = this.clients.get(name) || [];
+    if (verb === 'del') {
+      this.clients.set(name, list.filter(c => c.mac !== (mac || '').toLowerCase()));
+      return this.ok();
+    }
+    return this.ok(list.map(c => [
+      `Station ${c.mac} (on ${name})`,
+      '\tinactive time:\t100 ms',
+      `\trx bytes:\t${c.rxBytes || 0}`,
+      `\ttx bytes:\t${c.txBytes || 0}`,
+      `\tsignal:  \t${c.signal} dBm`,
+      `\tconnected time:\t${c.connectedSeconds} seconds`
+    ].join('\n')).join('\n'));
+  }
+
+  // --- helpers ---
+
+  private writeLeases(): void {
+    const expiry = Math.floor(Date.now() / 1000) + 3600;
+    const lines: string[] = [];
+    for (const list of this.clients.values()) {
+      for (const c of list) {
+        lines.push(`${expiry} ${c.mac} ${c.ip} ${c.hostname || '*'} 01:${c.mac}`);
+      }
+    }
+    this.files.set('/var/lib/misc/dnsmasq.leases', lines.join('\n'));
+  }
+
+  private isLocalAddress(host: string): boolean {
+    return [...this.clients.values()].some(list => list.some(c => c.ip === host)) ||
+      this.connections.some(c => c.gateway === host || c.ipAddress?.split('/')[0] === host);
+  }
+
+  private channelFor(freq: number): number {
+    if (freq >= 5000) return Math.round((freq - 5000) / 5);
+    if (freq === 2484) return 14;
+    return Math.round((freq - 2407) / 5);
+  }
+
+  private optionValue(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+  }
+
+  private stripOptions(args: string[], options: string[]): string[] {
+    const result: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+      if (options.includes(args[i])) {
+        // -t and -s take no value
+        if (args[i] === '-g' || args[i] === '-f') i++;
+        continue;
+      }
+      if (args[i].startsWith('--')) continue;
+      result.push(args[i]);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,26 @@
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { ShellBackend } from './shell.backend';
+import { FakeBackend } from './fake.backend';
+
+export { ShellBackend } from './shell.backend';
+export { FakeBackend } from './fake.backend';
+
+export type BackendType = 'shell' | 'fake';
+
+/**
+ * Create the system backend to use.
+ * Defaults to the real system; set WORKHIVE_BACKEND=fake to run against
+ * the in-memory simulation (useful for demos and CI machines without radios).
+ */
+export function createSystemBackend(type: string | undefined = process.env.WORKHIVE_BACKEND): SystemBackend {
+  switch (type) {
+    case undefined:
+    case '':
+    case 'shell':
+      return new ShellBackend();
+    case 'fake':
+      return FakeBackend.withDefaults();
+    default:
+      throw new Error(`Unknown system backend "${type}". Expected "shell" or "fake".`);
+  }
+}
@@ -0,0 +1,39 @@
+import fs from 'fs/promises';
+import { runCommand, RunCommandOptions } from '../utils/command.util';
+import { CommandResult, SystemBackend } from '../interfaces/system-backend.interface';
+
+/**
+ * Backend that talks to the real system by spawning programs.
+ * Files that are not readable or writable by the current user are accessed
+ * through `sudo cat` / `sudo tee`, matching how the services ran before.
+ */
+export class ShellBackend implements SystemBackend {
+  async run(program: string, args: string[] = [], options: RunCommandOptions = {}): Promise<CommandResult> {
+    return runCommand(program, args, options);
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    try {
+      return (await fs.readFile(filePath, 'utf-8')).trim();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EACCES') {
+        throw error;
+      }
+      const { stdout } = await runCommand('sudo', ['cat', filePath]);
+      return stdout;
+    }
+  }
+
+  async writeFile(filePath: string, content: string, options: { mode?: number } = {}): Promise<void> {
+    await runCommand('sudo', ['tee', filePath], { input: content });
+    if (options.mode !== undefined) {
+      await runCommand('sudo', ['chmod', options.mode.toString(8), filePath]);
+    }
+  }
+
+  async fileExists(filePath: string): Promise<boolean> {
+    return runCommand('sudo', ['test', '-f', filePath])
+      .then(() => true)
+      .catch(() => false);
+  }
+}
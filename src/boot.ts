@@ -1,8 +1,18 @@
-// boot.ts - Apply default configuration at boot time
+// boot.ts - Apply default configuration at boot time and keep it up
 import { NetworkControl } from './services/network-control.service';
+import { formatBytes } from './utils/size.util';
+import { profilePortal, profileTunnels } from './utils/config.util';
 
-async function applyBootConfig() {
-  const networkControl = new NetworkControl();
+// Give NetworkManager a chance to recover on its own before stepping in
+const RECOVERY_DELAY_MS = 15000;
+const DEVICE_RECORD_INTERVAL_MS = 60000;
+const USAGE_SAMPLE_INTERVAL_MS = 60000;
+const KEY_ROTATION_INTERVAL_MS = 3600000;
+const DDNS_INTERVAL_MS = 300000;
+// Time for a new uplink to settle before asking what the public IP is
+const DDNS_RECONNECT_DELAY_MS = 20000;
+
+async function applyBootConfig(networkControl: NetworkControl): Promise<boolean> {
   try {
     console.log('WorkHive: Applying boot configuration...');
     // Get the default configuration
@@ -12,7 +22,7 @@ async function applyBootConfig() {
       const result = await networkControl.activateConfig(defaultConfig);
       if (result) {
         console.log('WorkHive: Successfully activated boot configuration');
-        return;
+        return true;
       } else {
         console.error('WorkHive: Failed to activate boot configuration');
       }
@@ -21,10 +31,244 @@ async function applyBootConfig() {
     }
     // Fallback: Try to use last WiFi network
     console.log('WorkHive: Attempting to reconnect to last WiFi network');
-    await networkControl.reconnectLastWifi();
+    return await networkControl.reconnectLastWifi();
   } catch (error) {
     console.error('WorkHive boot error:', error);
+    return false;
+  }
+}
+
+/**
+ * Log network events to the journal and re-apply the boot configuration
+ * when the connection drops and does not come back by itself
+ */
+async function watchNetwork(networkControl: NetworkControl) {
+  const monitor = await networkControl.startEventMonitor();
+  let recoveryTimer: NodeJS.Timeout | undefined;
+
+  monitor.on('event', ({ type, timestamp, ...details }) => {
+    console.log(`WorkHive: ${type} ${JSON.stringify(details)}`);
+  });
+
+  monitor.on('disconnected', () => {
+    if (recoveryTimer) return;
+    recoveryTimer = setTimeout(async () => {
+      const status = await networkControl.getStatus();
+      if (!status.connected) {
+        console.log('WorkHive: Still disconnected, re-applying boot configuration');
+        await applyBootConfig(networkControl);
+      }
+      recoveryTimer = undefined;
+    }, RECOVERY_DELAY_MS);
+  });
+
+  // Keep the device registry's first/last seen times current even when nobody has the TUI open
+  const recordDevices = () => { networkControl.getConnectedDevices().catch(() => undefined); };
+  monitor.on('client-joined', recordDevices);
+  monitor.on('client-joined', async ({ mac, hostname }) => {
+    const pending = await networkControl.getPendingDevices().catch(() => []);
+    if (pending.some(d => d.mac === mac)) {
+      console.log(`WorkHive: New device ${hostname || mac} is awaiting approval (wifi-manager devices approve ${mac})`);
+    }
+  });
+  setInterval(recordDevices, DEVICE_RECORD_INTERVAL_MS);
+
+  // Usage totals survive reboots; report each quota once when it runs out
+  const reportedQuotas = new Set<string>();
+  const sampleUsage = async () => {
+    try {
+      const states = await networkControl.sampleUsage();
+      for (const { quota, used, exceeded } of states) {
+        const key = `${quota.scope}:${quota.target}:${quota.period}`;
+        if (exceeded && !reportedQuotas.has(key)) {
+          reportedQuotas.add(key);
+          const effect = quota.action === 'cutoff' ? 'forwarding stopped' : 'warning only';
+          console.log(`WorkHive: Quota for ${quota.scope} ${quota.target} used up for this ${quota.period} (${formatBytes(used)}, ${effect})`);
+        } else if (!exceeded) {
+          reportedQuotas.delete(key);
+        }
+      }
+    } catch (error) {
+      console.error('WorkHive: Usage sampling failed:', error);
+    }
+  };
+  await sampleUsage();
+  setInterval(sampleUsage, USAGE_SAMPLE_INTERVAL_MS);
+
+  monitor.on('connected', () => {
+    if (recoveryTimer) clearTimeout(recoveryTimer);
+    recoveryTimer = undefined;
+  });
+  monitor.on('ap-started', () => {
+    if (recoveryTimer) clearTimeout(recoveryTimer);
+    recoveryTimer = undefined;
+  });
+
+  console.log(`WorkHive: Watching network events (${monitor.usingDbus ? 'NetworkManager signals' : 'polling'})`);
+}
+
+/**
+ * Tunnels of the saved profiles running now. Boot may have fallen back from
+ * the default profile to the last Wi-Fi network, and a hotspot can run beside
+ * an upstream connection.
+ */
+async function runningProfileTunnels(networkControl: NetworkControl): Promise<string[]> {
+  const [status, hotspot, configs] = await Promise.all([
+    networkControl.getStatus(),
+    networkControl.getHotspotStatus(),
+    networkControl.listConfigs()
+  ]);
+  const running = [status, hotspot].filter(s => s.connected && s.ssid);
+  const tunnels = configs
+    .filter(({ config }) => running.some(s => s.ssid === config.ssid && (s.mode === 'ap') === (config.mode === 'hotspot')))
+    .flatMap(({ config }) => profileTunnels(config));
+  return [...new Set(tunnels)];
+}
+
+/**
+ * Keep the running profiles' VPN tunnels alive: restart or fail over stale
+ * tunnels and log what was done. The watched tunnels follow the connection
+ * when it changes.
+ */
+async function watchTunnels(networkControl: NetworkControl) {
+  let watching: string | undefined;
+  const follow = async () => {
+    const tunnels = await runningProfileTunnels(networkControl);
+    const description = tunnels.join(', ');
+    if (description === watching || (watching === undefined && tunnels.length === 0)) return;
+
+    const monitor = networkControl.startTunnelMonitor(tunnels);
+    if (watching === undefined) {
+      monitor.on('event', ({ type, timestamp, ...details }) => {
+        console.log(`WorkHive: ${type} ${JSON.stringify(details)}`);
+      });
+    }
+    watching = description;
+    console.log(`WorkHive: Watching VPN tunnel health (${description || 'no tunnels'})`);
+  };
+  await follow();
+
+  const refollow = () => {
+    follow().catch(error => console.error('WorkHive: Could not update the watched VPN tunnels:', error));
+  };
+  const events = await networkControl.startEventMonitor();
+  events.on('connected', refollow);
+  events.on('ap-started', refollow);
+}
+
+/**
+ * Keep traffic, and hotspot clients' NAT, on the preferred uplink that works
+ */
+async function watchUplinks(networkControl: NetworkControl) {
+  const monitor = networkControl.startUplinkMonitor();
+  monitor.on('event', ({ type, timestamp, ...details }) => {
+    console.log(`WorkHive: ${type} ${JSON.stringify(details)}`);
+  });
+  const uplinks = await monitor.check();
+  if (monitor.current) {
+    const standby = uplinks.filter(u => u.interfaceName !== monitor.current && u.up && !u.disabled);
+    console.log(`WorkHive: Uplink ${monitor.current}${standby.length > 0 ? `, standby ${standby.map(u => u.interfaceName).join(', ')}` : ''}`);
+  }
+}
+
+/**
+ * Serve the captive portal when a hotspot profile has one; the page itself
+ * follows whichever profile's hotspot is running
+ */
+async function watchPortal(networkControl: NetworkControl) {
+  const configs = await networkControl.listConfigs();
+  if (!configs.some(({ config }) => config.mode === 'hotspot' && profilePortal(config)?.enabled)) return;
+
+  const portal = await networkControl.startCaptivePortal();
+  portal.on('event', ({ type, timestamp, ...details }) => {
+    console.log(`WorkHive: ${type} ${JSON.stringify(details)}`);
+  });
+  console.log(`WorkHive: Captive portal on HTTP port ${portal.httpPort}, DNS port ${portal.dnsPort}`);
+}
+
+/**
+ * Carry out the key rotation schedule: revoke keys whose overlap has ended,
+ * switch tunnels to their pending keys and rotate when due
+ */
+async function rotateKeys(networkControl: NetworkControl) {
+  const run = async () => {
+    try {
+      const result = await networkControl.runScheduledKeyRotation();
+      for (const name of result.revoked) {
+        console.log(`WorkHive: Revoked the old key of peer ${name}`);
+      }
+      for (const name of result.switched) {
+        console.log(`WorkHive: Tunnel ${name} switched to its new key`);
+      }
+      for (const peer of result.peers) {
+        console.log(`WorkHive: Rotated the key of peer ${peer.name}, new config in ${peer.file}`);
+      }
+      for (const tunnel of result.tunnels) {
+        console.log(`WorkHive: New key for tunnel ${tunnel.name} (${tunnel.publicKey}) must be registered on its server before ${tunnel.switchAt}`);
+      }
+    } catch (error) {
+      console.error('WorkHive: Key rotation failed:', error);
+    }
+  };
+  await run();
+  setInterval(run, KEY_ROTATION_INTERVAL_MS);
+}
+
+/**
+ * Keep dynamic DNS records pointing at the public IP; the address usually
+ * changes on reconnect or a switch of uplink, so check shortly after each too
+ */
+async function updateDns(networkControl: NetworkControl) {
+  const update = async () => {
+    try {
+      for (const result of await networkControl.updateDdns()) {
+        if (result.outcome === 'updated') {
+          console.log(`WorkHive: Dynamic DNS ${result.hostname} -> ${result.ip}`);
+        } else if (result.outcome === 'failed') {
+          console.error(`WorkHive: Dynamic DNS update of ${result.hostname} failed, retrying at ${result.retryAt}: ${result.error}`);
+        }
+      }
+    } catch (error) {
+      console.error('WorkHive: Dynamic DNS update failed:', error);
+    }
+  };
+  await update();
+  setInterval(update, DDNS_INTERVAL_MS);
+
+  const monitor = await networkControl.startEventMonitor();
+  monitor.on('connected', () => { setTimeout(update, DDNS_RECONNECT_DELAY_MS); });
+  networkControl.startUplinkMonitor().on('uplink-changed', () => { setTimeout(update, DDNS_RECONNECT_DELAY_MS); });
+}
+
+async function main() {
+  const networkControl = new NetworkControl();
+  await applyBootConfig(networkControl);
+  try {
+    await watchNetwork(networkControl);
+  } catch (error) {
+    console.error('WorkHive: Could not watch network events:', error);
+  }
+  try {
+    await watchTunnels(networkControl);
+  } catch (error) {
+    console.error('WorkHive: Could not watch VPN tunnels:', error);
+  }
+  try {
+    await watchUplinks(networkControl);
+  } catch (error) {
+    console.error('WorkHive: Could not watch uplinks:', error);
+  }
+  try {
+    await watchPortal(networkControl);
+  } catch (error) {
+    console.error('WorkHive: Could not start the captive portal:', error);
+  }
+  await rotateKeys(networkControl);
+  try {
+    await updateDns(networkControl);
+  } catch (error) {
+    console.error('WorkHive: Could not watch for public IP changes:', error);
   }
 }
 
-applyBootConfig();
+main();
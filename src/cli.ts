@@ -1,5 +1,5 @@
 #!/usr/bin/env node
-import { NetworkControl } from './services/network-control.service';
+import { NetworkControl, NETWORK_BACKEND_TYPES, isNetworkBackendType } from './services/network-control.service';
 import {
   generateSignalBars,
   generateNetworkQR,
@@ -8,13 +8,31 @@ import {
   formatSectionHeader,
   formatStatusLine,
   formatVpnStatus,
+  formatKillSwitch,
+  formatNetworkEvent,
+  formatTable,
+  formatWireGuardConfig,
+  formatUplinkKind,
   getPublicIp
 } from './utils/display.util';
 import { launchMainTUI } from './tui'; // Import the main TUI launcher
 
-import { displayFormattedStatus } from './utils/status-formatter.util';
+import { displayFormattedStatus, formatDdnsStatus } from './utils/status-formatter.util';
 import { program } from 'commander';
-import { executeCommand } from './utils/command.util';
+import { runCommand } from './utils/command.util';
+import { isMacAddress } from './utils/mac.util';
+import { formatBytes, parseSize } from './utils/size.util';
+import { formatDuration, parseDuration } from './utils/duration.util';
+import { UsageQuota } from './interfaces/usage.interface';
+import { profilePortal, profileTunnels, RoutingRule } from './utils/config.util';
+import { WireGuardClientOptions, WireGuardConfig } from './interfaces/wireguard.interface';
+import { DdnsRecord } from './interfaces/ddns.interface';
+import { DDNS_PROVIDER_TYPES } from './services/ddns.service';
+import { UplinkStatus } from './interfaces/uplink.interface';
+import { DEFAULT_UPLINK_PROBE_HOST } from './services/uplink.service';
+import { HotspotChannelWidth, HotspotOptions } from './interfaces/wifi.interface';
+import { formatHotspotOptions, HOTSPOT_BANDS, HOTSPOT_CHANNEL_WIDTHS, HOTSPOT_SECURITY_MODES } from './utils/hotspot.util';
+import { DEFAULT_PORTAL_DNS_PORT, DEFAULT_PORTAL_HOURS, DEFAULT_PORTAL_HTTP_PORT } from './services/captive-portal.service';
 import readline from 'readline';
 
 // Function to handle interactive mode
@@ -28,7 +46,18 @@ const networkControl = new NetworkControl();
 program
   .name('wifi-manager')
   .description('WiFi Management CLI')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--network-backend <type>', `NetworkManager backend to use for this run (${NETWORK_BACKEND_TYPES.join(', ')})`)
+  .hook('preAction', () => {
+    const { networkBackend } = program.opts();
+    if (networkBackend) {
+      if (!isNetworkBackendType(networkBackend)) {
+        console.error(`Unknown network backend "${networkBackend}". Use one of: ${NETWORK_BACKEND_TYPES.join(', ')}`);
+        process.exit(1);
+      }
+      networkControl.useNetworkBackend(networkBackend);
+    }
+  });
 
 program
   .command('interactive')
@@ -98,13 +127,14 @@ program
   .option('-p, --password <password>', 'Network password')
   .option('--hidden', 'Hidden network')
   .option('-s, --save <n>', 'Save this connection with given name')
+  .option('-i, --interface <name>', 'Wi-Fi interface to join with, e.g. a second adapter while wlan0 serves the hotspot')
   .action(async (ssid, options) => {
-    console.log(`Connecting to "${ssid}"...`);
-    const result = await networkControl.connect(ssid, options.password);
+    console.log(`Connecting to "${ssid}"${options.interface ? ` on ${options.interface}` : ''}...`);
+    const result = await networkControl.connect(ssid, options.password, options.interface);
     console.log(result ? 'Connected successfully' : 'Connection failed');
 
     if (result && options.save) {
-      await networkControl.saveCurrentSetup(options.save);
+      await networkControl.saveCurrentSetup(options.save, options.interface);
       console.log(`Configuration saved as "${options.save}"`);
     }
   });
@@ -112,9 +142,10 @@ program
 program
   .command('disconnect')
   .description('Disconnect from current network')
-  .action(async () => {
+  .option('-i, --interface <name>', 'Wi-Fi interface to disconnect (default: the one joined to a network)')
+  .action(async (options) => {
     console.log('Disconnecting...');
-    const result = await networkControl.disconnect();
+    const result = await networkControl.disconnect(options.interface);
     console.log(result ? 'Disconnected successfully' : 'Disconnection failed');
   });
 
@@ -122,10 +153,14 @@ program
   .command('status')
   .description('Show current status')
   .option('-d, --detailed', 'Show detailed status information')
+  .option('-i, --interface <name>', 'Show this interface only')
   .action(async (options) => {
     console.log(colorize('Fetching network status...', 'cyan'));
-    const status = await networkControl.getStatus();
+    const status = await networkControl.getStatus(options.interface);
+    const radios = options.interface ? [] : await networkControl.getInterfaceStatuses().catch(() => []);
     const vpnStatus = await networkControl.getWireGuardStatus();
+    const setipStatus = await networkControl.getSetipStatus().catch(() => undefined);
+    const ddnsStatus = await networkControl.getDdnsStatus().catch(() => undefined);
 
     // Get saved configurations to show most recent
     let savedConfigs: { id: string; config: any }[] = [];
@@ -141,23 +176,27 @@ program
       undefined;
 
     // Use the formatted status display
-    await displayFormattedStatus(status, vpnStatus, matchingConfig, options.detailed);
-
-    // Show QR code based on connection mode if we have an active connection
-    if (status.connected && status.ssid) {
-      if (status.mode === 'ap') {
+    await displayFormattedStatus(status, vpnStatus, matchingConfig, options.detailed, { setip: setipStatus, ddns: ddnsStatus, radios });
+
+    // Show QR code based on connection mode if we have an active connection. With the
+    // hotspot on a second radio, status is the upstream link and the hotspot is shared.
+    const hotspot = status.mode === 'ap' ? status : radios.find(r => r.connected && r.mode === 'ap');
+    const hotspotSsid = hotspot?.connected ? hotspot.ssid : undefined;
+    if (hotspotSsid || (status.connected && status.ssid)) {
+      if (hotspotSsid) {
         console.log('\nHotspot Share QR Code:');
         console.log('Scan this code with a mobile device to connect to your hotspot:');
         try {
           // Try to get the hotspot password
           let password;
           try {
-            password = await networkControl.getHotspotPassword(status.ssid);
+            password = await networkControl.getHotspotPassword(hotspotSsid);
           } catch (passwordErr) {
             try {
               // Fallback to direct connection file lookup
-              const { stdout: connInfo } = await executeCommand(`sudo grep -r "psk=" /etc/NetworkManager/system-connections/ | grep -i "${status.ssid}"`);
-              const passwordMatch = connInfo.match(/psk=([^\s]+)/);
+              const { stdout: connInfo } = await runCommand('sudo', ['grep', '-r', 'psk=', '/etc/NetworkManager/system-connections/']);
+              const ssidLine = connInfo.split('\n').find(line => line.toLowerCase().includes(hotspotSsid.toLowerCase()));
+              const passwordMatch = ssidLine?.match(/psk=([^\s]+)/);
               if (passwordMatch && passwordMatch[1]) {
                 password = passwordMatch[1];
               }
@@ -167,10 +206,10 @@ program
           }
 
           if (password) {
-            await generateNetworkQR(status.ssid, password);
+            await generateNetworkQR(hotspotSsid, password);
 
             // Show connected devices count if in hotspot mode
-            const devices = await networkControl.getConnectedDevices();
+            const devices = await networkControl.getConnectedDevices(hotspot?.interfaceName);
             if (devices.length > 0) {
               console.log(`\nDevices connected to hotspot: ${devices.length}`);
               console.log('Use "wifi-manager devices list" for details');
@@ -179,13 +218,13 @@ program
             }
           } else {
             console.log('Could not retrieve password - QR code will only contain SSID');
-            await generateNetworkQR(status.ssid);
+            await generateNetworkQR(hotspotSsid);
           }
         } catch (err) {
           console.log('Error generating QR code - showing SSID only');
-          await generateNetworkQR(status.ssid);
+          await generateNetworkQR(hotspotSsid);
         }
-      } else {
+      } else if (status.ssid) {
         // In client mode - show current connection QR code
         console.log('\nWiFi Connection QR Code:');
         console.log('Scan this code to connect to the same network:');
@@ -194,7 +233,7 @@ program
           let password;
           try {
             // Method 1: Try using nmcli with -s (secret) flag
-            const { stdout: nmcliInfo } = await executeCommand(`nmcli -s -g 802-11-wireless-security.psk connection show "${status.ssid}"`);
+            const { stdout: nmcliInfo } = await runCommand('nmcli', ['-s', '-g', '802-11-wireless-security.psk', 'connection', 'show', status.ssid!]);
             if (nmcliInfo && nmcliInfo.trim()) {
               password = nmcliInfo.trim();
             }
@@ -202,7 +241,7 @@ program
             // If first method fails, try the second method
             try {
               // Method 2: Try reading from connection file directly
-              const { stdout: connInfo } = await executeCommand(`sudo cat "/etc/NetworkManager/system-connections/${status.ssid}.nmconnection" | grep psk=`);
+              const { stdout: connInfo } = await runCommand('sudo', ['grep', 'psk=', `/etc/NetworkManager/system-connections/${status.ssid!.replace(/\//g, '')}.nmconnection`]);
               const passwordMatch = connInfo.match(/psk=(.+)/);
               if (passwordMatch && passwordMatch[1]) {
                 password = passwordMatch[1];
@@ -228,6 +267,31 @@ program
     }
   });
 
+program
+  .command('watch')
+  .description('Stream connection, hotspot client and VPN handshake events until interrupted')
+  .option('--json', 'Print one JSON object per event')
+  .action(async (options) => {
+    const monitor = await networkControl.startEventMonitor();
+
+    if (!options.json) {
+      const status = await networkControl.getStatus();
+      console.log(colorize(`Watching network events (${monitor.usingDbus ? 'NetworkManager signals' : 'polling'}). Press Ctrl+C to stop.`, 'cyan'));
+      console.log(status.connected
+        ? `Currently ${status.mode === 'ap' ? 'hosting' : 'connected to'} "${status.ssid}" on ${status.interfaceName}`
+        : 'Currently disconnected');
+    }
+
+    monitor.on('event', event => {
+      console.log(options.json ? JSON.stringify(event) : formatNetworkEvent(event));
+    });
+
+    process.on('SIGINT', () => {
+      networkControl.stopEventMonitor();
+      process.exit(0);
+    });
+  });
+
 // Create a single config command with subcommands
 const configCommand = program
   .command('config')
@@ -237,9 +301,10 @@ configCommand
   .command('save')
   .description('Save current network configuration')
   .argument('<n>', 'Configuration name')
-  .action(async (name) => {
+  .option('-i, --interface <name>', 'Save what this interface is doing, e.g. the hotspot radio')
+  .action(async (name, options) => {
     try {
-      await networkControl.saveCurrentSetup(name);
+      await networkControl.saveCurrentSetup(name, options.interface);
       console.log('Configuration saved successfully');
     } catch (error) {
       console.error('Failed to save configuration:', error);
@@ -265,8 +330,15 @@ configCommand
         if (config.lastUsed) {
           console.log(`   Last used: ${new Date(config.lastUsed).toLocaleString()}`);
         }
-        if (config.vpnEnabled) {
-          console.log('   VPN: Enabled');
+        const tunnels = profileTunnels(config);
+        if (tunnels.length > 0) {
+          console.log(`   VPN: ${tunnels.join(', ')}${config.killSwitch ? ' (kill switch)' : ''}`);
+        }
+        if (config.routing?.length) {
+          console.log(`   Routing rules: ${config.routing.length}`);
+        }
+        if (config.hotspot && formatHotspotOptions(config.hotspot)) {
+          console.log(`   Radio: ${formatHotspotOptions(config.hotspot)}`);
         }
         console.log('');
       });
@@ -288,6 +360,23 @@ configCommand
     }
   });
 
+configCommand
+  .command('vpn')
+  .description('Choose the VPN tunnels a saved network brings up after connecting')
+  .argument('<id>', 'Configuration ID')
+  .argument('[tunnels...]', 'Tunnel names; none to turn VPN off for this network')
+  .action(async (id, tunnels: string[]) => {
+    try {
+      await networkControl.setProfileTunnels(id, tunnels);
+      console.log(tunnels.length > 0
+        ? `${id} will bring up: ${tunnels.join(', ')}`
+        : `${id} will not bring up any VPN tunnel`);
+    } catch (error) {
+      console.error('Failed to update configuration:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
 configCommand
   .command('deduplicate')
   .description('Remove duplicate configurations')
@@ -345,31 +434,568 @@ configCommand
     }
   });
 
+configCommand
+  .command('backend')
+  .description('Show or set the NetworkManager backend (nmcli or dbus)')
+  .argument('[type]', `Backend to use by default (${NETWORK_BACKEND_TYPES.join(', ')})`)
+  .action(async (type) => {
+    try {
+      if (!type) {
+        console.log(`Network backend: ${await networkControl.getNetworkBackendType()}`);
+        return;
+      }
+      if (!isNetworkBackendType(type)) {
+        console.error(`Unknown network backend "${type}". Use one of: ${NETWORK_BACKEND_TYPES.join(', ')}`);
+        return;
+      }
+      await networkControl.setNetworkBackend(type);
+      console.log(`Network backend set to ${type}`);
+    } catch (error) {
+      console.error('Failed to set network backend:', error);
+    }
+  });
+
 program
   .command('device')
-  .description('Manage device authorization')
+  .description('Manage device authorization for the running hotspot')
   .option('-a, --allow <mac>', 'Allow MAC address')
   .option('-r, --remove <mac>', 'Remove MAC address')
+  .option('-l, --list', 'List allowed MAC addresses')
   .action(async (options) => {
     try {
-      const { stdout } = await executeCommand('cat /etc/NetworkManager/dnsmasq.d/dhcp-options.conf');
-      const currentMacs = stdout.split('\n')
-        .filter(line => line.startsWith('dhcp-host='))
-        .map(line => line.split('=')[1]);
-
-      let macs = [...currentMacs];
-
       if (options.allow) {
-        macs.push(options.allow);
+        await networkControl.approveDevice(options.allow);
       }
       if (options.remove) {
-        macs = macs.filter(mac => mac !== options.remove);
+        await networkControl.revokeDeviceApproval(options.remove);
+      }
+      if (options.list) {
+        const { config } = await networkControl.getHotspotProfile();
+        const allowed = config.deviceAuth?.allowedMacs || [];
+        console.log(allowed.length ? allowed.join('\n') : 'No devices allowed');
+      } else {
+        console.log('Device authorization updated successfully');
+      }
+    } catch (error) {
+      console.error('Failed to update device authorization:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+// Hotspot client management
+function describeVendor(device: { vendor?: string; randomizedMac?: boolean }): string {
+  if (device.randomizedMac) return 'random MAC';
+  return device.vendor || '-';
+}
+
+const devicesCommand = program
+  .command('devices')
+  .description('List and manage devices connected to the hotspot');
+
+devicesCommand
+  .command('list')
+  .description('List devices connected to the hotspot')
+  .option('--json', 'Output as JSON')
+  .option('-i, --interface <name>', 'Hotspot interface, when more than one radio serves a hotspot')
+  .action(async (options) => {
+    try {
+      const devices = await networkControl.getConnectedDevices(options.interface);
+      if (options.json) {
+        console.log(JSON.stringify(devices, null, 2));
+        return;
+      }
+      if (devices.length === 0) {
+        console.log('No devices connected to the hotspot.');
+        return;
+      }
+      console.log(formatTable(
+        ['MAC', 'IP', 'HOSTNAME', 'LABEL', 'VENDOR'],
+        devices.map(d => [d.mac, d.ip, d.hostname || '-', d.label || '-', describeVendor(d)])
+      ));
+    } catch (error) {
+      console.error('Failed to list devices:', error);
+    }
+  });
+
+devicesCommand
+  .command('history')
+  .description('List every device that has used the hotspot, online ones first')
+  .option('--since <date>', 'Only devices seen on or after this date (e.g. 2025-06-01)')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      let devices = await networkControl.getDeviceInventory();
+      if (options.since) {
+        const since = new Date(options.since);
+        if (isNaN(since.getTime())) {
+          console.error(`Invalid date: ${options.since}`);
+          process.exitCode = 1;
+          return;
+        }
+        devices = devices.filter(d => d.online || (d.lastSeen && new Date(d.lastSeen) >= since));
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(devices, null, 2));
+        return;
+      }
+      if (devices.length === 0) {
+        console.log('No devices recorded yet.');
+        return;
+      }
+      console.log(formatTable(
+        ['', 'MAC', 'NAME', 'VENDOR', 'OWNER', 'TRUST', 'LAST IP', 'FIRST SEEN', 'LAST SEEN'],
+        devices.map(d => [
+          d.online ? colorize('●', 'green') : '',
+          d.mac,
+          d.label || d.hostname || '-',
+          describeVendor(d),
+          d.owner || '-',
+          d.blocked ? 'blocked' : (d.trust || 'unknown'),
+          d.ip || '-',
+          d.firstSeen ? new Date(d.firstSeen).toLocaleString() : '-',
+          d.online ? 'now' : (d.lastSeen ? new Date(d.lastSeen).toLocaleString() : '-')
+        ])
+      ));
+    } catch (error) {
+      console.error('Failed to list device history:', error);
+    }
+  });
+
+devicesCommand
+  .command('show')
+  .description('Show details for a connected device')
+  .argument('<device>', 'IP or MAC address')
+  .option('--json', 'Output as JSON')
+  .action(async (device, options) => {
+    try {
+      const connected = await networkControl.findConnectedDevice(device);
+      const mac = connected?.mac || (isMacAddress(device) ? device : undefined);
+      const record = mac ? await networkControl.getDeviceRecord(mac) : undefined;
+
+      if (!connected && !record) {
+        console.error(`Device ${device} is not connected and has never been seen.`);
+        process.exitCode = 1;
+        return;
+      }
+
+      const details = connected ? await networkControl.getDeviceDetails(connected.ip) : undefined;
+      const result = { ...record, ...connected, ...details, label: record?.label, blocked: !!record?.blocked, connected: !!connected };
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
+
+      console.log(formatSectionHeader(`Device ${result.label || result.hostname || result.mac || device}`));
+      console.log(formatStatusLine('MAC', result.mac || mac || 'unknown'));
+      console.log(formatStatusLine('Connected', result.connected ? 'Yes' : 'No', undefined, result.connected ? 'green' : 'red'));
+      if (result.ip) console.log(formatStatusLine('IP', result.ip, 'ip'));
+      if (result.hostname) console.log(formatStatusLine('Hostname', result.hostname));
+      if (result.label) console.log(formatStatusLine('Label', result.label));
+      if (result.vendor) console.log(formatStatusLine('Vendor', result.vendor));
+      if (result.owner) console.log(formatStatusLine('Owner', result.owner));
+      console.log(formatStatusLine('Trust', result.trust || 'unknown'));
+      if (result.firstSeen) console.log(formatStatusLine('First seen', new Date(result.firstSeen).toLocaleString()));
+      if (!result.connected && result.lastSeen) console.log(formatStatusLine('Last seen', new Date(result.lastSeen).toLocaleString()));
+      if (result.hostnames && result.hostnames.length > 1) console.log(formatStatusLine('Hostnames', result.hostnames.join(', ')));
+      if (result.ips && result.ips.length > 1) console.log(formatStatusLine('IPs used', result.ips.join(', ')));
+      console.log(formatStatusLine('Blocked', result.blocked ? 'Yes' : 'No', undefined, result.blocked ? 'red' : undefined));
+      if (result.signalStrength) console.log(formatStatusLine('Signal', result.signalStrength, 'strength'));
+      if (result.connectionTime) console.log(formatStatusLine('Connected for', result.connectionTime));
+      if (result.openPorts) console.log(formatStatusLine('Open ports', result.openPorts.join(', ')));
+      if (result.pingResponse) console.log(`\n${result.pingResponse}`);
+    } catch (error) {
+      console.error('Failed to show device:', error);
+    }
+  });
+
+devicesCommand
+  .command('kick')
+  .description('Disconnect a device from the hotspot (it may reconnect)')
+  .argument('<mac>', 'MAC address')
+  .action(async (mac) => {
+    try {
+      await networkControl.kickDevice(mac);
+      console.log(`Device ${mac} disconnected`);
+    } catch (error) {
+      console.error('Failed to kick device:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+devicesCommand
+  .command('block')
+  .description('Disconnect a device and keep it off the hotspot')
+  .argument('<mac>', 'MAC address')
+  .action(async (mac) => {
+    try {
+      await networkControl.blockDevice(mac);
+      console.log(`Device ${mac} blocked`);
+    } catch (error) {
+      console.error('Failed to block device:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+devicesCommand
+  .command('unblock')
+  .description('Allow a blocked device to connect again')
+  .argument('<mac>', 'MAC address')
+  .action(async (mac) => {
+    try {
+      await networkControl.unblockDevice(mac);
+      console.log(`Device ${mac} unblocked`);
+    } catch (error) {
+      console.error('Failed to unblock device:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+devicesCommand
+  .command('rename')
+  .description('Give a device a friendly name')
+  .argument('<mac>', 'MAC address')
+  .argument('<label>', 'New name')
+  .action(async (mac, label) => {
+    try {
+      await networkControl.renameDevice(mac, label);
+      console.log(`Device ${mac} renamed to "${label}"`);
+    } catch (error) {
+      console.error('Failed to rename device:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+devicesCommand
+  .command('update-vendors')
+  .description('Download the latest IEEE OUI registry for vendor lookup')
+  .option('--info', 'Only show which vendor database is in use')
+  .action(async (options) => {
+    try {
+      if (!options.info) {
+        console.log('Downloading IEEE OUI registries...');
+        const count = await networkControl.updateVendorDatabase();
+        console.log(`Vendor database updated with ${count} prefixes`);
+      }
+      const info = await networkControl.getVendorDatabaseInfo();
+      console.log(`Vendor database: ${info.entries} prefixes from ${info.source}`);
+    } catch (error) {
+      console.error('Failed to update vendor database (the bundled copy stays in use):', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+devicesCommand
+  .command('owner')
+  .description('Record who a device belongs to')
+  .argument('<mac>', 'MAC address')
+  .argument('<owner>', 'Owner name')
+  .action(async (mac, owner) => {
+    try {
+      await networkControl.setDeviceOwner(mac, owner);
+      console.log(`Device ${mac} now belongs to "${owner}"`);
+    } catch (error) {
+      console.error('Failed to set device owner:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+devicesCommand
+  .command('trust')
+  .description('Mark a device as trusted, untrusted or unknown')
+  .argument('<mac>', 'MAC address')
+  .argument('<level>', 'trusted, untrusted or unknown')
+  .action(async (mac, level) => {
+    if (!['trusted', 'untrusted', 'unknown'].includes(level)) {
+      console.error('Trust level must be one of: trusted, untrusted, unknown');
+      process.exitCode = 1;
+      return;
+    }
+    try {
+      await networkControl.setDeviceTrust(mac, level);
+      console.log(`Device ${mac} marked as ${level}`);
+    } catch (error) {
+      console.error('Failed to set device trust:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+devicesCommand
+  .command('approval')
+  .description('Show or set approval mode: new devices wait in a queue until approved')
+  .argument('[state]', 'on or off')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .action(async (state, options) => {
+    if (state && !['on', 'off'].includes(state)) {
+      console.error('State must be "on" or "off"');
+      process.exitCode = 1;
+      return;
+    }
+    try {
+      if (state) {
+        const id = await networkControl.setApprovalMode(state === 'on', options.profile);
+        console.log(`Approval mode ${state} for profile ${id}`);
+        return;
+      }
+      const { id, config } = await networkControl.getHotspotProfile(options.profile);
+      const deviceAuth = config.deviceAuth;
+      const mode = deviceAuth?.enabled ? 'on' : profilePortal(config)?.enabled ? 'on (captive portal)' : 'off';
+      console.log(`Approval mode: ${mode} (profile ${id})`);
+      for (const mac of deviceAuth?.allowedMacs || []) {
+        console.log(`  ${mac}  approved`);
+      }
+      for (const approval of deviceAuth?.timedApprovals || []) {
+        const expires = new Date(approval.expiresAt);
+        const until = expires > new Date() ? `until ${expires.toLocaleString()}` : 'expired';
+        console.log(`  ${approval.mac}  approved ${until}`);
+      }
+    } catch (error) {
+      console.error('Failed to update approval mode:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+devicesCommand
+  .command('pending')
+  .description('List connected devices waiting for approval')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      const devices = await networkControl.getPendingDevices();
+      if (options.json) {
+        console.log(JSON.stringify(devices, null, 2));
+        return;
+      }
+      if (devices.length === 0) {
+        console.log('No devices awaiting approval');
+        return;
+      }
+      console.log(formatTable(
+        ['MAC', 'IP', 'HOSTNAME', 'VENDOR'],
+        devices.map(d => [d.mac, d.ip, d.hostname || '-', describeVendor(d)])
+      ));
+    } catch (error) {
+      console.error('Failed to list pending devices:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+devicesCommand
+  .command('approve')
+  .description('Let a device use the hotspot while approval mode is on')
+  .argument('<mac>', 'MAC address')
+  .option('--hours <n>', 'Approve for a limited time only')
+  .action(async (mac, options) => {
+    const hours = options.hours !== undefined ? parseFloat(options.hours) : undefined;
+    if (hours !== undefined && !(hours > 0)) {
+      console.error('--hours must be a positive number');
+      process.exitCode = 1;
+      return;
+    }
+    try {
+      await networkControl.approveDevice(mac, hours);
+      console.log(hours ? `Device ${mac} approved for ${hours} hour(s)` : `Device ${mac} approved`);
+    } catch (error) {
+      console.error('Failed to approve device:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+devicesCommand
+  .command('deny')
+  .description('Refuse a device: remove its approval, block and disconnect it')
+  .argument('<mac>', 'MAC address')
+  .action(async (mac) => {
+    try {
+      await networkControl.denyDevice(mac);
+      console.log(`Device ${mac} denied`);
+    } catch (error) {
+      console.error('Failed to deny device:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+devicesCommand
+  .command('limit')
+  .description('Show or set bandwidth limits for a device or the whole hotspot')
+  .argument('[target]', 'MAC address, or "all" for the hotspot-wide limit')
+  .argument('[rate]', 'Rate such as 512kbit or 5mbit (both directions), or "off"')
+  .option('--upload <rate>', 'Separate upload rate, or "off"')
+  .option('--fair', 'Fair-queue traffic between devices')
+  .option('--no-fair', 'Turn fair queuing off')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .action(async (target, rate, options) => {
+    try {
+      if (target && (rate || options.upload)) {
+        const download = rate === 'off' ? undefined : rate;
+        const upload = options.upload ? (options.upload === 'off' ? undefined : options.upload) : download;
+        const id = target === 'all'
+          ? await networkControl.setHotspotRateLimit({ download, upload, fairQueue: options.fair }, options.profile)
+          : await networkControl.setDeviceRateLimit(target, { download, upload }, options.profile);
+        console.log(`Bandwidth limit for ${target === 'all' ? 'the hotspot' : target} updated in profile ${id}`);
+        return;
+      }
+      if (options.fair !== undefined) {
+        const { config } = await networkControl.getHotspotProfile(options.profile);
+        const id = await networkControl.setHotspotRateLimit({
+          download: config.shaping?.download,
+          upload: config.shaping?.upload,
+          fairQueue: options.fair
+        }, options.profile);
+        console.log(`Fair queuing ${options.fair ? 'on' : 'off'} for profile ${id}`);
+        return;
+      }
+      if (target) {
+        console.error('Give a rate, e.g. "devices limit aa:bb:cc:dd:ee:ff 5mbit"');
+        process.exitCode = 1;
+        return;
+      }
+
+      const { id, config } = await networkControl.getHotspotProfile(options.profile);
+      const shaping = config.shaping || {};
+      console.log(`Bandwidth limits for profile ${id} (fair queuing ${shaping.fairQueue ? 'on' : 'off'}):`);
+      console.log(formatTable(
+        ['DEVICE', 'DOWNLOAD', 'UPLOAD'],
+        [
+          ['all', shaping.download || '-', shaping.upload || '-'],
+          ...(shaping.devices || []).map(d => [d.mac, d.download || '-', d.upload || '-'])
+        ]
+      ));
+    } catch (error) {
+      console.error('Failed to update bandwidth limit:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+// Data usage accounting
+function describeQuota(quota: UsageQuota): string {
+  const target = quota.scope === 'device' ? quota.target : `${quota.scope} ${quota.target}`;
+  return `${target}: ${formatBytes(quota.limitBytes)} per ${quota.period} (${quota.action})`;
+}
+
+const usageCommand = program
+  .command('usage')
+  .description('Data usage per device, uplink and VPN, and quotas');
+
+usageCommand
+  .command('show', { isDefault: true })
+  .description('Show usage for a day or month')
+  .option('-m, --month', 'Monthly totals instead of daily')
+  .option('-d, --date <date>', 'Day (YYYY-MM-DD) or month (YYYY-MM) to show')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      let date: Date | undefined;
+      if (options.date) {
+        const [year, month, day] = options.date.split('-').map((part: string) => parseInt(part, 10));
+        date = new Date(year, (month || 1) - 1, day || 1);
+        if (isNaN(date.getTime())) {
+          console.error('Invalid --date, use YYYY-MM-DD or YYYY-MM');
+          process.exitCode = 1;
+          return;
+        }
+      }
+      // Bring the totals up to date first
+      await networkControl.sampleUsage();
+      const report = await networkControl.getUsageReport(options.month ? 'month' : 'day', date);
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      console.log(`Usage for ${report.key}:`);
+      if (report.entries.length === 0) {
+        console.log('No traffic recorded');
+      } else {
+        console.log(formatTable(
+          ['TYPE', 'NAME', 'DOWNLOAD', 'UPLOAD', 'TOTAL'],
+          report.entries.map(e => [
+            e.scope,
+            e.label ? `${e.label} (${e.target})` : e.target,
+            formatBytes(e.download),
+            formatBytes(e.upload),
+            formatBytes(e.download + e.upload)
+          ])
+        ));
+      }
+      for (const state of report.quotas) {
+        const used = `${formatBytes(state.used)} of ${describeQuota(state.quota)}`;
+        console.log(state.exceeded ? colorize(`Quota used up: ${used}`, 'red') : `Quota: ${used}`);
+      }
+    } catch (error) {
+      console.error('Failed to show usage:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+const quotaCommand = usageCommand
+  .command('quota')
+  .description('Manage data quotas');
+
+quotaCommand
+  .command('list')
+  .description('List quotas')
+  .action(async () => {
+    try {
+      const quotas = await networkControl.getUsageQuotas();
+      if (quotas.length === 0) {
+        console.log('No quotas set');
+        return;
       }
+      quotas.forEach((quota, i) => console.log(`${i + 1}. ${describeQuota(quota)}`));
+    } catch (error) {
+      console.error('Failed to list quotas:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+quotaCommand
+  .command('set')
+  .description('Set a quota for a device, an uplink interface or a WireGuard interface')
+  .argument('<scope>', 'device, interface or vpn')
+  .argument('<target>', 'MAC address or interface name')
+  .argument('<limit>', 'Allowance such as 500MB or 20GB')
+  .option('--period <period>', 'day or month', 'month')
+  .option('--cutoff', 'Stop forwarding traffic once used up instead of only warning')
+  .action(async (scope, target, limit, options) => {
+    if (!['device', 'interface', 'vpn'].includes(scope)) {
+      console.error('Scope must be one of: device, interface, vpn');
+      process.exitCode = 1;
+      return;
+    }
+    if (!['day', 'month'].includes(options.period)) {
+      console.error('Period must be "day" or "month"');
+      process.exitCode = 1;
+      return;
+    }
+    try {
+      const quota: UsageQuota = {
+        scope,
+        target,
+        period: options.period,
+        limitBytes: parseSize(limit),
+        action: options.cutoff ? 'cutoff' : 'warn'
+      };
+      await networkControl.setUsageQuota(quota);
+      console.log(`Quota set: ${describeQuota(quota)}`);
+    } catch (error) {
+      console.error('Failed to set quota:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
 
-      await networkControl.updateDeviceAuth(macs);
-      console.log('Device authorization updated successfully');
+quotaCommand
+  .command('remove')
+  .description('Remove a quota')
+  .argument('<number>', 'Number from "usage quota list"')
+  .action(async (number) => {
+    try {
+      const removed = await networkControl.removeUsageQuota(parseInt(number, 10) - 1);
+      console.log(`Quota removed: ${describeQuota(removed)}`);
     } catch (error) {
-      console.error('Failed to update device authorization:', error);
+      console.error('Failed to remove quota:', (error as Error).message || error);
+      process.exitCode = 1;
     }
   });
 
@@ -406,12 +1032,15 @@ program
         console.log(diagnostics.systemLogs.join('\n'));
       }
 
-      if (diagnostics.vpnStatus.active) {
-        console.log('\nVPN Status:');
-        console.log('Endpoint:', diagnostics.vpnStatus.endpoint);
-        console.log('Data Received:', diagnostics.vpnStatus.transferRx);
-        console.log('Data Sent:', diagnostics.vpnStatus.transferTx);
-        console.log('Last Handshake:', diagnostics.vpnStatus.lastHandshake);
+      const vpnStatus = await networkControl.getWireGuardStatus();
+      for (const tunnel of vpnStatus.filter(t => t.active)) {
+        console.log(`\nVPN Status (${tunnel.name}):`);
+        console.log('Data Received:', formatBytes(tunnel.transferRx));
+        console.log('Data Sent:', formatBytes(tunnel.transferTx));
+        for (const peer of tunnel.peers) {
+          console.log(`Peer ${peer.publicKey}:`, peer.endpoint || 'no endpoint',
+            '- last handshake', peer.latestHandshake ? peer.latestHandshake.toLocaleString() : 'never');
+        }
       }
     } catch (error) {
       console.error('Failed to run diagnostics:', error);
@@ -424,33 +1053,48 @@ program
   .argument('<ssid>', 'Hotspot SSID')
   .argument('<password>', 'Hotspot password')
   .option('-s, --save <n>', 'Save this hotspot configuration')
+  .option('-i, --interface <name>', 'Wi-Fi interface to serve the hotspot from, e.g. wlan1 while wlan0 stays connected')
+  .option('-b, --band <band>', `Band: ${HOTSPOT_BANDS.join(' or ')}`)
+  .option('-c, --channel <n>', 'Channel, e.g. 6 or 36; implies the band')
+  .option('--width <mhz>', `Channel width in MHz: ${HOTSPOT_CHANNEL_WIDTHS.join(', ')} (NetworkManager 1.50+)`)
+  .option('--country <code>', 'Regulatory domain, e.g. DE or US')
+  .option('--hidden', 'Do not broadcast the SSID')
+  .option('--security <mode>', `${HOTSPOT_SECURITY_MODES.join(', ')} (wpa2-pmf is WPA2 with optional PMF)`)
+  .option('--isolate', 'Keep clients from reaching each other')
+  .option('--max-clients <n>', 'Most clients given an address at once')
   .action(async (ssid, password, options) => {
-    console.log(`Starting hotspot with SSID "${ssid}"...`);
-    const result = await networkControl.startHotspot(ssid, password);
+    const hotspotOptions: HotspotOptions = {
+      band: options.band,
+      channel: options.channel !== undefined ? parseInt(options.channel, 10) : undefined,
+      channelWidth: options.width !== undefined ? parseInt(options.width, 10) as HotspotChannelWidth : undefined,
+      country: options.country,
+      hidden: options.hidden || undefined,
+      security: options.security,
+      isolation: options.isolate || undefined,
+      maxClients: options.maxClients !== undefined ? parseInt(options.maxClients, 10) : undefined
+    };
+    const summary = formatHotspotOptions(hotspotOptions);
+    console.log(`Starting hotspot with SSID "${ssid}"${options.interface ? ` on ${options.interface}` : ''}${summary ? ` (${summary})` : ''}...`);
+    const result = await networkControl.startHotspot(ssid, password, { ...hotspotOptions, interfaceName: options.interface });
 
     if (result) {
       console.log('Hotspot started successfully');
 
       // Show IP address for the hotspot interface
-      try {
-        const { stdout: ipInfo } = await executeCommand('ip addr show wlan0');
-        const ipMatch = ipInfo.match(/inet\s+(\d+\.\d+\.\d+\.\d+)/);
-        if (ipMatch && ipMatch[1]) {
-          console.log(`\nHotspot IP address: ${ipMatch[1]}`);
-        }
-      } catch (err) {
-        // Skip if command fails
+      const hotspot = await networkControl.getHotspotStatus().catch(() => undefined);
+      if (hotspot?.ipAddress) {
+        console.log(`\nHotspot IP address: ${hotspot.ipAddress.split('/')[0]} (${hotspot.interfaceName})`);
       }
 
       console.log('\nHotspot Share QR Code:');
       console.log('Scan this code with a mobile device to connect to your hotspot:');
       console.log('');  // Add a blank line
-      await generateNetworkQR(ssid, password);
+      await generateNetworkQR(ssid, password, { hidden: hotspotOptions.hidden, sae: hotspotOptions.security === 'wpa3' });
 
       console.log('\nUse "wifi-manager devices list" to see connected devices');
 
       if (options.save) {
-        await networkControl.saveCurrentSetup(options.save);
+        await networkControl.saveCurrentSetup(options.save, hotspot?.interfaceName, hotspotOptions);
         console.log(`Hotspot configuration saved as "${options.save}"`);
       }
     } else {
@@ -458,109 +1102,907 @@ program
     }
   });
 
-const vpnCommand = program
-  .command('vpn')
-  .description('Manage WireGuard VPN connection');
+const dhcpCommand = program
+  .command('dhcp')
+  .description('Hotspot DHCP server: network, address pool, lease time, static leases and options');
 
-vpnCommand
-  .command('start')
-  .description('Start VPN connection')
-  .option('-c, --config <file>', 'WireGuard config file path')
-  .option('-e, --endpoint <endpoint>', 'VPN server endpoint (e.g., vpn.example.com:51820)')
-  .option('-a, --allowed-ips <ips>', 'Allowed IPs (comma separated)')
-  .option('-d, --dns <server>', 'DNS server to use')
+dhcpCommand
+  .command('show', { isDefault: true })
+  .description('Show the DHCP settings of a hotspot profile')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .option('--json', 'Output as JSON')
   .action(async (options) => {
     try {
-      if (options.config) {
-        console.log(`Reading VPN configuration from ${options.config}...`);
-        const { stdout } = await executeCommand(`cat ${options.config}`);
-        const config = JSON.parse(stdout);
-        const result = await networkControl.setupWireGuardWithQR(config);
-
-        if (result.success && result.config) {
-          console.log('VPN started successfully');
-          console.log('\nVPN Configuration QR Code:');
-          await generateWireGuardQR(result.config);
-        } else {
-          console.log('Failed to start VPN');
-        }
-      } else if (options.endpoint && options.allowedIps) {
-        console.log('Setting up WireGuard VPN with provided parameters...');
-        const allowedIPs = options.allowedIps.split(',');
-
-        const result = await networkControl.setupWireGuardWithQR({
-          endpoint: options.endpoint,
-          allowedIPs: allowedIPs,
-          dns: options.dns
-        });
-
-        if (result.success && result.config) {
-          console.log('VPN started successfully');
-          console.log('\nVPN Configuration QR Code:');
-          await generateWireGuardQR(result.config);
-        } else {
-          console.log('Failed to start VPN');
-        }
-      } else {
-        console.error('Error: Either config file or endpoint/allowed-ips are required');
+      const { id, settings, effective } = await networkControl.getDhcpSettings(options.profile);
+      if (options.json) {
+        console.log(JSON.stringify({ profile: id, settings, effective }, null, 2));
+        return;
+      }
+      const value = (text: string, set: boolean) => set ? text : `${text} ${colorize('(default)', 'dim')}`;
+      console.log(formatSectionHeader(`DHCP for profile ${id}`));
+      console.log(formatStatusLine('Subnet', value(effective.subnet, !!settings.subnet)));
+      console.log(formatStatusLine('Gateway', value(effective.gateway, !!settings.gateway)));
+      console.log(formatStatusLine('Pool', value(`${effective.rangeStart} - ${effective.rangeEnd}`, !!settings.rangeStart)));
+      console.log(formatStatusLine('Lease time', value(formatDuration(effective.leaseTime), settings.leaseTime !== undefined)));
+      if (effective.staticLeases.length > 0) {
+        console.log('\nStatic leases:');
+        console.log(formatTable(
+          ['MAC', 'IP', 'HOSTNAME'],
+          effective.staticLeases.map(l => [l.mac, l.ip, l.hostname || '-'])
+        ));
+      }
+      if (effective.options.length > 0) {
+        console.log('\nOptions:');
+        effective.options.forEach((option, i) => console.log(`${i + 1}. ${option}`));
       }
     } catch (error) {
-      console.error('Failed to start VPN:', error);
+      console.error('Failed to show DHCP settings:', (error as Error).message || error);
+      process.exitCode = 1;
     }
   });
 
-vpnCommand
-  .command('stop')
-  .description('Stop VPN connection')
-  .action(async () => {
-    console.log('Stopping VPN connection...');
-    const result = await networkControl.stopWireGuard();
-    console.log(result ? 'VPN stopped successfully' : 'Failed to stop VPN');
-  });
-
-vpnCommand
-  .command('status')
-  .description('Show VPN connection status')
-  .option('-d, --detailed', 'Show detailed status information')
+dhcpCommand
+  .command('set')
+  .description('Change the hotspot network, pool or lease time; a running hotspot restarts to apply them')
+  .option('-s, --subnet <cidr>', 'Hotspot network, e.g. 192.168.50.0/24, or 192.168.50.1/24 to give the Pi\'s address too')
+  .option('-g, --gateway <ip>', 'The Pi\'s address on the hotspot network')
+  .option('-r, --range <first-last>', 'Addresses handed out, e.g. 192.168.50.100-192.168.50.199')
+  .option('-l, --lease <time>', 'Lease time, e.g. 30m, 12h or 1d')
+  .option('--reset', 'Go back to NetworkManager\'s defaults before applying the other options')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
   .action(async (options) => {
-    console.log('Checking VPN status...');
-    const status = await networkControl.getWireGuardStatus();
-
-    // Use the formatVpnStatus from our utilities for better display
-    console.log(formatSectionHeader('VPN STATUS'));
-    const vpnStatusLines = formatVpnStatus(status);
-    vpnStatusLines.forEach(line => console.log(line));
-
-    if (status.active && options.detailed) {
-      // Show routing information for VPN
-      try {
-        const { stdout: routeInfo } = await executeCommand('ip route show | grep wg0');
-        console.log('\n' + colorize('VPN Routing:', 'bold'));
-        console.log(routeInfo);
-
-        const { stdout: wgShow } = await executeCommand('sudo wg show wg0');
-        console.log('\n' + colorize('WireGuard Details:', 'bold'));
-        console.log(wgShow);
-      } catch (err) {
-        // Just skip if command fails
+    if (!options.reset && !options.subnet && !options.gateway && !options.range && !options.lease) {
+      console.error('Give --subnet, --gateway, --range, --lease or --reset');
+      process.exitCode = 1;
+      return;
+    }
+    try {
+      const [rangeStart, rangeEnd] = options.range ? options.range.split('-').map((part: string) => part.trim()) : [];
+      if (options.range && !rangeEnd) {
+        throw new Error('Give the range as first-last, e.g. 192.168.50.100-192.168.50.199');
       }
+      const id = await networkControl.setDhcpNetwork({
+        subnet: options.subnet,
+        gateway: options.gateway,
+        rangeStart,
+        rangeEnd,
+        leaseTime: options.lease ? parseDuration(options.lease) : undefined
+      }, { reset: !!options.reset, profileId: options.profile });
+      const { effective } = await networkControl.getDhcpSettings(id);
+      console.log(`Profile ${id}: ${effective.subnet} via ${effective.gateway}, pool ${effective.rangeStart} - ${effective.rangeEnd}, leases ${formatDuration(effective.leaseTime)}`);
+    } catch (error) {
+      console.error('Failed to update DHCP settings:', (error as Error).message || error);
+      process.exitCode = 1;
     }
   });
 
-vpnCommand
-  .command('export')
-  .description('Export WireGuard VPN configuration to a file')
-  .option('-f, --filename <filename>', 'Custom filename for the export')
+dhcpCommand
+  .command('reserve')
+  .description('Always give a device the same address')
+  .argument('<mac>', 'MAC address')
+  .argument('<ip>', 'Address inside the hotspot network')
+  .argument('[hostname]', 'Name handed to the device')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .action(async (mac, ip, hostname, options) => {
+    try {
+      const id = await networkControl.addStaticLease({ mac, ip, hostname }, options.profile);
+      console.log(`Profile ${id}: ${mac} gets ${ip}${hostname ? ` as ${hostname}` : ''}`);
+    } catch (error) {
+      console.error('Failed to add static lease:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+dhcpCommand
+  .command('unreserve')
+  .description('Remove a static lease')
+  .argument('<device>', 'MAC address or reserved IP')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .action(async (device, options) => {
+    try {
+      const removed = await networkControl.removeStaticLease(device, options.profile);
+      console.log(`Static lease removed: ${removed.mac} ${removed.ip}`);
+    } catch (error) {
+      console.error('Failed to remove static lease:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+const dhcpOptionCommand = dhcpCommand
+  .command('option')
+  .description('Extra DHCP options handed to clients');
+
+dhcpOptionCommand
+  .command('add')
+  .description('Add an option in dnsmasq dhcp-option form')
+  .argument('<option>', 'e.g. "option:ntp-server,192.168.50.1" or "42,192.168.50.1"')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .action(async (option, options) => {
+    try {
+      const id = await networkControl.addDhcpOption(option, options.profile);
+      console.log(`Profile ${id}: added DHCP option ${option}`);
+    } catch (error) {
+      console.error('Failed to add DHCP option:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+dhcpOptionCommand
+  .command('remove')
+  .description('Remove a DHCP option')
+  .argument('<number>', 'Number from "dhcp show"')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .action(async (number, options) => {
+    try {
+      const removed = await networkControl.removeDhcpOption(parseInt(number, 10) - 1, options.profile);
+      console.log(`DHCP option removed: ${removed}`);
+    } catch (error) {
+      console.error('Failed to remove DHCP option:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+const portalCommand = program
+  .command('portal')
+  .description('Captive portal: the terms, password or voucher page new hotspot clients see before they get online');
+
+portalCommand
+  .command('show', { isDefault: true })
+  .description('Show the captive portal of a hotspot profile')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      const { id, settings } = await networkControl.getPortalSettings(options.profile);
+      if (options.json) {
+        console.log(JSON.stringify({ profile: id, settings: { ...settings, password: settings.password ? '********' : undefined } }, null, 2));
+        return;
+      }
+      const vouchers = settings.vouchers || [];
+      console.log(formatSectionHeader(`Captive portal for profile ${id}`));
+      console.log(formatStatusLine('Portal', settings.enabled ? colorize('Enabled', 'green') : colorize('Disabled', 'dim')));
+      console.log(formatStatusLine('Sign-in', settings.mode));
+      console.log(formatStatusLine('Signed in for', formatDuration((settings.durationHours ?? DEFAULT_PORTAL_HOURS) * 3600)));
+      if (settings.title) console.log(formatStatusLine('Title', settings.title));
+      if (settings.terms) console.log(formatStatusLine('Terms', `${settings.terms.split('\n')[0].substring(0, 60)}${settings.terms.length > 60 ? '…' : ''}`));
+      if (settings.mode === 'password') console.log(formatStatusLine('Password', settings.password ? 'set' : colorize('not set', 'red')));
+      if (vouchers.length > 0 || settings.mode === 'voucher') {
+        console.log(formatStatusLine('Vouchers', `${vouchers.filter(v => !v.usedBy).length} unused of ${vouchers.length}`));
+      }
+    } catch (error) {
+      console.error('Failed to show captive portal:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+portalCommand
+  .command('enable')
+  .description('Turn the captive portal on; the hotspot then lets devices through only once they sign in')
+  .argument('[mode]', 'What devices must do: terms, password or voucher')
+  .option('-d, --duration <time>', 'How long a device stays signed in, e.g. 2h or 1d (default 24h)')
+  .option('--password <password>', 'Shared password for password mode')
+  .option('--title <text>', 'Page heading (default: "Welcome to <SSID>")')
+  .option('--terms <text>', 'Terms of use shown on the page')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .action(async (mode, options) => {
+    try {
+      const id = await networkControl.setPortal({
+        enabled: true,
+        mode,
+        durationHours: options.duration ? parseDuration(options.duration) / 3600 : undefined,
+        password: options.password,
+        title: options.title,
+        terms: options.terms
+      }, options.profile);
+      const { settings } = await networkControl.getPortalSettings(id);
+      console.log(`Profile ${id}: captive portal enabled (${settings.mode}, ${formatDuration((settings.durationHours ?? DEFAULT_PORTAL_HOURS) * 3600)})`);
+      if (settings.mode === 'voucher' && !settings.vouchers?.some(v => !v.usedBy)) {
+        console.log(colorize('No unused vouchers yet; create some with "portal voucher create"', 'yellow'));
+      }
+      console.log('The portal must be running to serve the page: "portal serve", or the boot service');
+    } catch (error) {
+      console.error('Failed to enable captive portal:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+portalCommand
+  .command('disable')
+  .description('Turn the captive portal off')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .action(async (options) => {
+    try {
+      const id = await networkControl.setPortal({ enabled: false }, options.profile);
+      console.log(`Profile ${id}: captive portal disabled`);
+    } catch (error) {
+      console.error('Failed to disable captive portal:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+portalCommand
+  .command('serve')
+  .description('Serve the portal page and DNS in the foreground until interrupted')
+  .option('--port <port>', `HTTP port (default ${DEFAULT_PORTAL_HTTP_PORT}; the firewall redirects port 80 there)`)
+  .option('--dns-port <port>', `DNS port (default ${DEFAULT_PORTAL_DNS_PORT}; the firewall redirects port 53 there)`)
+  .action(async (options) => {
+    try {
+      const portal = await networkControl.startCaptivePortal({
+        httpPort: options.port ? parseInt(options.port, 10) : undefined,
+        dnsPort: options.dnsPort ? parseInt(options.dnsPort, 10) : undefined
+      });
+      console.log(colorize(`Captive portal on HTTP port ${portal.httpPort} and DNS port ${portal.dnsPort}. Press Ctrl+C to stop.`, 'cyan'));
+      portal.on('portal-authorized', event => {
+        console.log(`${colorize(event.timestamp.toLocaleTimeString(), 'dim')} ${event.mac} (${event.ip}) signed in with ${event.voucher ? `voucher ${event.voucher}` : event.method} until ${event.expiresAt.toLocaleString()}`);
+      });
+      process.on('SIGINT', () => {
+        networkControl.stopCaptivePortal().finally(() => process.exit(0));
+      });
+    } catch (error) {
+      console.error('Failed to start captive portal:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+const portalVoucherCommand = portalCommand
+  .command('voucher')
+  .description('One-time codes for voucher mode');
+
+portalVoucherCommand
+  .command('create')
+  .description('Create voucher codes to hand out')
+  .argument('[count]', 'How many', '1')
+  .option('-d, --duration <time>', 'How long a device stays online with each, e.g. 2h or 7d (default: the portal\'s duration)')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .action(async (count, options) => {
+    try {
+      const { id, vouchers } = await networkControl.createVouchers(
+        parseInt(count, 10),
+        options.duration ? parseDuration(options.duration) / 3600 : undefined,
+        options.profile
+      );
+      console.log(`Profile ${id}: ${vouchers.length} voucher${vouchers.length === 1 ? '' : 's'} created`);
+      vouchers.forEach(v => console.log(v.code));
+    } catch (error) {
+      console.error('Failed to create vouchers:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+portalVoucherCommand
+  .command('list')
+  .description('List vouchers and who redeemed them')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      const { id, settings } = await networkControl.getPortalSettings(options.profile);
+      const vouchers = settings.vouchers || [];
+      if (options.json) {
+        console.log(JSON.stringify(vouchers, null, 2));
+        return;
+      }
+      if (vouchers.length === 0) {
+        console.log(`Profile ${id} has no vouchers`);
+        return;
+      }
+      const now = Date.now();
+      console.log(formatTable(
+        ['CODE', 'DURATION', 'STATUS'],
+        vouchers.map(v => {
+          const hours = v.durationHours ?? settings.durationHours ?? DEFAULT_PORTAL_HOURS;
+          let status = colorize('unused', 'green');
+          if (v.usedAt) {
+            const ends = new Date(new Date(v.usedAt).getTime() + hours * 3600 * 1000);
+            status = ends.getTime() > now
+              ? `used by ${v.usedBy} until ${ends.toLocaleString()}`
+              : colorize(`used by ${v.usedBy}, expired`, 'dim');
+          }
+          return [v.code, formatDuration(hours * 3600), status];
+        })
+      ));
+    } catch (error) {
+      console.error('Failed to list vouchers:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+portalVoucherCommand
+  .command('revoke')
+  .description('Withdraw a voucher; a device signed in with it is cut off')
+  .argument('<code>', 'Voucher code')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .action(async (code, options) => {
+    try {
+      const voucher = await networkControl.revokeVoucher(code, options.profile);
+      console.log(`Voucher ${voucher.code} revoked${voucher.usedBy ? `; ${voucher.usedBy} must sign in again` : ''}`);
+    } catch (error) {
+      console.error('Failed to revoke voucher:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+const vpnCommand = program
+  .command('vpn')
+  .description('Manage WireGuard VPN connection');
+
+vpnCommand
+  .command('start')
+  .description('Start a VPN tunnel, creating it when connection details are given')
+  .argument('[name]', 'Tunnel name', 'wg0')
+  .option('-c, --config <file>', 'WireGuard config file path')
+  .option('-e, --endpoint <endpoint>', 'VPN server endpoint (e.g., vpn.example.com:51820)')
+  .option('-k, --server-key <key>', 'Public key of the VPN server')
+  .option('--address <cidr>', 'Tunnel address assigned by the server (e.g., 10.8.0.2/32)')
+  .option('-a, --allowed-ips <ips>', 'Allowed IPs (comma separated)')
+  .option('-d, --dns <server>', 'DNS server to use')
+  .option('--preshared-key <key>', 'Preshared key, if the server uses one')
+  .option('--mtu <bytes>', 'Tunnel MTU')
+  .option('--setip', 'Bring up the setip.io tunnel with the parameters setip.io hands out')
+  .action(async (name, options) => {
+    try {
+      let clientOptions: WireGuardClientOptions;
+      if (options.setip) {
+        await connectSetip();
+        return;
+      } else if (options.config) {
+        console.log(`Reading VPN configuration from ${options.config}...`);
+        const { stdout } = await runCommand('cat', [options.config]);
+        clientOptions = JSON.parse(stdout);
+      } else if (options.endpoint && options.serverKey && options.address && options.allowedIps) {
+        console.log(`Setting up WireGuard tunnel ${name} with provided parameters...`);
+        clientOptions = {
+          endpoint: options.endpoint,
+          peerPublicKey: options.serverKey,
+          address: options.address,
+          allowedIPs: options.allowedIps.split(',').map((ip: string) => ip.trim()),
+          dns: options.dns,
+          presharedKey: options.presharedKey,
+          mtu: options.mtu !== undefined ? parseInt(options.mtu, 10) : undefined
+        };
+      } else if (options.endpoint || options.serverKey || options.address || options.allowedIps) {
+        console.error('Error: --endpoint, --server-key, --address and --allowed-ips are all required to create a tunnel');
+        process.exitCode = 1;
+        return;
+      } else {
+        if (!(await networkControl.getWireGuardTunnel(name))) {
+          console.error(`Tunnel '${name}' not found; create it with --endpoint/--server-key/--address/--allowed-ips or --config`);
+          process.exitCode = 1;
+          return;
+        }
+        console.log(`Starting WireGuard tunnel ${name}...`);
+        const started = await networkControl.startWireGuard(name);
+        console.log(started ? `Tunnel ${name} started` : `Failed to start tunnel ${name}`);
+        if (!started) process.exitCode = 1;
+        return;
+      }
+
+      const result = await networkControl.setupWireGuardWithQR(name, clientOptions);
+      if (result.success && result.config) {
+        console.log(`VPN tunnel ${name} started successfully`);
+        console.log('\nVPN Configuration QR Code:');
+        await generateWireGuardQR(result.config);
+      } else {
+        console.log('Failed to start VPN');
+        result.errors?.forEach(error => console.log(`  - ${error}`));
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error('Failed to start VPN:', error);
+    }
+  });
+
+vpnCommand
+  .command('stop')
+  .description('Stop a VPN tunnel, or all tunnels')
+  .argument('[name]', 'Tunnel name (default: all)')
+  .action(async (name) => {
+    console.log(name ? `Stopping VPN tunnel ${name}...` : 'Stopping all VPN tunnels...');
+    const result = await networkControl.stopWireGuard(name);
+    console.log(result ? 'VPN stopped successfully' : 'Failed to stop VPN');
+  });
+
+vpnCommand
+  .command('list')
+  .description('List VPN tunnels')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      const tunnels = await networkControl.listWireGuardTunnels();
+      const statuses = await networkControl.getWireGuardStatus();
+      if (options.json) {
+        console.log(JSON.stringify(tunnels.map(({ name, config, createdAt }) => ({
+          name,
+          active: statuses.find(s => s.name === name)?.active || false,
+          address: config.address,
+          endpoint: config.endpoint,
+          allowedIPs: config.allowedIPs,
+          createdAt
+        })), null, 2));
+        return;
+      }
+      if (tunnels.length === 0) {
+        console.log('No tunnels yet; create one with "wifi-manager vpn start <name> --endpoint ..."');
+        return;
+      }
+      console.log(formatTable(
+        ['NAME', 'STATE', 'ADDRESS', 'ENDPOINT', 'ALLOWED IPS'],
+        tunnels.map(({ name, config }) => [
+          name,
+          statuses.find(s => s.name === name)?.active ? colorize('up', 'green') : colorize('down', 'red'),
+          config.address,
+          config.endpoint,
+          config.allowedIPs.join(', ')
+        ])
+      ));
+    } catch (error) {
+      console.error('Failed to list tunnels:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+vpnCommand
+  .command('show')
+  .description("Show a tunnel's config and QR code, e.g. to set up the same tunnel on a phone")
+  .argument('<name>', 'Tunnel name')
+  .option('--no-qr', 'Print the config only')
+  .action(async (name, options) => {
+    const tunnel = await networkControl.getWireGuardTunnel(name);
+    if (!tunnel) {
+      console.error(`Tunnel '${name}' not found`);
+      process.exitCode = 1;
+      return;
+    }
+    await printPeerConfig(tunnel.config, options.qr);
+  });
+
+vpnCommand
+  .command('remove')
+  .description('Stop and delete a VPN tunnel')
+  .argument('<name>', 'Tunnel name')
+  .action(async (name) => {
+    try {
+      const removed = await networkControl.removeWireGuardTunnel(name);
+      if (removed) {
+        console.log(`Removed tunnel ${name}`);
+      } else {
+        console.error(`Tunnel '${name}' not found`);
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error('Failed to remove tunnel:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+vpnCommand
+  .command('status')
+  .description('Show VPN tunnel and peer status')
+  .argument('[name]', 'Tunnel name (default: all)')
+  .option('-d, --detailed', 'Show detailed status information')
+  .action(async (name, options) => {
+    console.log('Checking VPN status...');
+    const statuses = await networkControl.getWireGuardStatus(name);
+
+    // Use the formatVpnStatus from our utilities for better display
+    console.log(formatSectionHeader('VPN STATUS'));
+    const vpnStatusLines = formatVpnStatus(statuses);
+    vpnStatusLines.forEach(line => console.log(line));
+    console.log(formatKillSwitch(await networkControl.getKillSwitchStatus()));
+
+    if (options.detailed) {
+      for (const status of statuses.filter(s => s.active)) {
+        // Show routing information for the tunnel
+        try {
+          const { stdout: routeInfo } = await runCommand('ip', ['route', 'show', 'dev', status.name]);
+          console.log('\n' + colorize(`VPN Routing (${status.name}):`, 'bold'));
+          console.log(routeInfo);
+
+          const { stdout: wgShow } = await runCommand('sudo', ['wg', 'show', status.name]);
+          console.log('\n' + colorize(`WireGuard Details (${status.name}):`, 'bold'));
+          console.log(wgShow);
+        } catch (err) {
+          // Just skip if command fails
+        }
+      }
+    }
+  });
+
+vpnCommand
+  .command('killswitch')
+  .description("Show or set the kill switch: hotspot clients may only use the profile's VPN tunnels")
+  .argument('[state]', 'on or off')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .action(async (state, options) => {
+    if (state && !['on', 'off'].includes(state)) {
+      console.error('State must be "on" or "off"');
+      process.exitCode = 1;
+      return;
+    }
+    try {
+      if (state) {
+        const id = await networkControl.setKillSwitch(state === 'on', options.profile);
+        console.log(`Kill switch ${state} for profile ${id}`);
+        return;
+      }
+      const killSwitch = await networkControl.getKillSwitchStatus();
+      console.log(formatKillSwitch(killSwitch));
+    } catch (error) {
+      console.error('Failed to update kill switch:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+vpnCommand
+  .command('health')
+  .description('Check tunnels: handshake age and latency through the tunnel')
+  .argument('[name]', 'Tunnel name (default: all)')
+  .action(async (name) => {
+    try {
+      const results = await networkControl.checkTunnelHealth(name);
+      if (results.length === 0) {
+        console.log('No VPN tunnels configured');
+        return;
+      }
+      console.log(formatTable(
+        ['TUNNEL', 'HEALTH', 'ENDPOINT', 'HANDSHAKE', 'LATENCY'],
+        results.map(health => [
+          health.name,
+          !health.active ? colorize('down', 'red')
+            : health.stale ? colorize('stale', 'red')
+            : health.probeFailed ? colorize('no reply', 'yellow')
+            : colorize('ok', 'green'),
+          health.endpoint || '-',
+          health.handshakeAge !== undefined ? `${health.handshakeAge}s ago` : '-',
+          health.latencyMs !== undefined ? `${health.latencyMs} ms` : '-'
+        ])
+      ));
+    } catch (error) {
+      console.error('Failed to check tunnel health:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+vpnCommand
+  .command('failover')
+  .description('Show or set how a tunnel is checked and what replaces it when it goes stale')
+  .argument('<name>', 'Tunnel name')
+  .option('--probe <ip>', 'Address to ping through the tunnel, e.g. the server\'s tunnel address')
+  .option('--endpoints <list>', 'Secondary endpoints of the same server, comma separated host:port')
+  .option('--secondary <tunnel>', 'Tunnel to bring up instead when nothing else helps')
+  .option('--off', 'Remove the probe and fallbacks')
+  .action(async (name, options) => {
+    try {
+      let tunnel = await networkControl.getWireGuardTunnel(name);
+      if (!tunnel) {
+        console.error(`Tunnel '${name}' not found`);
+        process.exitCode = 1;
+        return;
+      }
+      if (options.off) {
+        tunnel = await networkControl.setTunnelHealthCheck(name, undefined);
+      } else if (options.probe || options.endpoints || options.secondary) {
+        const current = tunnel.healthCheck || {};
+        tunnel = await networkControl.setTunnelHealthCheck(name, {
+          probeHost: options.probe ?? current.probeHost,
+          secondaryEndpoints: options.endpoints
+            ? options.endpoints.split(',').map((e: string) => e.trim()).filter(Boolean)
+            : current.secondaryEndpoints,
+          secondaryTunnel: options.secondary ?? current.secondaryTunnel
+        });
+      }
+
+      const healthCheck = tunnel.healthCheck || {};
+      console.log(`Tunnel ${name}:`);
+      console.log(`  Probe:               ${healthCheck.probeHost || 'none (handshake age only)'}`);
+      console.log(`  Secondary endpoints: ${healthCheck.secondaryEndpoints?.join(', ') || 'none'}`);
+      console.log(`  Secondary tunnel:    ${healthCheck.secondaryTunnel || 'none'}`);
+    } catch (error) {
+      console.error('Failed to update tunnel failover:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+function describeRoutingRule(rule: RoutingRule): string {
+  return `${rule.match} ${rule.value} -> ${rule.tunnel}`;
+}
+
+const vpnRouteCommand = vpnCommand
+  .command('route')
+  .description('Split tunneling: send selected hotspot traffic through a tunnel, the rest through the uplink');
+
+vpnRouteCommand
+  .command('list')
+  .description("List a hotspot profile's routing rules")
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .action(async (options) => {
+    try {
+      const { id, config } = await networkControl.getHotspotProfile(options.profile);
+      const routing = config.routing || [];
+      if (routing.length === 0) {
+        console.log(`No routing rules for profile ${id}; tunnels carry traffic by their allowed IPs`);
+        return;
+      }
+      console.log(`Routing rules for profile ${id} (first match wins, everything else uses the uplink):`);
+      routing.forEach((rule, i) => console.log(`${i + 1}. ${describeRoutingRule(rule)}`));
+    } catch (error) {
+      console.error('Failed to list routing rules:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+vpnRouteCommand
+  .command('add')
+  .description('Route traffic to networks or domains, or from devices, through a tunnel')
+  .argument('<tunnel>', 'Tunnel name')
+  .argument('<match>', 'destination, domain or device')
+  .argument('<values...>', 'Networks (CIDR), domains (subdomains included), or devices (MAC, IP or name)')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .action(async (tunnel, match, values: string[], options) => {
+    if (!['destination', 'domain', 'device'].includes(match)) {
+      console.error('Match must be one of: destination, domain, device');
+      process.exitCode = 1;
+      return;
+    }
+    try {
+      for (const value of values) {
+        const id = await networkControl.addRoutingRule({ tunnel, match, value }, options.profile);
+        console.log(`Profile ${id}: ${describeRoutingRule({ tunnel, match, value })}`);
+      }
+    } catch (error) {
+      console.error('Failed to add routing rule:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+vpnRouteCommand
+  .command('remove')
+  .description('Remove a routing rule')
+  .argument('<number>', 'Number from "vpn route list"')
+  .option('-p, --profile <name>', 'Hotspot profile (defaults to the running hotspot)')
+  .action(async (number, options) => {
+    try {
+      const removed = await networkControl.removeRoutingRule(parseInt(number, 10) - 1, options.profile);
+      console.log(`Routing rule removed: ${describeRoutingRule(removed)}`);
+    } catch (error) {
+      console.error('Failed to remove routing rule:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+const vpnServerCommand = vpnCommand
+  .command('server')
+  .description('Host a WireGuard server on the Pi for teammates');
+
+vpnServerCommand
+  .command('init')
+  .description('Set up and start the WireGuard server (keeps existing peers)')
+  .requiredOption('-e, --endpoint <host>', 'Public host or host:port teammates connect to')
+  .option('-p, --port <port>', 'Listen port', '51820')
+  .option('-a, --address <cidr>', 'Server address; its subnet is the peer pool', '10.8.0.1/24')
+  .option('-d, --dns <server>', 'DNS server for teammates')
+  .option('-n, --name <interface>', 'Interface name (default: wg0, or the current one)')
+  .action(async (options) => {
+    try {
+      const server = await networkControl.setupWireGuardServer({
+        name: options.name,
+        endpoint: options.endpoint,
+        listenPort: parseInt(options.port, 10),
+        address: options.address,
+        dns: options.dns
+      });
+      console.log(`WireGuard server running on ${server.interfaceName}, port ${server.listenPort}`);
+      console.log(`Address pool: ${server.address}`);
+      console.log(`Teammates connect to: ${server.endpoint}`);
+      console.log('Add teammates with "wifi-manager vpn peer add <name>"');
+    } catch (error) {
+      console.error('Failed to set up WireGuard server:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+vpnServerCommand
+  .command('show')
+  .description('Show the WireGuard server settings')
+  .action(async () => {
+    const server = await networkControl.getWireGuardServer();
+    if (!server) {
+      console.log('WireGuard server is not set up');
+      return;
+    }
+    console.log(`Interface:   ${server.interfaceName}`);
+    console.log(`Public key:  ${server.publicKey}`);
+    console.log(`Listen port: ${server.listenPort}`);
+    console.log(`Address:     ${server.address}`);
+    console.log(`Endpoint:    ${server.endpoint}`);
+    console.log(`DNS:         ${server.dns || '-'}`);
+    console.log(`Peers:       ${server.peers.length}`);
+  });
+
+async function printPeerConfig(clientConfig: WireGuardConfig, qr: boolean): Promise<void> {
+  console.log('\nClient configuration:\n');
+  console.log(formatWireGuardConfig(clientConfig));
+  if (qr) {
+    console.log('\nScan with the WireGuard app:');
+    await generateWireGuardQR(clientConfig);
+  }
+}
+
+const vpnPeerCommand = vpnCommand
+  .command('peer')
+  .description('Manage teammates connecting to the WireGuard server');
+
+vpnPeerCommand
+  .command('add')
+  .description('Add a teammate and print their client config')
+  .argument('<name>', 'Peer name')
+  .option('-a, --allowed-ips <cidrs>', 'Networks the teammate routes through the tunnel (comma separated)', '0.0.0.0/0')
+  .option('--no-qr', 'Do not print a QR code')
+  .action(async (name, options) => {
+    try {
+      const allowedIPs = options.allowedIps.split(',').map((cidr: string) => cidr.trim()).filter(Boolean);
+      const { peer, clientConfig } = await networkControl.addWireGuardPeer(name, allowedIPs);
+      console.log(`Peer ${peer.name} added with address ${peer.address}`);
+      await printPeerConfig(clientConfig, options.qr);
+    } catch (error) {
+      console.error('Failed to add peer:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+vpnPeerCommand
+  .command('remove')
+  .description('Remove a teammate; their tunnel stops immediately')
+  .argument('<name>', 'Peer name')
+  .action(async (name) => {
+    try {
+      const peer = await networkControl.removeWireGuardPeer(name);
+      console.log(`Peer ${peer.name} (${peer.address}) removed`);
+    } catch (error) {
+      console.error('Failed to remove peer:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+vpnPeerCommand
+  .command('list')
+  .description('List teammates with their last handshake and traffic')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      const peers = await networkControl.listWireGuardPeers();
+      if (options.json) {
+        console.log(JSON.stringify(peers, null, 2));
+        return;
+      }
+      if (peers.length === 0) {
+        console.log('No peers yet; add one with "wifi-manager vpn peer add <name>"');
+        return;
+      }
+      console.log(formatTable(
+        ['NAME', 'ADDRESS', 'ENDPOINT', 'HANDSHAKE', 'RECEIVED', 'SENT'],
+        peers.map(p => [
+          p.name,
+          p.address,
+          p.endpoint || '-',
+          p.latestHandshake ? p.latestHandshake.toLocaleString() : 'never',
+          formatBytes(p.transferRx),
+          formatBytes(p.transferTx)
+        ])
+      ));
+    } catch (error) {
+      console.error('Failed to list peers:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+vpnPeerCommand
+  .command('show')
+  .description("Show a teammate's client config again")
+  .argument('<name>', 'Peer name')
+  .option('--no-qr', 'Do not print a QR code')
+  .action(async (name, options) => {
+    try {
+      const { peer, clientConfig } = await networkControl.getWireGuardPeer(name);
+      console.log(`Peer:       ${peer.name}`);
+      console.log(`Address:    ${peer.address}`);
+      console.log(`Public key: ${peer.publicKey}`);
+      console.log(`Added:      ${new Date(peer.createdAt).toLocaleString()}`);
+      if (peer.previousKey) {
+        console.log(`Old key:    valid until ${new Date(peer.previousKey.expiresAt).toLocaleString()}`);
+      }
+      await printPeerConfig(clientConfig, options.qr);
+    } catch (error) {
+      console.error('Failed to show peer:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+vpnCommand
+  .command('rotate-keys')
+  .description('Rotate WireGuard keys now; replaced keys keep working during the overlap')
+  .option('--peer <names>', 'Server peers to rotate, comma separated (default: all)')
+  .option('--tunnel <names>', 'Client tunnels whose own key to rotate, comma separated')
+  .option('--overlap <hours>', 'How long replaced keys keep working (default: the schedule\'s, or 48)')
+  .option('--qr', 'Print each new peer config as a QR code too')
   .action(async (options) => {
+    const list = (value?: string) => value?.split(',').map(name => name.trim()).filter(Boolean);
+    const overlapHours = options.overlap !== undefined ? parseFloat(options.overlap) : undefined;
+    if (overlapHours !== undefined && !(overlapHours >= 0)) {
+      console.error('--overlap must be zero or more hours');
+      process.exitCode = 1;
+      return;
+    }
+    try {
+      const result = await networkControl.rotateKeys({ peers: list(options.peer), tunnels: list(options.tunnel), overlapHours });
+      for (const peer of result.peers) {
+        console.log(`Peer ${peer.name}: new config written to ${peer.file}`);
+        console.log(`  Old key works until ${new Date(peer.previousKeyExpiresAt).toLocaleString()}`);
+        if (options.qr) {
+          await printPeerConfig(peer.clientConfig, true);
+        }
+      }
+      for (const tunnel of result.tunnels) {
+        console.log(`Tunnel ${tunnel.name}: register this public key on its server:`);
+        console.log(`  ${tunnel.publicKey}`);
+        console.log(`  The tunnel switches to it at ${new Date(tunnel.switchAt).toLocaleString()}`);
+      }
+    } catch (error) {
+      console.error('Failed to rotate keys:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+vpnCommand
+  .command('rotation')
+  .description('Show or set the key rotation schedule (carried out by the boot service)')
+  .option('--every <days>', 'Rotate every this many days')
+  .option('--overlap <hours>', 'How long replaced keys keep working', '48')
+  .option('--tunnels <names>', 'Client tunnels whose own key is rotated too, comma separated')
+  .option('--off', 'Stop rotating keys')
+  .action(async (options) => {
+    try {
+      if (options.off) {
+        await networkControl.setKeyRotationSchedule(undefined);
+        console.log('Key rotation schedule removed');
+        return;
+      }
+      if (options.every) {
+        await networkControl.setKeyRotationSchedule({
+          intervalDays: parseFloat(options.every),
+          overlapHours: parseFloat(options.overlap),
+          tunnels: options.tunnels?.split(',').map((name: string) => name.trim()).filter(Boolean)
+        });
+      }
+      const schedule = await networkControl.getKeyRotationSchedule();
+      if (!schedule) {
+        console.log('Keys are not rotated automatically (set a schedule with --every <days>)');
+        return;
+      }
+      console.log(`Rotate every:  ${schedule.intervalDays} day(s), old keys kept ${schedule.overlapHours} hour(s)`);
+      console.log(`Tunnels:       ${schedule.tunnels?.join(', ') || 'none (server peers only)'}`);
+      console.log(`Last rotation: ${schedule.lastRotation ? new Date(schedule.lastRotation).toLocaleString() : 'never'}`);
+    } catch (error) {
+      console.error('Failed to update key rotation:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+vpnCommand
+  .command('export')
+  .description('Export a WireGuard VPN tunnel to a file')
+  .argument('[name]', 'Tunnel name', 'wg0')
+  .option('-f, --filename <filename>', 'Custom filename for the export')
+  .action(async (name, options) => {
     try {
       console.log('Exporting WireGuard configuration...');
       console.log('The private key will be encrypted for security.');
-      const filePath = await networkControl.exportWireGuardConfig(options.filename);
+      const filePath = await networkControl.exportWireGuardConfig(name, options.filename);
 
       if (filePath) {
         console.log(`WireGuard configuration successfully exported to: ${filePath}`);
       } else {
-        console.error('Failed to export WireGuard configuration. Is the VPN configured?');
+        console.error(`Failed to export WireGuard configuration. Does tunnel '${name}' exist?`);
       }
     } catch (error) {
       console.error('Failed to export WireGuard configuration:', error);
@@ -569,17 +2011,18 @@ vpnCommand
 
 vpnCommand
   .command('import')
-  .description('Import WireGuard VPN configuration from a file')
+  .description('Import a WireGuard VPN tunnel from a file')
   .argument('<filepath>', 'Path to the exported configuration file')
-  .action(async (filePath) => {
+  .option('-n, --name <name>', 'Tunnel name to use instead of the exported one')
+  .action(async (filePath, options) => {
     try {
       console.log(`Importing WireGuard configuration from: ${filePath}`);
       console.log('The encrypted private key will be decrypted during import.');
-      const result = await networkControl.importWireGuardConfig(filePath);
+      const result = await networkControl.importWireGuardConfig(filePath, options.name);
 
       if (result.success) {
-        console.log('WireGuard configuration successfully imported');
-        console.log('Use "wifi-manager vpn start" to activate the imported configuration');
+        console.log(`WireGuard tunnel ${result.name} successfully imported`);
+        console.log(`Use "wifi-manager vpn start ${result.name}" to activate it`);
       } else {
         console.error('Failed to import WireGuard configuration');
 
@@ -593,6 +2036,482 @@ vpnCommand
     }
   });
 
+/**
+ * Bring up the setip.io tunnel and report the public IP
+ */
+async function connectSetip() {
+  try {
+    console.log('Fetching tunnel parameters from setip.io...');
+    const { params, updated } = await networkControl.connectSetip();
+    const status = await networkControl.getSetipStatus();
+    console.log(`Tunnel ${status.tunnel} is up via ${params.endpoint}`);
+    console.log(`Public IP: ${params.publicIp}`);
+    for (const subdomain of updated) {
+      console.log(`${subdomain.fqdn} now points at ${subdomain.target}`);
+    }
+  } catch (error) {
+    console.error('Failed to connect to setip.io:', (error as Error).message || error);
+    process.exitCode = 1;
+  }
+}
+
+const setipCommand = program
+  .command('setip')
+  .description('Public IP and subdomains via setip.io');
+
+setipCommand
+  .command('status', { isDefault: true })
+  .description('Show the registration, tunnel and public IP')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      const status = await networkControl.getSetipStatus();
+      if (options.json) {
+        console.log(JSON.stringify(status, null, 2));
+        return;
+      }
+      if (!status.registered) {
+        console.log(`Not registered with setip.io (${status.apiUrl}); run "wifi-manager setip register"`);
+        return;
+      }
+      console.log(`Device:     ${status.deviceId} (${status.apiUrl})`);
+      console.log(`Tunnel:     ${status.tunnel} (${status.connected ? 'up' : 'down'})`);
+      console.log(`Public IP:  ${status.publicIp || 'not assigned yet'}`);
+      console.log(`Subdomains: ${status.subdomains.map(s => `${s.fqdn} -> ${s.target}`).join(', ') || 'none'}`);
+    } catch (error) {
+      console.error('Failed to get setip.io status:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+setipCommand
+  .command('register')
+  .description('Register this device with setip.io and bring up its tunnel')
+  .option('-n, --name <name>', 'Device name shown in your setip.io account (default: hostname)')
+  .option('-t, --tunnel <name>', 'Tunnel to write the setip.io parameters to', 'setip')
+  .option('--api-url <url>', 'setip.io API root, e.g. a local mock server')
+  .option('--no-connect', 'Only register; bring the tunnel up later with "setip connect"')
+  .action(async (options) => {
+    try {
+      const registration = await networkControl.registerSetip({ name: options.name, tunnel: options.tunnel, apiUrl: options.apiUrl });
+      console.log(`Registered as device ${registration.deviceId} with ${registration.apiUrl}`);
+    } catch (error) {
+      console.error('Failed to register with setip.io:', (error as Error).message || error);
+      process.exitCode = 1;
+      return;
+    }
+    if (options.connect) {
+      await connectSetip();
+    }
+  });
+
+setipCommand
+  .command('connect')
+  .description('Fetch the tunnel parameters and bring the setip.io tunnel up')
+  .action(connectSetip);
+
+setipCommand
+  .command('disconnect')
+  .description('Bring the setip.io tunnel down (the registration and subdomains are kept)')
+  .action(async () => {
+    try {
+      const stopped = await networkControl.disconnectSetip();
+      console.log(stopped ? 'setip.io tunnel stopped' : 'Failed to stop the setip.io tunnel');
+      if (!stopped) process.exitCode = 1;
+    } catch (error) {
+      console.error('Failed to disconnect from setip.io:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+setipCommand
+  .command('unregister')
+  .description('Release this device and its subdomains and remove its tunnel')
+  .action(async () => {
+    try {
+      await networkControl.unregisterSetip();
+      console.log('Device released from setip.io');
+    } catch (error) {
+      console.error('Failed to unregister from setip.io:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+const setipSubdomainCommand = setipCommand
+  .command('subdomain')
+  .description('Claim and update <name>.setip.io');
+
+setipSubdomainCommand
+  .command('list', { isDefault: true })
+  .description('List the subdomains claimed by this device')
+  .action(async () => {
+    try {
+      const subdomains = await networkControl.listSetipSubdomains();
+      if (subdomains.length === 0) {
+        console.log('No subdomains claimed; claim one with "wifi-manager setip subdomain claim <name>"');
+        return;
+      }
+      console.log(formatTable(['Name', 'Points at'], subdomains.map(s => [s.fqdn, s.target])));
+    } catch (error) {
+      console.error('Failed to list subdomains:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+setipSubdomainCommand
+  .command('claim')
+  .description('Claim a subdomain for this device')
+  .argument('<name>', 'Subdomain, e.g. myapp for myapp.setip.io')
+  .option('--target <ip>', 'Address it resolves to (default: the assigned public IP)')
+  .action(async (name, options) => {
+    try {
+      const subdomain = await networkControl.claimSetipSubdomain(name, options.target);
+      console.log(`Claimed ${subdomain.fqdn} -> ${subdomain.target}`);
+    } catch (error) {
+      console.error('Failed to claim subdomain:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+setipSubdomainCommand
+  .command('update')
+  .description('Point a claimed subdomain at another address')
+  .argument('<name>', 'Subdomain')
+  .option('--target <ip>', 'Address it resolves to (default: the assigned public IP)')
+  .action(async (name, options) => {
+    try {
+      const subdomain = await networkControl.updateSetipSubdomain(name, options.target);
+      console.log(`${subdomain.fqdn} now points at ${subdomain.target}`);
+    } catch (error) {
+      console.error('Failed to update subdomain:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+setipSubdomainCommand
+  .command('release')
+  .description('Give up a claimed subdomain')
+  .argument('<name>', 'Subdomain')
+  .action(async (name) => {
+    try {
+      await networkControl.releaseSetipSubdomain(name);
+      console.log(`Released ${name}`);
+    } catch (error) {
+      console.error('Failed to release subdomain:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+const ddnsCommand = program
+  .command('ddns')
+  .description('Keep hostnames pointing at the public IP (dynamic DNS)');
+
+ddnsCommand
+  .command('status', { isDefault: true })
+  .description('Show each record and its last update')
+  .option('--json', 'Output as JSON (credentials included)')
+  .action(async (options) => {
+    try {
+      const records = await networkControl.getDdnsStatus();
+      if (options.json) {
+        console.log(JSON.stringify(records, null, 2));
+        return;
+      }
+      if (records.length === 0) {
+        console.log('No dynamic DNS records; add one with "wifi-manager ddns add <hostname> --provider <type>"');
+        return;
+      }
+      const lines = formatDdnsStatus(records);
+      records.forEach((record, i) => console.log(`${lines[i]}  [${record.provider}]`));
+    } catch (error) {
+      console.error('Failed to get dynamic DNS status:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+ddnsCommand
+  .command('add')
+  .description('Add or replace a record kept pointing at the public IP')
+  .argument('<hostname>', 'Name to update, e.g. pi.example.com')
+  .requiredOption('-p, --provider <type>', `How to update it (${DDNS_PROVIDER_TYPES.join(', ')})`)
+  .option('--ttl <seconds>', 'Record TTL', '300')
+  .option('--server <host[:port]>', 'nsupdate: primary server accepting updates')
+  .option('--zone <zone>', 'nsupdate: zone to update')
+  .option('--key-file <file>', 'nsupdate: TSIG key file')
+  .option('--key-name <name>', 'nsupdate: TSIG key name, with --key-secret')
+  .option('--key-secret <secret>', 'nsupdate: TSIG key secret (base64)')
+  .option('--key-algorithm <algorithm>', 'nsupdate: TSIG algorithm', 'hmac-sha256')
+  .option('--url <template>', 'http: update URL; {ip} and {hostname} are filled in')
+  .option('--method <method>', 'http: GET or POST', 'GET')
+  .option('--body <template>', 'http: request body; {ip} and {hostname} are filled in')
+  .option('--content-type <type>', 'http: body content type')
+  .option('--username <user>', 'http: basic auth user')
+  .option('--password <password>', 'http: basic auth password')
+  .option('--success <regex>', 'http: pattern the reply must match, e.g. "^(good|nochg)"')
+  .option('--token <token>', 'cloudflare: API token with DNS edit rights')
+  .option('--zone-id <id>', 'cloudflare: zone id')
+  .option('--api-url <url>', 'cloudflare: API root, e.g. a local stand-in')
+  .option('--proxied', 'cloudflare: route through Cloudflare\'s proxy')
+  .action(async (hostname, options) => {
+    const ttl = parseInt(options.ttl, 10);
+    let record: DdnsRecord;
+    switch (options.provider) {
+      case 'nsupdate':
+        record = {
+          provider: 'nsupdate',
+          hostname,
+          ttl,
+          server: options.server,
+          zone: options.zone,
+          keyFile: options.keyFile,
+          key: options.keyName ? { name: options.keyName, secret: options.keySecret, algorithm: options.keyAlgorithm } : undefined
+        };
+        break;
+      case 'http':
+        record = {
+          provider: 'http',
+          hostname,
+          ttl,
+          url: options.url,
+          method: options.method.toUpperCase(),
+          body: options.body,
+          contentType: options.contentType,
+          username: options.username,
+          password: options.password,
+          successPattern: options.success
+        };
+        break;
+      case 'cloudflare':
+        record = {
+          provider: 'cloudflare',
+          hostname,
+          ttl,
+          apiToken: options.token,
+          zoneId: options.zoneId,
+          apiUrl: options.apiUrl,
+          proxied: !!options.proxied
+        };
+        break;
+      default:
+        console.error(`Unknown provider "${options.provider}". Use one of: ${DDNS_PROVIDER_TYPES.join(', ')}`);
+        process.exitCode = 1;
+        return;
+    }
+    if (record.provider === 'http' && record.method !== 'GET' && record.method !== 'POST') {
+      console.error('--method must be GET or POST');
+      process.exitCode = 1;
+      return;
+    }
+
+    try {
+      await networkControl.addDdnsRecord(record);
+      console.log(`${hostname} will be kept pointing at the public IP via ${record.provider}`);
+      const [result] = await networkControl.updateDdns({ hostname });
+      if (result.outcome === 'updated') {
+        console.log(`${hostname} -> ${result.ip}`);
+      } else if (result.error) {
+        console.log(`First update did not go through: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('Failed to add dynamic DNS record:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+ddnsCommand
+  .command('remove')
+  .description('Stop updating a record (the DNS entry itself is left alone)')
+  .argument('<hostname>', 'Record to remove')
+  .action(async (hostname) => {
+    try {
+      await networkControl.removeDdnsRecord(hostname);
+      console.log(`No longer updating ${hostname}`);
+    } catch (error) {
+      console.error('Failed to remove dynamic DNS record:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+ddnsCommand
+  .command('update')
+  .description('Push the public IP to records that are out of date')
+  .argument('[hostname]', 'Only this record')
+  .option('-f, --force', 'Update even when unchanged or backing off after failures')
+  .action(async (hostname, options) => {
+    try {
+      const results = await networkControl.updateDdns({ hostname, force: options.force });
+      if (results.length === 0) {
+        console.log('No dynamic DNS records configured');
+        return;
+      }
+      for (const result of results) {
+        switch (result.outcome) {
+          case 'updated': console.log(`${result.hostname}: updated to ${result.ip}`); break;
+          case 'unchanged': console.log(`${result.hostname}: already ${result.ip}`); break;
+          case 'deferred':
+            console.log(`${result.hostname}: skipped (${result.error || 'backing off'}${result.retryAt ? `, next try ${new Date(result.retryAt).toLocaleTimeString()}` : ''})`);
+            break;
+          case 'failed':
+            console.log(`${result.hostname}: failed: ${result.error}`);
+            process.exitCode = 1;
+            break;
+        }
+      }
+    } catch (error) {
+      console.error('Failed to update dynamic DNS:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+const uplinkCommand = program
+  .command('uplink')
+  .description('Choose between internet uplinks (Ethernet, USB tethering, iPhone, Wi-Fi) with failover');
+
+function formatUplinkState(uplink: UplinkStatus): string {
+  if (uplink.disabled) return colorize('disabled', 'dim');
+  if (!uplink.up) return colorize('down', 'red');
+  if (uplink.healthy === false) return colorize('no internet', 'red');
+  if (uplink.active) return colorize('active', 'green');
+  return colorize('standby', 'yellow');
+}
+
+uplinkCommand
+  .command('list', { isDefault: true })
+  .description('Show candidate uplinks by priority')
+  .option('-p, --probe', 'Ping through each uplink to check it reaches the internet')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      const uplinks = await networkControl.getUplinks(!!options.probe);
+      if (options.json) {
+        console.log(JSON.stringify(uplinks, null, 2));
+        return;
+      }
+      if (uplinks.length === 0) {
+        console.log('No uplinks found; plug in Ethernet, tether a phone over USB or connect a second Wi-Fi adapter');
+        return;
+      }
+      console.log(formatTable(
+        ['Interface', 'Kind', 'Priority', 'State', 'Address', 'Gateway', ...(options.probe ? ['Latency'] : [])],
+        uplinks.map(u => [
+          u.interfaceName,
+          formatUplinkKind(u.kind),
+          String(u.priority),
+          formatUplinkState(u),
+          u.ipAddress || '-',
+          u.gateway || '-',
+          ...(options.probe ? [u.latencyMs !== undefined ? `${u.latencyMs} ms` : '-'] : [])
+        ])
+      ));
+    } catch (error) {
+      console.error('Failed to list uplinks:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+uplinkCommand
+  .command('priority')
+  .description('Set an uplink\'s priority; lower is preferred')
+  .argument('<interface>', 'Interface name, or a prefix ending in * such as enx*')
+  .argument('[priority]', 'Priority (defaults: Ethernet 10, USB tethering and iPhone 20, Wi-Fi 30)')
+  .option('--reset', 'Go back to the default for its kind')
+  .action(async (interfaceName, priority, options) => {
+    if (!options.reset && priority === undefined) {
+      console.error('Give a priority or --reset');
+      process.exitCode = 1;
+      return;
+    }
+    try {
+      await networkControl.setUplinkPriority(interfaceName, options.reset ? undefined : Number(priority));
+      console.log(options.reset
+        ? `${interfaceName} uses the default priority for its kind`
+        : `${interfaceName} priority set to ${priority}`);
+    } catch (error) {
+      console.error('Failed to set uplink priority:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+uplinkCommand
+  .command('disable')
+  .description('Never route traffic through an uplink')
+  .argument('<interface>', 'Interface name, or a prefix ending in *')
+  .action(async (interfaceName) => {
+    try {
+      await networkControl.setUplinkEnabled(interfaceName, false);
+      console.log(`${interfaceName} will not be used as an uplink`);
+    } catch (error) {
+      console.error('Failed to disable uplink:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+uplinkCommand
+  .command('enable')
+  .description('Allow a disabled uplink again')
+  .argument('<interface>', 'Interface name, or a prefix ending in *')
+  .action(async (interfaceName) => {
+    try {
+      await networkControl.setUplinkEnabled(interfaceName, true);
+      console.log(`${interfaceName} can be used as an uplink`);
+    } catch (error) {
+      console.error('Failed to enable uplink:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+uplinkCommand
+  .command('probe-host')
+  .description('Set the address pinged through each uplink to check it works')
+  .argument('[host]', 'IPv4 address')
+  .option('--reset', `Go back to ${DEFAULT_UPLINK_PROBE_HOST}`)
+  .action(async (host, options) => {
+    if (!options.reset && !host) {
+      console.error('Give an address or --reset');
+      process.exitCode = 1;
+      return;
+    }
+    try {
+      await networkControl.setUplinkProbeHost(options.reset ? undefined : host);
+      console.log(`Uplinks are checked by pinging ${options.reset ? DEFAULT_UPLINK_PROBE_HOST : host}`);
+    } catch (error) {
+      console.error('Failed to set probe host:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+uplinkCommand
+  .command('select')
+  .description('Check the uplinks now and route through the preferred working one')
+  .action(async () => {
+    try {
+      const { uplinks, active } = await networkControl.selectUplink();
+      const chosen = uplinks.find(u => u.interfaceName === active);
+      if (!chosen || chosen.healthy === false) {
+        console.log(colorize('No uplink reaches the internet', 'red'));
+        process.exitCode = 1;
+        return;
+      }
+      console.log(`Using ${active} (${formatUplinkKind(chosen.kind)})`);
+    } catch (error) {
+      console.error('Failed to select uplink:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
+uplinkCommand
+  .command('release')
+  .description('Remove WorkHive\'s uplink route and NAT and let NetworkManager route')
+  .action(async () => {
+    try {
+      await networkControl.releaseUplinks();
+      console.log('Routing handed back to NetworkManager');
+    } catch (error) {
+      console.error('Failed to release uplinks:', (error as Error).message || error);
+      process.exitCode = 1;
+    }
+  });
+
 program
   .command('boot-setup')
   .description('Set the network configuration to use at boot time')
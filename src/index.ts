@@ -1,6 +1,7 @@
 import { NetworkControl } from './services/network-control.service';
 import { generateSignalBars, generateNetworkQR, generateWireGuardQR } from './utils/display.util';
 import { executeCommand } from './utils/command.util';
+import { HotspotOptions } from './interfaces/wifi.interface';
 import readline from 'readline';
 import { showDynamicMultiPageStatusScreen } from './tui'; // Import the TUI function
 
@@ -88,14 +89,25 @@ async function main() {
         case '4': {
           const ssid = await question('Enter hotspot SSID: ');
           const password = await question('Enter hotspot password (min 8 chars): ');
+          // Blank answers keep NetworkManager's defaults
+          const band = await question('Band, 2.4GHz or 5GHz (blank for automatic): ');
+          const channel = await question('Channel (blank for automatic): ');
+          const security = await question('Security, wpa2, wpa3 or wpa2-pmf (blank for wpa2): ');
+          const hidden = await question('Hide the SSID? (y/N): ');
+          const options: HotspotOptions = {
+            band: (band.trim() || undefined) as HotspotOptions['band'],
+            channel: channel.trim() ? parseInt(channel, 10) : undefined,
+            security: (security.trim() || undefined) as HotspotOptions['security'],
+            hidden: hidden.trim().toLowerCase() === 'y' || undefined
+          };
 
           console.log('\nStarting hotspot...');
-          const result = await networkControl.startHotspot(ssid, password);
+          const result = await networkControl.startHotspot(ssid, password, options);
           if (result) {
             console.log('Hotspot started successfully');
             console.log('\nNetwork Share QR Code:');
             console.log('Scan to connect:');
-            await generateNetworkQR(ssid, password);
+            await generateNetworkQR(ssid, password, { hidden: options.hidden, sae: options.security === 'wpa3' });
           } else {
             console.log('Failed to start hotspot');
           }
@@ -118,23 +130,33 @@ async function main() {
 
         case '7': {
           console.log('\nSetting up WireGuard VPN...');
+          const name = (await question('Enter a name for the tunnel (default: wg0): ')).trim() || 'wg0';
           const endpoint = await question('Enter VPN server endpoint (e.g., vpn.example.com:51820): ');
-          const allowedIPs = (await question('Enter allowed IPs (comma separated, e.g., 10.0.0.0/24,192.168.0.0/24): ')).split(',');
+          const peerPublicKey = await question('Enter the server\'s public key: ');
+          const address = await question('Enter the tunnel address assigned by the server (e.g., 10.8.0.2/32): ');
+          const allowedIPs = (await question('Enter allowed IPs (comma separated, e.g., 10.0.0.0/24,192.168.0.0/24): ')).split(',').map(ip => ip.trim());
           const dns = await question('Enter DNS server (optional): ');
+          const presharedKey = await question('Enter preshared key (optional): ');
+          const mtu = await question('Enter MTU (optional): ');
 
-          const result = await networkControl.setupWireGuardWithQR({
+          const result = await networkControl.setupWireGuardWithQR(name, {
             endpoint,
+            peerPublicKey: peerPublicKey.trim(),
+            address: address.trim(),
             allowedIPs,
-            dns: dns || undefined
+            dns: dns || undefined,
+            presharedKey: presharedKey.trim() || undefined,
+            mtu: mtu ? parseInt(mtu, 10) : undefined
           });
 
           if (result.success && result.config) {
             console.log('\nVPN setup successful!');
             console.log('\nScan this QR code with your mobile device to import the configuration:');
             await generateWireGuardQR(result.config);
-            console.log('\nConfiguration has been saved to /etc/wireguard/wg0.conf');
+            console.log(`\nConfiguration has been saved to /etc/wireguard/${name}.conf`);
           } else {
             console.log('Failed to setup VPN');
+            result.errors?.forEach(error => console.log(`  - ${error}`));
           }
           break;
         }
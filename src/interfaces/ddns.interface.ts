@@ -0,0 +1,82 @@
+export type DdnsProviderType = 'nsupdate' | 'http' | 'cloudflare';
+
+interface DdnsRecordBase {
+  /** Name kept pointing at the public IP, e.g. pi.example.com */
+  hostname: string;
+  /** Record TTL in seconds (default 300) */
+  ttl?: number;
+}
+
+/**
+ * RFC 2136 dynamic update sent with nsupdate, optionally signed with TSIG
+ */
+export interface NsupdateRecord extends DdnsRecordBase {
+  provider: 'nsupdate';
+  /** Primary server accepting updates, host or host:port */
+  server: string;
+  /** Zone to update (default: nsupdate works it out from the hostname) */
+  zone?: string;
+  /** TSIG key file as written by tsig-keygen or ddns-confgen */
+  keyFile?: string;
+  /** Inline TSIG key, used when no key file is given */
+  key?: { name: string; secret: string; algorithm?: string };
+}
+
+/**
+ * Any update URL; {ip} and {hostname} are filled in in the URL and body
+ */
+export interface HttpRecord extends DdnsRecordBase {
+  provider: 'http';
+  url: string;
+  method?: 'GET' | 'POST';
+  body?: string;
+  contentType?: string;
+  /** Sent as basic auth */
+  username?: string;
+  password?: string;
+  /** Regex the reply must match, for services answering failures with 200 (e.g. dyndns2 "good|nochg") */
+  successPattern?: string;
+}
+
+/**
+ * Cloudflare's DNS records API, or anything speaking it
+ */
+export interface CloudflareRecord extends DdnsRecordBase {
+  provider: 'cloudflare';
+  /** API token allowed to edit the zone's DNS */
+  apiToken: string;
+  zoneId: string;
+  /** API root (default https://api.cloudflare.com/client/v4) */
+  apiUrl?: string;
+  proxied?: boolean;
+}
+
+export type DdnsRecord = NsupdateRecord | HttpRecord | CloudflareRecord;
+
+/**
+ * Sets a hostname's address record
+ */
+export interface DdnsProvider {
+  update(ip: string): Promise<void>;
+}
+
+export interface DdnsRecordState {
+  /** Address the record was last set to */
+  ip?: string;
+  updatedAt?: string;
+  lastError?: string;
+  /** Failed attempts in a row */
+  failures: number;
+  /** No new attempt before this time, unless forced */
+  retryAt?: string;
+}
+
+export type DdnsRecordStatus = DdnsRecord & DdnsRecordState;
+
+export interface DdnsUpdateResult {
+  hostname: string;
+  ip?: string;
+  outcome: 'updated' | 'unchanged' | 'deferred' | 'failed';
+  error?: string;
+  retryAt?: string;
+}
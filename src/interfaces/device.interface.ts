@@ -0,0 +1,43 @@
+export interface ConnectedDevice {
+  ip: string;
+  mac: string;
+  hostname?: string;
+  lastSeen?: string;
+  /** Name given with "devices rename" */
+  label?: string;
+  /** Manufacturer from the OUI database */
+  vendor?: string;
+  /** Locally administered (randomized) MAC, which has no vendor */
+  randomizedMac?: boolean;
+}
+
+export type DeviceTrust = 'unknown' | 'trusted' | 'untrusted';
+
+/**
+ * What WorkHive remembers about a client, keyed by MAC address
+ */
+export interface DeviceRecord {
+  mac: string;
+  /** ISO timestamps of the first and most recent sighting */
+  firstSeen?: string;
+  lastSeen?: string;
+  /** Every hostname and IP the device has used, oldest first */
+  hostnames?: string[];
+  ips?: string[];
+  label?: string;
+  owner?: string;
+  trust?: DeviceTrust;
+  blocked?: boolean;
+}
+
+/**
+ * A registry entry combined with whether the device is on the hotspot right now
+ */
+export interface InventoryDevice extends DeviceRecord {
+  online: boolean;
+  /** Current IP when online */
+  ip?: string;
+  hostname?: string;
+  vendor?: string;
+  randomizedMac?: boolean;
+}
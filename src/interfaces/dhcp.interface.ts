@@ -0,0 +1,42 @@
+/**
+ * Address a device always gets from the hotspot
+ */
+export interface DhcpStaticLease {
+  mac: string;
+  ip: string;
+  /** Name handed to the device and answered by the hotspot's DNS */
+  hostname?: string;
+}
+
+/**
+ * DHCP server settings of a hotspot profile. The network part (subnet,
+ * gateway, pool, lease time) goes into the NetworkManager profile; static
+ * leases and options into files dnsmasq re-reads without a restart.
+ */
+export interface DhcpSettings {
+  /** Hotspot network, e.g. 192.168.50.0/24 (NetworkManager's default is 10.42.0.0/24) */
+  subnet?: string;
+  /** The Pi's address on the hotspot network; the first address of the subnet by default */
+  gateway?: string;
+  /** First and last address handed out; needs NetworkManager 1.42 or later */
+  rangeStart?: string;
+  rangeEnd?: string;
+  /** Lease time in seconds; needs NetworkManager 1.42 or later */
+  leaseTime?: number;
+  staticLeases?: DhcpStaticLease[];
+  /** Extra dnsmasq dhcp-option values, e.g. "option:ntp-server,192.168.50.1" */
+  options?: string[];
+}
+
+/**
+ * Settings with NetworkManager's defaults filled in
+ */
+export interface EffectiveDhcpSettings {
+  subnet: string;
+  gateway: string;
+  rangeStart: string;
+  rangeEnd: string;
+  leaseTime: number;
+  staticLeases: DhcpStaticLease[];
+  options: string[];
+}
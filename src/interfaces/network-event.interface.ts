@@ -0,0 +1,163 @@
+import { PortalAuthMode } from './portal.interface';
+
+export interface ConnectedEvent {
+  type: 'connected';
+  timestamp: Date;
+  ssid?: string;
+  mode: string; // 'wifi' or 'ethernet'
+  interfaceName?: string;
+  ipAddress?: string;
+}
+
+export interface DisconnectedEvent {
+  type: 'disconnected';
+  timestamp: Date;
+  /** Network that was left, if known */
+  ssid?: string;
+  /** Mode before the disconnect ('wifi', 'ap' or 'ethernet') */
+  previousMode?: string;
+  interfaceName?: string;
+}
+
+export interface ApStartedEvent {
+  type: 'ap-started';
+  timestamp: Date;
+  ssid?: string;
+  interfaceName?: string;
+  ipAddress?: string;
+}
+
+export interface ClientJoinedEvent {
+  type: 'client-joined';
+  timestamp: Date;
+  mac: string;
+  ip?: string;
+  hostname?: string;
+  interfaceName: string;
+}
+
+export interface VpnHandshakeEvent {
+  type: 'vpn-handshake';
+  timestamp: Date;
+  interfaceName: string;
+  publicKey: string;
+  latestHandshake: Date;
+}
+
+export interface NetworkEventMap {
+  'connected': ConnectedEvent;
+  'disconnected': DisconnectedEvent;
+  'ap-started': ApStartedEvent;
+  'client-joined': ClientJoinedEvent;
+  'vpn-handshake': VpnHandshakeEvent;
+}
+
+export type NetworkEventType = keyof NetworkEventMap;
+
+export type NetworkEvent = NetworkEventMap[NetworkEventType];
+
+export interface TunnelStaleEvent {
+  type: 'tunnel-stale';
+  timestamp: Date;
+  tunnel: string;
+  /** What gave it away, e.g. "no handshake for 240s" */
+  reason: string;
+}
+
+export interface TunnelRestartedEvent {
+  type: 'tunnel-restarted';
+  timestamp: Date;
+  tunnel: string;
+}
+
+export interface TunnelEndpointChangedEvent {
+  type: 'tunnel-endpoint-changed';
+  timestamp: Date;
+  tunnel: string;
+  endpoint: string;
+}
+
+export interface TunnelFailoverEvent {
+  type: 'tunnel-failover';
+  timestamp: Date;
+  tunnel: string;
+  /** Tunnel now carrying the traffic */
+  secondary: string;
+}
+
+/** A failed-over primary is back up on trial; it stays if it proves healthy */
+export interface TunnelFailbackEvent {
+  type: 'tunnel-failback';
+  timestamp: Date;
+  tunnel: string;
+  /** Tunnel that stood in and is now stopped */
+  secondary: string;
+}
+
+export interface TunnelRecoveredEvent {
+  type: 'tunnel-recovered';
+  timestamp: Date;
+  tunnel: string;
+  /** How long the tunnel was stale */
+  downSeconds: number;
+  latencyMs?: number;
+}
+
+export interface TunnelHealthEventMap {
+  'tunnel-stale': TunnelStaleEvent;
+  'tunnel-restarted': TunnelRestartedEvent;
+  'tunnel-endpoint-changed': TunnelEndpointChangedEvent;
+  'tunnel-failover': TunnelFailoverEvent;
+  'tunnel-failback': TunnelFailbackEvent;
+  'tunnel-recovered': TunnelRecoveredEvent;
+}
+
+export type TunnelHealthEventType = keyof TunnelHealthEventMap;
+
+export type TunnelHealthEvent = TunnelHealthEventMap[TunnelHealthEventType];
+
+export interface UplinkChangedEvent {
+  type: 'uplink-changed';
+  timestamp: Date;
+  /** Uplink that carried the traffic before, if any */
+  from?: string;
+  to: string;
+  /** Why, e.g. "usb0 stopped answering" */
+  reason: string;
+}
+
+export interface UplinkLostEvent {
+  type: 'uplink-lost';
+  timestamp: Date;
+  /** Uplink that failed last */
+  uplink?: string;
+}
+
+export interface UplinkEventMap {
+  'uplink-changed': UplinkChangedEvent;
+  'uplink-lost': UplinkLostEvent;
+}
+
+export type UplinkEventType = keyof UplinkEventMap;
+
+export type UplinkEvent = UplinkEventMap[UplinkEventType];
+
+export interface PortalAuthorizedEvent {
+  type: 'portal-authorized';
+  timestamp: Date;
+  mac: string;
+  ip: string;
+  method: PortalAuthMode;
+  /** Voucher code redeemed */
+  voucher?: string;
+  /** Until when the device may use the hotspot */
+  expiresAt: Date;
+}
+
+export interface PortalEventMap {
+  'portal-authorized': PortalAuthorizedEvent;
+}
+
+export type PortalEventType = keyof PortalEventMap;
+
+export type PortalEvent = PortalEventMap[PortalEventType];
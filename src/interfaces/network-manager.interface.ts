@@ -1,5 +1,33 @@
 import { WiFiNetwork, WiFiConnectionConfig, HotspotConfig } from '../interfaces/wifi.interface';
 
+export type NetworkBackendType = 'nmcli' | 'dbus';
+
+export interface NetworkStatus {
+  connected: boolean;
+  ssid?: string;
+  mode: string; // 'wifi', 'ap', 'ethernet', 'disconnected', 'unknown'
+  signal?: number;
+  freq?: string;
+  bitrate?: string;
+  security?: string[];
+  ipAddress?: string;
+  gateway?: string;
+  macAddress?: string;
+  interfaceName?: string;
+  /** Interface carrying the default route, which may not be the one above */
+  uplink?: string;
+}
+
+export interface SavedConnection {
+  name: string;
+  type: string;
+  ssid?: string;
+  mode?: 'infrastructure' | 'ap' | 'adhoc' | 'mesh';
+  /** Unix timestamp of the last activation, 0 if never used */
+  timestamp: number;
+  active: boolean;
+}
+
 export interface NetworkManagerService {
   /**
    * Scan for available WiFi networks
@@ -12,9 +40,9 @@ export interface NetworkManagerService {
   connect(config: WiFiConnectionConfig): Promise<boolean>;
   
   /**
-   * Disconnect from current network
+   * Disconnect a Wi-Fi interface (the first one when omitted)
    */
-  disconnect(): Promise<boolean>;
+  disconnect(interfaceName?: string): Promise<boolean>;
   
   /**
    * Start hotspot mode
@@ -22,16 +50,32 @@ export interface NetworkManagerService {
   startHotspot(config: HotspotConfig): Promise<boolean>;
   
   /**
-   * Stop hotspot mode
+   * Stop hotspot mode, only on this interface when given
    */
-  stopHotspot(): Promise<boolean>;
+  stopHotspot(interfaceName?: string): Promise<boolean>;
   
   /**
-   * Get current connection status
+   * Get current connection status, of this interface when given
+   */
+  getStatus(interfaceName?: string): Promise<NetworkStatus>;
+
+  /**
+   * Names of the Wi-Fi interfaces NetworkManager manages
+   */
+  listWifiInterfaces(): Promise<string[]>;
+
+  /**
+   * List connection profiles saved in NetworkManager
+   */
+  listConnections(): Promise<SavedConnection[]>;
+
+  /**
+   * Activate a saved connection profile by name
+   */
+  activateConnection(name: string): Promise<boolean>;
+
+  /**
+   * Read the pre-shared key stored in a connection profile
    */
-  getStatus(): Promise<{
-    connected: boolean;
-    ssid?: string;
-    mode: 'client' | 'hotspot' | 'disconnected';
-  }>;
+  getConnectionSecret(name: string): Promise<string | undefined>;
 }
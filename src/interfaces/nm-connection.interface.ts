@@ -5,16 +5,29 @@ export interface NMConnection {
     hidden?: boolean;
     band?: string;
     channel?: number;
+    'channel-width'?: number;
+    /** -1 default, 0 off, 1 on */
+    'ap-isolation'?: number;
   };
   '802-11-wireless-security'?: {
     'key-mgmt': string;
     'psk': string;
+    proto?: string[];
+    pairwise?: string[];
+    group?: string[];
+    /** 0 default, 1 disable, 2 optional, 3 required */
+    pmf?: number;
   };
   connection: {
     type: string;
     id: string;
+    autoconnect?: boolean;
   };
   ipv4?: {
     method: string;
+    'address-data'?: Array<{ address: string; prefix: number }>;
+    /** "first,last" */
+    'shared-dhcp-range'?: string;
+    'shared-dhcp-lease-time'?: number;
   };
 }
@@ -0,0 +1,34 @@
+/**
+ * What a new client has to do on the portal page: accept the terms, enter
+ * the shared password, or redeem a one-time voucher
+ */
+export type PortalAuthMode = 'terms' | 'password' | 'voucher';
+
+export interface PortalVoucher {
+  code: string;
+  createdAt: string;
+  /** Overrides the portal's duration for this voucher */
+  durationHours?: number;
+  /** Device that redeemed it, and when */
+  usedBy?: string;
+  usedAt?: string;
+}
+
+/**
+ * Captive portal of a hotspot profile. Devices that pass it get a timed
+ * approval, so the portal implies approval mode for the hotspot.
+ */
+export interface CaptivePortalSettings {
+  enabled: boolean;
+  mode: PortalAuthMode;
+  /** How long a device stays authorized (default 24 hours) */
+  durationHours?: number;
+  /** Page heading (default: the hotspot's SSID) */
+  title?: string;
+  /** Terms of use shown above the form */
+  terms?: string;
+  /** Shared password for 'password' mode */
+  password?: string;
+  vouchers?: PortalVoucher[];
+}
+
@@ -0,0 +1,57 @@
+/**
+ * This device's setip.io registration, kept in the config directory
+ */
+export interface SetipRegistration {
+  /** API root the device registered with */
+  apiUrl: string;
+  deviceId: string;
+  /** Bearer token for the device's API calls */
+  token: string;
+  /** WireGuard key the service knows this device by */
+  privateKey: string;
+  publicKey: string;
+  /** Tunnel the service's parameters are written to */
+  tunnel: string;
+  /** Public address last assigned by the service */
+  publicIp?: string;
+  /** Subdomains this device claimed */
+  subdomains: SetipSubdomain[];
+  registeredAt: string;
+}
+
+/**
+ * Tunnel parameters handed out by setip.io
+ */
+export interface SetipTunnelParams {
+  /** Server host:port */
+  endpoint: string;
+  serverPublicKey: string;
+  presharedKey?: string;
+  /** This device's tunnel address, e.g. 100.64.12.7/32 */
+  address: string;
+  allowedIPs: string[];
+  dns?: string;
+  mtu?: number;
+  /** Public address traffic through the tunnel leaves from and arrives at */
+  publicIp: string;
+}
+
+export interface SetipSubdomain {
+  /** Label, e.g. "myapp" */
+  name: string;
+  /** Full name, e.g. myapp.setip.io */
+  fqdn: string;
+  /** Address the name resolves to */
+  target: string;
+}
+
+export interface SetipStatus {
+  registered: boolean;
+  apiUrl: string;
+  deviceId?: string;
+  tunnel?: string;
+  /** Whether the setip tunnel is up */
+  connected: boolean;
+  publicIp?: string;
+  subdomains: SetipSubdomain[];
+}
@@ -0,0 +1,38 @@
+import { RunCommandOptions } from '../utils/command.util';
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Every interaction with the host system (nmcli, wg, iptables, systemctl,
+ * files under /etc and /var) goes through a backend, so the services can be
+ * exercised against a simulated system.
+ */
+export interface SystemBackend {
+  /**
+   * Whether NetworkManager can be reached over D-Bus on this system (default: true)
+   */
+  supportsDbus?: boolean;
+
+  /**
+   * Run a program with an argument vector (never through a shell)
+   */
+  run(program: string, args?: string[], options?: RunCommandOptions): Promise<CommandResult>;
+
+  /**
+   * Read a system file, escalating privileges when needed
+   */
+  readFile(filePath: string): Promise<string>;
+
+  /**
+   * Write a system file, escalating privileges when needed
+   */
+  writeFile(filePath: string, content: string, options?: { mode?: number }): Promise<void>;
+
+  /**
+   * Check whether a system file exists
+   */
+  fileExists(filePath: string): Promise<boolean>;
+}
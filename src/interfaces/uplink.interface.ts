@@ -0,0 +1,45 @@
+/**
+ * 'usb-tether' covers Android RNDIS/CDC tethering (usb0, enx*), 'iphone' the
+ * ipheth driver iPhones use over USB
+ */
+export type UplinkKind = 'ethernet' | 'usb-tether' | 'iphone' | 'wifi';
+
+/**
+ * An interface that can carry traffic to the internet
+ */
+export interface Uplink {
+  interfaceName: string;
+  kind: UplinkKind;
+  /** Has an address and a default route */
+  up: boolean;
+  ipAddress?: string;
+  gateway?: string;
+}
+
+/**
+ * User choice for an uplink; interfaceName may end in * to match a family
+ * of names, e.g. enx* for whatever phone is plugged in
+ */
+export interface UplinkPreference {
+  interfaceName: string;
+  /** Lower is preferred */
+  priority?: number;
+  /** Never route through it */
+  disabled?: boolean;
+}
+
+export interface UplinkSettings {
+  preferences?: UplinkPreference[];
+  /** Address pinged through each uplink (default 8.8.8.8) */
+  probeHost?: string;
+}
+
+export interface UplinkStatus extends Uplink {
+  priority: number;
+  disabled: boolean;
+  /** Probe answered through this uplink; undefined when not probed */
+  healthy?: boolean;
+  latencyMs?: number;
+  /** Carries the default route */
+  active: boolean;
+}
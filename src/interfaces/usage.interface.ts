@@ -0,0 +1,41 @@
+export type UsageScope = 'device' | 'interface' | 'vpn';
+export type UsagePeriod = 'day' | 'month';
+
+export interface TrafficTotals {
+  /** Bytes towards the device or into the Pi */
+  download: number;
+  /** Bytes from the device or out of the Pi */
+  upload: number;
+}
+
+export interface UsageEntry extends TrafficTotals {
+  scope: UsageScope;
+  /** MAC address for devices, interface name for uplinks and WireGuard */
+  target: string;
+  /** Device name from the registry */
+  label?: string;
+}
+
+export interface UsageQuota {
+  scope: UsageScope;
+  target: string;
+  period: UsagePeriod;
+  /** Allowance for download and upload combined, in bytes */
+  limitBytes: number;
+  /** Only report when used up, or also stop forwarding the target's traffic */
+  action: 'warn' | 'cutoff';
+}
+
+export interface QuotaState {
+  quota: UsageQuota;
+  used: number;
+  exceeded: boolean;
+}
+
+export interface UsageReport {
+  period: UsagePeriod;
+  /** Day (YYYY-MM-DD) or month (YYYY-MM) the figures cover */
+  key: string;
+  entries: UsageEntry[];
+  quotas: QuotaState[];
+}
@@ -1,21 +1,57 @@
+import { DhcpSettings } from './dhcp.interface';
+
 export interface WiFiNetwork {
   ssid: string;
   signal: number;
   security: string[]; // This will be an array of security protocols like ["WPA2", "PSK"]
   freq?: string;     // Frequency, e.g., "2412 MHz"
+  bssid?: string;    // Access point MAC address, e.g., "AA:BB:CC:DD:EE:FF"
 }
 
 export interface WiFiConnectionConfig {
   ssid: string;
   password?: string;
   hidden?: boolean;
+  /** Radio to join with; NetworkManager picks one when omitted */
+  interfaceName?: string;
 }
 
-export interface HotspotConfig {
+export type HotspotBand = '2.4GHz' | '5GHz';
+
+/**
+ * 'wpa2-pmf' is WPA2 with optional protected management frames: every WPA2
+ * device can join and those that support PMF use it
+ */
+export type HotspotSecurity = 'wpa2' | 'wpa3' | 'wpa2-pmf';
+
+export type HotspotChannelWidth = 20 | 40 | 80;
+
+/**
+ * Radio settings for the hotspot; NetworkManager's defaults apply to anything omitted
+ */
+export interface HotspotOptions {
+  band?: HotspotBand;
+  channel?: number;
+  /** Channel width in MHz; needs NetworkManager 1.50 or later */
+  channelWidth?: HotspotChannelWidth;
+  /** Regulatory domain as an ISO 3166 code, e.g. "DE"; decides the allowed channels */
+  country?: string;
+  /** Leave the SSID out of beacons */
+  hidden?: boolean;
+  security?: HotspotSecurity;
+  /** Keep clients from reaching each other */
+  isolation?: boolean;
+  /** Most clients handed an address at once */
+  maxClients?: number;
+}
+
+export interface HotspotConfig extends HotspotOptions {
   ssid: string;
   password: string;
-  band?: '2.4GHz' | '5GHz';
-  channel?: number;
+  /** Radio to serve the hotspot from; NetworkManager picks one when omitted */
+  interfaceName?: string;
+  /** Subnet, gateway, pool and lease time; the rest of the DHCP settings are dnsmasq's */
+  dhcp?: DhcpSettings;
 }
 
 export interface VPNConfig {
@@ -1,18 +1,198 @@
+import { WgQuickConfig } from '../utils/wg-config.util';
+
+/**
+ * One end of a point-to-point tunnel: this end's keys and address, and the
+ * remote peer it talks to
+ */
 export interface WireGuardConfig {
+  /** This end's keypair */
   privateKey: string;
   publicKey: string;
+  /** This end's tunnel address, e.g. 10.8.0.2/32 */
   address: string;
   dns?: string;
+  mtu?: number;
+  /** The remote peer's public key */
+  peerPublicKey: string;
+  /** Optional extra symmetric key shared with the peer */
+  presharedKey?: string;
+  endpoint: string;
+  allowedIPs: string[];
+  persistentKeepalive?: number;
+  /** wg-quick extras kept from imported files: routing table, fwmark and hook commands */
+  table?: string;
+  fwMark?: string;
+  preUp?: string[];
+  postUp?: string[];
+  preDown?: string[];
+  postDown?: string[];
+}
+
+/**
+ * What is needed to connect to an existing WireGuard server
+ */
+export interface WireGuardClientOptions {
+  /** Server host:port */
   endpoint: string;
+  /** Server public key */
+  peerPublicKey: string;
+  presharedKey?: string;
+  /** Address the server assigned to this client, e.g. 10.8.0.2/32 */
+  address: string;
+  /** Networks routed through the tunnel */
   allowedIPs: string[];
+  dns?: string;
+  mtu?: number;
+  /** Reuse an existing key instead of generating one */
+  privateKey?: string;
   persistentKeepalive?: number;
 }
 
+/**
+ * How the health monitor checks a tunnel and what it falls back to
+ */
+export interface TunnelHealthCheck {
+  /** Address pinged through the tunnel, e.g. the server's tunnel address */
+  probeHost?: string;
+  /** Endpoints tried in turn when a restart does not revive the tunnel */
+  secondaryEndpoints?: string[];
+  /** Tunnel brought up in its place when nothing else works */
+  secondaryTunnel?: string;
+}
+
+/**
+ * A named client tunnel, brought up by wg-quick as the interface of the same name
+ */
+export interface WireGuardTunnel {
+  /** Tunnel and interface name, e.g. "office" */
+  name: string;
+  config: WireGuardConfig;
+  createdAt: string;
+  healthCheck?: TunnelHealthCheck;
+  /** New keypair the tunnel switches to at switchAt, once the server knows it */
+  pendingKey?: PendingKey;
+  /**
+   * The imported wg-quick file, kept so that its other peers and its comments
+   * survive when the tunnel's settings change
+   */
+  wgQuick?: WgQuickConfig;
+}
+
+export interface PendingKey {
+  privateKey: string;
+  publicKey: string;
+  switchAt: string;
+}
+
+/**
+ * A peer as the running interface sees it
+ */
+export interface WireGuardPeerState {
+  publicKey: string;
+  endpoint?: string;
+  allowedIPs: string[];
+  latestHandshake?: Date;
+  /** Bytes received from and sent to this peer */
+  transferRx: number;
+  transferTx: number;
+}
+
 export interface WireGuardStatus {
+  /** Tunnel (interface) name */
+  name: string;
   active: boolean;
   publicKey?: string;
+  listenPort?: number;
+  /** Bytes received and sent over the tunnel, summed over its peers */
+  transferRx: number;
+  transferTx: number;
+  peers: WireGuardPeerState[];
+}
+
+/**
+ * One health check of a client tunnel
+ */
+export interface TunnelHealth {
+  name: string;
+  active: boolean;
+  /** Peer endpoint in use */
+  endpoint?: string;
+  /** Seconds since the latest handshake; undefined before the first one */
+  handshakeAge?: number;
+  /** Probe round trip through the tunnel; undefined without a probe or when it went unanswered */
+  latencyMs?: number;
+  /** A probe host is set and did not answer */
+  probeFailed: boolean;
+  /** Down, or, with PersistentKeepalive set, no handshake recently enough for the tunnel to carry traffic */
+  stale: boolean;
+  checkedAt: Date;
+}
+
+/**
+ * A teammate connecting to the Pi's WireGuard server
+ */
+export interface WireGuardPeer {
+  name: string;
+  publicKey: string;
+  /** Kept so the teammate's config can be shown again */
+  privateKey: string;
+  /** Tunnel address from the server's pool, e.g. 10.8.0.2/32 */
+  address: string;
+  /** Networks the teammate routes through the tunnel */
+  clientAllowedIPs: string[];
+  createdAt: string;
+  rotatedAt?: string;
+  /** Key replaced by the last rotation, accepted with its old address until expiresAt */
+  previousKey?: {
+    publicKey: string;
+    address: string;
+    expiresAt: string;
+  };
+}
+
+export interface WireGuardServerConfig {
+  interfaceName: string;
+  privateKey: string;
+  publicKey: string;
+  /** Server address; its subnet is the peer address pool, e.g. 10.8.0.1/24 */
+  address: string;
+  listenPort: number;
+  /** Public host:port teammates connect to */
+  endpoint: string;
+  dns?: string;
+  peers: WireGuardPeer[];
+}
+
+export interface WireGuardPeerStatus {
+  name: string;
+  publicKey: string;
+  address: string;
+  /** Where the teammate last connected from */
   endpoint?: string;
-  transferRx?: string;
-  transferTx?: string;
-  lastHandshake?: string;
+  latestHandshake?: Date;
+  transferRx: number;
+  transferTx: number;
+}
+
+/**
+ * When keys are rotated automatically
+ */
+export interface KeyRotationSchedule {
+  intervalDays: number;
+  /** How long replaced keys keep working */
+  overlapHours: number;
+  /** Client tunnels whose own key is rotated too; server peers always are */
+  tunnels?: string[];
+  lastRotation?: string;
+}
+
+export interface KeyRotationResult {
+  /** Server peers given a new key, with the config to hand them */
+  peers: Array<{ name: string; clientConfig: WireGuardConfig; file: string; previousKeyExpiresAt: string }>;
+  /** Client tunnels with a new key waiting to be registered on their server */
+  tunnels: Array<{ name: string; publicKey: string; switchAt: string }>;
+  /** Peers whose old key was revoked */
+  revoked: string[];
+  /** Tunnels that switched to their new key */
+  switched: string[];
 }
@@ -0,0 +1,390 @@
+import * as http from 'http';
+import * as dgram from 'dgram';
+import { AddressInfo } from 'net';
+import { createHash, timingSafeEqual } from 'crypto';
+import { EventEmitter } from 'events';
+import { CaptivePortalSettings, PortalAuthMode } from '../interfaces/portal.interface';
+import { PortalEvent, PortalEventMap, PortalEventType } from '../interfaces/network-event.interface';
+
+// Clients' port 80 and 53 are redirected here by the firewall
+export const DEFAULT_PORTAL_HTTP_PORT = 8080;
+export const DEFAULT_PORTAL_DNS_PORT = 8053;
+export const DEFAULT_PORTAL_HOURS = 24;
+export const PORTAL_PATH = '/portal';
+const MAX_FORM_BYTES = 4096;
+// DNS answers reuse the hotspot address for this long instead of looking it up per query
+const DNS_ADDRESS_TTL_MS = 10000;
+
+/**
+ * What the portal needs to know about the running hotspot, looked up per request
+ */
+export interface PortalContext {
+  /** The running hotspot profile's portal; no portal means nobody has to sign in */
+  settings?: CaptivePortalSettings;
+  ssid?: string;
+  /** The Pi's address on the hotspot, which DNS answers and redirects point to */
+  address?: string;
+}
+
+export interface CaptivePortalOptions {
+  getContext: () => Promise<PortalContext>;
+  /** MAC address of the hotspot client using an IP address */
+  identify: (ip: string) => Promise<string | undefined>;
+  isAuthorized: (mac: string) => Promise<boolean>;
+  /**
+   * Let a device through for a number of hours, redeeming the voucher if one was used
+   * @returns When the authorization ends
+   */
+  authorize: (mac: string, hours: number, voucher?: string) => Promise<Date>;
+  /** 0 picks a free port */
+  httpPort?: number;
+  dnsPort?: number;
+  /** Address to listen on (default: all) */
+  host?: string;
+}
+
+export declare interface CaptivePortalService {
+  on<K extends PortalEventType>(event: K, listener: (event: PortalEventMap[K]) => void): this;
+  on(event: 'event', listener: (event: PortalEvent) => void): this;
+  once<K extends PortalEventType>(event: K, listener: (event: PortalEventMap[K]) => void): this;
+  once(event: 'event', listener: (event: PortalEvent) => void): this;
+  off<K extends PortalEventType>(event: K, listener: (event: PortalEventMap[K]) => void): this;
+  off(event: 'event', listener: (event: PortalEvent) => void): this;
+}
+
+/**
+ * Voucher codes are compared without case, spaces or dashes
+ */
+export function normalizeVoucherCode(code: string): string {
+  return code.replace(/[\s-]+/g, '').toUpperCase();
+}
+
+/**
+ * Answer a DNS query with the portal's address: A questions get it with a
+ * one-second TTL, so devices look names up again once they are through;
+ * other types get an empty answer.
+ * @returns The reply, or undefined for anything that is not a standard query
+ */
+export function buildPortalDnsReply(query: Buffer, address: string): Buffer | undefined {
+  if (query.length < 12) return undefined;
+  const flags = query.readUInt16BE(2);
+  const isResponse = (flags & 0x8000) !== 0;
+  const opcode = (flags >> 11) & 0xf;
+  if (isResponse || opcode !== 0 || query.readUInt16BE(4) !== 1) return undefined;
+
+  // Walk the question's name labels
+  let offset = 12;
+  while (offset < query.length && query[offset] !== 0) {
+    if ((query[offset] & 0xc0) !== 0) return undefined;
+    offset += query[offset] + 1;
+  }
+  offset += 1;
+  if (offset + 4 > query.length) return undefined;
+  const type = query.readUInt16BE(offset);
+  const qclass = query.readUInt16BE(offset + 2);
+  const question = query.subarray(12, offset + 4);
+  const answers = (type === 1 || type === 255) && qclass === 1 ? 1 : 0;
+
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(query.readUInt16BE(0), 0);
+  // Response, authoritative, recursion desired copied, recursion available
+  header.writeUInt16BE(0x8400 | (flags & 0x0100) | 0x0080, 2);
+  header.writeUInt16BE(1, 4);
+  header.writeUInt16BE(answers, 6);
+  if (!answers) return Buffer.concat([header, question]);
+
+  const answer = Buffer.alloc(16);
+  // Name: pointer to the question's
+  answer.writeUInt16BE(0xc00c, 0);
+  answer.writeUInt16BE(1, 2);
+  answer.writeUInt16BE(1, 4);
+  answer.writeUInt32BE(1, 6);
+  answer.writeUInt16BE(4, 10);
+  address.split('.').forEach((part, i) => answer.writeUInt8(parseInt(part, 10), 12 + i));
+  return Buffer.concat([header, question, answer]);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+function sameSecret(given: string, expected: string): boolean {
+  // Compare digests so the comparison takes the same time whatever the lengths
+  const a = createHash('sha256').update(given).digest();
+  const b = createHash('sha256').update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+/**
+ * The captive portal's servers: an HTTP server that sends every request to
+ * the sign-in page and a DNS server that resolves every name to the Pi, so
+ * the "sign in to network" prompt of phones and laptops opens the page.
+ * Which clients reach them is up to the firewall redirect; signed-in devices
+ * bypass it. Sign-ins are emitted under 'portal-authorized' and 'event'.
+ */
+export class CaptivePortalService extends EventEmitter {
+  private options: CaptivePortalOptions;
+  private server?: http.Server;
+  private dns?: dgram.Socket;
+  // Sign-ins run one at a time so a voucher cannot be redeemed twice
+  private signIns: Promise<unknown> = Promise.resolve();
+  private dnsAddress?: { value?: string; expires: number };
+
+  constructor(options: CaptivePortalOptions) {
+    super();
+    this.options = options;
+  }
+
+  get running(): boolean {
+    return !!this.server;
+  }
+
+  /** Port the HTTP server listens on, once started */
+  get httpPort(): number | undefined {
+    return (this.server?.address() as AddressInfo | null)?.port;
+  }
+
+  /** Port the DNS server listens on, once started */
+  get dnsPort(): number | undefined {
+    return this.dns ? this.dns.address().port : undefined;
+  }
+
+  async start(): Promise<void> {
+    if (this.server) return;
+    const host = this.options.host ?? '0.0.0.0';
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('Captive portal request failed:', (error as Error).message || error);
+        if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end('Internal error');
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.httpPort ?? DEFAULT_PORTAL_HTTP_PORT, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const dns = dgram.createSocket('udp4');
+    dns.on('message', (message, remote) => this.answerDns(message, remote));
+    try {
+      await new Promise<void>((resolve, reject) => {
+        dns.once('error', reject);
+        dns.bind(this.options.dnsPort ?? DEFAULT_PORTAL_DNS_PORT, host, () => {
+          dns.off('error', reject);
+          resolve();
+        });
+      });
+    } catch (error) {
+      server.close();
+      throw error;
+    }
+    dns.on('error', error => console.error('Captive portal DNS error:', error.message));
+    this.server = server;
+    this.dns = dns;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    const dns = this.dns;
+    this.server = undefined;
+    this.dns = undefined;
+    dns?.close();
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  private publish(event: PortalEvent): void {
+    this.emit(event.type, event);
+    this.emit('event', event);
+  }
+
+  private async portalAddress(): Promise<string | undefined> {
+    if (!this.dnsAddress || this.dnsAddress.expires <= Date.now()) {
+      const { address } = await this.options.getContext();
+      this.dnsAddress = { value: address, expires: Date.now() + DNS_ADDRESS_TTL_MS };
+    }
+    return this.dnsAddress.value;
+  }
+
+  private answerDns(message: Buffer, remote: dgram.RemoteInfo): void {
+    this.portalAddress().then(address => {
+      const reply = address ? buildPortalDnsReply(message, address) : undefined;
+      if (reply) this.dns?.send(reply, remote.port, remote.address);
+    }).catch(error => console.error('Captive portal DNS error:', (error as Error).message || error));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const context = await this.options.getContext();
+    const url = new URL(req.url || '/', 'http://portal');
+    const host = (req.headers.host || '').replace(/:\d+$/, '');
+
+    if (url.pathname !== PORTAL_PATH) {
+      // Anything else is a page the device wanted, or its connectivity check
+      const original = `http://${req.headers.host || host}${req.url || '/'}`;
+      const portal = !context.address || host === context.address ? '' : `http://${context.address}`;
+      res.writeHead(302, { Location: `${portal}${PORTAL_PATH}?url=${encodeURIComponent(original)}`, 'Cache-Control': 'no-store' });
+      res.end();
+      return;
+    }
+
+    const target = url.searchParams.get('url') || undefined;
+    const settings = context.settings;
+    if (!settings?.enabled) {
+      this.page(res, 200, 'No sign-in needed', '<p>This network does not ask you to sign in.</p>');
+      return;
+    }
+    const ip = (req.socket.remoteAddress || '').replace(/^::ffff:/, '');
+    const mac = await this.options.identify(ip);
+    if (!mac) {
+      this.page(res, 403, 'Device not recognized',
+        '<p>Your device is not connected to this hotspot. Reconnect to the network and try again.</p>');
+      return;
+    }
+
+    if (req.method === 'POST') {
+      const form = new URLSearchParams(await this.readBody(req));
+      const result = await this.signIn(settings, mac, ip, form);
+      const next = form.get('url') || target;
+      if (typeof result === 'string') {
+        this.page(res, 403, this.title(context), this.form(settings, next, result));
+      } else {
+        this.page(res, 200, 'You are online',
+          `<p>You can use the network until ${escapeHtml(result.toLocaleString())}.</p>${this.continueLink(next)}`);
+      }
+      return;
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, POST' });
+      res.end();
+      return;
+    }
+    if (await this.options.isAuthorized(mac)) {
+      this.page(res, 200, 'You are online', `<p>This device is signed in.</p>${this.continueLink(target)}`);
+      return;
+    }
+    this.page(res, 200, this.title(context), this.form(settings, target));
+  }
+
+  /**
+   * Check a sign-in and authorize the device when it passes
+   * @returns When the authorization ends, or why the sign-in failed
+   */
+  private signIn(settings: CaptivePortalSettings, mac: string, ip: string, form: URLSearchParams): Promise<Date | string> {
+    const run = async (): Promise<Date | string> => {
+      // Vouchers may have been redeemed since the request started
+      const current = (await this.options.getContext()).settings || settings;
+      const hours = current.durationHours ?? DEFAULT_PORTAL_HOURS;
+      let expiresAt: Date;
+      let voucherCode: string | undefined;
+
+      switch (current.mode) {
+        case 'terms':
+          if (!form.get('accept')) return 'Please accept the terms to continue.';
+          expiresAt = await this.options.authorize(mac, hours);
+          break;
+        case 'password':
+          if (!current.password || !sameSecret(form.get('password') || '', current.password)) {
+            return 'Wrong password.';
+          }
+          expiresAt = await this.options.authorize(mac, hours);
+          break;
+        case 'voucher': {
+          const code = normalizeVoucherCode(form.get('voucher') || '');
+          const voucher = (current.vouchers || []).find(v => v.code === code);
+          if (!code || !voucher) return 'Unknown voucher code.';
+          if (voucher.usedBy && voucher.usedBy !== mac) return 'This voucher has already been used.';
+          const voucherHours = voucher.durationHours ?? hours;
+          if (voucher.usedAt && new Date(voucher.usedAt).getTime() + voucherHours * 3600 * 1000 <= Date.now()) {
+            return 'This voucher has expired.';
+          }
+          voucherCode = voucher.code;
+          // Signing in again with one's own voucher does not extend it
+          const remaining = voucher.usedAt
+            ? (new Date(voucher.usedAt).getTime() + voucherHours * 3600 * 1000 - Date.now()) / 3600000
+            : voucherHours;
+          expiresAt = await this.options.authorize(mac, remaining, voucher.code);
+          break;
+        }
+        default:
+          return `Unsupported sign-in mode '${current.mode}'.`;
+      }
+
+      this.publish({ type: 'portal-authorized', timestamp: new Date(), mac, ip, method: current.mode, expiresAt, voucher: voucherCode });
+      return expiresAt;
+    };
+    const result = this.signIns.then(run);
+    this.signIns = result.catch(() => undefined);
+    return result;
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.setEncoding('utf8');
+      req.on('data', (chunk: string) => {
+        body += chunk;
+        if (body.length > MAX_FORM_BYTES) {
+          reject(new Error('Form too large'));
+          req.destroy();
+        }
+      });
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+  }
+
+  private title(context: PortalContext): string {
+    return context.settings?.title || (context.ssid ? `Welcome to ${context.ssid}` : 'Welcome');
+  }
+
+  private continueLink(target?: string): string {
+    if (!target || !/^https?:\/\//i.test(target)) return '';
+    return `<p><a href="${escapeHtml(target)}">Continue to ${escapeHtml(target)}</a></p>`;
+  }
+
+  private form(settings: CaptivePortalSettings, target?: string, error?: string): string {
+    const fields: Record<PortalAuthMode, string> = {
+      terms: '<label><input type="checkbox" name="accept" value="yes" required> I accept the terms of use</label>',
+      password: '<label>Password <input type="password" name="password" autocomplete="current-password" required autofocus></label>',
+      voucher: '<label>Voucher code <input type="text" name="voucher" autocapitalize="characters" autocomplete="off" required autofocus></label>'
+    };
+    return [
+      settings.terms ? `<div class="terms">${escapeHtml(settings.terms).replace(/\n/g, '<br>')}</div>` : '',
+      error ? `<p class="error">${escapeHtml(error)}</p>` : '',
+      `<form method="post" action="${PORTAL_PATH}">`,
+      target ? `<input type="hidden" name="url" value="${escapeHtml(target)}">` : '',
+      `<p>${fields[settings.mode] || fields.terms}</p>`,
+      '<p><button type="submit">Connect</button></p>',
+      '</form>'
+    ].join('\n');
+  }
+
+  private page(res: http.ServerResponse, status: number, heading: string, body: string): void {
+    const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(heading)}</title>
+<style>
+body { font-family: sans-serif; max-width: 32em; margin: 2em auto; padding: 0 1em; }
+.terms { max-height: 16em; overflow-y: auto; border: 1px solid #ccc; padding: 0.5em; }
+.error { color: #b00; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(heading)}</h1>
+${body}
+</body>
+</html>
+`;
+    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+    res.end(html);
+  }
+}
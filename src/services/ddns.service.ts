@@ -0,0 +1,294 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import {
+  CloudflareRecord,
+  DdnsProvider,
+  DdnsProviderType,
+  DdnsRecord,
+  DdnsRecordState,
+  DdnsRecordStatus,
+  DdnsUpdateResult,
+  HttpRecord,
+  NsupdateRecord
+} from '../interfaces/ddns.interface';
+import { createSystemBackend } from '../backends';
+import { ConfigManager } from '../utils/config.util';
+import { getPublicIp } from '../utils/display.util';
+import { HttpClient } from '../utils/http.util';
+import { isIpv4 } from '../utils/ip.util';
+
+export const DDNS_PROVIDER_TYPES: DdnsProviderType[] = ['nsupdate', 'http', 'cloudflare'];
+const DEFAULT_TTL = 300;
+const CLOUDFLARE_API_URL = 'https://api.cloudflare.com/client/v4';
+// Failed updates are retried after 1, 2, 4... minutes, at most hourly
+const BACKOFF_BASE_SECONDS = 60;
+const BACKOFF_MAX_SECONDS = 3600;
+const HOSTNAME_PATTERN = /^([a-z0-9_]([a-z0-9-]*[a-z0-9])?\.)+[a-z]([a-z0-9-]*[a-z0-9])?\.?$/i;
+
+function fillTemplate(template: string, values: Record<string, string>, encode: boolean): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    values[name] === undefined ? match : encode ? encodeURIComponent(values[name]) : values[name]);
+}
+
+/**
+ * RFC 2136 update through nsupdate. The TSIG secret goes in on stdin rather
+ * than the command line, where other users could read it.
+ */
+export class NsupdateProvider implements DdnsProvider {
+  private record: NsupdateRecord;
+  private backend: SystemBackend;
+
+  constructor(record: NsupdateRecord, backend: SystemBackend) {
+    this.record = record;
+    this.backend = backend;
+  }
+
+  async update(ip: string): Promise<void> {
+    const { hostname, server, zone, keyFile, key } = this.record;
+    const [host, port] = server.split(':');
+    const fqdn = hostname.endsWith('.') ? hostname : `${hostname}.`;
+    const script = [
+      `server ${host}${port ? ` ${port}` : ''}`,
+      ...(zone ? [`zone ${zone}`] : []),
+      ...(!keyFile && key ? [`key ${key.algorithm || 'hmac-sha256'}:${key.name} ${key.secret}`] : []),
+      `update delete ${fqdn} A`,
+      `update add ${fqdn} ${this.record.ttl ?? DEFAULT_TTL} A ${ip}`,
+      'send',
+      ''
+    ].join('\n');
+    await this.backend.run('nsupdate', keyFile ? ['-k', keyFile] : [], { input: script, timeout: 30000 });
+  }
+}
+
+/**
+ * Update URL of a DynDNS-style service, or anything else taking the address in a request
+ */
+export class HttpTemplateProvider implements DdnsProvider {
+  private record: HttpRecord;
+
+  constructor(record: HttpRecord) {
+    this.record = record;
+  }
+
+  async update(ip: string): Promise<void> {
+    const { url, method = 'GET', body, contentType, username, password, successPattern } = this.record;
+    const values = { ip, hostname: this.record.hostname };
+    const headers: Record<string, string> = {};
+    if (username !== undefined) {
+      headers.Authorization = `Basic ${Buffer.from(`${username}:${password ?? ''}`).toString('base64')}`;
+    }
+    if (body !== undefined) {
+      headers['Content-Type'] = contentType || 'application/x-www-form-urlencoded';
+    }
+
+    const client = new HttpClient('', { headers });
+    const target = fillTemplate(url, values, true);
+    const response = await client.send(method, target, body !== undefined ? fillTemplate(body, values, false) : undefined);
+    const reply = response.body.trim().split('\n')[0].slice(0, 200);
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`${method} ${target.replace(/\?.*/, '')} failed: ${response.status}${reply ? ` ${reply}` : ''}`);
+    }
+    if (successPattern && !new RegExp(successPattern).test(response.body)) {
+      throw new Error(`Update rejected: ${reply || 'empty reply'}`);
+    }
+  }
+}
+
+/**
+ * Cloudflare DNS records API: the A record is created on first use and patched afterwards
+ */
+export class CloudflareProvider implements DdnsProvider {
+  private record: CloudflareRecord;
+  private client: HttpClient;
+
+  constructor(record: CloudflareRecord) {
+    this.record = record;
+    this.client = new HttpClient(record.apiUrl || CLOUDFLARE_API_URL, { token: record.apiToken });
+  }
+
+  async update(ip: string): Promise<void> {
+    const { zoneId, hostname, proxied } = this.record;
+    const records = `/zones/${encodeURIComponent(zoneId)}/dns_records`;
+    const found = await this.client.get<{ result?: Array<{ id: string; content: string }> }>(
+      `${records}?type=A&name=${encodeURIComponent(hostname)}`
+    );
+    const existing = found?.result?.[0];
+    const content = { type: 'A', name: hostname, content: ip, ttl: this.record.ttl ?? DEFAULT_TTL, proxied: !!proxied };
+    const reply = existing
+      ? await this.client.patch<{ success?: boolean; errors?: Array<{ message: string }> }>(`${records}/${encodeURIComponent(existing.id)}`, content)
+      : await this.client.post<{ success?: boolean; errors?: Array<{ message: string }> }>(records, content);
+    if (reply?.success === false) {
+      throw new Error(`Cloudflare rejected the update: ${reply.errors?.[0]?.message || 'no reason given'}`);
+    }
+  }
+}
+
+export function createDdnsProvider(record: DdnsRecord, backend: SystemBackend): DdnsProvider {
+  switch (record.provider) {
+    case 'nsupdate': return new NsupdateProvider(record, backend);
+    case 'http': return new HttpTemplateProvider(record);
+    case 'cloudflare': return new CloudflareProvider(record);
+  }
+}
+
+export interface DdnsServiceOptions {
+  /** Where the public IP comes from (defaults to getPublicIp) */
+  lookupIp?: () => Promise<string>;
+  /** Provider for a record (defaults to createDdnsProvider), e.g. to substitute stand-ins */
+  createProvider?: (record: DdnsRecord, backend: SystemBackend) => DdnsProvider;
+}
+
+interface DdnsStore {
+  records: DdnsRecord[];
+  state: Record<string, DdnsRecordState>;
+}
+
+/**
+ * Keeps hostnames pointing at the public IP. Records and their update state
+ * are kept in the config directory; an update only goes out when the address
+ * changed, and a failing record backs off exponentially.
+ */
+export class DdnsService {
+  private backend: SystemBackend;
+  private storePath: string;
+  private lookupIp: () => Promise<string>;
+  private createProvider: (record: DdnsRecord, backend: SystemBackend) => DdnsProvider;
+
+  constructor(backend: SystemBackend = createSystemBackend(), configManager?: ConfigManager, options: DdnsServiceOptions = {}) {
+    this.backend = backend;
+    const manager = configManager || new ConfigManager(backend);
+    this.storePath = path.join(manager.getConfigDir(), 'ddns.json');
+    this.lookupIp = options.lookupIp || getPublicIp;
+    this.createProvider = options.createProvider || createDdnsProvider;
+  }
+
+  private async load(): Promise<DdnsStore> {
+    try {
+      const store = JSON.parse(await fs.readFile(this.storePath, 'utf-8'));
+      return { records: store.records || [], state: store.state || {} };
+    } catch {
+      return { records: [], state: {} };
+    }
+  }
+
+  private async save(store: DdnsStore): Promise<void> {
+    await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+    // Holds provider credentials
+    await fs.writeFile(this.storePath, JSON.stringify(store, null, 2), { mode: 0o600 });
+  }
+
+  async listRecords(): Promise<DdnsRecord[]> {
+    return (await this.load()).records;
+  }
+
+  /**
+   * Add a record, replacing any with the same hostname; it is pushed on the next update
+   */
+  async addRecord(record: DdnsRecord): Promise<void> {
+    this.validate(record);
+    const store = await this.load();
+    const hostname = record.hostname.toLowerCase();
+    store.records = [...store.records.filter(r => r.hostname !== hostname), { ...record, hostname }];
+    store.state[hostname] = { failures: 0 };
+    await this.save(store);
+  }
+
+  async removeRecord(hostname: string): Promise<DdnsRecord> {
+    const store = await this.load();
+    const record = store.records.find(r => r.hostname === hostname.toLowerCase());
+    if (!record) {
+      throw new Error(`No dynamic DNS record for ${hostname}`);
+    }
+    store.records = store.records.filter(r => r !== record);
+    delete store.state[record.hostname];
+    await this.save(store);
+    return record;
+  }
+
+  async getStatus(): Promise<DdnsRecordStatus[]> {
+    const store = await this.load();
+    return store.records.map(record => ({ ...record, ...(store.state[record.hostname] || { failures: 0 }) }));
+  }
+
+  /**
+   * Push the public IP to records whose address is out of date
+   * @param options.force Update even when unchanged or backing off
+   * @param options.hostname Only this record
+   */
+  async update(options: { force?: boolean; hostname?: string; now?: Date } = {}): Promise<DdnsUpdateResult[]> {
+    const now = options.now || new Date();
+    const store = await this.load();
+    const records = options.hostname
+      ? store.records.filter(r => r.hostname === options.hostname!.toLowerCase())
+      : store.records;
+    if (options.hostname && records.length === 0) {
+      throw new Error(`No dynamic DNS record for ${options.hostname}`);
+    }
+    if (records.length === 0) return [];
+
+    const ip = (await this.lookupIp()).trim();
+    if (!isIpv4(ip)) {
+      // Offline: nothing to compare with, and not the providers' fault
+      return records.map(r => ({ hostname: r.hostname, outcome: 'deferred', error: 'Public IP not available' }));
+    }
+
+    const results: DdnsUpdateResult[] = [];
+    for (const record of records) {
+      const state = store.state[record.hostname] || { failures: 0 };
+      if (!options.force && state.ip === ip && !state.lastError) {
+        results.push({ hostname: record.hostname, ip, outcome: 'unchanged' });
+        continue;
+      }
+      if (!options.force && state.retryAt && new Date(state.retryAt) > now) {
+        results.push({ hostname: record.hostname, ip, outcome: 'deferred', error: state.lastError, retryAt: state.retryAt });
+        continue;
+      }
+
+      try {
+        await this.createProvider(record, this.backend).update(ip);
+        store.state[record.hostname] = { ip, updatedAt: now.toISOString(), failures: 0 };
+        results.push({ hostname: record.hostname, ip, outcome: 'updated' });
+      } catch (error) {
+        const failures = state.failures + 1;
+        const delay = Math.min(BACKOFF_BASE_SECONDS * 2 ** (failures - 1), BACKOFF_MAX_SECONDS);
+        const retryAt = new Date(now.getTime() + delay * 1000).toISOString();
+        const lastError = (error as Error).message || String(error);
+        store.state[record.hostname] = { ...state, lastError, failures, retryAt };
+        results.push({ hostname: record.hostname, ip, outcome: 'failed', error: lastError, retryAt });
+      }
+    }
+    await this.save(store);
+    return results;
+  }
+
+  private validate(record: DdnsRecord): void {
+    if (!HOSTNAME_PATTERN.test(record.hostname || '')) {
+      throw new Error(`Invalid hostname '${record.hostname}'`);
+    }
+    if (record.ttl !== undefined && !(Number.isInteger(record.ttl) && record.ttl > 0)) {
+      throw new Error('TTL must be a whole number of seconds');
+    }
+    switch (record.provider) {
+      case 'nsupdate':
+        if (!record.server) throw new Error('nsupdate needs the server accepting updates');
+        if (record.key && (!record.key.name || !record.key.secret)) throw new Error('A TSIG key needs a name and a secret');
+        break;
+      case 'http':
+        if (!/^https?:\/\//i.test(record.url || '')) throw new Error('The update URL must start with http:// or https://');
+        if (record.successPattern) {
+          try {
+            new RegExp(record.successPattern);
+          } catch {
+            throw new Error(`Invalid success pattern '${record.successPattern}'`);
+          }
+        }
+        break;
+      case 'cloudflare':
+        if (!record.apiToken || !record.zoneId) throw new Error('Cloudflare needs an API token and a zone id');
+        break;
+      default:
+        throw new Error(`Unknown provider '${(record as DdnsRecord).provider}'. Use one of: ${DDNS_PROVIDER_TYPES.join(', ')}`);
+    }
+  }
+}
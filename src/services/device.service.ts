@@ -0,0 +1,294 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { ConnectedDevice, DeviceRecord, DeviceTrust, InventoryDevice } from '../interfaces/device.interface';
+import { createSystemBackend } from '../backends';
+import { ConfigManager, NetworkConfig } from '../utils/config.util';
+import { normalizeMac } from '../utils/mac.util';
+import { OuiDatabase, VendorInfo } from '../utils/oui.util';
+import { FirewallService, ChainHook } from './firewall.service';
+
+const BLOCK_CHAIN = 'WORKHIVE_BLOCK';
+const BLOCK_HOOKS: ChainHook[] = [
+  { parent: 'INPUT', first: true },
+  { parent: 'FORWARD', first: true }
+];
+// Quarantine only stops forwarding; DHCP, DNS and the portal on the Pi stay reachable
+const AUTH_CHAIN = 'WORKHIVE_AUTH';
+const AUTH_HOOKS: ChainHook[] = [{ parent: 'FORWARD', first: true }];
+const PORTAL_CHAIN = 'WORKHIVE_PORTAL';
+const PORTAL_HOOKS: ChainHook[] = [{ parent: 'PREROUTING', first: true }];
+
+/**
+ * Where the captive portal listens, and whom it lets past
+ */
+export interface PortalRedirect {
+  /** The Pi's address on the hotspot */
+  address: string;
+  httpPort: number;
+  dnsPort: number;
+  deviceAuth: NetworkConfig['deviceAuth'];
+}
+
+/**
+ * Hotspot client management: the device registry, kicking and blocking.
+ * Blocks are enforced twice: a firewall drop on the client's MAC and a
+ * DHCP "ignore" entry so it cannot obtain a new lease.
+ */
+export class DeviceService {
+  private backend: SystemBackend;
+  private firewall: FirewallService;
+  private oui: OuiDatabase;
+  private storePath: string;
+  // NetworkManager starts the hotspot's dnsmasq with this conf-dir
+  private dnsmasqSnippetPath = '/etc/NetworkManager/dnsmasq-shared.d/workhive-hosts.conf';
+  // Kept outside the conf-dir; dnsmasq re-reads it on SIGHUP without a restart
+  private dhcpHostsPath = '/etc/workhive/dhcp-hosts';
+
+  constructor(backend: SystemBackend = createSystemBackend(), configManager?: ConfigManager) {
+    this.backend = backend;
+    this.firewall = new FirewallService(backend);
+    const manager = configManager || new ConfigManager(backend);
+    this.storePath = path.join(manager.getConfigDir(), 'devices.json');
+    this.oui = new OuiDatabase(path.join(manager.getConfigDir(), 'oui.json'));
+  }
+
+  /**
+   * Manufacturer of a device from its MAC prefix, resolved offline
+   */
+  async identify(mac: string): Promise<VendorInfo> {
+    try {
+      return await this.oui.lookup(mac);
+    } catch {
+      return { randomized: false };
+    }
+  }
+
+  async getOuiInfo(): Promise<{ entries: number; source: string }> {
+    return this.oui.info();
+  }
+
+  /**
+   * Replace the bundled vendor database with the latest IEEE registries
+   */
+  async updateOuiDatabase(): Promise<number> {
+    return this.oui.update(this.backend);
+  }
+
+  async loadRecords(): Promise<Record<string, DeviceRecord>> {
+    try {
+      const data = await fs.readFile(this.storePath, 'utf-8');
+      return JSON.parse(data);
+    } catch {
+      return {};
+    }
+  }
+
+  private async saveRecords(records: Record<string, DeviceRecord>): Promise<void> {
+    await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+    await fs.writeFile(this.storePath, JSON.stringify(records, null, 2));
+  }
+
+  private async updateRecord(mac: string, changes: Partial<DeviceRecord>): Promise<DeviceRecord> {
+    const records = await this.loadRecords();
+    const record = { ...(records[mac] || { mac }), ...changes };
+    records[mac] = record;
+    await this.saveRecords(records);
+    return record;
+  }
+
+  async getRecord(mac: string): Promise<DeviceRecord | undefined> {
+    return (await this.loadRecords())[normalizeMac(mac)];
+  }
+
+  async rename(mac: string, label: string): Promise<DeviceRecord> {
+    return this.updateRecord(normalizeMac(mac), { label: label.trim() || undefined });
+  }
+
+  async setOwner(mac: string, owner: string): Promise<DeviceRecord> {
+    return this.updateRecord(normalizeMac(mac), { owner: owner.trim() || undefined });
+  }
+
+  async setTrust(mac: string, trust: DeviceTrust): Promise<DeviceRecord> {
+    return this.updateRecord(normalizeMac(mac), { trust });
+  }
+
+  /**
+   * Record a sighting of the given devices: first/last seen, hostnames and IPs
+   */
+  async recordSeen(devices: ConnectedDevice[], seenAt = new Date()): Promise<void> {
+    if (devices.length === 0) return;
+
+    const records = await this.loadRecords();
+    const timestamp = seenAt.toISOString();
+
+    for (const device of devices) {
+      const record = records[device.mac] || { mac: device.mac };
+      record.firstSeen = record.firstSeen || timestamp;
+      record.lastSeen = timestamp;
+      if (device.hostname && !(record.hostnames || []).includes(device.hostname)) {
+        record.hostnames = [...(record.hostnames || []), device.hostname];
+      }
+      if (device.ip && !(record.ips || []).includes(device.ip)) {
+        record.ips = [...(record.ips || []), device.ip];
+      }
+      records[device.mac] = record;
+    }
+
+    await this.saveRecords(records);
+  }
+
+  /**
+   * Every known device, online ones first, then by most recent sighting
+   */
+  async getInventory(online: ConnectedDevice[] = []): Promise<InventoryDevice[]> {
+    const records = await this.loadRecords();
+    const onlineByMac = new Map(online.map(d => [d.mac, d]));
+    const macs = new Set([...Object.keys(records), ...onlineByMac.keys()]);
+
+    const inventory: InventoryDevice[] = [];
+    for (const mac of macs) {
+      const current = onlineByMac.get(mac);
+      const record = records[mac] || { mac };
+      const { vendor, randomized } = await this.identify(mac);
+      inventory.push({
+        ...record,
+        online: !!current,
+        ip: current?.ip || record.ips?.[record.ips.length - 1],
+        hostname: current?.hostname || record.hostnames?.[record.hostnames.length - 1],
+        vendor,
+        randomizedMac: randomized
+      });
+    }
+
+    return inventory.sort((a, b) =>
+      Number(b.online) - Number(a.online) || (b.lastSeen || '').localeCompare(a.lastSeen || ''));
+  }
+
+  /**
+   * Deauthenticate a station. It may reconnect unless it is also blocked.
+   */
+  async kick(mac: string, interfaceName = 'wlan0'): Promise<void> {
+    await this.backend.run('sudo', ['iw', 'dev', interfaceName, 'station', 'del', normalizeMac(mac)]);
+  }
+
+  async block(mac: string, interfaceName = 'wlan0'): Promise<void> {
+    const normalized = normalizeMac(mac);
+    await this.updateRecord(normalized, { blocked: true });
+    await this.applyBlockList();
+    try {
+      await this.kick(normalized, interfaceName);
+    } catch {
+      // Not currently associated
+    }
+  }
+
+  async unblock(mac: string): Promise<void> {
+    const normalized = normalizeMac(mac);
+    await this.updateRecord(normalized, { blocked: false });
+    await this.firewall.removeRule('filter', BLOCK_CHAIN, this.blockRule(normalized));
+    await this.applyBlockList();
+  }
+
+  async listBlocked(): Promise<string[]> {
+    const records = await this.loadRecords();
+    return Object.values(records).filter(r => r.blocked).map(r => r.mac);
+  }
+
+  private blockRule(mac: string): string[] {
+    return ['-m', 'mac', '--mac-source', mac, '-j', 'DROP'];
+  }
+
+  /**
+   * (Re)install firewall and DHCP entries for every blocked device.
+   * Firewall rules do not survive a reboot, so this runs whenever the hotspot starts.
+   */
+  async applyBlockList(): Promise<void> {
+    const blocked = await this.listBlocked();
+
+    await this.firewall.ensureChain('filter', BLOCK_CHAIN, BLOCK_HOOKS);
+    for (const mac of blocked) {
+      await this.firewall.ensureRule('filter', BLOCK_CHAIN, this.blockRule(mac));
+    }
+
+    await this.backend.run('sudo', ['mkdir', '-p', path.dirname(this.dhcpHostsPath)]);
+    await this.backend.writeFile(this.dhcpHostsPath, blocked.map(mac => `${mac},ignore`).join('\n') + '\n');
+    await this.backend.writeFile(this.dnsmasqSnippetPath, `dhcp-hostsfile=${this.dhcpHostsPath}\n`);
+    await this.reloadDnsmasq();
+  }
+
+  /**
+   * MACs currently allowed through approval mode (permanent plus unexpired timed approvals)
+   */
+  approvedMacs(deviceAuth: NetworkConfig['deviceAuth'], now = new Date()): string[] {
+    const timed = (deviceAuth?.timedApprovals || [])
+      .filter(a => new Date(a.expiresAt) > now)
+      .map(a => a.mac);
+    return [...new Set([...(deviceAuth?.allowedMacs || []), ...timed])];
+  }
+
+  /**
+   * Match specs for the approved devices on an interface. Timed approvals
+   * carry their end time in the rule, so they lapse without WorkHive running.
+   */
+  private approvalMatches(interfaceName: string, deviceAuth: NetworkConfig['deviceAuth'], now = new Date()): string[][] {
+    const matches = (deviceAuth?.allowedMacs || []).map(mac => ['-i', interfaceName, '-m', 'mac', '--mac-source', mac]);
+    for (const approval of deviceAuth?.timedApprovals || []) {
+      if (new Date(approval.expiresAt) <= now) continue;
+      // iptables expects UTC without fractional seconds
+      const datestop = new Date(approval.expiresAt).toISOString().substring(0, 19);
+      matches.push(['-i', interfaceName, '-m', 'mac', '--mac-source', approval.mac, '-m', 'time', '--datestop', datestop]);
+    }
+    return matches;
+  }
+
+  /**
+   * Enforce approval mode on the hotspot interface: approved devices are
+   * forwarded, everything else from the hotspot is dropped.
+   */
+  async applyApprovalMode(interfaceName: string, deviceAuth: NetworkConfig['deviceAuth']): Promise<void> {
+    if (!deviceAuth?.enabled) {
+      await this.firewall.deleteChain('filter', AUTH_CHAIN, AUTH_HOOKS);
+      return;
+    }
+
+    await this.firewall.ensureChain('filter', AUTH_CHAIN, AUTH_HOOKS);
+    await this.firewall.flushChain('filter', AUTH_CHAIN);
+    for (const match of this.approvalMatches(interfaceName, deviceAuth)) {
+      await this.firewall.ensureRule('filter', AUTH_CHAIN, [...match, '-j', 'RETURN']);
+    }
+    await this.firewall.ensureRule('filter', AUTH_CHAIN, ['-i', interfaceName, '-j', 'DROP']);
+  }
+
+  /**
+   * Send devices that are not approved to the captive portal: their web
+   * requests go to the portal's HTTP server and their DNS queries to its
+   * resolver, which answers every name with the portal's address. Without a
+   * redirect the rules are removed.
+   */
+  async applyPortalRedirect(interfaceName: string, redirect?: PortalRedirect): Promise<void> {
+    if (!redirect) {
+      await this.firewall.deleteChain('nat', PORTAL_CHAIN, PORTAL_HOOKS);
+      return;
+    }
+
+    await this.firewall.ensureChain('nat', PORTAL_CHAIN, PORTAL_HOOKS);
+    await this.firewall.flushChain('nat', PORTAL_CHAIN);
+    for (const match of this.approvalMatches(interfaceName, redirect.deviceAuth)) {
+      await this.firewall.ensureRule('nat', PORTAL_CHAIN, [...match, '-j', 'RETURN']);
+    }
+    await this.firewall.ensureRule('nat', PORTAL_CHAIN, [
+      '-i', interfaceName, '-p', 'tcp', '--dport', '80', '-j', 'DNAT', '--to-destination', `${redirect.address}:${redirect.httpPort}`
+    ]);
+    await this.firewall.ensureRule('nat', PORTAL_CHAIN, [
+      '-i', interfaceName, '-p', 'udp', '--dport', '53', '-j', 'DNAT', '--to-destination', `${redirect.address}:${redirect.dnsPort}`
+    ]);
+  }
+
+  /**
+   * Ask running dnsmasq instances to re-read their hosts files
+   */
+  private async reloadDnsmasq(): Promise<void> {
+    await this.backend.run('sudo', ['pkill', '-HUP', '-x', 'dnsmasq'], { throwOnError: false });
+  }
+}
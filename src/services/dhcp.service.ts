@@ -0,0 +1,152 @@
+import * as path from 'path';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { DhcpSettings, DhcpStaticLease, EffectiveDhcpSettings } from '../interfaces/dhcp.interface';
+import { createSystemBackend } from '../backends';
+import { cidrContains, intToIpv4, ipv4ToInt, isIpv4, parseCidr } from '../utils/ip.util';
+import { isMacAddress, normalizeMac } from '../utils/mac.util';
+
+export const DEFAULT_HOTSPOT_SUBNET = '10.42.0.0/24';
+// NetworkManager's lease time for shared connections
+const DEFAULT_LEASE_TIME = 3600;
+const MIN_LEASE_TIME = 120;
+const HOSTNAME_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+/**
+ * Whether two settings differ in the part that lives in the NetworkManager
+ * profile, which only takes effect when the hotspot restarts
+ */
+export function dhcpNetworkChanged(a: DhcpSettings = {}, b: DhcpSettings = {}): boolean {
+  return a.subnet !== b.subnet || a.gateway !== b.gateway || a.rangeStart !== b.rangeStart ||
+    a.rangeEnd !== b.rangeEnd || a.leaseTime !== b.leaseTime;
+}
+
+/**
+ * Fill in NetworkManager's defaults: the first address as gateway and a pool
+ * from the tenth address to the last
+ */
+export function resolveDhcpSettings(settings: DhcpSettings = {}): EffectiveDhcpSettings {
+  const subnet = parseCidr(settings.subnet || DEFAULT_HOTSPOT_SUBNET);
+  const gateway = settings.gateway || intToIpv4(subnet.network + 1);
+  let start = subnet.network + 10;
+  if (start >= subnet.broadcast - 1) {
+    start = ipv4ToInt(gateway) + 1;
+  }
+  return {
+    subnet: `${intToIpv4(subnet.network)}/${subnet.prefix}`,
+    gateway,
+    rangeStart: settings.rangeStart || intToIpv4(start),
+    rangeEnd: settings.rangeEnd || intToIpv4(subnet.broadcast - 1),
+    leaseTime: settings.leaseTime ?? DEFAULT_LEASE_TIME,
+    staticLeases: settings.staticLeases || [],
+    options: settings.options || []
+  };
+}
+
+/**
+ * The hotspot's DHCP server. NetworkManager runs a dnsmasq for the hotspot
+ * and points it at a conf-dir; the snippet written there names a hosts file
+ * for static leases and an options file, both of which dnsmasq re-reads on
+ * SIGHUP, so changing them never restarts the hotspot or NetworkManager.
+ */
+export class DhcpService {
+  private backend: SystemBackend;
+  // Read by the hotspot's dnsmasq when it starts
+  private dnsmasqSnippetPath = '/etc/NetworkManager/dnsmasq-shared.d/workhive-dhcp.conf';
+  private reservationsPath = '/etc/workhive/dhcp-reservations';
+  private optionsPath = '/etc/workhive/dhcp-options';
+
+  constructor(backend: SystemBackend = createSystemBackend()) {
+    this.backend = backend;
+  }
+
+  /**
+   * Check settings for consistency, returning them normalized: the subnet
+   * as its network address, MACs in lower case
+   * @throws Error naming the first problem
+   */
+  validate(settings: DhcpSettings): DhcpSettings {
+    const result: DhcpSettings = { ...settings };
+    let subnet = parseCidr(DEFAULT_HOTSPOT_SUBNET);
+    if (result.subnet !== undefined) {
+      subnet = parseCidr(result.subnet);
+      if (subnet.prefix < 16 || subnet.prefix > 29) {
+        throw new Error(`Subnet ${result.subnet} must be between /16 and /29`);
+      }
+      // 192.168.50.1/24 names both the subnet and the Pi's address
+      if (subnet.address !== subnet.network && result.gateway === undefined) {
+        result.gateway = intToIpv4(subnet.address);
+      }
+      result.subnet = `${intToIpv4(subnet.network)}/${subnet.prefix}`;
+    }
+    const cidr = `${intToIpv4(subnet.network)}/${subnet.prefix}`;
+    const inside = (ip: string, what: string) => {
+      if (!isIpv4(ip)) throw new Error(`Invalid ${what}: ${ip}`);
+      const value = ipv4ToInt(ip);
+      if (!cidrContains(cidr, ip) || value === subnet.network || value === subnet.broadcast) {
+        throw new Error(`The ${what} ${ip} is not a usable address in ${cidr}`);
+      }
+      return value;
+    };
+
+    const gateway = inside(resolveDhcpSettings(result).gateway, 'gateway address');
+    if ((result.rangeStart === undefined) !== (result.rangeEnd === undefined)) {
+      throw new Error('Give both the first and the last address of the range');
+    }
+    if (result.rangeStart !== undefined && result.rangeEnd !== undefined) {
+      const start = inside(result.rangeStart, 'range start');
+      const end = inside(result.rangeEnd, 'range end');
+      if (start > end) {
+        throw new Error(`The range ${result.rangeStart}-${result.rangeEnd} ends before it starts`);
+      }
+      if (gateway >= start && gateway <= end) {
+        throw new Error(`The range ${result.rangeStart}-${result.rangeEnd} contains the gateway address`);
+      }
+    }
+    if (result.leaseTime !== undefined && !(Number.isInteger(result.leaseTime) && result.leaseTime >= MIN_LEASE_TIME)) {
+      throw new Error(`The lease time must be at least ${MIN_LEASE_TIME} seconds`);
+    }
+
+    const macs = new Set<string>();
+    const ips = new Set<string>();
+    result.staticLeases = result.staticLeases?.map(lease => {
+      if (!isMacAddress(lease.mac)) throw new Error(`Invalid MAC address: ${lease.mac}`);
+      const mac = normalizeMac(lease.mac);
+      if (inside(lease.ip, 'static lease') === gateway) {
+        throw new Error(`${lease.ip} is the gateway address`);
+      }
+      if (lease.hostname !== undefined && !HOSTNAME_PATTERN.test(lease.hostname)) {
+        throw new Error(`Invalid hostname '${lease.hostname}' (letters, digits and hyphens)`);
+      }
+      if (macs.has(mac)) throw new Error(`${mac} has more than one static lease`);
+      if (ips.has(lease.ip)) throw new Error(`${lease.ip} is reserved more than once`);
+      macs.add(mac);
+      ips.add(lease.ip);
+      return { ...lease, mac };
+    });
+
+    for (const option of result.options || []) {
+      if (!option.trim() || /[\r\n]/.test(option)) {
+        throw new Error(`Invalid DHCP option '${option}'`);
+      }
+    }
+    if (!result.staticLeases?.length) delete result.staticLeases;
+    if (!result.options?.length) delete result.options;
+    return result;
+  }
+
+  private formatLease(lease: DhcpStaticLease): string {
+    return [lease.mac, lease.ip, ...(lease.hostname ? [lease.hostname] : [])].join(',');
+  }
+
+  /**
+   * Write the static leases and options and have dnsmasq re-read them.
+   * The snippet pointing at them only matters for the next hotspot start.
+   */
+  async apply(settings: DhcpSettings = {}): Promise<void> {
+    await this.backend.run('sudo', ['mkdir', '-p', path.dirname(this.reservationsPath)]);
+    await this.backend.writeFile(this.reservationsPath, (settings.staticLeases || []).map(l => `${this.formatLease(l)}\n`).join(''));
+    await this.backend.writeFile(this.optionsPath, (settings.options || []).map(o => `${o}\n`).join(''));
+    await this.backend.writeFile(this.dnsmasqSnippetPath, `dhcp-hostsfile=${this.reservationsPath}\ndhcp-optsfile=${this.optionsPath}\n`);
+    await this.backend.run('sudo', ['pkill', '-HUP', '-x', 'dnsmasq'], { throwOnError: false });
+  }
+}
@@ -0,0 +1,93 @@
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { createSystemBackend } from '../backends';
+
+export interface ChainHook {
+  /** Built-in chain that jumps to ours, e.g. FORWARD */
+  parent: string;
+  /** Insert at the top of the parent chain instead of appending */
+  first?: boolean;
+}
+
+/**
+ * Thin wrapper around iptables. WorkHive keeps its rules in its own chains so
+ * they can be rebuilt without touching rules owned by NetworkManager or the user.
+ * All operations are idempotent.
+ */
+export class FirewallService {
+  private backend: SystemBackend;
+
+  constructor(backend: SystemBackend = createSystemBackend()) {
+    this.backend = backend;
+  }
+
+  private async iptables(args: string[]): Promise<void> {
+    await this.backend.run('sudo', ['iptables', ...args]);
+  }
+
+  async hasRule(table: string, chain: string, spec: string[]): Promise<boolean> {
+    try {
+      await this.iptables(['-t', table, '-C', chain, ...spec]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Create a chain (if missing) and make sure the given built-in chains jump to it
+   */
+  async ensureChain(table: string, chain: string, hooks: ChainHook[] = []): Promise<void> {
+    try {
+      await this.iptables(['-t', table, '-N', chain]);
+    } catch {
+      // Chain already exists
+    }
+    for (const hook of hooks) {
+      const jump = ['-j', chain];
+      if (!(await this.hasRule(table, hook.parent, jump))) {
+        await this.iptables(['-t', table, hook.first ? '-I' : '-A', hook.parent, ...jump]);
+      }
+    }
+  }
+
+  /**
+   * Append a rule unless an identical one exists
+   */
+  async ensureRule(table: string, chain: string, spec: string[], first = false): Promise<void> {
+    if (!(await this.hasRule(table, chain, spec))) {
+      await this.iptables(['-t', table, first ? '-I' : '-A', chain, ...spec]);
+    }
+  }
+
+  /**
+   * Delete every copy of a rule; missing rules are ignored
+   */
+  async removeRule(table: string, chain: string, spec: string[]): Promise<void> {
+    while (await this.hasRule(table, chain, spec)) {
+      await this.iptables(['-t', table, '-D', chain, ...spec]);
+    }
+  }
+
+  async flushChain(table: string, chain: string): Promise<void> {
+    try {
+      await this.iptables(['-t', table, '-F', chain]);
+    } catch {
+      // Chain does not exist yet
+    }
+  }
+
+  /**
+   * Remove a chain along with the jumps into it
+   */
+  async deleteChain(table: string, chain: string, hooks: ChainHook[] = []): Promise<void> {
+    for (const hook of hooks) {
+      await this.removeRule(table, hook.parent, ['-j', chain]);
+    }
+    await this.flushChain(table, chain);
+    try {
+      await this.iptables(['-t', table, '-X', chain]);
+    } catch {
+      // Chain does not exist
+    }
+  }
+}
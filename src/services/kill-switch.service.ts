@@ -0,0 +1,75 @@
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { createSystemBackend } from '../backends';
+import { FirewallService, ChainHook } from './firewall.service';
+
+const KILL_SWITCH_CHAIN = 'WORKHIVE_KILLSWITCH';
+const KILL_SWITCH_HOOKS: ChainHook[] = [{ parent: 'FORWARD', first: true }];
+
+export interface KillSwitchState {
+  armed: boolean;
+  /** Hotspot interface whose clients are held to the tunnels */
+  interfaceName?: string;
+  /** Tunnels hotspot traffic may leave through */
+  tunnels: string[];
+}
+
+/**
+ * Keeps hotspot clients off the raw uplink: forwarded traffic from the
+ * hotspot interface may only leave through the given WireGuard tunnels and
+ * is dropped while they are down. The rules do not depend on the tunnels
+ * being up, so stopping a tunnel leaves clients without internet rather than
+ * unprotected. DHCP and DNS to the Pi and the tunnel's own packets to its
+ * endpoint are not forwarded traffic, so they keep working.
+ */
+export class KillSwitchService {
+  private backend: SystemBackend;
+  private firewall: FirewallService;
+
+  constructor(backend: SystemBackend = createSystemBackend()) {
+    this.backend = backend;
+    this.firewall = new FirewallService(backend);
+  }
+
+  /**
+   * Arm the kill switch for a hotspot interface, or disarm it when no tunnels are given
+   */
+  async apply(interfaceName: string, tunnels?: string[]): Promise<void> {
+    if (!tunnels || tunnels.length === 0) {
+      await this.disarm();
+      return;
+    }
+
+    await this.firewall.ensureChain('filter', KILL_SWITCH_CHAIN, KILL_SWITCH_HOOKS);
+    await this.firewall.flushChain('filter', KILL_SWITCH_CHAIN);
+    for (const tunnel of tunnels) {
+      await this.firewall.ensureRule('filter', KILL_SWITCH_CHAIN, ['-i', interfaceName, '-o', tunnel, '-j', 'RETURN']);
+    }
+    // Client-to-client traffic never reaches the uplink
+    await this.firewall.ensureRule('filter', KILL_SWITCH_CHAIN, ['-i', interfaceName, '-o', interfaceName, '-j', 'RETURN']);
+    await this.firewall.ensureRule('filter', KILL_SWITCH_CHAIN, ['-i', interfaceName, '-j', 'DROP']);
+  }
+
+  async disarm(): Promise<void> {
+    await this.firewall.deleteChain('filter', KILL_SWITCH_CHAIN, KILL_SWITCH_HOOKS);
+  }
+
+  /**
+   * What the installed rules allow, read back from iptables
+   */
+  async getState(): Promise<KillSwitchState> {
+    const { stdout } = await this.backend.run('sudo', ['iptables', '-S', KILL_SWITCH_CHAIN], { throwOnError: false });
+    const state: KillSwitchState = { armed: false, tunnels: [] };
+    for (const line of stdout.split('\n')) {
+      const rule = line.match(/^-A \S+ -i (\S+)(?: -o (\S+))? -j (RETURN|DROP)$/);
+      if (!rule) continue;
+      const [, input, output, target] = rule;
+      if (target === 'DROP') {
+        state.armed = true;
+        state.interfaceName = input;
+      } else if (output && output !== input) {
+        state.tunnels.push(output);
+      }
+    }
+    return state;
+  }
+}
@@ -1,10 +1,41 @@
-import { executeCommand } from '../utils/command.util';
+import { randomInt } from 'crypto';
 import { WireGuardService } from './wireguard.service';
+import { WireGuardServerOptions, WireGuardServerService } from './wireguard-server.service';
 import { NetworkService } from './network.service';
-import { WireGuardConfig, WireGuardStatus } from '../interfaces/wireguard.interface';
-import { NetworkConfig } from '../utils/config.util';
+import { KeyRotationResult, KeyRotationSchedule, TunnelHealth, TunnelHealthCheck, WireGuardClientOptions, WireGuardConfig, WireGuardPeer, WireGuardPeerStatus, WireGuardServerConfig, WireGuardStatus, WireGuardTunnel } from '../interfaces/wireguard.interface';
+import { ConfigManager, NetworkConfig, profilePortal, profileTunnels, RateLimit, RouteMatch, RoutingRule, TrafficShaping } from '../utils/config.util';
 import { ExportImportManager } from '../utils/export-import.util';
-import { WiFiNetwork } from '../interfaces/wifi.interface';
+import { HotspotOptions, WiFiNetwork } from '../interfaces/wifi.interface';
+import { ConnectedDevice, DeviceRecord, DeviceTrust, InventoryDevice } from '../interfaces/device.interface';
+import { isMacAddress, normalizeMac } from '../utils/mac.util';
+import { isCidr, isIpv4 } from '../utils/ip.util';
+import { isEndpoint } from '../utils/wg-config.util';
+import { parseRate } from '../utils/rate.util';
+import { validateHotspotOptions } from '../utils/hotspot.util';
+import { NetworkBackendType, NetworkManagerService, NetworkStatus } from '../interfaces/network-manager.interface';
+import { NmcliNetworkManager } from './nmcli.service';
+import { NetworkManager } from './network-manager.service';
+import { NetworkEventMonitor } from './network-events.service';
+import { DeviceService } from './device.service';
+import { TrafficShapingService } from './traffic-shaping.service';
+import { KillSwitchService, KillSwitchState } from './kill-switch.service';
+import { domainSetName, PolicyRoutingService } from './policy-routing.service';
+import { TunnelHealthMonitor } from './tunnel-health.service';
+import { UsageService } from './usage.service';
+import { SetipService } from './setip.service';
+import { DdnsService } from './ddns.service';
+import { UplinkService } from './uplink.service';
+import { UplinkMonitor } from './uplink-monitor.service';
+import { DhcpService, dhcpNetworkChanged, resolveDhcpSettings } from './dhcp.service';
+import { DhcpSettings, DhcpStaticLease, EffectiveDhcpSettings } from '../interfaces/dhcp.interface';
+import { CaptivePortalOptions, CaptivePortalService, DEFAULT_PORTAL_DNS_PORT, DEFAULT_PORTAL_HTTP_PORT, normalizeVoucherCode, PortalContext } from './captive-portal.service';
+import { CaptivePortalSettings, PortalAuthMode, PortalVoucher } from '../interfaces/portal.interface';
+import { UplinkStatus } from '../interfaces/uplink.interface';
+import { DdnsRecord, DdnsRecordStatus, DdnsUpdateResult } from '../interfaces/ddns.interface';
+import { SetipRegistration, SetipStatus, SetipSubdomain, SetipTunnelParams } from '../interfaces/setip.interface';
+import { QuotaState, UsagePeriod, UsageQuota, UsageReport } from '../interfaces/usage.interface';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { createSystemBackend } from '../backends';
 
 export interface NetworkInfo {
   ssid: string;
@@ -13,50 +44,235 @@ export interface NetworkInfo {
   security: string[];
 }
 
+export interface NetworkControlOptions {
+  /** System backend to run commands against (defaults to WORKHIVE_BACKEND or the real system) */
+  backend?: SystemBackend;
+  /** Directory holding saved profiles (defaults to ~/.wifi_configs) */
+  configDir?: string;
+  /** NetworkManager implementation to use instead of the configured nmcli/D-Bus backend */
+  networkManager?: NetworkManagerService;
+  /** setip.io API root (defaults to WORKHIVE_SETIP_URL or the one registered with) */
+  setipApiUrl?: string;
+}
+
+// How long replaced keys keep working when no schedule says otherwise
+const DEFAULT_KEY_OVERLAP_HOURS = 48;
+// Voucher codes leave out letters and digits that are easily confused
+const VOUCHER_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const VOUCHER_LENGTH = 8;
+const PORTAL_AUTH_MODES: PortalAuthMode[] = ['terms', 'password', 'voucher'];
+const DOMAIN_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/;
+
+export const NETWORK_BACKEND_TYPES: NetworkBackendType[] = ['nmcli', 'dbus'];
+
+export function isNetworkBackendType(value: string): value is NetworkBackendType {
+  return (NETWORK_BACKEND_TYPES as string[]).includes(value);
+}
+
 export class NetworkControl {
+  private backend: SystemBackend;
   private wireguard: WireGuardService;
+  private wireguardServer: WireGuardServerService;
   private networkService: NetworkService;
   private exportImportManager: ExportImportManager;
+  private deviceService: DeviceService;
+  private trafficShaping: TrafficShapingService;
+  private killSwitch: KillSwitchService;
+  private policyRouting: PolicyRoutingService;
+  private usageService: UsageService;
+  private setip: SetipService;
+  private ddns: DdnsService;
+  private uplinks: UplinkService;
+  private dhcp: DhcpService;
+  private uplinkMonitor?: UplinkMonitor;
+  private configManager: ConfigManager;
+  private networkBackendType?: NetworkBackendType;
+  private networkManagerInstance?: NetworkManagerService;
+  private eventMonitor?: NetworkEventMonitor;
+  private eventMonitorStart?: Promise<void>;
+  private tunnelMonitor?: TunnelHealthMonitor;
+  private captivePortal?: CaptivePortalService;
+
+  constructor(options: NetworkControlOptions = {}) {
+    this.backend = options.backend || createSystemBackend();
+    this.configManager = new ConfigManager(this.backend, options.configDir);
+    this.networkManagerInstance = options.networkManager;
+    this.wireguard = new WireGuardService(this.backend, this.configManager);
+    this.networkService = new NetworkService(this.backend, this.configManager);
+    this.exportImportManager = new ExportImportManager(this.backend, this.configManager);
+    this.deviceService = new DeviceService(this.backend, this.configManager);
+    this.wireguardServer = new WireGuardServerService(this.backend, this.configManager);
+    this.trafficShaping = new TrafficShapingService(this.backend);
+    this.killSwitch = new KillSwitchService(this.backend);
+    this.policyRouting = new PolicyRoutingService(this.backend);
+    this.usageService = new UsageService(this.backend, this.configManager);
+    this.setip = new SetipService(this.backend, this.configManager, { apiUrl: options.setipApiUrl });
+    this.ddns = new DdnsService(this.backend, this.configManager);
+    this.uplinks = new UplinkService(this.backend, this.configManager);
+    this.dhcp = new DhcpService(this.backend);
+  }
+
+  // Network backend selection
+
+  /**
+   * Which NetworkManager backend is in effect: an explicit override, then
+   * WORKHIVE_NETWORK_BACKEND, then the saved setting, then nmcli.
+   */
+  async getNetworkBackendType(): Promise<NetworkBackendType> {
+    if (this.networkBackendType) {
+      return this.networkBackendType;
+    }
+    const fromEnv = process.env.WORKHIVE_NETWORK_BACKEND;
+    if (fromEnv && isNetworkBackendType(fromEnv)) {
+      return fromEnv;
+    }
+    const settings = await this.configManager.loadSettings();
+    return settings.networkBackend || 'nmcli';
+  }
+
+  /**
+   * Override the NetworkManager backend for this process only
+   */
+  useNetworkBackend(type: NetworkBackendType): void {
+    if (!isNetworkBackendType(type)) {
+      throw new Error(`Unknown network backend "${type}". Use one of: ${NETWORK_BACKEND_TYPES.join(', ')}`);
+    }
+    if (type !== this.networkBackendType) {
+      this.networkBackendType = type;
+      this.networkManagerInstance = undefined;
+    }
+  }
 
-  constructor() {
-    this.wireguard = new WireGuardService();
-    this.networkService = new NetworkService();
-    this.exportImportManager = new ExportImportManager();
+  /**
+   * Persist the NetworkManager backend used by default
+   */
+  async setNetworkBackend(type: NetworkBackendType): Promise<void> {
+    this.useNetworkBackend(type);
+    await this.configManager.saveSettings({ networkBackend: type });
+  }
+
+  private async networkManager(): Promise<NetworkManagerService> {
+    if (!this.networkManagerInstance) {
+      const type = await this.getNetworkBackendType();
+      this.networkManagerInstance = type === 'dbus'
+        ? new NetworkManager({ backend: this.backend })
+        : new NmcliNetworkManager(this.backend);
+    }
+    return this.networkManagerInstance;
+  }
+
+  // Live events
+
+  /**
+   * Start the shared event monitor (idempotent). Listen for 'connected',
+   * 'disconnected', 'ap-started', 'client-joined' and 'vpn-handshake'.
+   */
+  async startEventMonitor(): Promise<NetworkEventMonitor> {
+    if (!this.eventMonitor) {
+      this.eventMonitor = new NetworkEventMonitor({
+        backend: this.backend,
+        getStatus: () => this.getStatus(),
+        // With the hotspot and the upstream Wi-Fi on separate radios, getStatus reports the upstream one
+        getHotspotStatus: () => this.getHotspotStatus()
+      });
+      this.eventMonitorStart = this.eventMonitor.start();
+    }
+    await this.eventMonitorStart;
+    return this.eventMonitor;
+  }
+
+  stopEventMonitor(): void {
+    this.eventMonitor?.stop();
+    this.eventMonitor = undefined;
+    this.eventMonitorStart = undefined;
+  }
+
+  /**
+   * Start the shared tunnel health monitor on the given tunnels (idempotent;
+   * a later call changes which tunnels are watched). Listen for
+   * 'tunnel-stale', 'tunnel-restarted', 'tunnel-endpoint-changed',
+   * 'tunnel-failover', 'tunnel-failback' and 'tunnel-recovered'.
+   */
+  startTunnelMonitor(tunnels: string[]): TunnelHealthMonitor {
+    if (!this.tunnelMonitor) {
+      this.tunnelMonitor = new TunnelHealthMonitor({
+        backend: this.backend,
+        wireguard: this.wireguard,
+        // Hotspot clients held to the failed tunnel would otherwise lose the internet
+        onSwitch: () => this.refreshKillSwitch()
+      });
+    }
+    this.tunnelMonitor.watch(tunnels);
+    this.tunnelMonitor.start();
+    return this.tunnelMonitor;
+  }
+
+  stopTunnelMonitor(): void {
+    this.tunnelMonitor?.stop();
+    this.tunnelMonitor = undefined;
+  }
+
+  /**
+   * Keep traffic on the preferred working uplink (idempotent)
+   */
+  startUplinkMonitor(): UplinkMonitor {
+    if (!this.uplinkMonitor) {
+      this.uplinkMonitor = new UplinkMonitor({ uplinks: this.uplinks, getExcluded: () => this.hotspotInterfaces() });
+    }
+    this.uplinkMonitor.start();
+    return this.uplinkMonitor;
+  }
+
+  stopUplinkMonitor(): void {
+    this.uplinkMonitor?.stop();
+    this.uplinkMonitor = undefined;
+  }
+
+  /**
+   * Serve the captive portal's sign-in page and DNS (idempotent). Listen for
+   * 'portal-authorized'. Ports default to the ones the firewall redirects to.
+   */
+  async startCaptivePortal(options: Pick<CaptivePortalOptions, 'httpPort' | 'dnsPort' | 'host'> = {}): Promise<CaptivePortalService> {
+    if (!this.captivePortal) {
+      this.captivePortal = new CaptivePortalService({
+        ...options,
+        getContext: () => this.portalContext(),
+        identify: async ip => (await this.getConnectedDevices()).find(d => d.ip === ip)?.mac,
+        isAuthorized: async mac => {
+          const profile = await this.portalProfile();
+          return !!profile && this.deviceService.approvedMacs(profile.config.deviceAuth).includes(mac);
+        },
+        authorize: (mac, hours, voucher) => this.authorizePortalDevice(mac, hours, voucher)
+      });
+    }
+    try {
+      await this.captivePortal.start();
+    } catch (error) {
+      this.captivePortal = undefined;
+      throw error;
+    }
+    return this.captivePortal;
+  }
+
+  async stopCaptivePortal(): Promise<void> {
+    await this.captivePortal?.stop();
+    this.captivePortal = undefined;
+  }
+
+  /**
+   * The interface serving the hotspot cannot be an uplink at the same time
+   */
+  private async hotspotInterfaces(): Promise<string[]> {
+    const status = await this.getHotspotStatus();
+    return status.connected && status.interfaceName ? [status.interfaceName] : [];
   }
 
   // Network scanning and connection methods
 
   async scanNetworks(): Promise<WiFiNetwork[]> {
     try {
-      const command = `nmcli -g SSID,SIGNAL,SECURITY,FREQ device wifi list --rescan yes`;
-
-      const { stdout } = await executeCommand(command);
-
-      const networks: WiFiNetwork[] = [];
-      const outputLines = stdout.split('\n').filter(line => line.trim() !== '');
-
-      for (const line of outputLines) {
-        const fields = line.split(':');
-
-        if (fields.length >= 3) {
-          const ssid = fields[0] ? fields[0].replace(/\\:/g, ':').trim() : '';
-          const signalStrengthStr = fields[1] || '0';
-          const securityString = fields[2] || '';
-          const frequency = fields.length > 3 && fields[3] ? fields[3].replace(/\\:/g, ':').trim() : '';
-
-          if (ssid) {
-            const signal = parseInt(signalStrengthStr, 10);
-            networks.push({
-              ssid: ssid,
-              signal: isNaN(signal) ? 0 : signal,
-              security: securityString.trim() ? securityString.trim().split(/\s+/).filter(s => s) : [],
-              freq: frequency
-            });
-          }
-        }
-      }
-
-      return networks.filter(n => n.ssid);
+      const networkManager = await this.networkManager();
+      return await networkManager.scanNetworks();
     } catch (e) {
       interface CommandError extends Error {
         cmd?: string;
@@ -81,12 +297,15 @@ export class NetworkControl {
     }
   }
 
-  async connect(ssid: string, password?: string): Promise<boolean> {
+  /**
+   * Join a network; without an interface, a radio serving the hotspot is left alone when there is another
+   */
+  async connect(ssid: string, password?: string, interfaceName?: string): Promise<boolean> {
     try {
-      const command = password
-        ? `nmcli device wifi connect "${ssid}" password "${password}"`
-        : `nmcli device wifi connect "${ssid}"`;
-      await executeCommand(command);
+      const networkManager = await this.networkManager();
+      const radio = await this.pickInterface('client', interfaceName);
+      await networkManager.connect({ ssid, password, interfaceName: radio });
+      await this.routeHotspotTraffic();
       return true;
     } catch (e) {
       interface CommandError extends Error {
@@ -105,10 +324,22 @@ export class NetworkControl {
     }
   }
 
-  async disconnect(): Promise<boolean> {
+  /**
+   * Leave the network a radio joined; without an interface, the radio in client mode
+   */
+  async disconnect(interfaceName?: string): Promise<boolean> {
     try {
-      await executeCommand('nmcli device disconnect wlan0');
-      return true;
+      const networkManager = await this.networkManager();
+      let radio = interfaceName;
+      if (!radio) {
+        const statuses = await this.getInterfaceStatuses();
+        // A hotspot on another radio keeps running
+        radio = statuses.find(s => s.connected && s.mode === 'wifi')?.interfaceName;
+        if (!radio && statuses.length > 1) {
+          throw new Error('No radio is connected to a network');
+        }
+      }
+      return await networkManager.disconnect(radio);
     } catch (e) {
       interface CommandError extends Error {
         cmd?: string;
@@ -126,10 +357,29 @@ export class NetworkControl {
     }
   }
 
-  async startHotspot(ssid: string, password: string): Promise<boolean> {
+  /**
+   * Start the hotspot; without an interface, a radio joined to a network is left alone when there is another
+   */
+  async startHotspot(ssid: string, password: string, options: HotspotOptions & { interfaceName?: string } = {}): Promise<boolean> {
     try {
-      await executeCommand(`nmcli device wifi hotspot ssid "${ssid}" password "${password}"`);
-      await this.networkService.enableHairpinNAT();
+      const { interfaceName, ...requested } = options;
+      const hotspot = validateHotspotOptions(requested);
+      const networkManager = await this.networkManager();
+      const radio = await this.pickInterface('hotspot', interfaceName);
+      if (hotspot.country) {
+        // Channels and transmit power follow the regulatory domain
+        await this.backend.run('sudo', ['iw', 'reg', 'set', hotspot.country]);
+      }
+      // dnsmasq reads the domain sets, the lease limit and the DHCP snippet when the hotspot starts it
+      const profile = await this.findHotspotProfile(ssid);
+      await this.updateDomainSets(profile?.config.routing);
+      await this.configManager.updateHotspotLimits(hotspot.maxClients);
+      await this.dhcp.apply(profile?.config.dhcp);
+      await networkManager.startHotspot({ ...hotspot, ssid, password, interfaceName: radio, dhcp: profile?.config.dhcp });
+      const status = await this.getHotspotStatus();
+      await this.networkService.enableHairpinNAT(status.interfaceName);
+      await this.applyHotspotPolicies(ssid);
+      await this.routeHotspotTraffic();
       return true;
     } catch (e) {
       interface CommandError extends Error {
@@ -148,16 +398,19 @@ export class NetworkControl {
     }
   }
 
-  async stopHotspot(): Promise<boolean> {
+  async stopHotspot(interfaceName?: string): Promise<boolean> {
     try {
-      const { stdout } = await executeCommand('nmcli connection show --active');
-      const hotspotConn = stdout.split('\n')
-        .find(line => line.includes('Hotspot'));
-
-      if (hotspotConn) {
-        const connName = hotspotConn.split(' ')[0];
-        await executeCommand(`nmcli connection down "${connName}"`);
-        await this.networkService.disableHairpinNAT();
+      const networkManager = await this.networkManager();
+      const status = interfaceName ? await networkManager.getStatus(interfaceName) : await this.getHotspotStatus();
+      if (await networkManager.stopHotspot(status.interfaceName)) {
+        await this.networkService.disableHairpinNAT(status.interfaceName);
+        // Leftover queueing would throttle the radio once it is back in client mode
+        await this.trafficShaping.clear(status.interfaceName || 'wlan0');
+        // With no hotspot clients to protect, the DROP rule would only catch traffic arriving on the uplink
+        await this.killSwitch.disarm();
+        await this.policyRouting.clear();
+        // A radio back in client mode must not hand its visitors' web traffic to the portal
+        await this.deviceService.applyPortalRedirect(status.interfaceName || 'wlan0');
       }
       return true;
     } catch (e) {
@@ -177,125 +430,64 @@ export class NetworkControl {
     }
   }
 
-  async getStatus(): Promise<{
-    connected: boolean;
-    ssid?: string;
-    mode: string; // 'wifi', 'ap', 'ethernet', 'disconnected', 'unknown'
-    signal?: number;
-    freq?: string;
-    bitrate?: string;
-    security?: string[];
-    ipAddress?: string;
-    gateway?: string;
-    macAddress?: string;
-    interfaceName?: string;
-  }> {
-    try {
-      const { stdout: devStatusOutput } = await executeCommand('nmcli device status');
-      const wifiDeviceLine = devStatusOutput.split('\n').find(line => line.startsWith('wlan0') || line.startsWith('wifi'));
-
-      if (!wifiDeviceLine) {
-        // Check for ethernet if no wifi line
-        const ethDeviceLine = devStatusOutput.split('\n').find(line => (line.startsWith('eth0') || line.startsWith('ethernet')) && line.includes('connected'));
-        if (ethDeviceLine) {
-          const ethParts = ethDeviceLine.trim().split(/\s{2,}/);
-          const ethInterfaceName = ethParts[0];
-          const ethActiveConnectionName = ethParts.length > 3 ? ethParts.slice(3).join(' ') : 'Ethernet Connection';
-          try {
-            // For ethernet, GENERAL.HWADDR might work on the device, or we get it from ip link
-            let macAddress;
-            try {
-              const { stdout: macStdout } = await executeCommand(`nmcli -g GENERAL.HWADDR dev show ${ethInterfaceName}`);
-              macAddress = macStdout.trim();
-            } catch (macError) {
-              console.warn(`Could not get MAC for ${ethInterfaceName} via nmcli, trying ip link.`);
-              // Fallback to ip link show
-              const { stdout: ipLinkOut } = await executeCommand(`ip -brief link show ${ethInterfaceName}`);
-              const match = ipLinkOut.match(/([0-9a-f]{2}:){5}[0-9a-f]{2}/i);
-              if (match) macAddress = match[0];
-            }
-
-            const { stdout: ipConfig } = await executeCommand(`nmcli -g IP4.ADDRESS,IP4.GATEWAY connection show "${ethActiveConnectionName}"`);
-            const [ipLine, gatewayLine] = ipConfig.split('\n');
-            const ipAddress = ipLine ? ipLine.split('/')[0] : undefined;
-            const gateway = gatewayLine ? gatewayLine.split('/')[0] : undefined;
-            return { connected: true, mode: 'ethernet', ssid: ethActiveConnectionName, ipAddress, gateway, macAddress, interfaceName: ethInterfaceName };
-          } catch (ipError) {
-            console.warn(`Could not get IP details for ethernet connection ${ethActiveConnectionName}:`, ipError);
-            return { connected: true, mode: 'ethernet', ssid: ethActiveConnectionName, interfaceName: ethInterfaceName };
-          }
-        }
-        return { connected: false, mode: 'disconnected' };
-      }
+  /**
+   * Re-apply per-device rules after the hotspot comes up: block list and the
+   * hotspot profile's approval mode, captive portal, rate limits, kill switch
+   * and routing rules
+   */
+  private async applyHotspotPolicies(ssid: string): Promise<void> {
+    await this.deviceService.applyBlockList();
+    const status = await this.getHotspotStatus();
+    const interfaceName = status.interfaceName || 'wlan0';
+    const profile = await this.findHotspotProfile(ssid);
+    await this.applyDeviceAccess(status, profile?.config);
+    await this.trafficShaping.apply(interfaceName, profile?.config.shaping);
+    await this.killSwitch.apply(interfaceName, profile?.config.killSwitch ? this.carryingTunnels(profileTunnels(profile.config)) : undefined);
+    await this.policyRouting.apply(interfaceName, profile?.config.routing, await this.wireguard.getPolicyTables());
+  }
 
-      const devParts = wifiDeviceLine.trim().split(/\s{2,}/);
-      const interfaceName = devParts[0]; // This should be our wlan0 (or similar)
-      const type = devParts[1];
-      const state = devParts[2];
-      let activeConnectionName = devParts.length > 3 ? devParts.slice(3).join(' ') : undefined;
+  private async findHotspotProfile(ssid: string): Promise<{ id: string; config: NetworkConfig } | undefined> {
+    const configs = await this.listConfigs();
+    return configs.find(({ config }) => config.mode === 'hotspot' && config.ssid === ssid);
+  }
 
-      const isConnected = state === 'connected' && !!activeConnectionName && activeConnectionName !== '--';
+  /**
+   * The saved profile for the running hotspot, or the named hotspot profile
+   */
+  async getHotspotProfile(id?: string): Promise<{ id: string; config: NetworkConfig }> {
+    if (id) {
+      const config = await this.configManager.loadConfig(id);
+      if (!config) throw new Error(`Config '${id}' not found`);
+      if (config.mode !== 'hotspot') throw new Error(`Config '${id}' is not a hotspot profile`);
+      return { id, config };
+    }
 
-      if (!isConnected || !activeConnectionName) {
-        return { connected: false, mode: type === 'wifi' ? 'disconnected' : type, interfaceName };
-      }
+    const status = await this.getHotspotStatus();
+    if (!status.connected || status.mode !== 'ap' || !status.ssid) {
+      throw new Error('No hotspot is running; name a hotspot profile instead');
+    }
+    const profile = await this.findHotspotProfile(status.ssid);
+    if (!profile) {
+      throw new Error(`Hotspot '${status.ssid}' has no saved profile; save it first (config save <name>)`);
+    }
+    return profile;
+  }
 
-      let signal, freq, bitrate, securityTypes, macAddress;
-      try {
-        const { stdout: activeWifiDetails } = await executeCommand(`nmcli -t -f ACTIVE,SSID,SIGNAL,FREQ,RATE,SECURITY dev wifi list`);
-        const activeLine = activeWifiDetails.split('\n').find(line => line.startsWith('yes:'));
-
-        if (activeLine) {
-          const parts = activeLine.split(':');
-          // activeConnectionName = parts[1].replace(/\\:/g, ':'); // SSID from this command
-          signal = parseInt(parts[2], 10);
-          freq = parts[3].replace(/\\:/g, ':');
-          bitrate = parts[4];
-          securityTypes = parts[5] ? parts[5].trim().split(/\s+/).filter(s => s) : [];
-        }
-      } catch (wifiDetailsError) {
-        console.warn(`Could not get detailed Wi-Fi info for ${activeConnectionName}:`, wifiDetailsError);
+  /**
+   * Connection status, of one interface when given. With the hotspot and the
+   * upstream Wi-Fi on separate radios, the upstream one is reported.
+   */
+  async getStatus(interfaceName?: string): Promise<NetworkStatus> {
+    try {
+      const networkManager = await this.networkManager();
+      if (interfaceName) {
+        return await networkManager.getStatus(interfaceName);
       }
-
-      // Get MAC address for the specific Wi-Fi interface (e.g., wlan0)
-      try {
-        const { stdout: macStdout } = await executeCommand(`nmcli -g GENERAL.HWADDR dev show ${interfaceName}`);
-        macAddress = macStdout.trim();
-      } catch (macError) {
-        console.warn(`Could not get MAC for ${interfaceName} via nmcli dev show, trying ip link.`);
-        try {
-          const { stdout: ipLinkOut } = await executeCommand(`ip -brief link show ${interfaceName}`);
-          const match = ipLinkOut.match(/([0-9a-f]{2}:){5}[0-9a-f]{2}/i);
-          if (match) macAddress = match[0];
-        } catch (ipLinkError) {
-          console.warn(`Failed to get MAC for ${interfaceName} via ip link:`, ipLinkError);
-        }
+      let status = await networkManager.getStatus();
+      if (status.mode === 'ap') {
+        status = (await this.getInterfaceStatuses()).find(s => s.connected && s.mode === 'wifi') || status;
       }
-
-      let ipAddress, gateway;
-      try {
-        // Now get IP and Gateway for the connection, without GENERAL.HWADDR
-        const { stdout: ipConfig } = await executeCommand(`nmcli -g IP4.ADDRESS,IP4.GATEWAY connection show "${activeConnectionName}"`);
-        const [ipLine, gatewayLine] = ipConfig.split('\n'); // Expecting two lines
-        ipAddress = ipLine ? ipLine.split('/')[0] : undefined;
-        gateway = gatewayLine ? gatewayLine.split('/')[0] : undefined;
-      } catch (ipError) {
-        console.warn(`Could not get IP details for ${activeConnectionName}:`, ipError);
-      }
-
-      return {
-        connected: true,
-        ssid: activeConnectionName.replace(/\\:/g, ':'),
-        mode: 'wifi',
-        signal: isNaN(signal!) ? undefined : signal,
-        freq,
-        bitrate,
-        security: securityTypes,
-        ipAddress,
-        gateway,
-        macAddress, // MAC address obtained from 'nmcli dev show'
-        interfaceName
-      };
+      return await this.withUplink(status);
     } catch (e) {
       interface CommandError extends Error {
         cmd?: string;
@@ -305,6 +497,7 @@ export class NetworkControl {
         killed?: boolean;
         signal?: NodeJS.Signals | null;
       }
+
       const error = e as CommandError;
       console.error('Failed to get status:', error.message || error);
       if (error.cmd) console.error(`Command was: ${error.cmd}`);
@@ -314,24 +507,114 @@ export class NetworkControl {
     }
   }
 
+  /**
+   * Add the uplink to a status; Wi-Fi being down does not mean offline when
+   * a cable or a tethered phone carries the traffic
+   */
+  private async withUplink(status: NetworkStatus): Promise<NetworkStatus> {
+    const uplink = await this.uplinks.getActiveInterface().catch(() => undefined);
+    if (!uplink) return status;
+    if (status.connected || status.interfaceName === uplink) {
+      return { ...status, uplink };
+    }
+    const active = (await this.uplinks.listUplinks()).find(u => u.interfaceName === uplink);
+    if (!active) return { ...status, uplink };
+    return {
+      connected: true,
+      mode: 'ethernet',
+      interfaceName: uplink,
+      ipAddress: active.ipAddress,
+      gateway: active.gateway,
+      uplink
+    };
+  }
+
+  /**
+   * Status of every Wi-Fi radio
+   */
+  async getInterfaceStatuses(): Promise<NetworkStatus[]> {
+    const networkManager = await this.networkManager();
+    const statuses: NetworkStatus[] = [];
+    for (const name of await networkManager.listWifiInterfaces()) {
+      statuses.push(await networkManager.getStatus(name));
+    }
+    return statuses;
+  }
+
+  /**
+   * Status of the radio serving the hotspot; not connected when no hotspot is running
+   */
+  async getHotspotStatus(): Promise<NetworkStatus> {
+    const statuses = await this.getInterfaceStatuses();
+    return statuses.find(s => s.connected && s.mode === 'ap') || { connected: false, mode: 'disconnected' };
+  }
+
+  /**
+   * Radio for a new client connection or hotspot. A requested one must be a
+   * Wi-Fi interface; otherwise the radio already in that role is reused, then
+   * an idle one, and NetworkManager decides when there is no choice.
+   */
+  private async pickInterface(role: 'client' | 'hotspot', requested?: string): Promise<string | undefined> {
+    const radios = await (await this.networkManager()).listWifiInterfaces();
+    if (requested) {
+      if (!radios.includes(requested)) {
+        throw new Error(`${requested} is not a Wi-Fi interface${radios.length > 0 ? ` (found ${radios.join(', ')})` : ''}`);
+      }
+      return requested;
+    }
+    if (radios.length < 2) return undefined;
+    const statuses = await this.getInterfaceStatuses();
+    const mode = role === 'client' ? 'wifi' : 'ap';
+    return (statuses.find(s => s.connected && s.mode === mode) || statuses.find(s => !s.connected))?.interfaceName;
+  }
+
+  /**
+   * With the hotspot on one radio and upstream Wi-Fi on another, send hotspot
+   * clients out through the upstream radio, or a preferred uplink that works
+   */
+  private async routeHotspotTraffic(): Promise<void> {
+    try {
+      const statuses = await this.getInterfaceStatuses();
+      if (statuses.some(s => s.connected && s.mode === 'ap') && statuses.some(s => s.connected && s.mode === 'wifi')) {
+        await this.selectUplink();
+      }
+    } catch (error) {
+      console.error('Failed to route hotspot traffic:', (error as Error).message || error);
+    }
+  }
+
   // Configuration Management
-  async saveCurrentSetup(id: string): Promise<void> {
-    const status = await this.getStatus();
+  /**
+   * Save the running network as a profile, including the radio it uses and, for a hotspot, its radio settings
+   */
+  async saveCurrentSetup(id: string, interfaceName?: string, hotspot?: HotspotOptions): Promise<void> {
+    const status = await this.getStatus(interfaceName);
     await this.networkService.saveCurrentConfig(id, status);
+    if (status.mode === 'ap' && hotspot) {
+      await this.configManager.updateHotspotOptions(id, validateHotspotOptions(hotspot));
+    }
   }
 
   async activateConfig(id: string): Promise<boolean> {
     try {
       const config = await this.networkService.activateConfig(id);
       if (config.mode === 'hotspot') {
-        const result = await this.startHotspot(config.ssid, config.password!);
+        const result = await this.startHotspot(config.ssid, config.password!, { ...config.hotspot, interfaceName: config.interface });
         console.log(`WorkHive: Activated hotspot with SSID: ${config.ssid}`);
+        if (result) {
+          for (const tunnel of profileTunnels(config)) {
+            await this.wireguard.start(tunnel);
+          }
+        }
         return result;
       } else {
-        const result = await this.connect(config.ssid, config.password);
-        if (result && config.vpnEnabled) {
-          console.log(`WorkHive: Connected to ${config.ssid}, starting VPN...`);
-          await this.wireguard.startVPN();
+        const result = await this.connect(config.ssid, config.password, config.interface);
+        const tunnels = profileTunnels(config);
+        if (result && tunnels.length > 0) {
+          console.log(`WorkHive: Connected to ${config.ssid}, starting VPN tunnel(s) ${tunnels.join(', ')}...`);
+          for (const tunnel of tunnels) {
+            await this.wireguard.start(tunnel);
+          }
         } else {
           console.log(`WorkHive: Connected to ${config.ssid}`);
         }
@@ -347,6 +630,7 @@ export class NetworkControl {
         signal?: NodeJS.Signals | null;
       }
 
+
       const error = e as CommandError;
       console.error(`Failed to activate config ${id}:`, error.message || error);
       if (error.cmd) console.error(`Command was: ${error.cmd}`);
@@ -358,6 +642,10 @@ export class NetworkControl {
     return this.networkService.listSavedConfigs();
   }
 
+  async getConfig(id: string): Promise<NetworkConfig | null> {
+    return this.configManager.loadConfig(id);
+  }
+
   async deduplicateConfigs(): Promise<void> {
     await this.networkService.deduplicateConfigs();
   }
@@ -372,30 +660,31 @@ export class NetworkControl {
 
   async reconnectLastWifi(): Promise<boolean> {
     try {
-      const { stdout } = await executeCommand('nmcli -t -f NAME connection show');
-      const connections = stdout.trim().split('\n');
+      const networkManager = await this.networkManager();
+      const connections = (await networkManager.listConnections())
+        .filter(c => c.type === '802-11-wireless' && c.mode !== 'ap')
+        .sort((a, b) => b.timestamp - a.timestamp);
 
       for (const connection of connections) {
-        if (connection && connection !== 'lo') {
-          try {
-            console.log(`Attempting to connect to saved network: ${connection}`);
-            await executeCommand(`nmcli connection up "${connection}"`);
-            console.log(`Successfully connected to ${connection}`);
-            return true;
-          } catch (e) {
-            interface CommandError extends Error {
-              cmd?: string;
-              stdout?: string;
-              stderr?: string;
-              code?: number;
-              killed?: boolean;
-              signal?: NodeJS.Signals | null;
-            }
-
-            const error = e as CommandError;
-            console.log(`Failed to connect to ${connection}:`, error.message || error);
-            if (error.cmd) console.error(`Command was: ${error.cmd}`);
+        try {
+          console.log(`Attempting to connect to saved network: ${connection.name}`);
+          await networkManager.activateConnection(connection.name);
+          console.log(`Successfully connected to ${connection.name}`);
+          return true;
+        } catch (e) {
+          interface CommandError extends Error {
+            cmd?: string;
+            stdout?: string;
+            stderr?: string;
+            code?: number;
+            killed?: boolean;
+            signal?: NodeJS.Signals | null;
           }
+
+
+          const error = e as CommandError;
+          console.log(`Failed to connect to ${connection.name}:`, error.message || error);
+          if (error.cmd) console.error(`Command was: ${error.cmd}`);
         }
       }
       return false;
@@ -417,52 +706,770 @@ export class NetworkControl {
   }
 
   // VPN Management
-  async setupWireGuardWithQR(config: {
-    endpoint: string;
-    allowedIPs: string[];
-    dns?: string;
-    listenPort?: number;
-    privateKey?: string;
-  }): Promise<{ success: boolean; config?: WireGuardConfig }> {
-    return this.wireguard.setup(config);
+
+  /**
+   * Create (or replace) a named client tunnel and bring it up
+   */
+  async setupWireGuardWithQR(name: string, config: WireGuardClientOptions): Promise<{ success: boolean; config?: WireGuardConfig; errors?: string[] }> {
+    const server = await this.wireguardServer.load();
+    if (server?.interfaceName === name) {
+      return { success: false, errors: [`'${name}' is the WireGuard server interface; pick another tunnel name`] };
+    }
+    return this.wireguard.setup(name, config);
+  }
+
+  async listWireGuardTunnels(): Promise<WireGuardTunnel[]> {
+    return this.wireguard.listTunnels();
+  }
+
+  async getWireGuardTunnel(name: string): Promise<WireGuardTunnel | null> {
+    return this.wireguard.getTunnel(name);
   }
 
-  async getWireGuardStatus(): Promise<WireGuardStatus> {
-    return this.wireguard.getStatus();
+  async startWireGuard(name: string): Promise<boolean> {
+    return this.wireguard.start(name);
+  }
+
+  /**
+   * Stop one client tunnel, or all of them when no name is given
+   */
+  async stopWireGuard(name?: string): Promise<boolean> {
+    const names = name ? [name] : (await this.wireguard.listTunnels()).map(t => t.name);
+    let stopped = true;
+    for (const tunnel of names) {
+      stopped = (await this.wireguard.stop(tunnel)) && stopped;
+    }
+    return stopped;
+  }
+
+  async removeWireGuardTunnel(name: string): Promise<boolean> {
+    const routedBy = (await this.listConfigs())
+      .filter(({ config }) => (config.routing || []).some(rule => rule.tunnel === name))
+      .map(({ id }) => id);
+    if (routedBy.length > 0) {
+      throw new Error(`Routing rules of ${routedBy.join(', ')} use tunnel ${name}; remove them first (vpn route remove)`);
+    }
+    return this.wireguard.removeTunnel(name);
+  }
+
+  /**
+   * Live state of one tunnel, or of every client tunnel and the server interface
+   */
+  async getWireGuardStatus(name?: string): Promise<WireGuardStatus[]> {
+    const names = name ? [name] : (await this.wireguard.listTunnels()).map(t => t.name);
+    const server = name ? null : await this.wireguardServer.load();
+    if (server && !names.includes(server.interfaceName)) {
+      names.push(server.interfaceName);
+    }
+    return Promise.all(names.map(tunnel => this.wireguard.getStatus(tunnel)));
+  }
+
+  /**
+   * Handshake age and probe latency of one tunnel, or of every client tunnel
+   */
+  async checkTunnelHealth(name?: string): Promise<TunnelHealth[]> {
+    const names = name ? [name] : (await this.wireguard.listTunnels()).map(t => t.name);
+    const monitor = this.tunnelMonitor || new TunnelHealthMonitor({ backend: this.backend, wireguard: this.wireguard });
+    return Promise.all(names.map(tunnel => monitor.check(tunnel)));
+  }
+
+  /**
+   * Set how a tunnel is checked and what the health monitor falls back to;
+   * undefined clears it
+   */
+  async setTunnelHealthCheck(name: string, healthCheck: TunnelHealthCheck | undefined): Promise<WireGuardTunnel> {
+    const errors: string[] = [];
+    if (healthCheck?.probeHost && !isIpv4(healthCheck.probeHost)) {
+      errors.push('Probe host must be an IPv4 address reached through the tunnel, e.g. 10.8.0.1');
+    }
+    const badEndpoints = (healthCheck?.secondaryEndpoints || []).filter(endpoint => !isEndpoint(endpoint));
+    if (badEndpoints.length > 0) {
+      errors.push(`Endpoints must be host:port: ${badEndpoints.join(', ')}`);
+    }
+    const secondary = healthCheck?.secondaryTunnel;
+    if (secondary && (secondary === name || !(await this.wireguard.getTunnel(secondary)))) {
+      errors.push('Secondary tunnel must be another existing tunnel');
+    }
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+    return this.wireguard.setHealthCheck(name, healthCheck);
+  }
+
+  /**
+   * Turn the VPN kill switch on or off for a hotspot profile; hotspot clients
+   * are then held to the profile's tunnels
+   * @returns The profile that was changed
+   */
+  async setKillSwitch(enabled: boolean, profileId?: string): Promise<string> {
+    const { id, config } = await this.getHotspotProfile(profileId);
+    if (enabled && profileTunnels(config).length === 0) {
+      throw new Error(`Profile ${id} has no VPN tunnels; choose them with "config vpn ${id} <tunnel...>" first`);
+    }
+    await this.configManager.updateKillSwitch(id, enabled);
+
+    const status = await this.getHotspotStatus();
+    if (status.connected && status.mode === 'ap' && status.ssid === config.ssid) {
+      await this.killSwitch.apply(status.interfaceName || 'wlan0', enabled ? this.carryingTunnels(profileTunnels(config)) : undefined);
+    }
+    return id;
+  }
+
+  /**
+   * Whether the kill switch rules are installed, and whether any allowed tunnel is up
+   */
+  async getKillSwitchStatus(): Promise<KillSwitchState & { tunnelUp: boolean }> {
+    const state = await this.killSwitch.getState();
+    const statuses = await Promise.all(state.tunnels.map(tunnel => this.wireguard.getStatus(tunnel)));
+    return { ...state, tunnelUp: statuses.some(s => s.active) };
+  }
+
+  /**
+   * Choose the tunnels a saved profile brings up after connecting
+   */
+  async setProfileTunnels(id: string, tunnels: string[]): Promise<void> {
+    const known = (await this.wireguard.listTunnels()).map(t => t.name);
+    const unknown = tunnels.filter(t => !known.includes(t));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown tunnel(s): ${unknown.join(', ')}`);
+    }
+    const config = await this.configManager.loadConfig(id);
+    if (config?.killSwitch && tunnels.length === 0) {
+      throw new Error(`The kill switch is on for ${id}; turn it off before removing all tunnels`);
+    }
+    const routed = [...new Set((config?.routing || []).map(rule => rule.tunnel))].filter(t => !tunnels.includes(t));
+    if (routed.length > 0) {
+      throw new Error(`Routing rules of ${id} use ${routed.join(', ')}; remove them first (vpn route remove)`);
+    }
+    await this.configManager.updateVpnTunnels(id, tunnels);
+
+    // An armed kill switch follows the hotspot profile's tunnels
+    const status = await this.getHotspotStatus();
+    if (config?.mode === 'hotspot' && config.killSwitch && status.connected && status.mode === 'ap' && status.ssid === config.ssid) {
+      await this.killSwitch.apply(status.interfaceName || 'wlan0', this.carryingTunnels(tunnels));
+    }
   }
 
-  async stopWireGuard(): Promise<boolean> {
-    return this.wireguard.stop();
+  /**
+   * Tunnels carrying the traffic of the given ones: a failed tunnel is
+   * replaced by the secondary standing in for it
+   */
+  private carryingTunnels(tunnels: string[]): string[] {
+    const standIns = this.tunnelMonitor?.standIns;
+    return [...new Set(tunnels.map(tunnel => standIns?.get(tunnel) ?? tunnel))];
+  }
+
+  /**
+   * Point an armed kill switch at the tunnels now carrying the running hotspot profile's traffic
+   */
+  private async refreshKillSwitch(): Promise<void> {
+    const status = await this.getHotspotStatus();
+    if (!status.connected || status.mode !== 'ap' || !status.ssid) return;
+    const profile = await this.findHotspotProfile(status.ssid);
+    if (profile?.config.killSwitch) {
+      await this.killSwitch.apply(status.interfaceName || 'wlan0', this.carryingTunnels(profileTunnels(profile.config)));
+    }
+  }
+
+  // Policy routing
+
+  /**
+   * Send matching hotspot traffic through a tunnel, replacing any rule with
+   * the same match. The tunnel joins the profile's tunnels and from then on
+   * only carries traffic routing rules select.
+   * @returns The profile that was changed
+   */
+  async addRoutingRule(rule: RoutingRule, profileId?: string): Promise<string> {
+    const { id, config } = await this.getHotspotProfile(profileId);
+    if (!(await this.wireguard.getTunnel(rule.tunnel))) {
+      throw new Error(`Unknown tunnel: ${rule.tunnel}`);
+    }
+    const value = await this.resolveRouteValue(rule.match, rule.value);
+    const routing = (config.routing || []).filter(r => !(r.match === rule.match && r.value === value));
+
+    const tunnels = profileTunnels(config);
+    if (!tunnels.includes(rule.tunnel)) {
+      await this.configManager.updateVpnTunnels(id, [...tunnels, rule.tunnel]);
+    }
+    await this.wireguard.usePolicyTable(rule.tunnel);
+    await this.saveRouting(id, [...routing, { tunnel: rule.tunnel, match: rule.match, value }]);
+    return id;
+  }
+
+  /**
+   * Remove a routing rule by its position in the profile; a tunnel no rule
+   * uses any more goes back to carrying all of the Pi's traffic
+   */
+  async removeRoutingRule(index: number, profileId?: string): Promise<RoutingRule> {
+    const { id, config } = await this.getHotspotProfile(profileId);
+    const routing = [...(config.routing || [])];
+    if (index < 0 || index >= routing.length) {
+      throw new Error(`No routing rule number ${index + 1}`);
+    }
+    const [removed] = routing.splice(index, 1);
+    await this.saveRouting(id, routing);
+
+    const stillRouted = (await this.listConfigs())
+      .some(({ config }) => (config.routing || []).some(rule => rule.tunnel === removed.tunnel));
+    if (!stillRouted) {
+      await this.wireguard.releasePolicyTable(removed.tunnel);
+    }
+    return removed;
+  }
+
+  /**
+   * Check a rule's value and put it in the form the rules are stored in;
+   * devices may be named by IP, label or hostname from the inventory
+   */
+  private async resolveRouteValue(match: RouteMatch, value: string): Promise<string> {
+    const trimmed = value.trim();
+    switch (match) {
+      case 'destination':
+        if (!isCidr(trimmed)) {
+          throw new Error(`'${value}' is not an IPv4 network or address`);
+        }
+        return trimmed;
+      case 'domain': {
+        const domain = trimmed.toLowerCase().replace(/^\*\./, '').replace(/\.$/, '');
+        if (!DOMAIN_PATTERN.test(domain)) {
+          throw new Error(`'${value}' is not a domain name`);
+        }
+        return domain;
+      }
+      case 'device': {
+        if (isMacAddress(trimmed)) {
+          return normalizeMac(trimmed);
+        }
+        const device = (await this.getDeviceInventory())
+          .find(d => d.ip === trimmed || d.label === trimmed || d.hostname === trimmed);
+        if (!device) {
+          throw new Error(`No known device '${value}'; give its MAC address, IP, name or hostname`);
+        }
+        return device.mac;
+      }
+      default:
+        throw new Error(`Unknown match '${match}': use destination, domain or device`);
+    }
+  }
+
+  /**
+   * Persist a profile's routing rules and apply them if it is the running hotspot
+   */
+  private async saveRouting(id: string, routing: RoutingRule[]): Promise<void> {
+    await this.configManager.updateRouting(id, routing);
+    const config = await this.configManager.loadConfig(id);
+    const status = await this.getHotspotStatus();
+    if (!config || !status.connected || status.mode !== 'ap' || status.ssid !== config.ssid) {
+      return;
+    }
+    if (await this.updateDomainSets(routing)) {
+      // Restarting the hotspot restarts its dnsmasq, which re-applies everything
+      await this.startHotspot(config.ssid, config.password!, { ...config.hotspot, interfaceName: status.interfaceName });
+      return;
+    }
+    await this.policyRouting.apply(status.interfaceName || 'wlan0', routing, await this.wireguard.getPolicyTables());
+  }
+
+  // Hotspot DHCP
+
+  /**
+   * DHCP settings of a hotspot profile, as saved and with defaults filled in
+   */
+  async getDhcpSettings(profileId?: string): Promise<{ id: string; settings: DhcpSettings; effective: EffectiveDhcpSettings }> {
+    const { id, config } = await this.getHotspotProfile(profileId);
+    const settings = config.dhcp || {};
+    return { id, settings, effective: resolveDhcpSettings(settings) };
+  }
+
+  /**
+   * Change the hotspot network, pool or lease time. Omitted fields keep their
+   * value; reset first returns all of them to NetworkManager's defaults.
+   */
+  async setDhcpNetwork(
+    changes: Pick<DhcpSettings, 'subnet' | 'gateway' | 'rangeStart' | 'rangeEnd' | 'leaseTime'>,
+    options: { reset?: boolean; profileId?: string } = {}
+  ): Promise<string> {
+    const { id, config } = await this.getHotspotProfile(options.profileId);
+    const current = config.dhcp || {};
+    const base: DhcpSettings = options.reset
+      ? { staticLeases: current.staticLeases, options: current.options }
+      : { ...current };
+    const defined = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+    const updated: DhcpSettings = { ...base, ...defined };
+    if (changes.subnet !== undefined && changes.gateway === undefined) {
+      // A new subnet brings its own default gateway
+      updated.gateway = undefined;
+    }
+    await this.saveDhcp(id, updated);
+    return id;
+  }
+
+  /**
+   * Always give a device the same address, replacing any reservation for its MAC
+   */
+  async addStaticLease(lease: DhcpStaticLease, profileId?: string): Promise<string> {
+    const { id, config } = await this.getHotspotProfile(profileId);
+    const mac = isMacAddress(lease.mac) ? normalizeMac(lease.mac) : lease.mac;
+    const dhcp = config.dhcp || {};
+    const staticLeases = (dhcp.staticLeases || []).filter(l => l.mac !== mac);
+    await this.saveDhcp(id, { ...dhcp, staticLeases: [...staticLeases, { ...lease, mac }] });
+    return id;
+  }
+
+  async removeStaticLease(macOrIp: string, profileId?: string): Promise<DhcpStaticLease> {
+    const { id, config } = await this.getHotspotProfile(profileId);
+    const dhcp = config.dhcp || {};
+    const target = isMacAddress(macOrIp) ? normalizeMac(macOrIp) : macOrIp;
+    const removed = (dhcp.staticLeases || []).find(l => l.mac === target || l.ip === target);
+    if (!removed) {
+      throw new Error(`No static lease for ${macOrIp}`);
+    }
+    await this.saveDhcp(id, { ...dhcp, staticLeases: (dhcp.staticLeases || []).filter(l => l !== removed) });
+    return removed;
+  }
+
+  async addDhcpOption(option: string, profileId?: string): Promise<string> {
+    const { id, config } = await this.getHotspotProfile(profileId);
+    const dhcp = config.dhcp || {};
+    await this.saveDhcp(id, { ...dhcp, options: [...(dhcp.options || []), option.trim()] });
+    return id;
+  }
+
+  /**
+   * Remove a DHCP option by its position in the profile
+   */
+  async removeDhcpOption(index: number, profileId?: string): Promise<string> {
+    const { id, config } = await this.getHotspotProfile(profileId);
+    const options = [...(config.dhcp?.options || [])];
+    if (index < 0 || index >= options.length) {
+      throw new Error(`No DHCP option number ${index + 1}`);
+    }
+    const [removed] = options.splice(index, 1);
+    await this.saveDhcp(id, { ...config.dhcp, options });
+    return removed;
+  }
+
+  /**
+   * Persist a profile's DHCP settings and apply them if it is the running
+   * hotspot: static leases and options are re-read by dnsmasq in place, while
+   * a new network, pool or lease time restarts the hotspot connection
+   */
+  private async saveDhcp(id: string, dhcp: DhcpSettings): Promise<void> {
+    const validated = this.dhcp.validate(dhcp);
+    const previous = (await this.configManager.loadConfig(id))?.dhcp;
+    await this.configManager.updateDhcp(id, validated);
+    const config = await this.configManager.loadConfig(id);
+    const status = await this.getHotspotStatus();
+    if (!config || !status.connected || status.mode !== 'ap' || status.ssid !== config.ssid) {
+      return;
+    }
+    if (dhcpNetworkChanged(previous, validated)) {
+      if (!(await this.startHotspot(config.ssid, config.password!, { ...config.hotspot, interfaceName: status.interfaceName }))) {
+        throw new Error('Saved, but the hotspot did not restart with the new network');
+      }
+      return;
+    }
+    await this.dhcp.apply(validated);
+  }
+
+  // Captive portal
+
+  /**
+   * Captive portal of a hotspot profile; disabled when it has none
+   */
+  async getPortalSettings(profileId?: string): Promise<{ id: string; settings: CaptivePortalSettings }> {
+    const { id, config } = await this.getHotspotProfile(profileId);
+    return { id, settings: profilePortal(config) || { enabled: false, mode: 'terms' } };
+  }
+
+  /**
+   * Change a profile's captive portal; omitted fields keep their value
+   */
+  async setPortal(changes: Partial<Omit<CaptivePortalSettings, 'vouchers'>>, profileId?: string): Promise<string> {
+    const { id, settings } = await this.getPortalSettings(profileId);
+    const defined = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+    const updated: CaptivePortalSettings = { ...settings, ...defined };
+
+    if (!PORTAL_AUTH_MODES.includes(updated.mode)) {
+      throw new Error(`Invalid sign-in mode '${updated.mode}'. Use one of: ${PORTAL_AUTH_MODES.join(', ')}`);
+    }
+    if (updated.durationHours !== undefined && !(updated.durationHours > 0 && Number.isFinite(updated.durationHours))) {
+      throw new Error('The sign-in duration must be above 0 hours');
+    }
+    if (updated.enabled && updated.mode === 'password' && !updated.password) {
+      throw new Error('Password mode needs a password');
+    }
+    await this.savePortal(id, updated);
+    return id;
+  }
+
+  /**
+   * Add one-time voucher codes to a profile's portal
+   * @param durationHours How long a device stays signed in with each voucher (default: the portal's duration)
+   */
+  async createVouchers(count: number, durationHours?: number, profileId?: string): Promise<{ id: string; vouchers: PortalVoucher[] }> {
+    if (!(Number.isInteger(count) && count > 0 && count <= 1000)) {
+      throw new Error('Create between 1 and 1000 vouchers at a time');
+    }
+    if (durationHours !== undefined && !(durationHours > 0 && Number.isFinite(durationHours))) {
+      throw new Error('The voucher duration must be above 0 hours');
+    }
+    const { id, settings } = await this.getPortalSettings(profileId);
+    const existing = new Set((settings.vouchers || []).map(v => v.code));
+    const createdAt = new Date().toISOString();
+    const vouchers: PortalVoucher[] = [];
+    while (vouchers.length < count) {
+      const code = Array.from({ length: VOUCHER_LENGTH }, () => VOUCHER_ALPHABET[randomInt(VOUCHER_ALPHABET.length)]).join('');
+      if (existing.has(code)) continue;
+      existing.add(code);
+      vouchers.push({ code, createdAt, ...(durationHours !== undefined ? { durationHours } : {}) });
+    }
+    await this.savePortal(id, { ...settings, vouchers: [...(settings.vouchers || []), ...vouchers] });
+    return { id, vouchers };
+  }
+
+  /**
+   * Withdraw a voucher; a device signed in with it loses its approval
+   */
+  async revokeVoucher(code: string, profileId?: string): Promise<PortalVoucher> {
+    const { id, settings } = await this.getPortalSettings(profileId);
+    const normalized = normalizeVoucherCode(code);
+    const voucher = (settings.vouchers || []).find(v => v.code === normalized);
+    if (!voucher) {
+      throw new Error(`No voucher ${code}`);
+    }
+    await this.savePortal(id, { ...settings, vouchers: (settings.vouchers || []).filter(v => v !== voucher) });
+    if (voucher.usedBy) {
+      await this.revokeDeviceApproval(voucher.usedBy, id);
+    }
+    return voucher;
+  }
+
+  /**
+   * Persist a profile's portal and enforce it if it is the running hotspot
+   */
+  private async savePortal(id: string, portal: CaptivePortalSettings): Promise<void> {
+    await this.configManager.updatePortal(id, portal);
+    const config = await this.configManager.loadConfig(id);
+    const status = await this.getHotspotStatus();
+    if (config && status.connected && status.mode === 'ap' && status.ssid === config.ssid) {
+      await this.applyDeviceAccess(status, config);
+    }
+  }
+
+  /**
+   * Profile of the running hotspot, if it has one
+   */
+  private async portalProfile(): Promise<{ id: string; config: NetworkConfig; status: NetworkStatus } | undefined> {
+    const status = await this.getHotspotStatus();
+    if (!status.connected || status.mode !== 'ap' || !status.ssid) return undefined;
+    const profile = await this.findHotspotProfile(status.ssid);
+    return profile && { ...profile, status };
+  }
+
+  private async portalContext(): Promise<PortalContext> {
+    const profile = await this.portalProfile();
+    if (!profile) return {};
+    return {
+      settings: profilePortal(profile.config),
+      ssid: profile.config.ssid,
+      address: profile.status.ipAddress?.split('/')[0]
+    };
+  }
+
+  /**
+   * Approve a device that passed the portal, marking the voucher it used as redeemed
+   */
+  private async authorizePortalDevice(mac: string, hours: number, voucher?: string): Promise<Date> {
+    const profile = await this.portalProfile();
+    if (!profile) {
+      throw new Error('No hotspot profile is running');
+    }
+    const { id, config } = profile;
+    const portal = profilePortal(config);
+    if (voucher && portal) {
+      const usedAt = new Date().toISOString();
+      const vouchers = (portal.vouchers || []).map(v => v.code === voucher && !v.usedBy ? { ...v, usedBy: mac, usedAt } : v);
+      await this.configManager.updatePortal(id, { ...portal, vouchers });
+    }
+    // Approval mode stays as the profile had it, so turning the portal off lets everyone back in
+    const expiresAt = await this.saveApproval(id, config.deviceAuth || { enabled: false }, mac, hours);
+    return expiresAt!;
+  }
+
+  /**
+   * Hand the domain rules to the hotspot's dnsmasq
+   * @returns Whether they changed
+   */
+  private async updateDomainSets(routing: RoutingRule[] = []): Promise<boolean> {
+    const sets: Record<string, string[]> = {};
+    for (const rule of routing.filter(r => r.match === 'domain')) {
+      const set = domainSetName(rule.tunnel);
+      sets[set] = [...(sets[set] || []), rule.value];
+    }
+    return this.configManager.updateDomainSets(sets);
+  }
+
+  // Key rotation
+
+  async getKeyRotationSchedule(): Promise<KeyRotationSchedule | undefined> {
+    return (await this.configManager.loadSettings()).keyRotation;
+  }
+
+  /**
+   * Rotate keys every intervalDays, or stop rotating when undefined. The
+   * schedule is carried out by the boot service.
+   */
+  async setKeyRotationSchedule(schedule: KeyRotationSchedule | undefined): Promise<void> {
+    if (schedule) {
+      if (!(schedule.intervalDays > 0)) {
+        throw new Error('Interval must be a positive number of days');
+      }
+      if (!(schedule.overlapHours >= 0)) {
+        throw new Error('Overlap must be zero or more hours');
+      }
+      const known = (await this.wireguard.listTunnels()).map(t => t.name);
+      const unknown = (schedule.tunnels || []).filter(t => !known.includes(t));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown tunnel(s): ${unknown.join(', ')}`);
+      }
+    }
+    const current = await this.getKeyRotationSchedule();
+    await this.configManager.saveSettings({
+      keyRotation: schedule && { ...schedule, lastRotation: current?.lastRotation }
+    });
+  }
+
+  /**
+   * Rotate keys now: the named server peers (all of them when none are
+   * named) and the local keys of the named client tunnels
+   */
+  async rotateKeys(options: { peers?: string[]; tunnels?: string[]; overlapHours?: number } = {}): Promise<KeyRotationResult> {
+    const schedule = await this.getKeyRotationSchedule();
+    const server = await this.wireguardServer.load();
+    const peers = options.peers ?? (server?.peers.map(p => p.name) || []);
+    const tunnels = options.tunnels || [];
+    if (peers.length === 0 && tunnels.length === 0) {
+      throw new Error('Nothing to rotate: the WireGuard server has no peers and no tunnel was named');
+    }
+
+    const result = await this.rotate(peers, tunnels, options.overlapHours ?? schedule?.overlapHours ?? DEFAULT_KEY_OVERLAP_HOURS);
+    if (schedule && !options.peers) {
+      await this.configManager.saveSettings({ keyRotation: { ...schedule, lastRotation: new Date().toISOString() } });
+    }
+    return result;
+  }
+
+  /**
+   * Finish rotations whose overlap has ended, and rotate again when the schedule is due
+   */
+  async runScheduledKeyRotation(now = new Date()): Promise<KeyRotationResult> {
+    const revoked = await this.wireguardServer.revokeExpiredKeys(now);
+    const switched = await this.wireguard.applyPendingKeys(now);
+
+    const schedule = await this.getKeyRotationSchedule();
+    const due = schedule && (!schedule.lastRotation ||
+      now.getTime() - new Date(schedule.lastRotation).getTime() >= schedule.intervalDays * 24 * 3600 * 1000);
+    if (!schedule || !due) {
+      return { peers: [], tunnels: [], revoked, switched };
+    }
+
+    const server = await this.wireguardServer.load();
+    const rotated = await this.rotate(server?.peers.map(p => p.name) || [], schedule.tunnels || [], schedule.overlapHours);
+    await this.configManager.saveSettings({ keyRotation: { ...schedule, lastRotation: now.toISOString() } });
+    return { ...rotated, revoked, switched };
+  }
+
+  private async rotate(peers: string[], tunnels: string[], overlapHours: number): Promise<KeyRotationResult> {
+    const overlapMs = overlapHours * 3600 * 1000;
+    const result: KeyRotationResult = { peers: [], tunnels: [], revoked: [], switched: [] };
+    for (const name of peers) {
+      const { peer, clientConfig, file } = await this.wireguardServer.rotatePeerKey(name, overlapMs);
+      result.peers.push({ name, clientConfig, file, previousKeyExpiresAt: peer.previousKey!.expiresAt });
+    }
+    for (const name of tunnels) {
+      result.tunnels.push({ name, ...(await this.wireguard.rotateKey(name, overlapMs)) });
+    }
+    return result;
+  }
+
+  // setip.io
+
+  async registerSetip(options: { name?: string; tunnel?: string; apiUrl?: string } = {}): Promise<SetipRegistration> {
+    const server = await this.wireguardServer.load();
+    if (options.tunnel && server?.interfaceName === options.tunnel) {
+      throw new Error(`'${options.tunnel}' is the WireGuard server interface; pick another tunnel name`);
+    }
+    return this.setip.register(options);
+  }
+
+  async unregisterSetip(): Promise<void> {
+    const registration = await this.setip.load();
+    if (registration) {
+      const routedBy = (await this.listConfigs())
+        .filter(({ config }) => (config.routing || []).some(rule => rule.tunnel === registration.tunnel))
+        .map(({ id }) => id);
+      if (routedBy.length > 0) {
+        throw new Error(`Routing rules of ${routedBy.join(', ')} use tunnel ${registration.tunnel}; remove them first (vpn route remove)`);
+      }
+    }
+    await this.setip.unregister();
+  }
+
+  /**
+   * Bring up the setip.io tunnel with the service's current parameters
+   */
+  async connectSetip(): Promise<{ params: SetipTunnelParams; updated: SetipSubdomain[] }> {
+    return this.setip.connect();
+  }
+
+  async disconnectSetip(): Promise<boolean> {
+    return this.setip.disconnect();
+  }
+
+  async getSetipStatus(): Promise<SetipStatus> {
+    return this.setip.getStatus();
+  }
+
+  async listSetipSubdomains(): Promise<SetipSubdomain[]> {
+    return this.setip.listSubdomains();
+  }
+
+  async claimSetipSubdomain(name: string, target?: string): Promise<SetipSubdomain> {
+    return this.setip.claimSubdomain(name, target);
+  }
+
+  async updateSetipSubdomain(name: string, target?: string): Promise<SetipSubdomain> {
+    return this.setip.updateSubdomain(name, target);
+  }
+
+  async releaseSetipSubdomain(name: string): Promise<void> {
+    return this.setip.releaseSubdomain(name);
+  }
+
+  // Uplinks
+
+  /**
+   * Candidate uplinks by priority
+   * @param probe Ping through each one to see whether it reaches the internet
+   */
+  async getUplinks(probe = false): Promise<UplinkStatus[]> {
+    return this.uplinks.getStatus({ exclude: await this.hotspotInterfaces(), probe });
+  }
+
+  /**
+   * Set an uplink's priority (lower is preferred); undefined restores the default for its kind
+   * @param interfaceName Interface, or a name ending in * such as enx*
+   */
+  async setUplinkPriority(interfaceName: string, priority: number | undefined): Promise<void> {
+    if (priority !== undefined && !(Number.isInteger(priority) && priority >= 0)) {
+      throw new Error('Priority must be a whole number, 0 or more');
+    }
+    await this.uplinks.setPreference(interfaceName, { priority });
+  }
+
+  async setUplinkEnabled(interfaceName: string, enabled: boolean): Promise<void> {
+    await this.uplinks.setPreference(interfaceName, { disabled: enabled ? undefined : true });
+  }
+
+  async setUplinkProbeHost(host: string | undefined): Promise<void> {
+    if (host !== undefined && !isIpv4(host)) {
+      throw new Error(`Probe host must be an IPv4 address, got '${host}'`);
+    }
+    await this.uplinks.setProbeHost(host);
+  }
+
+  /**
+   * Probe now and move traffic to the preferred working uplink
+   * @returns The uplinks as probed and the one now in use
+   */
+  async selectUplink(): Promise<{ uplinks: UplinkStatus[]; active?: string }> {
+    const monitor = this.uplinkMonitor || new UplinkMonitor({ uplinks: this.uplinks, getExcluded: () => this.hotspotInterfaces() });
+    const uplinks = await monitor.check();
+    return { uplinks, active: monitor.current ?? await this.uplinks.getActiveInterface() };
+  }
+
+  /**
+   * Drop the uplink routes and NAT added by WorkHive; NetworkManager's routing applies again
+   */
+  async releaseUplinks(): Promise<void> {
+    this.stopUplinkMonitor();
+    await this.uplinks.release();
+  }
+
+  // Dynamic DNS
+
+  async listDdnsRecords(): Promise<DdnsRecord[]> {
+    return this.ddns.listRecords();
+  }
+
+  async addDdnsRecord(record: DdnsRecord): Promise<void> {
+    return this.ddns.addRecord(record);
+  }
+
+  async removeDdnsRecord(hostname: string): Promise<DdnsRecord> {
+    return this.ddns.removeRecord(hostname);
+  }
+
+  async getDdnsStatus(): Promise<DdnsRecordStatus[]> {
+    return this.ddns.getStatus();
+  }
+
+  /**
+   * Point dynamic DNS records at the current public IP where it changed
+   */
+  async updateDdns(options: { force?: boolean; hostname?: string } = {}): Promise<DdnsUpdateResult[]> {
+    return this.ddns.update(options);
+  }
+
+  // WireGuard server mode
+
+  async setupWireGuardServer(options: WireGuardServerOptions): Promise<WireGuardServerConfig> {
+    return this.wireguardServer.init(options);
+  }
+
+  async getWireGuardServer(): Promise<WireGuardServerConfig | null> {
+    return this.wireguardServer.load();
+  }
+
+  async addWireGuardPeer(name: string, clientAllowedIPs?: string[]): Promise<{ peer: WireGuardPeer; clientConfig: WireGuardConfig }> {
+    return this.wireguardServer.addPeer(name, clientAllowedIPs);
+  }
+
+  async removeWireGuardPeer(name: string): Promise<WireGuardPeer> {
+    return this.wireguardServer.removePeer(name);
+  }
+
+  async getWireGuardPeer(name: string): Promise<{ peer: WireGuardPeer; clientConfig: WireGuardConfig }> {
+    return this.wireguardServer.getPeer(name);
+  }
+
+  async listWireGuardPeers(): Promise<WireGuardPeerStatus[]> {
+    return this.wireguardServer.listPeers();
   }
 
   // Connected Devices Management
 
-  async getConnectedDevices(): Promise<Array<{
-    ip: string;
-    mac: string;
-    hostname?: string;
-    lastSeen?: string;
-  }>> {
+  /**
+   * Devices on the hotspot, or on the hotspot served by this interface
+   */
+  async getConnectedDevices(interfaceName?: string): Promise<ConnectedDevice[]> {
     try {
-      const status = await this.getStatus();
+      const status = interfaceName ? await this.getStatus(interfaceName) : await this.getHotspotStatus();
       if (!status.connected || status.mode !== 'ap') {
         return [];
       }
+      const hotspotInterface = status.interfaceName || 'wlan0';
 
-      const devices: Array<{
-        ip: string;
-        mac: string;
-        hostname?: string;
-        lastSeen?: string;
-      }> = [];
+      const devices: ConnectedDevice[] = [];
+      const records = await this.deviceService.loadRecords();
 
-      const { stdout: arpOutput } = await executeCommand('arp -a');
+      const { stdout: arpOutput } = await this.backend.run('arp', ['-a']);
       const arpLines = arpOutput.split('\n');
 
       let leaseOutput = '';
       try {
-        const { stdout } = await executeCommand('cat /var/lib/misc/dnsmasq.leases');
-        leaseOutput = stdout;
+        leaseOutput = await this.backend.readFile('/var/lib/misc/dnsmasq.leases');
       } catch (e) {
         interface CommandError extends Error {
           cmd?: string;
@@ -473,6 +1480,7 @@ export class NetworkControl {
           signal?: NodeJS.Signals | null;
         }
 
+
         const error = e as CommandError;
         console.error('Failed to read DHCP leases:', error.message || error);
         if (error.cmd) console.error(`Command was: ${error.cmd}`);
@@ -480,7 +1488,7 @@ export class NetworkControl {
       const leaseLines = leaseOutput.split('\n');
 
       for (const line of arpLines) {
-        if (!line.includes('wlan0')) continue;
+        if (!line.trim().endsWith(` on ${hotspotInterface}`)) continue;
 
         const match = line.match(/\((\d+\.\d+\.\d+\.\d+)\) at ([0-9a-f:]+)/i);
         if (match) {
@@ -502,15 +1510,25 @@ export class NetworkControl {
             }
           }
 
+          const { vendor, randomized } = await this.deviceService.identify(mac);
           devices.push({
             ip,
             mac,
             hostname,
-            lastSeen
+            lastSeen,
+            label: records[mac]?.label,
+            vendor,
+            randomizedMac: randomized
           });
         }
       }
 
+      try {
+        await this.deviceService.recordSeen(devices);
+      } catch (error) {
+        console.error('Failed to update device registry:', (error as Error).message || error);
+      }
+
       return devices;
     } catch (e) {
       interface CommandError extends Error {
@@ -522,6 +1540,7 @@ export class NetworkControl {
         signal?: NodeJS.Signals | null;
       }
 
+
       const error = e as CommandError;
       console.error('Failed to get connected devices:', error.message || error);
       if (error.cmd) console.error(`Command was: ${error.cmd}`);
@@ -529,6 +1548,125 @@ export class NetworkControl {
     }
   }
 
+  /**
+   * Look up a connected device by IP or MAC address
+   */
+  async findConnectedDevice(ipOrMac: string): Promise<ConnectedDevice | undefined> {
+    const devices = await this.getConnectedDevices();
+    if (isMacAddress(ipOrMac)) {
+      const mac = normalizeMac(ipOrMac);
+      return devices.find(d => d.mac === mac);
+    }
+    return devices.find(d => d.ip === ipOrMac);
+  }
+
+  /**
+   * Online and previously seen devices from the device registry
+   */
+  async getDeviceInventory(): Promise<InventoryDevice[]> {
+    const online = await this.getConnectedDevices();
+    return this.deviceService.getInventory(online);
+  }
+
+  async setDeviceOwner(mac: string, owner: string): Promise<DeviceRecord> {
+    return this.deviceService.setOwner(mac, owner);
+  }
+
+  async setDeviceTrust(mac: string, trust: DeviceTrust): Promise<DeviceRecord> {
+    return this.deviceService.setTrust(mac, trust);
+  }
+
+  async getDeviceRecord(mac: string): Promise<DeviceRecord | undefined> {
+    return this.deviceService.getRecord(mac);
+  }
+
+  async renameDevice(mac: string, label: string): Promise<DeviceRecord> {
+    return this.deviceService.rename(mac, label);
+  }
+
+  async kickDevice(mac: string): Promise<void> {
+    const status = await this.getHotspotStatus();
+    await this.deviceService.kick(mac, status.interfaceName);
+  }
+
+  async blockDevice(mac: string): Promise<void> {
+    const status = await this.getHotspotStatus();
+    await this.deviceService.block(mac, status.interfaceName);
+  }
+
+  async unblockDevice(mac: string): Promise<void> {
+    await this.deviceService.unblock(mac);
+  }
+
+  async getVendorDatabaseInfo(): Promise<{ entries: number; source: string }> {
+    return this.deviceService.getOuiInfo();
+  }
+
+  async updateVendorDatabase(): Promise<number> {
+    return this.deviceService.updateOuiDatabase();
+  }
+
+  async listBlockedDevices(): Promise<string[]> {
+    return this.deviceService.listBlocked();
+  }
+
+  // Usage accounting
+
+  /**
+   * Add the traffic since the last sample to the usage totals and enforce quotas
+   */
+  async sampleUsage(): Promise<QuotaState[]> {
+    const status = await this.getHotspotStatus();
+    const hotspotInterface = status.connected && status.mode === 'ap' ? status.interfaceName || 'wlan0' : undefined;
+    const { quotas = [] } = await this.configManager.loadSettings();
+    return this.usageService.sample(quotas, hotspotInterface);
+  }
+
+  /**
+   * Usage for one day or month, with device names from the registry
+   */
+  async getUsageReport(period: UsagePeriod, date?: Date): Promise<UsageReport> {
+    const { quotas = [] } = await this.configManager.loadSettings();
+    const report = await this.usageService.getReport(period, quotas, date);
+    const records = await this.deviceService.loadRecords();
+    for (const entry of report.entries) {
+      if (entry.scope === 'device') entry.label = records[entry.target]?.label;
+    }
+    return report;
+  }
+
+  async getUsageQuotas(): Promise<UsageQuota[]> {
+    const { quotas = [] } = await this.configManager.loadSettings();
+    return quotas;
+  }
+
+  /**
+   * Add a quota, replacing an existing one for the same target and period
+   */
+  async setUsageQuota(quota: UsageQuota): Promise<void> {
+    const target = quota.scope === 'device' ? normalizeMac(quota.target) : quota.target;
+    const settings = await this.configManager.loadSettings();
+    const quotas = (settings.quotas || [])
+      .filter(q => !(q.scope === quota.scope && q.target === target && q.period === quota.period));
+    await this.configManager.saveSettings({ ...settings, quotas: [...quotas, { ...quota, target }] });
+    await this.sampleUsage();
+  }
+
+  /**
+   * Remove a quota by its position in getUsageQuotas(); lifts any cutoff at the next sample
+   */
+  async removeUsageQuota(index: number): Promise<UsageQuota> {
+    const settings = await this.configManager.loadSettings();
+    const quotas = settings.quotas || [];
+    if (index < 0 || index >= quotas.length) {
+      throw new Error(`No quota number ${index + 1}`);
+    }
+    const [removed] = quotas.splice(index, 1);
+    await this.configManager.saveSettings({ ...settings, quotas });
+    await this.sampleUsage();
+    return removed;
+  }
+
   async getDeviceDetails(ip: string): Promise<{
     ip: string;
     mac?: string;
@@ -554,12 +1692,15 @@ export class NetworkControl {
         connectionTime?: string;
         signalStrength?: string;
       } = { ip };
+      const hotspotInterface = (await this.getHotspotStatus()).interfaceName || 'wlan0';
 
       try {
-        const { stdout: arpOutput } = await executeCommand(`arp -a | grep ${ip}`);
+        const { stdout: arpOutput } = await this.backend.run('arp', ['-a', '-n', ip]);
         const macMatch = arpOutput.match(/at\s+([0-9a-f:]+)/i);
         if (macMatch) {
           details.mac = macMatch[1].toLowerCase();
+          const { vendor, randomized } = await this.deviceService.identify(details.mac);
+          details.vendor = randomized ? 'Randomized MAC (no vendor)' : vendor;
         }
       } catch (e) {
         interface CommandError extends Error {
@@ -571,13 +1712,14 @@ export class NetworkControl {
           signal?: NodeJS.Signals | null;
         }
 
+
         const error = e as CommandError;
         console.error('Failed to get MAC address:', error.message || error);
         if (error.cmd) console.error(`Command was: ${error.cmd}`);
       }
 
       try {
-        const { stdout } = await executeCommand(`nslookup ${ip} | grep name`);
+        const { stdout } = await this.backend.run('nslookup', [ip]);
         const nameMatch = stdout.match(/name\s*=\s*([^\s\.]+)/);
         if (nameMatch) {
           details.hostname = nameMatch[1];
@@ -592,13 +1734,14 @@ export class NetworkControl {
           signal?: NodeJS.Signals | null;
         }
 
+
         const error = e as CommandError;
         console.error('Failed to get hostname:', error.message || error);
         if (error.cmd) console.error(`Command was: ${error.cmd}`);
       }
 
       try {
-        const { stdout } = await executeCommand(`ping -c 3 -W 1 ${ip}`);
+        const { stdout } = await this.backend.run('ping', ['-c', '3', '-W', '1', ip]);
         details.pingResponse = stdout.split('\n')
           .filter(line => line.includes('transmitted') || line.includes('min/avg/max'))
           .join('\n');
@@ -612,6 +1755,7 @@ export class NetworkControl {
           signal?: NodeJS.Signals | null;
         }
 
+
         const error = e as CommandError;
         console.error('Failed to get ping response:', error.message || error);
         if (error.cmd) console.error(`Command was: ${error.cmd}`);
@@ -619,7 +1763,10 @@ export class NetworkControl {
       }
 
       try {
-        const { stdout } = await executeCommand(`iw dev wlan0 station dump | grep -A 15 ${details.mac || ''}`);
+        const { stdout: stationDump } = await this.backend.run('iw', ['dev', hotspotInterface, 'station', 'dump']);
+        const stdout = details.mac
+          ? (stationDump.split(/^(?=Station )/m).find(block => block.toLowerCase().includes(details.mac!)) || '')
+          : stationDump;
         const signalMatch = stdout.match(/signal:\s+(-\d+)/);
         if (signalMatch) {
           details.signalStrength = `${signalMatch[1]} dBm`;
@@ -643,13 +1790,14 @@ export class NetworkControl {
           signal?: NodeJS.Signals | null;
         }
 
+
         const error = e as CommandError;
         console.error('Failed to get signal strength:', error.message || error);
         if (error.cmd) console.error(`Command was: ${error.cmd}`);
       }
 
       try {
-        const { stdout } = await executeCommand(`sudo nmap -sS -T4 -p 22,53,80,443,8080 ${ip}`);
+        const { stdout } = await this.backend.run('sudo', ['nmap', '-sS', '-T4', '-p', '22,53,80,443,8080', ip]);
         const openPorts = [];
         const portMatches = stdout.matchAll(/(\d+)\/tcp\s+open\s+(\S+)/g);
         for (const match of portMatches) {
@@ -668,13 +1816,14 @@ export class NetworkControl {
           signal?: NodeJS.Signals | null;
         }
 
+
         const error = e as CommandError;
         console.error('Failed to get open ports:', error.message || error);
         if (error.cmd) console.error(`Command was: ${error.cmd}`);
       }
 
       try {
-        const { stdout } = await executeCommand(`sudo tcpdump -i wlan0 -n src host ${ip} -c 5 -t`);
+        const { stdout } = await this.backend.run('sudo', ['tcpdump', '-i', hotspotInterface, '-n', 'src', 'host', ip, '-c', '5', '-t'], { timeout: 15000 });
         details.networkActivity = stdout;
       } catch (e) {
         interface CommandError extends Error {
@@ -686,6 +1835,7 @@ export class NetworkControl {
           signal?: NodeJS.Signals | null;
         }
 
+
         const error = e as CommandError;
         console.error('Failed to get network activity:', error.message || error);
         if (error.cmd) console.error(`Command was: ${error.cmd}`);
@@ -693,7 +1843,8 @@ export class NetworkControl {
 
       if (details.mac) {
         try {
-          const { stdout } = await executeCommand(`cat /var/lib/misc/dnsmasq.leases | grep ${details.mac}`);
+          const leases = await this.backend.readFile('/var/lib/misc/dnsmasq.leases');
+          const stdout = leases.split('\n').filter(line => line.includes(details.mac!)).join('\n');
           if (stdout) {
             details.dhcpInfo = stdout;
           }
@@ -707,6 +1858,7 @@ export class NetworkControl {
             signal?: NodeJS.Signals | null;
           }
 
+
           const error = e as CommandError;
           console.error('Failed to get DHCP info:', error.message || error);
           if (error.cmd) console.error(`Command was: ${error.cmd}`);
@@ -724,6 +1876,7 @@ export class NetworkControl {
         signal?: NodeJS.Signals | null;
       }
 
+
       const error = e as CommandError;
       console.error(`Failed to get details for device ${ip}:`, error.message || error);
       if (error.cmd) console.error(`Command was: ${error.cmd}`);
@@ -733,8 +1886,8 @@ export class NetworkControl {
 
   async getHotspotPassword(ssid: string): Promise<string | undefined> {
     try {
-      const { stdout } = await executeCommand(`nmcli -s -g 802-11-wireless-security.psk connection show "${ssid}"`);
-      return stdout.trim();
+      const networkManager = await this.networkManager();
+      return await networkManager.getConnectionSecret(ssid);
     } catch (e) {
       interface CommandError extends Error {
         cmd?: string;
@@ -745,6 +1898,7 @@ export class NetworkControl {
         signal?: NodeJS.Signals | null;
       }
 
+
       const error = e as CommandError;
       console.error('Failed to get hotspot password:', error.message || error);
       if (error.cmd) console.error(`Command was: ${error.cmd}`);
@@ -764,19 +1918,199 @@ export class NetworkControl {
     return this.exportImportManager.importNetworkConfigs(filePath);
   }
 
-  async exportWireGuardConfig(fileName?: string): Promise<string | null> {
-    return this.exportImportManager.exportWireGuardConfig(fileName);
+  async exportWireGuardConfig(name: string, fileName?: string): Promise<string | null> {
+    return this.exportImportManager.exportWireGuardConfig(name, fileName);
   }
 
-  async importWireGuardConfig(filePath: string): Promise<{
+  async importWireGuardConfig(filePath: string, name?: string): Promise<{
     success: boolean;
+    name?: string;
     errors?: string[];
   }> {
-    return this.exportImportManager.importWireGuardConfig(filePath);
+    return this.exportImportManager.importWireGuardConfig(filePath, name);
   }
 
+  /**
+   * Replace the permanently approved devices of the running hotspot's profile
+   */
   async updateDeviceAuth(allowedMacs: string[]): Promise<void> {
-    return this.networkService.updateDeviceAuth(allowedMacs);
+    const { id, config } = await this.getHotspotProfile();
+    await this.saveDeviceAuth(id, {
+      enabled: config.deviceAuth?.enabled ?? true,
+      allowedMacs: [...new Set(allowedMacs.map(normalizeMac))],
+      timedApprovals: config.deviceAuth?.timedApprovals
+    });
+  }
+
+  /**
+   * Turn approval mode on or off for a hotspot profile
+   */
+  async setApprovalMode(enabled: boolean, profileId?: string): Promise<string> {
+    const { id, config } = await this.getHotspotProfile(profileId);
+    await this.saveDeviceAuth(id, { ...config.deviceAuth, enabled });
+    return id;
+  }
+
+  /**
+   * Let a device through approval mode, permanently or for a number of hours
+   */
+  async approveDevice(mac: string, hours?: number, profileId?: string): Promise<void> {
+    const normalized = normalizeMac(mac);
+    const { id, config } = await this.getHotspotProfile(profileId);
+    await this.saveApproval(id, config.deviceAuth || { enabled: true }, normalized, hours);
+    if ((await this.deviceService.listBlocked()).includes(normalized)) {
+      await this.deviceService.unblock(normalized);
+    }
+  }
+
+  /**
+   * Add an approval to a profile's settings, replacing the device's earlier one
+   * @returns When a timed approval ends
+   */
+  private async saveApproval(id: string, deviceAuth: NonNullable<NetworkConfig['deviceAuth']>, mac: string, hours?: number): Promise<Date | undefined> {
+    const now = new Date();
+    const timedApprovals = (deviceAuth.timedApprovals || [])
+      .filter(a => a.mac !== mac && new Date(a.expiresAt) > now);
+    let allowedMacs = deviceAuth.allowedMacs || [];
+    let expiresAt: Date | undefined;
+
+    if (hours) {
+      expiresAt = new Date(now.getTime() + hours * 3600 * 1000);
+      allowedMacs = allowedMacs.filter(m => m !== mac);
+      timedApprovals.push({ mac, approvedAt: now.toISOString(), expiresAt: expiresAt.toISOString() });
+    } else if (!allowedMacs.includes(mac)) {
+      allowedMacs = [...allowedMacs, mac];
+    }
+
+    await this.saveDeviceAuth(id, { ...deviceAuth, allowedMacs, timedApprovals });
+    return expiresAt;
+  }
+
+  /**
+   * Withdraw a device's approval without blocking it; it returns to the queue
+   */
+  async revokeDeviceApproval(mac: string, profileId?: string): Promise<void> {
+    const normalized = normalizeMac(mac);
+    const { id, config } = await this.getHotspotProfile(profileId);
+    if (!config.deviceAuth) return;
+    await this.saveDeviceAuth(id, {
+      ...config.deviceAuth,
+      allowedMacs: (config.deviceAuth.allowedMacs || []).filter(m => m !== normalized),
+      timedApprovals: (config.deviceAuth.timedApprovals || []).filter(a => a.mac !== normalized)
+    });
+  }
+
+  /**
+   * Refuse a device: withdraw any approval, block it and drop it from the hotspot
+   */
+  async denyDevice(mac: string, profileId?: string): Promise<void> {
+    await this.revokeDeviceApproval(mac, profileId);
+    await this.blockDevice(mac);
+  }
+
+  /**
+   * Connected devices waiting in the approval queue, or yet to pass the
+   * captive portal. Empty when approval mode is off for the running hotspot.
+   */
+  async getPendingDevices(): Promise<ConnectedDevice[]> {
+    const status = await this.getHotspotStatus();
+    if (!status.connected || status.mode !== 'ap' || !status.ssid) return [];
+    const profile = await this.findHotspotProfile(status.ssid);
+    const deviceAuth = this.effectiveDeviceAuth(profile?.config);
+    if (!deviceAuth?.enabled) return [];
+
+    const approved = new Set(this.deviceService.approvedMacs(deviceAuth));
+    const blocked = new Set(await this.deviceService.listBlocked());
+    const devices = await this.getConnectedDevices();
+    return devices.filter(d => !approved.has(d.mac) && !blocked.has(d.mac));
+  }
+
+  /**
+   * Cap a device's bandwidth on a hotspot profile. Without download and upload
+   * rates the device's limit is removed.
+   */
+  async setDeviceRateLimit(mac: string, limit: RateLimit, profileId?: string): Promise<string> {
+    const normalized = normalizeMac(mac);
+    this.validateRateLimit(limit);
+    const { id, config } = await this.getHotspotProfile(profileId);
+    const shaping = config.shaping || {};
+    const devices = (shaping.devices || []).filter(d => d.mac !== normalized);
+    if (limit.download || limit.upload) {
+      devices.push({ mac: normalized, download: limit.download, upload: limit.upload });
+    }
+    await this.saveShaping(id, { ...shaping, devices });
+    return id;
+  }
+
+  /**
+   * Set the hotspot-wide caps and fair queuing for a hotspot profile. Omitted
+   * rates remove the corresponding cap; omitted fairQueue keeps the current setting.
+   */
+  async setHotspotRateLimit(limit: RateLimit & { fairQueue?: boolean }, profileId?: string): Promise<string> {
+    this.validateRateLimit(limit);
+    const { id, config } = await this.getHotspotProfile(profileId);
+    const shaping = config.shaping || {};
+    await this.saveShaping(id, {
+      ...shaping,
+      download: limit.download,
+      upload: limit.upload,
+      fairQueue: limit.fairQueue ?? shaping.fairQueue
+    });
+    return id;
+  }
+
+  private validateRateLimit(limit: RateLimit): void {
+    if (limit.download) parseRate(limit.download);
+    if (limit.upload) parseRate(limit.upload);
+  }
+
+  /**
+   * Persist a profile's rate limits and apply them if it is the running hotspot
+   */
+  private async saveShaping(id: string, shaping: TrafficShaping): Promise<void> {
+    await this.configManager.updateShaping(id, shaping);
+    const config = await this.configManager.loadConfig(id);
+    const status = await this.getHotspotStatus();
+    if (config && status.connected && status.mode === 'ap' && status.ssid === config.ssid) {
+      await this.trafficShaping.apply(status.interfaceName || 'wlan0', shaping);
+    }
+  }
+
+  /**
+   * Persist a profile's approval settings and enforce them if it is the running hotspot
+   */
+  private async saveDeviceAuth(id: string, deviceAuth: NonNullable<NetworkConfig['deviceAuth']>): Promise<void> {
+    await this.networkService.updateDeviceAuth(id, deviceAuth);
+    const config = await this.configManager.loadConfig(id);
+    const status = await this.getHotspotStatus();
+    if (config && status.connected && status.mode === 'ap' && status.ssid === config.ssid) {
+      await this.applyDeviceAccess(status, config);
+    }
+  }
+
+  /**
+   * Approval settings in force for a profile: a captive portal turns approval
+   * mode on, since passing the portal is how devices get approved
+   */
+  private effectiveDeviceAuth(config?: NetworkConfig): NetworkConfig['deviceAuth'] {
+    if (config && profilePortal(config)?.enabled) {
+      return { ...config.deviceAuth, enabled: true };
+    }
+    return config?.deviceAuth;
+  }
+
+  /**
+   * Enforce a profile's approval mode and portal redirect on the running hotspot
+   */
+  private async applyDeviceAccess(status: NetworkStatus, config?: NetworkConfig): Promise<void> {
+    const interfaceName = status.interfaceName || 'wlan0';
+    const deviceAuth = this.effectiveDeviceAuth(config);
+    await this.deviceService.applyApprovalMode(interfaceName, deviceAuth);
+    const address = status.ipAddress?.split('/')[0];
+    const portal = config ? profilePortal(config) : undefined;
+    await this.deviceService.applyPortalRedirect(interfaceName, portal?.enabled && address
+      ? { address, httpPort: DEFAULT_PORTAL_HTTP_PORT, dnsPort: DEFAULT_PORTAL_DNS_PORT, deviceAuth }
+      : undefined);
   }
 
   async updateDnsConfig(servers: string[]): Promise<void> {
@@ -0,0 +1,363 @@
+import { EventEmitter } from 'events';
+import * as dbus from 'dbus-next';
+import { NetworkStatus } from '../interfaces/network-manager.interface';
+import { NetworkEvent, NetworkEventMap, NetworkEventType } from '../interfaces/network-event.interface';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { connectBus, NM_PATH, NM_SERVICE, PROPERTIES_IFACE } from './network-manager.service';
+
+const LEASES_PATH = '/var/lib/misc/dnsmasq.leases';
+
+export interface NetworkEventMonitorOptions {
+  backend: SystemBackend;
+  /** Reads the current connection state; called whenever NetworkManager reports a change */
+  getStatus: () => Promise<NetworkStatus>;
+  /**
+   * Reads the state of the radio serving the hotspot, which may not be the one
+   * getStatus reports. Defaults to getStatus when that is in AP mode.
+   */
+  getHotspotStatus?: () => Promise<NetworkStatus>;
+  /**
+   * Bus to subscribe on; defaults to connectBus(). `false`, or a backend
+   * without D-Bus, disables D-Bus and polls the status instead.
+   */
+  bus?: dbus.MessageBus | false;
+  /** Status poll interval when D-Bus is unavailable (ms) */
+  statusIntervalMs?: number;
+  /** Hotspot station poll interval while in AP mode (ms) */
+  clientIntervalMs?: number;
+  /** WireGuard handshake poll interval (ms) */
+  handshakeIntervalMs?: number;
+}
+
+interface StatusChange {
+  down?: NetworkEvent;
+  up?: NetworkEvent;
+}
+
+export declare interface NetworkEventMonitor {
+  on<K extends NetworkEventType>(event: K, listener: (event: NetworkEventMap[K]) => void): this;
+  on(event: 'event', listener: (event: NetworkEvent) => void): this;
+  once<K extends NetworkEventType>(event: K, listener: (event: NetworkEventMap[K]) => void): this;
+  once(event: 'event', listener: (event: NetworkEvent) => void): this;
+  off<K extends NetworkEventType>(event: K, listener: (event: NetworkEventMap[K]) => void): this;
+  off(event: 'event', listener: (event: NetworkEvent) => void): this;
+}
+
+/**
+ * Turns NetworkManager D-Bus signals, hotspot station changes and WireGuard
+ * handshakes into typed events. Every event is emitted under its own type and
+ * under 'event'. Falls back to polling the status when D-Bus is not available.
+ */
+export class NetworkEventMonitor extends EventEmitter {
+  private backend: SystemBackend;
+  private getStatus: () => Promise<NetworkStatus>;
+  private getHotspotStatus: () => Promise<NetworkStatus>;
+  private busOption?: dbus.MessageBus | false;
+  private bus?: dbus.MessageBus;
+  private ownsBus = false;
+  private statusIntervalMs: number;
+  private clientIntervalMs: number;
+  private handshakeIntervalMs: number;
+
+  private timers: NodeJS.Timeout[] = [];
+  private refreshTimer?: NodeJS.Timeout;
+  private running = false;
+  private lastStatus?: NetworkStatus;
+  private lastHotspot?: NetworkStatus;
+  private knownClients = new Set<string>();
+  private handshakes = new Map<string, number>();
+
+  constructor(options: NetworkEventMonitorOptions) {
+    super();
+    this.backend = options.backend;
+    this.getStatus = options.getStatus;
+    this.getHotspotStatus = options.getHotspotStatus || (async () => {
+      const status = await this.getStatus();
+      return status.mode === 'ap' ? status : { connected: false, mode: 'disconnected' };
+    });
+    this.busOption = options.bus;
+    this.statusIntervalMs = options.statusIntervalMs ?? 5000;
+    this.clientIntervalMs = options.clientIntervalMs ?? 3000;
+    this.handshakeIntervalMs = options.handshakeIntervalMs ?? 5000;
+  }
+
+  /**
+   * Whether state changes arrive as D-Bus signals rather than by polling
+   */
+  get usingDbus(): boolean {
+    return !!this.bus;
+  }
+
+  /**
+   * Record the current state and start watching for changes. The current
+   * state itself is not reported as events.
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    this.lastStatus = await this.getStatus();
+    this.lastHotspot = await this.getHotspotStatus().catch(() => undefined);
+    await this.pollClients(false);
+    await this.pollHandshakes(false);
+
+    if (!(await this.subscribeDbus())) {
+      this.timers.push(setInterval(() => this.refreshStatus(), this.statusIntervalMs));
+    }
+    this.timers.push(setInterval(() => this.pollClients(true), this.clientIntervalMs));
+    this.timers.push(setInterval(() => this.pollHandshakes(true), this.handshakeIntervalMs));
+  }
+
+  stop(): void {
+    this.running = false;
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    if (this.bus && this.ownsBus) {
+      this.bus.disconnect();
+    }
+    this.bus = undefined;
+  }
+
+  private publish(event: NetworkEvent): void {
+    this.emit(event.type, event);
+    this.emit('event', event);
+  }
+
+  private async subscribeDbus(): Promise<boolean> {
+    if (this.busOption === false || (!this.busOption && this.backend.supportsDbus === false)) return false;
+
+    const bus = this.busOption || connectBus();
+    const busError = new Promise<never>((_, reject) => bus.once('error', reject));
+    busError.catch(() => undefined);
+
+    try {
+      const nm = await Promise.race([bus.getProxyObject(NM_SERVICE, NM_PATH), busError]);
+      const nmIface = nm.getInterface(NM_SERVICE);
+      const onChange = () => this.scheduleRefresh();
+
+      nmIface.on('StateChanged', onChange);
+      nmIface.on('DeviceAdded', onChange);
+      nmIface.on('DeviceRemoved', onChange);
+
+      const devicePaths: string[] = await nmIface.GetDevices();
+      for (const path of devicePaths) {
+        const device = await bus.getProxyObject(NM_SERVICE, path);
+        device.getInterface(`${NM_SERVICE}.Device`).on('StateChanged', onChange);
+        device.getInterface(PROPERTIES_IFACE).on('PropertiesChanged', (_iface: string, changed: Record<string, unknown>) => {
+          if ('ActiveConnection' in changed || 'ActiveAccessPoint' in changed || 'Ip4Config' in changed) {
+            onChange();
+          }
+        });
+
+        if (device.interfaces[`${NM_SERVICE}.Device.Wireless`]) {
+          // The access point we are associated with can vanish without a device state change first
+          const wireless = device.getInterface(`${NM_SERVICE}.Device.Wireless`);
+          wireless.on('AccessPointAdded', onChange);
+          wireless.on('AccessPointRemoved', onChange);
+        }
+      }
+
+      // Keep running on polling if the bus drops later
+      bus.on('error', () => {
+        if (!this.running || this.bus !== bus) return;
+        this.bus = undefined;
+        this.timers.push(setInterval(() => this.refreshStatus(), this.statusIntervalMs));
+      });
+
+      this.bus = bus;
+      this.ownsBus = !this.busOption;
+      return true;
+    } catch {
+      if (!this.busOption) bus.disconnect();
+      return false;
+    }
+  }
+
+  /**
+   * NetworkManager emits bursts of signals during one transition; read the state once it settles
+   */
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => this.refreshStatus(), 500);
+  }
+
+  private async refreshStatus(): Promise<void> {
+    if (!this.running) return;
+    const connection = await this.refreshConnection();
+    const hotspot = await this.refreshHotspot();
+    // Report what went down before what came up, e.g. when one radio switches roles
+    for (const event of [connection.down, hotspot.down, connection.up, hotspot.up]) {
+      if (event) this.publish(event);
+    }
+  }
+
+  /**
+   * Report the upstream connection coming and going. A hotspot on the same
+   * radio is left to refreshHotspot.
+   */
+  private async refreshConnection(): Promise<StatusChange> {
+    let status: NetworkStatus;
+    try {
+      status = await this.getStatus();
+    } catch {
+      return {};
+    }
+    // A failed status read is not a disconnect
+    if (status.mode === 'unknown') return {};
+
+    const previous = this.lastStatus;
+    this.lastStatus = status;
+
+    const changed = !previous ||
+      previous.connected !== status.connected ||
+      previous.mode !== status.mode ||
+      previous.ssid !== status.ssid;
+
+    if (!changed) return {};
+
+    const timestamp = new Date();
+    const change: StatusChange = {};
+    if (previous?.connected && previous.mode !== 'ap') {
+      change.down = {
+        type: 'disconnected',
+        timestamp,
+        ssid: previous.ssid,
+        previousMode: previous.mode,
+        interfaceName: previous.interfaceName
+      };
+    }
+    if (status.connected && status.mode !== 'ap') {
+      change.up = {
+        type: 'connected',
+        timestamp,
+        ssid: status.ssid,
+        mode: status.mode,
+        interfaceName: status.interfaceName,
+        ipAddress: status.ipAddress
+      };
+    }
+    return change;
+  }
+
+  /**
+   * Report the hotspot starting and stopping, whichever radio serves it
+   */
+  private async refreshHotspot(): Promise<StatusChange> {
+    let hotspot: NetworkStatus;
+    try {
+      hotspot = await this.getHotspotStatus();
+    } catch {
+      return {};
+    }
+    if (hotspot.mode === 'unknown') return {};
+
+    const previous = this.lastHotspot;
+    this.lastHotspot = hotspot;
+
+    const wasUp = !!previous?.connected;
+    const changed = wasUp !== hotspot.connected ||
+      (hotspot.connected && (previous?.ssid !== hotspot.ssid || previous?.interfaceName !== hotspot.interfaceName));
+
+    if (!changed) return {};
+
+    const timestamp = new Date();
+    const change: StatusChange = {};
+    if (wasUp) {
+      change.down = {
+        type: 'disconnected',
+        timestamp,
+        ssid: previous!.ssid,
+        previousMode: 'ap',
+        interfaceName: previous!.interfaceName
+      };
+    }
+    if (hotspot.connected) {
+      this.knownClients.clear();
+      change.up = {
+        type: 'ap-started',
+        timestamp,
+        ssid: hotspot.ssid,
+        interfaceName: hotspot.interfaceName,
+        ipAddress: hotspot.ipAddress
+      };
+    }
+    return change;
+  }
+
+  /**
+   * Compare the stations associated to the hotspot with the previous poll
+   */
+  private async pollClients(notify: boolean): Promise<void> {
+    const status = this.lastHotspot;
+    if (!status?.connected) {
+      this.knownClients.clear();
+      return;
+    }
+
+    const interfaceName = status.interfaceName || 'wlan0';
+    let stations: string[];
+    try {
+      const { stdout } = await this.backend.run('iw', ['dev', interfaceName, 'station', 'dump']);
+      stations = [...stdout.matchAll(/^Station\s+([0-9a-f:]{17})/gim)].map(match => match[1].toLowerCase());
+    } catch {
+      return;
+    }
+
+    const joined = stations.filter(mac => !this.knownClients.has(mac));
+    this.knownClients = new Set(stations);
+    if (!notify || joined.length === 0) return;
+
+    let leases: string[] = [];
+    try {
+      leases = (await this.backend.readFile(LEASES_PATH)).split('\n');
+    } catch {
+      // Clients are still reported, just without IP and hostname
+    }
+
+    for (const mac of joined) {
+      const lease = leases.find(line => line.toLowerCase().includes(mac));
+      const leaseParts = lease ? lease.split(' ') : [];
+      this.publish({
+        type: 'client-joined',
+        timestamp: new Date(),
+        mac,
+        ip: leaseParts[2],
+        hostname: leaseParts[3] && leaseParts[3] !== '*' ? leaseParts[3] : undefined,
+        interfaceName
+      });
+    }
+  }
+
+  /**
+   * Report peers whose latest handshake moved forward since the previous poll
+   */
+  private async pollHandshakes(notify: boolean): Promise<void> {
+    let stdout: string;
+    try {
+      ({ stdout } = await this.backend.run('sudo', ['wg', 'show', 'all', 'latest-handshakes']));
+    } catch {
+      return;
+    }
+
+    for (const line of stdout.split('\n').filter(l => l.trim())) {
+      const [interfaceName, publicKey, epoch] = line.split('\t');
+      const latest = parseInt(epoch, 10);
+      if (!publicKey || isNaN(latest) || latest === 0) continue;
+
+      const key = `${interfaceName}:${publicKey}`;
+      const previous = this.handshakes.get(key);
+      this.handshakes.set(key, latest);
+
+      if (notify && (previous === undefined || latest > previous)) {
+        this.publish({
+          type: 'vpn-handshake',
+          timestamp: new Date(),
+          interfaceName,
+          publicKey,
+          latestHandshake: new Date(latest * 1000)
+        });
+      }
+    }
+  }
+}
@@ -1,256 +1,521 @@
 import * as dbus from 'dbus-next';
-import { NetworkManagerService } from '../interfaces/network-manager.interface';
+import { NetworkManagerService, NetworkStatus, SavedConnection } from '../interfaces/network-manager.interface';
 import { WiFiNetwork, WiFiConnectionConfig, HotspotConfig } from '../interfaces/wifi.interface';
-import { executeCommand } from '../utils/command.util';
 import { NMConnection } from '../interfaces/nm-connection.interface';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { createSystemBackend } from '../backends';
+import { hotspotKeyManagement } from '../utils/hotspot.util';
+import { resolveDhcpSettings } from './dhcp.service';
 
+export const NM_SERVICE = 'org.freedesktop.NetworkManager';
+export const NM_PATH = '/org/freedesktop/NetworkManager';
+const NM_SETTINGS_PATH = '/org/freedesktop/NetworkManager/Settings';
+export const PROPERTIES_IFACE = 'org.freedesktop.DBus.Properties';
+
+const NM_DEVICE_TYPE_ETHERNET = 1;
+const NM_DEVICE_TYPE_WIFI = 2;
+const NM_DEVICE_STATE_ACTIVATED = 100;
+
+// NM80211ApFlags / NM80211ApSecurityFlags
+const AP_FLAGS_PRIVACY = 0x1;
+const AP_SEC_KEY_MGMT_PSK = 0x100;
+const AP_SEC_KEY_MGMT_802_1X = 0x200;
+const AP_SEC_KEY_MGMT_SAE = 0x400;
+const AP_SEC_KEY_MGMT_OWE = 0x800;
+
+/** A connection's settings as D-Bus sends them: a{sa{sv}}, setting name -> property -> value */
+type ConnectionSettings = Record<string, Record<string, dbus.Variant>>;
+
+/**
+ * Open the bus NetworkManager lives on. WORKHIVE_DBUS_BUS=session selects the
+ * session bus so a stub NetworkManager can be run without root.
+ */
+export function connectBus(): dbus.MessageBus {
+  return process.env.WORKHIVE_DBUS_BUS === 'session' ? dbus.sessionBus() : dbus.systemBus();
+}
+
+export interface NetworkManagerOptions {
+  /** System the client runs against; one without D-Bus is refused */
+  backend?: SystemBackend;
+  /** Bus to talk to; defaults to connectBus() */
+  bus?: dbus.MessageBus;
+}
+
+/**
+ * NetworkManager access over its D-Bus API
+ */
 export class NetworkManager implements NetworkManagerService {
-  private bus!: dbus.MessageBus;
+  private bus: dbus.MessageBus;
   private nmService!: dbus.ProxyObject;
   private devicePath?: string;
+  private ready: Promise<void>;
 
-  constructor() {
-    this.initialize().catch(console.error);
+  constructor(options: NetworkManagerOptions = {}) {
+    const backend = options.backend || createSystemBackend();
+    if (!options.bus && backend.supportsDbus === false) {
+      throw new Error('This system has no D-Bus to reach NetworkManager on. Use the nmcli backend.');
+    }
+    this.bus = options.bus || connectBus();
+    this.ready = this.initialize();
+    // Surface initialization failures on first use rather than as an unhandled rejection
+    this.ready.catch(() => undefined);
   }
 
   private async initialize() {
     try {
-      // Connect to the system bus
-      this.bus = dbus.systemBus();
-      
-      // Ensure NetworkManager is running
-      try {
-        await this.bus.requestName('org.freedesktop.NetworkManager.Test', 0);
-        await this.bus.releaseName('org.freedesktop.NetworkManager.Test');
-      } catch (e) {
-        throw new Error('NetworkManager is not running. Please start it with: sudo systemctl start NetworkManager');
-      }
-      
+      // Connection failures (e.g. no system bus socket) are emitted on the bus rather than thrown
+      const busError = new Promise<never>((_, reject) => this.bus.once('error', reject));
+      busError.catch(() => undefined);
+
       // Get NetworkManager service proxy
-      this.nmService = await this.bus.getProxyObject(
-        'org.freedesktop.NetworkManager',
-        '/org/freedesktop/NetworkManager'
-      );
-      
+      this.nmService = await Promise.race([this.bus.getProxyObject(NM_SERVICE, NM_PATH), busError]);
+
       // Verify we can access NetworkManager
-      const nm = this.nmService.getInterface('org.freedesktop.NetworkManager');
+      const nm = this.nmService.getInterface(NM_SERVICE);
       await nm.GetDevices();
     } catch (error) {
-      console.error('Failed to initialize NetworkManager:', error);
-      throw new Error('Could not connect to NetworkManager. Make sure it is installed and running.');
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not connect to NetworkManager over D-Bus (${reason}). Make sure it is installed and running.`);
     }
   }
 
-  private async getWirelessDevice(): Promise<string> {
-    if (this.devicePath) return this.devicePath;
-    
-    const nm = this.nmService.getInterface('org.freedesktop.NetworkManager');
-    const devices = await nm.GetDevices();
-    
-    for (const device of devices) {
-      const deviceObj = await this.bus.getProxyObject('org.freedesktop.NetworkManager', device);
-      const deviceProps = deviceObj.getInterface('org.freedesktop.DBus.Properties');
-      const deviceType = await deviceProps.Get('org.freedesktop.NetworkManager.Device', 'DeviceType');
-      
-      if (deviceType === 2) { // WiFi device
-        this.devicePath = device;
-        return device;
-      }
+  /**
+   * Close the bus connection
+   */
+  close(): void {
+    this.bus.disconnect();
+  }
+
+  private async getProperty<T>(path: string, iface: string, name: string): Promise<T> {
+    const obj = await this.bus.getProxyObject(NM_SERVICE, path);
+    const props = obj.getInterface(PROPERTIES_IFACE);
+    const variant: dbus.Variant<T> = await props.Get(iface, name);
+    return variant.value;
+  }
+
+  private async getWirelessDevice(interfaceName?: string): Promise<string> {
+    await this.ready;
+    if (!interfaceName && this.devicePath) return this.devicePath;
+
+    const devices = await this.getDevices();
+    const wifi = devices.find(d => d.type === NM_DEVICE_TYPE_WIFI && (!interfaceName || d.name === interfaceName));
+    if (!wifi) {
+      throw new Error(interfaceName ? `No wireless device named ${interfaceName}` : 'No wireless device found');
     }
-    throw new Error('No wireless device found');
+    if (!interfaceName) this.devicePath = wifi.path;
+    return wifi.path;
+  }
+
+  async listWifiInterfaces(): Promise<string[]> {
+    return (await this.getDevices()).filter(d => d.type === NM_DEVICE_TYPE_WIFI).map(d => d.name);
+  }
+
+  private async getDevices(): Promise<Array<{ path: string; type: number; state: number; name: string }>> {
+    await this.ready;
+    const nm = this.nmService.getInterface(NM_SERVICE);
+    const devicePaths: string[] = await nm.GetDevices();
+    const devices = [];
+
+    for (const path of devicePaths) {
+      devices.push({
+        path,
+        type: await this.getProperty<number>(path, `${NM_SERVICE}.Device`, 'DeviceType'),
+        state: await this.getProperty<number>(path, `${NM_SERVICE}.Device`, 'State'),
+        name: await this.getProperty<string>(path, `${NM_SERVICE}.Device`, 'Interface')
+      });
+    }
+    return devices;
+  }
+
+  /**
+   * Translate access point flags into the security labels nmcli prints
+   */
+  private describeSecurity(flags: number, wpaFlags: number, rsnFlags: number): string[] {
+    const security: string[] = [];
+    if ((flags & AP_FLAGS_PRIVACY) && !wpaFlags && !rsnFlags) security.push('WEP');
+    if (wpaFlags) security.push('WPA1');
+    if (rsnFlags & (AP_SEC_KEY_MGMT_PSK | AP_SEC_KEY_MGMT_802_1X)) security.push('WPA2');
+    if (rsnFlags & AP_SEC_KEY_MGMT_SAE) security.push('WPA3');
+    if (rsnFlags & AP_SEC_KEY_MGMT_OWE) security.push('OWE');
+    if ((wpaFlags | rsnFlags) & AP_SEC_KEY_MGMT_802_1X) security.push('802.1X');
+    return security;
+  }
+
+  private async readAccessPoint(path: string): Promise<WiFiNetwork & { strength: number; frequency: number }> {
+    const apIface = `${NM_SERVICE}.AccessPoint`;
+    const ssid = await this.getProperty<Buffer>(path, apIface, 'Ssid');
+    const strength = await this.getProperty<number>(path, apIface, 'Strength');
+    const frequency = await this.getProperty<number>(path, apIface, 'Frequency');
+    const bssid = await this.getProperty<string>(path, apIface, 'HwAddress');
+    const flags = await this.getProperty<number>(path, apIface, 'Flags');
+    const wpaFlags = await this.getProperty<number>(path, apIface, 'WpaFlags');
+    const rsnFlags = await this.getProperty<number>(path, apIface, 'RsnFlags');
+
+    return {
+      ssid: Buffer.from(ssid).toString(),
+      bssid,
+      signal: strength,
+      strength,
+      frequency,
+      freq: `${frequency} MHz`,
+      security: this.describeSecurity(flags, wpaFlags, rsnFlags)
+    };
   }
 
   async scanNetworks(): Promise<WiFiNetwork[]> {
+    const devicePath = await this.getWirelessDevice();
+    const device = await this.bus.getProxyObject(NM_SERVICE, devicePath);
+    const wifi = device.getInterface(`${NM_SERVICE}.Device.Wireless`);
+
     try {
-      const devicePath = await this.getWirelessDevice();
-      const device = await this.bus.getProxyObject('org.freedesktop.NetworkManager', devicePath);
-      const wifi = device.getInterface('org.freedesktop.NetworkManager.Device.Wireless');
-      
       await wifi.RequestScan({});
       await new Promise(resolve => setTimeout(resolve, 2000)); // Wait for scan
-      
-      const accessPoints = await wifi.GetAccessPoints();
-      const networks: WiFiNetwork[] = [];
-      
-      for (const ap of accessPoints) {
-        const apObj = await this.bus.getProxyObject('org.freedesktop.NetworkManager', ap);
-        const apProps = apObj.getInterface('org.freedesktop.DBus.Properties');
-        
-        const ssid = await apProps.Get('org.freedesktop.NetworkManager.AccessPoint', 'Ssid');
-        const strength = await apProps.Get('org.freedesktop.NetworkManager.AccessPoint', 'Strength');
-        const flags = await apProps.Get('org.freedesktop.NetworkManager.AccessPoint', 'Flags');
-        const wpaFlags = await apProps.Get('org.freedesktop.NetworkManager.AccessPoint', 'WpaFlags');
-        
-        const security = [];
-        if (flags & 0x1) security.push('WEP');
-        if (wpaFlags > 0) security.push('WPA');
-        
-        networks.push({
-          ssid: Buffer.from(ssid).toString(),
-          signal: strength,
-          security
-        });
+    } catch {
+      // NetworkManager refuses scans requested too soon after the previous one; use cached results
+    }
+
+    const accessPoints: string[] = await wifi.GetAllAccessPoints();
+    const networks: WiFiNetwork[] = [];
+
+    for (const ap of accessPoints) {
+      const { ssid, bssid, signal, freq, security } = await this.readAccessPoint(ap);
+      if (ssid) {
+        networks.push({ ssid, bssid, signal, freq, security });
       }
-      
-      return networks;
-    } catch (error) {
-      console.error('Failed to scan networks:', error);
-      throw error;
     }
+
+    return networks.sort((a, b) => b.signal - a.signal);
   }
 
-  async connect(config: WiFiConnectionConfig): Promise<boolean> {
-    try {
-      const connection: NMConnection = {
-        '802-11-wireless': {
-          ssid: Buffer.from(config.ssid),
-          mode: 'infrastructure',
-          hidden: config.hidden || false
-        },
-        connection: {
-          type: '802-11-wireless',
-          id: config.ssid
-        }
+  /**
+   * Convert a connection description into the a{sa{sv}} settings dictionary NetworkManager expects
+   */
+  private toSettings(connection: NMConnection): ConnectionSettings {
+    const v = (signature: string, value: unknown) => new dbus.Variant(signature, value);
+    const wireless = connection['802-11-wireless'];
+
+    const settings: ConnectionSettings = {
+      connection: {
+        id: v('s', connection.connection.id),
+        type: v('s', connection.connection.type)
+      },
+      '802-11-wireless': {
+        ssid: v('ay', wireless.ssid),
+        mode: v('s', wireless.mode)
+      }
+    };
+
+    if (connection.connection.autoconnect !== undefined) {
+      settings.connection.autoconnect = v('b', connection.connection.autoconnect);
+    }
+    if (wireless.hidden !== undefined) settings['802-11-wireless'].hidden = v('b', wireless.hidden);
+    if (wireless.band) settings['802-11-wireless'].band = v('s', wireless.band);
+    if (wireless.channel) settings['802-11-wireless'].channel = v('u', wireless.channel);
+    if (wireless['channel-width']) settings['802-11-wireless']['channel-width'] = v('i', wireless['channel-width']);
+    if (wireless['ap-isolation'] !== undefined) settings['802-11-wireless']['ap-isolation'] = v('i', wireless['ap-isolation']);
+
+    const security = connection['802-11-wireless-security'];
+    if (security) {
+      settings['802-11-wireless-security'] = {
+        'key-mgmt': v('s', security['key-mgmt']),
+        psk: v('s', security.psk)
       };
-      
-      if (config.password) {
-        connection['802-11-wireless-security'] = {
-          'key-mgmt': 'wpa-psk',
-          'psk': config.password
-        };
+      if (security.proto) settings['802-11-wireless-security'].proto = v('as', security.proto);
+      if (security.pairwise) settings['802-11-wireless-security'].pairwise = v('as', security.pairwise);
+      if (security.group) settings['802-11-wireless-security'].group = v('as', security.group);
+      if (security.pmf !== undefined) settings['802-11-wireless-security'].pmf = v('i', security.pmf);
+    }
+
+    if (connection.ipv4) {
+      const ipv4 = connection.ipv4;
+      settings.ipv4 = { method: v('s', ipv4.method) };
+      if (ipv4['address-data']) {
+        settings.ipv4['address-data'] = v('aa{sv}', ipv4['address-data'].map(a => ({ address: v('s', a.address), prefix: v('u', a.prefix) })));
       }
-      
-      // First check if we already have a connection for this network
-      const settings = await this.nmService.getInterface('org.freedesktop.NetworkManager.Settings');
-      const connections = await settings.ListConnections();
-      
-      // Look for existing connection
-      let conn: string | undefined;
-      for (const path of connections) {
-        const connObj = await this.bus.getProxyObject('org.freedesktop.NetworkManager', path);
-        const connIface = connObj.getInterface('org.freedesktop.NetworkManager.Settings.Connection');
-        const settings = await connIface.GetSettings();
-        
-        if (settings?.connection?.id === config.ssid) {
-          // Update existing connection
-          await connIface.Update(connection);
-          conn = path;
-          break;
-        }
+      if (ipv4['shared-dhcp-range']) settings.ipv4['shared-dhcp-range'] = v('s', ipv4['shared-dhcp-range']);
+      if (ipv4['shared-dhcp-lease-time']) settings.ipv4['shared-dhcp-lease-time'] = v('i', ipv4['shared-dhcp-lease-time']);
+    }
+
+    return settings;
+  }
+
+  /**
+   * Find a saved connection by its id, returning its object path and settings
+   */
+  private async findConnection(predicate: (settings: ConnectionSettings) => boolean): Promise<{ path: string; settings: ConnectionSettings } | undefined> {
+    await this.ready;
+    const settingsObj = await this.bus.getProxyObject(NM_SERVICE, NM_SETTINGS_PATH);
+    const settingsIface = settingsObj.getInterface(`${NM_SERVICE}.Settings`);
+    const connections: string[] = await settingsIface.ListConnections();
+
+    for (const path of connections) {
+      const settings = await this.getConnectionSettings(path);
+      if (predicate(settings)) {
+        return { path, settings };
       }
-      
-      if (!conn) {
-        // Add new connection if none exists
-        conn = await settings.AddConnection(connection);
+    }
+    return undefined;
+  }
+
+  private async getConnectionSettings(path: string): Promise<ConnectionSettings> {
+    const connObj = await this.bus.getProxyObject(NM_SERVICE, path);
+    const connIface = connObj.getInterface(`${NM_SERVICE}.Settings.Connection`);
+    return connIface.GetSettings();
+  }
+
+  /**
+   * Create or update a saved connection and activate it on a wireless device
+   */
+  private async addOrUpdateAndActivate(connection: NMConnection, interfaceName?: string): Promise<void> {
+    const settings = this.toSettings(connection);
+    const devicePath = await this.getWirelessDevice(interfaceName);
+    const nm = this.nmService.getInterface(NM_SERVICE);
+
+    const existing = await this.findConnection(s => s?.connection?.id?.value === connection.connection.id);
+    if (existing) {
+      const connObj = await this.bus.getProxyObject(NM_SERVICE, existing.path);
+      const connIface = connObj.getInterface(`${NM_SERVICE}.Settings.Connection`);
+      await connIface.Update(settings);
+      await nm.ActivateConnection(existing.path, devicePath, '/');
+    } else {
+      await nm.AddAndActivateConnection(settings, devicePath, '/');
+    }
+
+    await this.waitForActivation(devicePath);
+  }
+
+  /**
+   * Wait until the device reports the activated state
+   */
+  private async waitForActivation(devicePath: string, timeoutMs = 30000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      const state = await this.getProperty<number>(devicePath, `${NM_SERVICE}.Device`, 'State');
+      if (state === NM_DEVICE_STATE_ACTIVATED) {
+        return;
       }
-      
-      const devicePath = await this.getWirelessDevice();
-      const nm = this.nmService.getInterface('org.freedesktop.NetworkManager');
-      await nm.ActivateConnection(conn, devicePath, '/');
-      
-      // Wait for connection to be established
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      return true;
-    } catch (error) {
-      console.error('Failed to connect:', error);
-      throw error;
+      await new Promise(resolve => setTimeout(resolve, 500));
     }
+    throw new Error('Timed out waiting for the connection to activate');
   }
 
-  async disconnect(): Promise<boolean> {
-    try {
-      const devicePath = await this.getWirelessDevice();
-      const device = await this.bus.getProxyObject('org.freedesktop.NetworkManager', devicePath);
-      const deviceProps = device.getInterface('org.freedesktop.DBus.Properties');
-      
-      const activeConnection = await deviceProps.Get('org.freedesktop.NetworkManager.Device', 'ActiveConnection');
-      if (activeConnection && activeConnection !== '/') {
-        const nm = this.nmService.getInterface('org.freedesktop.NetworkManager');
-        await nm.DeactivateConnection(activeConnection);
+  async connect(config: WiFiConnectionConfig): Promise<boolean> {
+    const connection: NMConnection = {
+      '802-11-wireless': {
+        ssid: Buffer.from(config.ssid),
+        mode: 'infrastructure',
+        hidden: config.hidden || false
+      },
+      connection: {
+        type: '802-11-wireless',
+        id: config.ssid
       }
-      
-      return true;
-    } catch (error) {
-      console.error('Failed to disconnect:', error);
-      throw error;
+    };
+
+    if (config.password) {
+      connection['802-11-wireless-security'] = {
+        'key-mgmt': 'wpa-psk',
+        'psk': config.password
+      };
     }
+
+    await this.addOrUpdateAndActivate(connection, config.interfaceName);
+    return true;
+  }
+
+  async disconnect(interfaceName?: string): Promise<boolean> {
+    const devicePath = await this.getWirelessDevice(interfaceName);
+    const device = await this.bus.getProxyObject(NM_SERVICE, devicePath);
+    const deviceIface = device.getInterface(`${NM_SERVICE}.Device`);
+    await deviceIface.Disconnect();
+    return true;
   }
 
   async startHotspot(config: HotspotConfig): Promise<boolean> {
-    try {
-      const connection: NMConnection = {
-        '802-11-wireless': {
-          ssid: Buffer.from(config.ssid),
-          mode: 'ap',
-          band: config.band === '5GHz' ? 'a' : 'bg',
-          channel: config.channel || 1
-        },
-        '802-11-wireless-security': {
-          'key-mgmt': 'wpa-psk',
-          'psk': config.password
-        },
-        connection: {
-          type: '802-11-wireless',
-          id: `Hotspot-${config.ssid}`
-        },
-        ipv4: {
-          method: 'shared'
-        }
-      };
-      
-      const settings = await this.nmService.getInterface('org.freedesktop.NetworkManager.Settings');
-      const conn = await settings.AddConnection(connection);
-      
-      const devicePath = await this.getWirelessDevice();
-      const nm = this.nmService.getInterface('org.freedesktop.NetworkManager');
-      await nm.ActivateConnection(conn, devicePath, '/');
-      
-      return true;
-    } catch (error) {
-      console.error('Failed to start hotspot:', error);
-      throw error;
+    const { keyMgmt, pmf } = hotspotKeyManagement(config.security);
+    const connection: NMConnection = {
+      '802-11-wireless': {
+        ssid: Buffer.from(config.ssid),
+        mode: 'ap',
+        hidden: !!config.hidden,
+        band: config.band ? (config.band === '5GHz' ? 'a' : 'bg') : undefined,
+        channel: config.channel,
+        'channel-width': config.channelWidth,
+        'ap-isolation': config.isolation ? 1 : -1
+      },
+      '802-11-wireless-security': {
+        'key-mgmt': keyMgmt,
+        'psk': config.password,
+        proto: ['rsn'],
+        pairwise: ['ccmp'],
+        group: ['ccmp'],
+        pmf: pmf === 'required' ? 3 : pmf === 'optional' ? 2 : 0
+      },
+      connection: {
+        type: '802-11-wireless',
+        // Same profile name nmcli's "device wifi hotspot" uses, so both backends manage one profile
+        id: 'Hotspot',
+        autoconnect: false
+      },
+      ipv4: {
+        method: 'shared'
+      }
+    };
+    const dhcp = config.dhcp;
+    if (dhcp?.subnet || dhcp?.gateway) {
+      const { gateway, subnet } = resolveDhcpSettings(dhcp);
+      connection.ipv4!['address-data'] = [{ address: gateway, prefix: parseInt(subnet.split('/')[1], 10) }];
     }
+    if (dhcp?.rangeStart && dhcp.rangeEnd) {
+      connection.ipv4!['shared-dhcp-range'] = `${dhcp.rangeStart},${dhcp.rangeEnd}`;
+    }
+    if (dhcp?.leaseTime) {
+      connection.ipv4!['shared-dhcp-lease-time'] = dhcp.leaseTime;
+    }
+
+    await this.addOrUpdateAndActivate(connection, config.interfaceName);
+    return true;
   }
 
-  async stopHotspot(): Promise<boolean> {
-    return this.disconnect();
+  async stopHotspot(interfaceName?: string): Promise<boolean> {
+    await this.ready;
+    const nm = this.nmService.getInterface(NM_SERVICE);
+    const activePaths = await this.getProperty<string[]>(NM_PATH, NM_SERVICE, 'ActiveConnections');
+    const devicePath = interfaceName ? await this.getWirelessDevice(interfaceName) : undefined;
+
+    for (const activePath of activePaths) {
+      if (devicePath) {
+        const devices = await this.getProperty<string[]>(activePath, `${NM_SERVICE}.Connection.Active`, 'Devices');
+        if (!devices.includes(devicePath)) continue;
+      }
+      const connectionPath = await this.getProperty<string>(activePath, `${NM_SERVICE}.Connection.Active`, 'Connection');
+      const settings = await this.getConnectionSettings(connectionPath);
+      if (settings['802-11-wireless']?.mode?.value === 'ap') {
+        await nm.DeactivateConnection(activePath);
+        return true;
+      }
+    }
+    return false;
   }
 
-  async getStatus(): Promise<{
-    connected: boolean;
-    ssid?: string;
-    mode: 'client' | 'hotspot' | 'disconnected';
-  }> {
-    try {
-      const devicePath = await this.getWirelessDevice();
-      const device = await this.bus.getProxyObject('org.freedesktop.NetworkManager', devicePath);
-      const deviceProps = device.getInterface('org.freedesktop.DBus.Properties');
-      
-      const activeConnection = await deviceProps.Get('org.freedesktop.NetworkManager.Device', 'ActiveConnection');
-      
-      if (!activeConnection || activeConnection === '/') {
-        return { connected: false, mode: 'disconnected' };
+  async getStatus(interfaceName?: string): Promise<NetworkStatus> {
+    const devices = await this.getDevices();
+    let device;
+    if (interfaceName) {
+      device = devices.find(d => d.name === interfaceName);
+      if (!device) {
+        throw new Error(`No network interface named ${interfaceName}`);
       }
-      
-      const activeConn = await this.bus.getProxyObject('org.freedesktop.NetworkManager', activeConnection);
-      const activeConnProps = activeConn.getInterface('org.freedesktop.DBus.Properties');
-      
-      const connectionPath = await activeConnProps.Get('org.freedesktop.NetworkManager.Connection.Active', 'Connection');
-      const connection = await this.bus.getProxyObject('org.freedesktop.NetworkManager', connectionPath);
-      const connProps = connection.getInterface('org.freedesktop.DBus.Properties');
-      
-      const settings = await connProps.Get('org.freedesktop.NetworkManager.Settings.Connection', 'GetSettings');
-      const ssid = settings['802-11-wireless']?.ssid;
-      const mode = settings['802-11-wireless']?.mode;
-      
-      return {
-        connected: true,
-        ssid: ssid ? Buffer.from(ssid).toString() : undefined,
-        mode: mode === 'ap' ? 'hotspot' : 'client'
-      };
-    } catch (error) {
-      console.error('Failed to get status:', error);
-      throw error;
+    } else {
+      // With several radios, the one in use says most about the connection
+      const radios = devices.filter(d => d.type === NM_DEVICE_TYPE_WIFI);
+      const wifi = radios.find(d => d.state === NM_DEVICE_STATE_ACTIVATED) || radios[0];
+      const ethernet = devices.find(d => d.type === NM_DEVICE_TYPE_ETHERNET && d.state === NM_DEVICE_STATE_ACTIVATED);
+      device = wifi && wifi.state === NM_DEVICE_STATE_ACTIVATED ? wifi : (ethernet || wifi);
+    }
+
+    if (!device) {
+      return { connected: false, mode: 'disconnected' };
+    }
+
+    const deviceIface = `${NM_SERVICE}.Device`;
+    const activeConnection = await this.getProperty<string>(device.path, deviceIface, 'ActiveConnection');
+
+    if (device.state !== NM_DEVICE_STATE_ACTIVATED || !activeConnection || activeConnection === '/') {
+      return { connected: false, mode: 'disconnected', interfaceName: device.name };
+    }
+
+    const connectionPath = await this.getProperty<string>(activeConnection, `${NM_SERVICE}.Connection.Active`, 'Connection');
+    const settings = await this.getConnectionSettings(connectionPath);
+    const status: NetworkStatus = {
+      connected: true,
+      mode: 'ethernet',
+      ssid: settings.connection?.id?.value,
+      interfaceName: device.name
+    };
+
+    if (device.type === NM_DEVICE_TYPE_WIFI) {
+      const wirelessIface = `${NM_SERVICE}.Device.Wireless`;
+      const ssid = settings['802-11-wireless']?.ssid?.value;
+      const mode = settings['802-11-wireless']?.mode?.value;
+      status.ssid = ssid ? Buffer.from(ssid).toString() : status.ssid;
+      status.mode = mode === 'ap' ? 'ap' : 'wifi';
+      status.macAddress = await this.getProperty<string>(device.path, wirelessIface, 'HwAddress');
+
+      const bitrate = await this.getProperty<number>(device.path, wirelessIface, 'Bitrate');
+      status.bitrate = bitrate ? `${Math.round(bitrate / 1000)} Mbit/s` : undefined;
+
+      const apPath = await this.getProperty<string>(device.path, wirelessIface, 'ActiveAccessPoint');
+      if (status.mode === 'wifi' && apPath && apPath !== '/') {
+        const ap = await this.readAccessPoint(apPath);
+        status.signal = ap.strength;
+        status.freq = ap.freq;
+        status.security = ap.security;
+      }
+    } else {
+      status.macAddress = await this.getProperty<string>(device.path, `${NM_SERVICE}.Device.Wired`, 'HwAddress');
+    }
+
+    const ip4Config = await this.getProperty<string>(device.path, deviceIface, 'Ip4Config');
+    if (ip4Config && ip4Config !== '/') {
+      const ip4Iface = `${NM_SERVICE}.IP4Config`;
+      const addressData = await this.getProperty<Array<Record<string, dbus.Variant>>>(ip4Config, ip4Iface, 'AddressData');
+      const gateway = await this.getProperty<string>(ip4Config, ip4Iface, 'Gateway');
+      status.ipAddress = addressData[0]?.address?.value;
+      status.gateway = gateway || undefined;
+    }
+
+    return status;
+  }
+
+  async listConnections(): Promise<SavedConnection[]> {
+    await this.ready;
+    const settingsObj = await this.bus.getProxyObject(NM_SERVICE, NM_SETTINGS_PATH);
+    const settingsIface = settingsObj.getInterface(`${NM_SERVICE}.Settings`);
+    const paths: string[] = await settingsIface.ListConnections();
+
+    const activePaths = await this.getProperty<string[]>(NM_PATH, NM_SERVICE, 'ActiveConnections');
+    const activeConnections = new Set<string>();
+    for (const activePath of activePaths) {
+      activeConnections.add(await this.getProperty<string>(activePath, `${NM_SERVICE}.Connection.Active`, 'Connection'));
+    }
+
+    const connections: SavedConnection[] = [];
+    for (const path of paths) {
+      const settings = await this.getConnectionSettings(path);
+      const wireless = settings['802-11-wireless'];
+      const timestamp = settings.connection?.timestamp?.value;
+      connections.push({
+        name: settings.connection?.id?.value,
+        type: settings.connection?.type?.value,
+        ssid: wireless?.ssid?.value ? Buffer.from(wireless.ssid.value).toString() : undefined,
+        mode: wireless ? (wireless.mode?.value || 'infrastructure') : undefined,
+        timestamp: timestamp ? Number(timestamp) : 0,
+        active: activeConnections.has(path)
+      });
+    }
+    return connections.filter(c => c.type !== 'loopback');
+  }
+
+  async activateConnection(name: string): Promise<boolean> {
+    const connection = await this.findConnection(s => s?.connection?.id?.value === name);
+    if (!connection) {
+      throw new Error(`Connection "${name}" not found`);
+    }
+    const nm = this.nmService.getInterface(NM_SERVICE);
+    // "/" lets NetworkManager pick a suitable device
+    await nm.ActivateConnection(connection.path, '/', '/');
+    return true;
+  }
+
+  async getConnectionSecret(name: string): Promise<string | undefined> {
+    const connection = await this.findConnection(s => s?.connection?.id?.value === name);
+    if (!connection) {
+      return undefined;
     }
+    const connObj = await this.bus.getProxyObject(NM_SERVICE, connection.path);
+    const connIface = connObj.getInterface(`${NM_SERVICE}.Settings.Connection`);
+    const secrets = await connIface.GetSecrets('802-11-wireless-security');
+    return secrets['802-11-wireless-security']?.psk?.value;
   }
 }
@@ -1,28 +1,40 @@
-import { executeCommand } from '../utils/command.util';
 import { ConfigManager, NetworkConfig } from '../utils/config.util';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { NetworkStatus } from '../interfaces/network-manager.interface';
+import { createSystemBackend } from '../backends';
 
 export class NetworkService {
   private configManager: ConfigManager;
+  private backend: SystemBackend;
 
-  constructor() {
-    this.configManager = new ConfigManager();
+  constructor(backend: SystemBackend = createSystemBackend(), configManager?: ConfigManager) {
+    this.backend = backend;
+    this.configManager = configManager || new ConfigManager(backend);
   }
 
-  async saveCurrentConfig(id: string, status: any): Promise<void> {
+  /**
+   * Save the running connection as a profile. Saving over the same network's
+   * profile only refreshes its connection details and keeps everything else.
+   */
+  async saveCurrentConfig(id: string, status: NetworkStatus): Promise<void> {
     if (!status.connected) {
       throw new Error('No active connection to save');
     }
 
+    const mode = status.mode === 'ap' ? 'hotspot' : 'client';
+    const previous = await this.configManager.loadConfig(id);
+    const now = new Date().toISOString();
     const config: NetworkConfig = {
+      ...(previous && previous.ssid === status.ssid && previous.mode === mode ? previous : { createdDate: now }),
       ssid: status.ssid!,
-      mode: status.mode === 'ap' ? 'hotspot' : 'client',
-      createdDate: new Date().toISOString(),
-      lastUsed: new Date().toISOString(),
-      interface: 'wlan0',
+      mode,
+      lastUsed: now,
+      interface: status.interfaceName || 'wlan0',
     };
 
     if (status.mode === 'ap') {
-      const { stdout } = await executeCommand(`nmcli -g 802-11-wireless-security.psk connection show "${status.ssid}"`);
+      // The hotspot profile is named after its role, not its SSID
+      const { stdout } = await this.backend.run('nmcli', ['-s', '-g', '802-11-wireless-security.psk', 'connection', 'show', 'id', 'Hotspot']);
       if (stdout.trim()) {
         config.password = stdout.trim();
       }
@@ -48,20 +60,20 @@ export class NetworkService {
     await this.configManager.deduplicateNetworkProfiles();
   }
 
-  async updateDeviceAuth(allowedMacs: string[]): Promise<void> {
-    await this.configManager.updateDeviceAuth(allowedMacs);
+  async updateDeviceAuth(id: string, deviceAuth: NetworkConfig['deviceAuth']): Promise<void> {
+    await this.configManager.updateDeviceAuth(id, deviceAuth);
   }
 
   async updateDnsConfig(servers: string[]): Promise<void> {
     await this.configManager.updateDnsConfig(servers);
   }
 
-  async enableHairpinNAT(): Promise<void> {
-    await this.configManager.setHairpinNAT(true);
+  async enableHairpinNAT(interfaceName?: string): Promise<void> {
+    await this.configManager.setHairpinNAT(true, interfaceName);
   }
 
-  async disableHairpinNAT(): Promise<void> {
-    await this.configManager.setHairpinNAT(false);
+  async disableHairpinNAT(interfaceName?: string): Promise<void> {
+    await this.configManager.setHairpinNAT(false, interfaceName);
   }
 
   async runDiagnostics(deep = false): Promise<any> {
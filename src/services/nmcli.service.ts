@@ -0,0 +1,344 @@
+import { NetworkManagerService, NetworkStatus, SavedConnection } from '../interfaces/network-manager.interface';
+import { WiFiNetwork, WiFiConnectionConfig, HotspotConfig } from '../interfaces/wifi.interface';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { createSystemBackend } from '../backends';
+import { hotspotKeyManagement } from '../utils/hotspot.util';
+import { resolveDhcpSettings } from './dhcp.service';
+
+// Same profile name "nmcli device wifi hotspot" uses
+const HOTSPOT_PROFILE = 'Hotspot';
+
+/**
+ * Split a line of `nmcli -t`/`-g` output on unescaped colons and unescape the fields
+ */
+export function splitTerseLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '\\' && i + 1 < line.length) {
+      current += line[++i];
+    } else if (char === ':') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+/**
+ * NetworkManager access through the nmcli command line tool
+ */
+export class NmcliNetworkManager implements NetworkManagerService {
+  private backend: SystemBackend;
+
+  constructor(backend: SystemBackend = createSystemBackend()) {
+    this.backend = backend;
+  }
+
+  async scanNetworks(): Promise<WiFiNetwork[]> {
+    const { stdout } = await this.backend.run('nmcli', ['-t', '-f', 'SSID,BSSID,SIGNAL,SECURITY,FREQ', 'device', 'wifi', 'list', '--rescan', 'yes']);
+
+    const networks: WiFiNetwork[] = [];
+    const outputLines = stdout.split('\n').filter(line => line.trim() !== '');
+
+    for (const line of outputLines) {
+      const fields = splitTerseLine(line);
+
+      if (fields.length >= 4) {
+        const [ssid, bssid, signalStrengthStr, securityString, frequency] = fields.map(f => f.trim());
+
+        if (ssid) {
+          const signal = parseInt(signalStrengthStr || '0', 10);
+          networks.push({
+            ssid: ssid,
+            bssid: bssid || undefined,
+            signal: isNaN(signal) ? 0 : signal,
+            security: securityString ? securityString.split(/\s+/).filter(s => s) : [],
+            freq: frequency || ''
+          });
+        }
+      }
+    }
+
+    return networks.filter(n => n.ssid);
+  }
+
+  async connect(config: WiFiConnectionConfig): Promise<boolean> {
+    const args = ['device', 'wifi', 'connect', config.ssid];
+    if (config.password) {
+      args.push('password', config.password);
+    }
+    if (config.hidden) {
+      args.push('hidden', 'yes');
+    }
+    if (config.interfaceName) {
+      args.push('ifname', config.interfaceName);
+    }
+    await this.backend.run('nmcli', args);
+    return true;
+  }
+
+  async disconnect(interfaceName?: string): Promise<boolean> {
+    const device = interfaceName || (await this.listWifiInterfaces())[0] || 'wlan0';
+    await this.backend.run('nmcli', ['device', 'disconnect', device]);
+    return true;
+  }
+
+  /**
+   * Rebuild the "Hotspot" profile from the config and bring it up. The profile
+   * is recreated each time so settings from an earlier start do not linger.
+   */
+  async startHotspot(config: HotspotConfig): Promise<boolean> {
+    const { keyMgmt, pmf } = hotspotKeyManagement(config.security);
+    const args = ['connection', 'add', 'type', 'wifi', 'con-name', HOTSPOT_PROFILE, 'autoconnect', 'no'];
+    if (config.interfaceName) {
+      args.push('ifname', config.interfaceName);
+    }
+    args.push('ssid', config.ssid, '802-11-wireless.mode', 'ap', 'ipv4.method', 'shared');
+    if (config.band) {
+      args.push('802-11-wireless.band', config.band === '5GHz' ? 'a' : 'bg');
+    }
+    if (config.channel) {
+      args.push('802-11-wireless.channel', String(config.channel));
+    }
+    if (config.channelWidth) {
+      args.push('802-11-wireless.channel-width', `${config.channelWidth}mhz`);
+    }
+    if (config.hidden) {
+      args.push('802-11-wireless.hidden', 'yes');
+    }
+    if (config.isolation) {
+      args.push('802-11-wireless.ap-isolation', 'yes');
+    }
+    args.push(
+      '802-11-wireless-security.key-mgmt', keyMgmt,
+      '802-11-wireless-security.psk', config.password,
+      '802-11-wireless-security.proto', 'rsn',
+      '802-11-wireless-security.pairwise', 'ccmp',
+      '802-11-wireless-security.group', 'ccmp'
+    );
+    if (pmf) {
+      args.push('802-11-wireless-security.pmf', pmf);
+    }
+    const dhcp = config.dhcp;
+    if (dhcp?.subnet || dhcp?.gateway) {
+      const { gateway, subnet } = resolveDhcpSettings(dhcp);
+      args.push('ipv4.addresses', `${gateway}/${subnet.split('/')[1]}`);
+    }
+    if (dhcp?.rangeStart && dhcp.rangeEnd) {
+      args.push('ipv4.shared-dhcp-range', `${dhcp.rangeStart},${dhcp.rangeEnd}`);
+    }
+    if (dhcp?.leaseTime) {
+      args.push('ipv4.shared-dhcp-lease-time', String(dhcp.leaseTime));
+    }
+
+    await this.backend.run('nmcli', ['connection', 'delete', 'id', HOTSPOT_PROFILE], { throwOnError: false });
+    await this.backend.run('nmcli', args);
+    await this.backend.run('nmcli', ['connection', 'up', 'id', HOTSPOT_PROFILE, ...(config.interfaceName ? ['ifname', config.interfaceName] : [])]);
+    return true;
+  }
+
+  async stopHotspot(interfaceName?: string): Promise<boolean> {
+    const { stdout } = await this.backend.run('nmcli', ['-t', '-f', 'NAME,DEVICE', 'connection', 'show', '--active']);
+    const active = stdout.split('\n').filter(line => line.trim()).map(line => splitTerseLine(line));
+    const connections = await this.listConnections();
+    const hotspot = connections.find(c => c.active && (c.mode === 'ap' || c.name.includes('Hotspot')) &&
+      (!interfaceName || active.some(([name, device]) => name === c.name && device === interfaceName)));
+
+    if (!hotspot) {
+      return false;
+    }
+    await this.backend.run('nmcli', ['connection', 'down', 'id', hotspot.name]);
+    return true;
+  }
+
+  async listWifiInterfaces(): Promise<string[]> {
+    return (await this.listDevices()).filter(d => d.type === 'wifi').map(d => d.name);
+  }
+
+  private async listDevices(): Promise<Array<{ name: string; type: string; state: string; line: string }>> {
+    const { stdout } = await this.backend.run('nmcli', ['device', 'status']);
+    return stdout.split('\n').slice(1).filter(line => line.trim()).map(line => {
+      const [name, type, state] = line.trim().split(/\s{2,}/);
+      return { name, type, state, line };
+    });
+  }
+
+  async getStatus(deviceName?: string): Promise<NetworkStatus> {
+    const devices = await this.listDevices();
+    let wifiDeviceLine: string | undefined;
+    let ethDeviceLine: string | undefined;
+    if (deviceName) {
+      const device = devices.find(d => d.name === deviceName);
+      if (!device) {
+        throw new Error(`No network interface named ${deviceName}`);
+      }
+      if (device.type === 'wifi') {
+        wifiDeviceLine = device.line;
+      } else if (device.state === 'connected') {
+        ethDeviceLine = device.line;
+      } else {
+        return { connected: false, mode: 'disconnected', interfaceName: deviceName };
+      }
+    } else {
+      // With several radios, the one in use says most about the connection
+      const wifi = devices.filter(d => d.type === 'wifi');
+      wifiDeviceLine = (wifi.find(d => d.state === 'connected') || wifi[0])?.line;
+      ethDeviceLine = devices.map(d => d.line).find(line => (line.startsWith('eth0') || line.startsWith('ethernet')) && line.includes('connected'));
+    }
+
+    if (!wifiDeviceLine) {
+      // Check for ethernet if no wifi line
+      if (ethDeviceLine) {
+        const ethParts = ethDeviceLine.trim().split(/\s{2,}/);
+        const ethInterfaceName = ethParts[0];
+        const ethActiveConnectionName = ethParts.length > 3 ? ethParts.slice(3).join(' ') : 'Ethernet Connection';
+        try {
+          const macAddress = await this.getMacAddress(ethInterfaceName);
+          const { ipAddress, gateway } = await this.getIpConfig(ethActiveConnectionName);
+          return { connected: true, mode: 'ethernet', ssid: ethActiveConnectionName, ipAddress, gateway, macAddress, interfaceName: ethInterfaceName };
+        } catch (ipError) {
+          console.warn(`Could not get IP details for ethernet connection ${ethActiveConnectionName}:`, ipError);
+          return { connected: true, mode: 'ethernet', ssid: ethActiveConnectionName, interfaceName: ethInterfaceName };
+        }
+      }
+      return { connected: false, mode: 'disconnected' };
+    }
+
+    const devParts = wifiDeviceLine.trim().split(/\s{2,}/);
+    const interfaceName = devParts[0]; // This should be our wlan0 (or similar)
+    const type = devParts[1];
+    const state = devParts[2];
+    const activeConnectionName = devParts.length > 3 ? devParts.slice(3).join(' ') : undefined;
+
+    const isConnected = state === 'connected' && !!activeConnectionName && activeConnectionName !== '--';
+
+    if (!isConnected || !activeConnectionName) {
+      return { connected: false, mode: type === 'wifi' ? 'disconnected' : type, interfaceName };
+    }
+
+    let isAccessPoint = false;
+    let ssid = activeConnectionName;
+    try {
+      const { stdout } = await this.backend.run('nmcli', ['-g', '802-11-wireless.mode,802-11-wireless.ssid', 'connection', 'show', activeConnectionName]);
+      const [mode, profileSsid] = stdout.split('\n');
+      isAccessPoint = mode === 'ap';
+      if (profileSsid) ssid = profileSsid;
+    } catch (modeError) {
+      console.warn(`Could not get wireless mode for ${activeConnectionName}:`, modeError);
+    }
+
+    let signal, freq, bitrate, securityTypes;
+    if (!isAccessPoint) {
+      try {
+        const { stdout: activeWifiDetails } = await this.backend.run('nmcli', ['-t', '-f', 'ACTIVE,SSID,SIGNAL,FREQ,RATE,SECURITY', 'dev', 'wifi', 'list', 'ifname', interfaceName]);
+        const activeLine = activeWifiDetails.split('\n').find(line => line.startsWith('yes:'));
+
+        if (activeLine) {
+          const parts = splitTerseLine(activeLine);
+          signal = parseInt(parts[2], 10);
+          freq = parts[3];
+          bitrate = parts[4];
+          securityTypes = parts[5] ? parts[5].trim().split(/\s+/).filter(s => s) : [];
+        }
+      } catch (wifiDetailsError) {
+        console.warn(`Could not get detailed Wi-Fi info for ${activeConnectionName}:`, wifiDetailsError);
+      }
+    }
+
+    const macAddress = await this.getMacAddress(interfaceName);
+
+    let ipAddress, gateway;
+    try {
+      ({ ipAddress, gateway } = await this.getIpConfig(activeConnectionName));
+    } catch (ipError) {
+      console.warn(`Could not get IP details for ${activeConnectionName}:`, ipError);
+    }
+
+    return {
+      connected: true,
+      ssid,
+      mode: isAccessPoint ? 'ap' : 'wifi',
+      signal: signal === undefined || isNaN(signal) ? undefined : signal,
+      freq,
+      bitrate,
+      security: securityTypes,
+      ipAddress,
+      gateway,
+      macAddress,
+      interfaceName
+    };
+  }
+
+  async listConnections(): Promise<SavedConnection[]> {
+    const { stdout } = await this.backend.run('nmcli', ['-t', '-f', 'NAME,TYPE,TIMESTAMP,ACTIVE', 'connection', 'show']);
+    const connections: SavedConnection[] = [];
+
+    for (const line of stdout.split('\n').filter(l => l.trim())) {
+      const [name, type, timestamp, active] = splitTerseLine(line);
+      if (!name || name === 'lo') continue;
+
+      const connection: SavedConnection = {
+        name,
+        type: type || 'unknown',
+        timestamp: parseInt(timestamp, 10) || 0,
+        active: active === 'yes'
+      };
+
+      if (type === '802-11-wireless') {
+        try {
+          const { stdout: details } = await this.backend.run('nmcli', ['-g', '802-11-wireless.ssid,802-11-wireless.mode', 'connection', 'show', name]);
+          const [ssid, mode] = details.split('\n');
+          connection.ssid = ssid || undefined;
+          connection.mode = (mode || 'infrastructure') as SavedConnection['mode'];
+        } catch {
+          // Keep the connection without wireless details
+        }
+      }
+      connections.push(connection);
+    }
+
+    return connections;
+  }
+
+  async activateConnection(name: string): Promise<boolean> {
+    await this.backend.run('nmcli', ['connection', 'up', 'id', name]);
+    return true;
+  }
+
+  async getConnectionSecret(name: string): Promise<string | undefined> {
+    const { stdout } = await this.backend.run('nmcli', ['-s', '-g', '802-11-wireless-security.psk', 'connection', 'show', name]);
+    return stdout.trim() || undefined;
+  }
+
+  private async getMacAddress(interfaceName: string): Promise<string | undefined> {
+    // For ethernet, GENERAL.HWADDR might work on the device, or we get it from ip link
+    try {
+      const { stdout: macStdout } = await this.backend.run('nmcli', ['-g', 'GENERAL.HWADDR', 'dev', 'show', interfaceName]);
+      return macStdout.trim().replace(/\\:/g, ':');
+    } catch (macError) {
+      console.warn(`Could not get MAC for ${interfaceName} via nmcli dev show, trying ip link.`);
+      try {
+        const { stdout: ipLinkOut } = await this.backend.run('ip', ['-brief', 'link', 'show', interfaceName]);
+        const match = ipLinkOut.match(/([0-9a-f]{2}:){5}[0-9a-f]{2}/i);
+        return match ? match[0] : undefined;
+      } catch (ipLinkError) {
+        console.warn(`Failed to get MAC for ${interfaceName} via ip link:`, ipLinkError);
+        return undefined;
+      }
+    }
+  }
+
+  private async getIpConfig(connectionName: string): Promise<{ ipAddress?: string; gateway?: string }> {
+    const { stdout: ipConfig } = await this.backend.run('nmcli', ['-g', 'IP4.ADDRESS,IP4.GATEWAY', 'connection', 'show', connectionName]);
+    const [ipLine, gatewayLine] = ipConfig.split('\n'); // Expecting two lines
+    return {
+      ipAddress: ipLine ? ipLine.split('/')[0] : undefined,
+      gateway: gatewayLine ? gatewayLine.split('/')[0] : undefined
+    };
+  }
+}
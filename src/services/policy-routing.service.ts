@@ -0,0 +1,111 @@
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { createSystemBackend } from '../backends';
+import { RoutingRule } from '../utils/config.util';
+import { FirewallService, ChainHook } from './firewall.service';
+
+const ROUTE_CHAIN = 'WORKHIVE_ROUTE';
+const ROUTE_HOOKS: ChainHook[] = [{ parent: 'PREROUTING', first: true }];
+// Both ahead of the main table (32766)
+const SUPPRESS_PRIORITY = 999;
+const RULE_PRIORITY = 1000;
+// Outranked by the tunnel's own default route, so it only applies while the tunnel is down
+const BLACKHOLE_METRIC = '4096';
+const RP_FILTER = 'net.ipv4.conf.all.rp_filter';
+// The setting before apply() loosened it; /run is emptied on reboot, as is the setting
+const SAVED_RP_FILTER_PATH = '/run/workhive-rp-filter';
+
+/**
+ * ipset the hotspot's dnsmasq fills with the addresses of a tunnel's domains
+ */
+export function domainSetName(tunnel: string): string {
+  return `workhive_${tunnel}`;
+}
+
+/**
+ * Split tunneling for hotspot clients. Matching packets are marked in the
+ * mangle table and an ip rule sends each mark to the routing table wg-quick
+ * fills for that tunnel; everything else follows the main table out the
+ * uplink. Domains are matched by address, via an ipset per tunnel that the
+ * hotspot's dnsmasq adds its answers to.
+ */
+export class PolicyRoutingService {
+  private backend: SystemBackend;
+  private firewall: FirewallService;
+
+  constructor(backend: SystemBackend = createSystemBackend()) {
+    this.backend = backend;
+    this.firewall = new FirewallService(backend);
+  }
+
+  private async ip(args: string[]): Promise<void> {
+    await this.backend.run('sudo', ['ip', ...args]);
+  }
+
+  /**
+   * Rebuild the marks and ip rules for a hotspot interface
+   * @param tables Routing table of each tunnel; rules for tunnels without one are skipped
+   */
+  async apply(interfaceName: string, rules: RoutingRule[] = [], tables: Record<string, number> = {}): Promise<void> {
+    await this.clear();
+    const routed = rules.filter(rule => tables[rule.tunnel] !== undefined);
+    if (routed.length === 0) return;
+
+    // Replies arrive on the tunnel, which the main table does not route back to their sender
+    const { stdout: rpFilter } = await this.backend.run('sysctl', ['-n', RP_FILTER]);
+    await this.backend.writeFile(SAVED_RP_FILTER_PATH, rpFilter.trim());
+    await this.backend.run('sudo', ['sysctl', '-w', `${RP_FILTER}=2`]);
+    // Routes more specific than a default, e.g. to other hotspot clients, still win
+    await this.ip(['rule', 'add', 'table', 'main', 'suppress_prefixlength', '0', 'priority', String(SUPPRESS_PRIORITY)]);
+
+    for (const tunnel of new Set(routed.map(rule => rule.tunnel))) {
+      const table = String(tables[tunnel]);
+      await this.ip(['route', 'replace', 'blackhole', 'default', 'metric', BLACKHOLE_METRIC, 'table', table]);
+      await this.ip(['rule', 'add', 'fwmark', table, 'table', table, 'priority', String(RULE_PRIORITY)]);
+      if (routed.some(rule => rule.tunnel === tunnel && rule.match === 'domain')) {
+        // Not flushed: addresses clients already resolved stay routed
+        await this.backend.run('sudo', ['ipset', 'create', domainSetName(tunnel), 'hash:ip', '-exist']);
+      }
+    }
+
+    await this.firewall.ensureChain('mangle', ROUTE_CHAIN, ROUTE_HOOKS);
+    for (const rule of routed) {
+      // Unmarked packets only, so the first matching rule decides
+      await this.firewall.ensureRule('mangle', ROUTE_CHAIN, [
+        '-i', interfaceName, '-m', 'mark', '--mark', '0', ...this.matchSpec(rule),
+        '-j', 'MARK', '--set-mark', String(tables[rule.tunnel])
+      ]);
+    }
+  }
+
+  /**
+   * Remove the marks and ip rules and restore the reverse path filter; the
+   * tunnels' routing tables are left to wg-quick
+   */
+  async clear(): Promise<void> {
+    await this.firewall.deleteChain('mangle', ROUTE_CHAIN, ROUTE_HOOKS);
+
+    if (await this.backend.fileExists(SAVED_RP_FILTER_PATH)) {
+      const previous = (await this.backend.readFile(SAVED_RP_FILTER_PATH)).trim();
+      if (/^[0-2]$/.test(previous)) {
+        await this.backend.run('sudo', ['sysctl', '-w', `${RP_FILTER}=${previous}`]);
+      }
+      await this.backend.run('sudo', ['rm', '-f', SAVED_RP_FILTER_PATH]);
+    }
+
+    const { stdout } = await this.backend.run('ip', ['-4', 'rule', 'show'], { throwOnError: false });
+    for (const line of stdout.split('\n')) {
+      const priority = line.match(/^(\d+):/)?.[1];
+      if (priority === String(RULE_PRIORITY) || priority === String(SUPPRESS_PRIORITY)) {
+        await this.backend.run('sudo', ['ip', 'rule', 'del', 'priority', priority], { throwOnError: false });
+      }
+    }
+  }
+
+  private matchSpec(rule: RoutingRule): string[] {
+    switch (rule.match) {
+      case 'destination': return ['-d', rule.value];
+      case 'domain': return ['-m', 'set', '--match-set', domainSetName(rule.tunnel), 'dst'];
+      case 'device': return ['-m', 'mac', '--mac-source', rule.value];
+    }
+  }
+}
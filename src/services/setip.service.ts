@@ -0,0 +1,265 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { SetipRegistration, SetipStatus, SetipSubdomain, SetipTunnelParams } from '../interfaces/setip.interface';
+import { createSystemBackend } from '../backends';
+import { ConfigManager } from '../utils/config.util';
+import { HttpClient } from '../utils/http.util';
+import { isIpv4 } from '../utils/ip.util';
+import { WireGuardService } from './wireguard.service';
+
+export const DEFAULT_SETIP_API_URL = 'https://api.setip.io/v1';
+const DEFAULT_TUNNEL = 'setip';
+const SUBDOMAIN_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+
+export interface SetipServiceOptions {
+  /** API root; overrides the one stored at registration, e.g. to talk to a local mock server */
+  apiUrl?: string;
+}
+
+/**
+ * Client for setip.io, which gives the device a public IP through a
+ * WireGuard tunnel and names under setip.io pointing at it. The device
+ * registers once with its tunnel key; the registration and the subdomains it
+ * claimed are kept in the config directory. The API root comes from the
+ * apiUrl option, then WORKHIVE_SETIP_URL, then the registration.
+ */
+export class SetipService {
+  private wireguard: WireGuardService;
+  private statePath: string;
+  private apiUrlOverride?: string;
+
+  constructor(backend: SystemBackend = createSystemBackend(), configManager?: ConfigManager, options: SetipServiceOptions = {}) {
+    this.wireguard = new WireGuardService(backend, configManager);
+    const manager = configManager || new ConfigManager(backend);
+    this.statePath = path.join(manager.getConfigDir(), 'setip.json');
+    this.apiUrlOverride = options.apiUrl || process.env.WORKHIVE_SETIP_URL;
+  }
+
+  async load(): Promise<SetipRegistration | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.statePath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private async save(registration: SetipRegistration): Promise<void> {
+    await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+    // Holds the tunnel's private key and the API token
+    await fs.writeFile(this.statePath, JSON.stringify(registration, null, 2), { mode: 0o600 });
+  }
+
+  private async require(): Promise<SetipRegistration> {
+    const registration = await this.load();
+    if (!registration) {
+      throw new Error('This device is not registered with setip.io; run "setip register" first');
+    }
+    return registration;
+  }
+
+  private apiUrl(registration?: SetipRegistration | null): string {
+    return this.apiUrlOverride || registration?.apiUrl || DEFAULT_SETIP_API_URL;
+  }
+
+  private client(registration: SetipRegistration): HttpClient {
+    return new HttpClient(this.apiUrl(registration), { token: registration.token });
+  }
+
+  private devicePath(registration: SetipRegistration, suffix = ''): string {
+    return `/devices/${encodeURIComponent(registration.deviceId)}${suffix}`;
+  }
+
+  /**
+   * Register this device under a new WireGuard key
+   * @param options.name Device name shown in the setip.io account (defaults to the hostname)
+   * @param options.tunnel Tunnel the service's parameters are written to (defaults to "setip")
+   */
+  async register(options: { name?: string; tunnel?: string; apiUrl?: string } = {}): Promise<SetipRegistration> {
+    const existing = await this.load();
+    if (existing) {
+      throw new Error(`Already registered as device ${existing.deviceId}; run "setip unregister" first`);
+    }
+
+    const apiUrl = (options.apiUrl || this.apiUrl()).replace(/\/+$/, '');
+    const keys = await this.wireguard.generateKeys();
+    const reply = await new HttpClient(apiUrl).post<{ deviceId?: string; id?: string; token: string }>('/devices', {
+      name: options.name || os.hostname(),
+      publicKey: keys.publicKey
+    });
+    const deviceId = reply?.deviceId || reply?.id;
+    if (!deviceId || !reply.token) {
+      throw new Error('setip.io did not return a device id and token');
+    }
+
+    const registration: SetipRegistration = {
+      apiUrl,
+      deviceId,
+      token: reply.token,
+      privateKey: keys.privateKey,
+      publicKey: keys.publicKey,
+      tunnel: options.tunnel || DEFAULT_TUNNEL,
+      subdomains: [],
+      registeredAt: new Date().toISOString()
+    };
+    await this.save(registration);
+    return registration;
+  }
+
+  /**
+   * Release the device, its subdomains and its tunnel
+   */
+  async unregister(): Promise<void> {
+    const registration = await this.require();
+    await this.client(registration).delete(this.devicePath(registration));
+    if (await this.wireguard.getTunnel(registration.tunnel)) {
+      await this.wireguard.removeTunnel(registration.tunnel);
+    }
+    await fs.rm(this.statePath, { force: true });
+  }
+
+  /**
+   * Fetch the tunnel parameters, write them to the setip tunnel and bring it
+   * up. Claimed subdomains follow when the public IP changed.
+   * @returns The parameters and the subdomains that were repointed
+   */
+  async connect(): Promise<{ params: SetipTunnelParams; updated: SetipSubdomain[] }> {
+    const registration = await this.require();
+    const params = await this.client(registration).get<SetipTunnelParams>(this.devicePath(registration, '/tunnel'));
+    if (!params?.endpoint || !params.serverPublicKey || !params.address || !isIpv4(params.publicIp || '')) {
+      throw new Error('setip.io returned incomplete tunnel parameters');
+    }
+
+    const result = await this.wireguard.setup(registration.tunnel, {
+      endpoint: params.endpoint,
+      peerPublicKey: params.serverPublicKey,
+      presharedKey: params.presharedKey,
+      address: params.address,
+      allowedIPs: params.allowedIPs?.length ? params.allowedIPs : ['0.0.0.0/0'],
+      dns: params.dns,
+      mtu: params.mtu,
+      privateKey: registration.privateKey
+    });
+    if (!result.success) {
+      throw new Error(result.errors?.join('; ') || `Could not set up tunnel ${registration.tunnel}`);
+    }
+
+    const previousIp = registration.publicIp;
+    registration.publicIp = params.publicIp;
+    await this.save(registration);
+
+    const updated: SetipSubdomain[] = [];
+    if (previousIp && previousIp !== params.publicIp) {
+      for (const subdomain of registration.subdomains.filter(s => s.target === previousIp)) {
+        updated.push(await this.updateSubdomain(subdomain.name, params.publicIp));
+      }
+    }
+    return { params, updated };
+  }
+
+  /**
+   * Bring the setip tunnel down; the registration and subdomains are kept
+   */
+  async disconnect(): Promise<boolean> {
+    const registration = await this.require();
+    return this.wireguard.stop(registration.tunnel);
+  }
+
+  /**
+   * Subdomains the service has for this device; the local list is refreshed from it
+   */
+  async listSubdomains(): Promise<SetipSubdomain[]> {
+    const registration = await this.require();
+    const subdomains = await this.client(registration).get<SetipSubdomain[]>(this.devicePath(registration, '/subdomains'));
+    registration.subdomains = subdomains || [];
+    await this.save(registration);
+    return registration.subdomains;
+  }
+
+  /**
+   * Claim name.setip.io for this device
+   * @param target Address it resolves to (defaults to the assigned public IP)
+   */
+  async claimSubdomain(name: string, target?: string): Promise<SetipSubdomain> {
+    const registration = await this.require();
+    const label = this.checkSubdomain(name);
+    const address = this.resolveTarget(registration, target);
+    const subdomain = await this.client(registration).post<SetipSubdomain>(
+      this.devicePath(registration, '/subdomains'),
+      { name: label, target: address }
+    );
+    registration.subdomains = [...registration.subdomains.filter(s => s.name !== label), subdomain];
+    await this.save(registration);
+    return subdomain;
+  }
+
+  /**
+   * Point a claimed subdomain at another address (defaults to the assigned public IP)
+   */
+  async updateSubdomain(name: string, target?: string): Promise<SetipSubdomain> {
+    const registration = await this.require();
+    const label = this.checkSubdomain(name);
+    const address = this.resolveTarget(registration, target);
+    const subdomain = await this.client(registration).put<SetipSubdomain>(
+      this.devicePath(registration, `/subdomains/${encodeURIComponent(label)}`),
+      { target: address }
+    );
+    registration.subdomains = registration.subdomains.map(s => s.name === label ? subdomain : s);
+    if (!registration.subdomains.some(s => s.name === label)) registration.subdomains.push(subdomain);
+    await this.save(registration);
+    return subdomain;
+  }
+
+  async releaseSubdomain(name: string): Promise<void> {
+    const registration = await this.require();
+    const label = this.checkSubdomain(name);
+    await this.client(registration).delete(this.devicePath(registration, `/subdomains/${encodeURIComponent(label)}`));
+    registration.subdomains = registration.subdomains.filter(s => s.name !== label);
+    await this.save(registration);
+  }
+
+  /**
+   * Registration, tunnel state and public IP, without contacting the service
+   */
+  async getStatus(): Promise<SetipStatus> {
+    const registration = await this.load();
+    if (!registration) {
+      return { registered: false, apiUrl: this.apiUrl(), connected: false, subdomains: [] };
+    }
+    const tunnel = (await this.wireguard.getTunnel(registration.tunnel))
+      ? await this.wireguard.getStatus(registration.tunnel)
+      : undefined;
+    return {
+      registered: true,
+      apiUrl: this.apiUrl(registration),
+      deviceId: registration.deviceId,
+      tunnel: registration.tunnel,
+      connected: !!tunnel?.active,
+      publicIp: registration.publicIp,
+      subdomains: registration.subdomains
+    };
+  }
+
+  /**
+   * Accept "myapp" or "myapp.setip.io"
+   */
+  private checkSubdomain(name: string): string {
+    const label = name.trim().toLowerCase().replace(/\.setip\.io\.?$/, '');
+    if (!SUBDOMAIN_PATTERN.test(label)) {
+      throw new Error(`Invalid subdomain '${name}': use up to 63 letters, digits and inner hyphens`);
+    }
+    return label;
+  }
+
+  private resolveTarget(registration: SetipRegistration, target?: string): string {
+    const address = target || registration.publicIp;
+    if (!address) {
+      throw new Error('No public IP assigned yet; run "setip connect" first or give a target address');
+    }
+    if (!isIpv4(address)) {
+      throw new Error(`Invalid target address '${address}'`);
+    }
+    return address;
+  }
+}
@@ -0,0 +1,110 @@
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { createSystemBackend } from '../backends';
+import { DeviceRateLimit, TrafficShaping } from '../utils/config.util';
+import { parseRate } from '../utils/rate.util';
+
+// Stands in for "no hotspot-wide download cap"; above anything Wi-Fi delivers
+const UNLIMITED_RATE = 10e9;
+const ROOT_CLASS = '1:1';
+const DEFAULT_CLASS = '1:2';
+const FIRST_DEVICE_CLASS = 0x10;
+
+/**
+ * Per-device and hotspot-wide rate limits with tc on the hotspot interface.
+ * Downloads are shaped with an HTB class per device on egress; uploads can
+ * only be policed on ingress. Devices are matched by MAC (flower classifier),
+ * so limits hold when a device's IP address changes.
+ */
+export class TrafficShapingService {
+  private backend: SystemBackend;
+
+  constructor(backend: SystemBackend = createSystemBackend()) {
+    this.backend = backend;
+  }
+
+  private async tc(args: string[]): Promise<void> {
+    await this.backend.run('sudo', ['tc', ...args]);
+  }
+
+  /**
+   * Remove all WorkHive queueing from an interface
+   */
+  async clear(interfaceName: string): Promise<void> {
+    await this.backend.run('sudo', ['tc', 'qdisc', 'del', 'dev', interfaceName, 'root'], { throwOnError: false });
+    await this.backend.run('sudo', ['tc', 'qdisc', 'del', 'dev', interfaceName, 'ingress'], { throwOnError: false });
+  }
+
+  /**
+   * Rebuild the interface's queueing from a profile's shaping settings
+   */
+  async apply(interfaceName: string, shaping?: TrafficShaping): Promise<void> {
+    await this.clear(interfaceName);
+    if (!shaping) return;
+
+    const devices = shaping.devices || [];
+    const downloadDevices = devices.filter(d => d.download);
+    const uploadDevices = devices.filter(d => d.upload);
+
+    if (shaping.download || downloadDevices.length > 0) {
+      await this.applyDownload(interfaceName, shaping, downloadDevices);
+    } else if (shaping.fairQueue) {
+      await this.tc(['qdisc', 'add', 'dev', interfaceName, 'root', 'fq_codel']);
+    }
+
+    if (shaping.upload || uploadDevices.length > 0) {
+      await this.applyUpload(interfaceName, shaping, uploadDevices);
+    }
+  }
+
+  private async applyDownload(interfaceName: string, shaping: TrafficShaping, devices: DeviceRateLimit[]): Promise<void> {
+    const total = `${shaping.download ? parseRate(shaping.download) : UNLIMITED_RATE}bit`;
+    const dev = ['dev', interfaceName];
+
+    await this.tc(['qdisc', 'add', ...dev, 'root', 'handle', '1:', 'htb', 'default', DEFAULT_CLASS.split(':')[1]]);
+    await this.tc(['class', 'add', ...dev, 'parent', '1:', 'classid', ROOT_CLASS, 'htb', 'rate', total]);
+    await this.addLeafClass(interfaceName, DEFAULT_CLASS, total, shaping.fairQueue);
+
+    for (const [index, device] of devices.entries()) {
+      const classId = `1:${(FIRST_DEVICE_CLASS + index).toString(16)}`;
+      await this.addLeafClass(interfaceName, classId, `${parseRate(device.download!)}bit`, shaping.fairQueue);
+      await this.tc([
+        'filter', 'add', ...dev, 'parent', '1:', 'protocol', 'all', 'prio', '1',
+        'flower', 'dst_mac', device.mac, 'classid', classId
+      ]);
+    }
+  }
+
+  private async addLeafClass(interfaceName: string, classId: string, rate: string, fairQueue?: boolean): Promise<void> {
+    await this.tc(['class', 'add', 'dev', interfaceName, 'parent', ROOT_CLASS, 'classid', classId, 'htb', 'rate', rate, 'ceil', rate]);
+    if (fairQueue) {
+      await this.tc(['qdisc', 'add', 'dev', interfaceName, 'parent', classId, 'fq_codel']);
+    }
+  }
+
+  private async applyUpload(interfaceName: string, shaping: TrafficShaping, devices: DeviceRateLimit[]): Promise<void> {
+    const dev = ['dev', interfaceName];
+    await this.tc(['qdisc', 'add', ...dev, 'handle', 'ffff:', 'ingress']);
+
+    // Packets within a device's cap go on to the hotspot-wide policer
+    for (const device of devices) {
+      await this.tc([
+        'filter', 'add', ...dev, 'parent', 'ffff:', 'protocol', 'all', 'prio', '1',
+        'flower', 'src_mac', device.mac,
+        ...this.police(device.upload!, 'drop/continue')
+      ]);
+    }
+    if (shaping.upload) {
+      await this.tc([
+        'filter', 'add', ...dev, 'parent', 'ffff:', 'protocol', 'all', 'prio', '2',
+        'matchall', ...this.police(shaping.upload, 'drop/ok')
+      ]);
+    }
+  }
+
+  private police(rate: string, conformExceed: string): string[] {
+    const bits = parseRate(rate);
+    // Roughly 100ms worth of traffic, but never so small that single bursts get dropped
+    const burst = Math.max(32 * 1024, Math.round(bits / 8 / 10));
+    return ['action', 'police', 'rate', `${bits}bit`, 'burst', `${burst}`, 'conform-exceed', conformExceed];
+  }
+}
@@ -0,0 +1,309 @@
+import { EventEmitter } from 'events';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { TunnelHealth } from '../interfaces/wireguard.interface';
+import { TunnelHealthEvent, TunnelHealthEventMap, TunnelHealthEventType } from '../interfaces/network-event.interface';
+import { WireGuardService } from './wireguard.service';
+
+// WireGuard stops using a session this long after its handshake (REJECT_AFTER_TIME)
+const STALE_HANDSHAKE_SECONDS = 180;
+// Time a restart or endpoint change gets to produce a handshake
+const RECOVERY_GRACE_SECONDS = 30;
+// Once every fallback has been tried, keep restarting at this pace
+const RETRY_INTERVAL_SECONDS = 300;
+// Unanswered probes in a row before a tunnel with a recent handshake counts as broken
+const PROBE_FAILURES = 3;
+// While a secondary tunnel stands in, try the primary again this often
+const FAILBACK_INTERVAL_SECONDS = 600;
+
+export interface TunnelHealthMonitorOptions {
+  backend: SystemBackend;
+  wireguard: WireGuardService;
+  /** Time between checks (ms) */
+  intervalMs?: number;
+  /** Called once traffic has moved to another tunnel (failover or failback), e.g. to re-arm the kill switch */
+  onSwitch?: () => Promise<void>;
+}
+
+export declare interface TunnelHealthMonitor {
+  on<K extends TunnelHealthEventType>(event: K, listener: (event: TunnelHealthEventMap[K]) => void): this;
+  on(event: 'event', listener: (event: TunnelHealthEvent) => void): this;
+  once<K extends TunnelHealthEventType>(event: K, listener: (event: TunnelHealthEventMap[K]) => void): this;
+  once(event: 'event', listener: (event: TunnelHealthEvent) => void): this;
+  off<K extends TunnelHealthEventType>(event: K, listener: (event: TunnelHealthEventMap[K]) => void): this;
+  off(event: 'event', listener: (event: TunnelHealthEvent) => void): this;
+}
+
+type RecoveryStep = { action: 'restart' } | { action: 'endpoint'; endpoint: string } | { action: 'failover'; secondary: string };
+
+interface WatchState {
+  /** When the tunnel was last restarted or repointed (or watching began), ms */
+  lastActionAt: number;
+  probeFailures: number;
+  /** Start of the current outage, ms */
+  staleSince?: number;
+  /** Recovery steps taken in the current outage */
+  step: number;
+  /** Set while this tunnel stands in for a failed primary */
+  standIn?: { primary: string; downSince: number; failbackTriedAt: number };
+  /** Set while a failed primary is back up on trial, with the tunnel to return to */
+  trial?: { secondary: string; downSince: number };
+}
+
+/**
+ * Watches client tunnels' handshake age and, when a probe host is set,
+ * latency through the tunnel. A stale tunnel is restarted first, then moved
+ * to each secondary endpoint, then replaced by its secondary tunnel. The
+ * primary stays enabled at boot and is tried again every ten minutes until it
+ * works. Tunnels stopped on purpose (no longer enabled) are left alone. Every
+ * action is emitted under its own type and under 'event'.
+ */
+export class TunnelHealthMonitor extends EventEmitter {
+  private backend: SystemBackend;
+  private wireguard: WireGuardService;
+  private intervalMs: number;
+  private onSwitch?: () => Promise<void>;
+  private timer?: NodeJS.Timeout;
+  private checking = false;
+  private states = new Map<string, WatchState>();
+
+  constructor(options: TunnelHealthMonitorOptions) {
+    super();
+    this.backend = options.backend;
+    this.wireguard = options.wireguard;
+    this.intervalMs = options.intervalMs ?? 30000;
+    this.onSwitch = options.onSwitch;
+  }
+
+  /**
+   * Tunnels being watched; failover replaces a tunnel with its secondary
+   */
+  get tunnels(): string[] {
+    return [...this.states.keys()];
+  }
+
+  /**
+   * Failed tunnels and the secondary carrying their traffic instead
+   */
+  get standIns(): Map<string, string> {
+    const standIns = new Map<string, string>();
+    for (const [name, state] of this.states) {
+      if (state.standIn) standIns.set(state.standIn.primary, name);
+    }
+    return standIns;
+  }
+
+  /**
+   * Watch exactly these tunnels; a tunnel whose secondary stands in for it
+   * stays covered by the secondary
+   */
+  watch(tunnels: string[]): void {
+    const standIns = this.standIns;
+    const wanted = tunnels.map(name => standIns.get(name) ?? name);
+    for (const name of this.states.keys()) {
+      if (!wanted.includes(name)) this.states.delete(name);
+    }
+    for (const name of wanted) {
+      if (!this.states.has(name)) this.states.set(name, { lastActionAt: Date.now(), probeFailures: 0, step: 0 });
+    }
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.checkAll(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private publish(event: TunnelHealthEvent): void {
+    this.emit(event.type, event);
+    this.emit('event', event);
+  }
+
+  /**
+   * Measure a tunnel without acting on the result
+   */
+  async check(name: string): Promise<TunnelHealth> {
+    const [tunnel, status] = await Promise.all([this.wireguard.getTunnel(name), this.wireguard.getStatus(name)]);
+    const peer = status.peers[0];
+    const checkedAt = new Date();
+    const handshakeAge = peer?.latestHandshake
+      ? Math.max(0, Math.round((checkedAt.getTime() - peer.latestHandshake.getTime()) / 1000))
+      : undefined;
+
+    const probeHost = tunnel?.healthCheck?.probeHost;
+    const latencyMs = status.active && probeHost ? await this.probe(name, probeHost) : undefined;
+    // Without keepalives an idle tunnel sends nothing, so an old handshake says nothing about it
+    const keepalive = !!tunnel?.config.persistentKeepalive;
+    return {
+      name,
+      active: status.active,
+      endpoint: peer?.endpoint,
+      handshakeAge,
+      latencyMs,
+      probeFailed: status.active && !!probeHost && latencyMs === undefined,
+      stale: !status.active || (keepalive && (handshakeAge === undefined || handshakeAge > STALE_HANDSHAKE_SECONDS)),
+      checkedAt
+    };
+  }
+
+  /**
+   * Ping through the tunnel
+   * @returns Round trip in ms, or undefined when unanswered
+   */
+  private async probe(name: string, host: string): Promise<number | undefined> {
+    const { stdout } = await this.backend.run('ping', ['-c', '1', '-W', '2', '-I', name, host], { throwOnError: false });
+    const rtt = stdout.match(/= [\d.]+\/([\d.]+)\//) || stdout.match(/time=([\d.]+) ms/);
+    return rtt ? parseFloat(rtt[1]) : undefined;
+  }
+
+  /**
+   * Check every watched tunnel once and act on the result; the timer calls this
+   */
+  async checkAll(): Promise<void> {
+    // A slow round of restarts must not overlap the next one
+    if (this.checking) return;
+    this.checking = true;
+    try {
+      for (const name of this.tunnels) {
+        await this.checkTunnel(name).catch(error => console.error(`Health check of tunnel ${name} failed:`, error));
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async checkTunnel(name: string): Promise<void> {
+    const state = this.states.get(name);
+    if (!state) return;
+
+    const health = await this.check(name);
+    // A stand-in is not enabled itself; it runs for as long as its primary is wanted
+    if (!health.active && !(await this.wireguard.isEnabled(state.standIn?.primary ?? name))) {
+      // Stopped on purpose
+      state.staleSince = undefined;
+      state.step = 0;
+      return;
+    }
+
+    state.probeFailures = health.probeFailed ? state.probeFailures + 1 : 0;
+    const now = health.checkedAt.getTime();
+    const broken = health.stale || state.probeFailures >= PROBE_FAILURES;
+
+    if (state.trial) {
+      if ((now - state.lastActionAt) / 1000 < RECOVERY_GRACE_SECONDS) return;
+      const { secondary, downSince } = state.trial;
+      state.trial = undefined;
+      if (broken || health.probeFailed) {
+        // Still down: straight back to the secondary, without another round of restarts
+        await this.switchTunnel(name, secondary, { primary: name, downSince, failbackTriedAt: now });
+        this.publish({ type: 'tunnel-failover', timestamp: new Date(), tunnel: name, secondary });
+      } else {
+        this.publish({
+          type: 'tunnel-recovered',
+          timestamp: new Date(),
+          tunnel: name,
+          downSeconds: Math.round((now - downSince) / 1000),
+          latencyMs: health.latencyMs
+        });
+      }
+      return;
+    }
+
+    if (state.standIn && (now - state.standIn.failbackTriedAt) / 1000 >= FAILBACK_INTERVAL_SECONDS) {
+      const { primary, downSince } = state.standIn;
+      await this.switchTunnel(name, primary, undefined, { secondary: name, downSince });
+      this.publish({ type: 'tunnel-failback', timestamp: new Date(), tunnel: primary, secondary: name });
+      return;
+    }
+
+    if (!broken) {
+      if (state.staleSince !== undefined) {
+        this.publish({
+          type: 'tunnel-recovered',
+          timestamp: new Date(),
+          tunnel: name,
+          downSeconds: Math.round((now - state.staleSince) / 1000),
+          latencyMs: health.latencyMs
+        });
+      }
+      state.staleSince = undefined;
+      state.step = 0;
+      return;
+    }
+
+    if ((now - state.lastActionAt) / 1000 < RECOVERY_GRACE_SECONDS) return;
+    if (state.staleSince === undefined) {
+      state.staleSince = now;
+      this.publish({ type: 'tunnel-stale', timestamp: new Date(), tunnel: name, reason: this.describeProblem(health, state) });
+    }
+
+    const steps = await this.recoverySteps(name);
+    const step = steps[state.step];
+    if (!step && (now - state.lastActionAt) / 1000 < RETRY_INTERVAL_SECONDS) return;
+    state.step++;
+    state.lastActionAt = now;
+    state.probeFailures = 0;
+    await this.recover(name, step || { action: 'restart' });
+  }
+
+  private describeProblem(health: TunnelHealth, state: WatchState): string {
+    if (!health.active) return 'interface is down';
+    if (state.probeFailures >= PROBE_FAILURES) return `probe unanswered ${state.probeFailures} times`;
+    if (health.handshakeAge === undefined) return 'no handshake yet';
+    return `no handshake for ${health.handshakeAge}s`;
+  }
+
+  private async recoverySteps(name: string): Promise<RecoveryStep[]> {
+    const healthCheck = (await this.wireguard.getTunnel(name))?.healthCheck;
+    const steps: RecoveryStep[] = [{ action: 'restart' }];
+    for (const endpoint of healthCheck?.secondaryEndpoints || []) {
+      steps.push({ action: 'endpoint', endpoint });
+    }
+    if (healthCheck?.secondaryTunnel) {
+      steps.push({ action: 'failover', secondary: healthCheck.secondaryTunnel });
+    }
+    return steps;
+  }
+
+  private async recover(name: string, step: RecoveryStep): Promise<void> {
+    switch (step.action) {
+      case 'restart':
+        if (await this.wireguard.restart(name)) {
+          this.publish({ type: 'tunnel-restarted', timestamp: new Date(), tunnel: name });
+        }
+        break;
+      case 'endpoint':
+        await this.wireguard.setEndpoint(name, step.endpoint);
+        this.publish({ type: 'tunnel-endpoint-changed', timestamp: new Date(), tunnel: name, endpoint: step.endpoint });
+        break;
+      case 'failover': {
+        const state = this.states.get(name);
+        // A stand-in that fails over in turn keeps the original primary to fail back to
+        const primary = state?.standIn?.primary ?? name;
+        const downSince = state?.standIn?.downSince ?? state?.staleSince ?? Date.now();
+        await this.switchTunnel(name, step.secondary,
+          step.secondary === primary ? undefined : { primary, downSince, failbackTriedAt: Date.now() });
+        this.publish({ type: 'tunnel-failover', timestamp: new Date(), tunnel: name, secondary: step.secondary });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Move traffic from one tunnel to another and watch the new one in its
+   * place. Neither tunnel's boot setting changes, so the profile's own
+   * tunnel is still the one brought up at boot.
+   */
+  private async switchTunnel(from: string, to: string, standIn?: WatchState['standIn'], trial?: WatchState['trial']): Promise<void> {
+    await this.wireguard.stop(from, { disable: false });
+    await this.wireguard.start(to, { enable: false });
+
+    this.states.delete(from);
+    this.states.delete(to);
+    this.states.set(to, { lastActionAt: Date.now(), probeFailures: 0, step: 0, standIn, trial });
+    await this.onSwitch?.();
+  }
+}
@@ -0,0 +1,141 @@
+import { EventEmitter } from 'events';
+import { UplinkStatus } from '../interfaces/uplink.interface';
+import { UplinkEvent, UplinkEventMap, UplinkEventType } from '../interfaces/network-event.interface';
+import { UplinkService } from './uplink.service';
+
+// Unanswered probes in a row before the active uplink counts as down
+const PROBE_FAILURES = 2;
+// Answered probes in a row before traffic moves back to a preferred uplink
+const FAILBACK_CHECKS = 3;
+
+export interface UplinkMonitorOptions {
+  uplinks: UplinkService;
+  /** Interfaces that cannot be uplinks right now, e.g. the one serving the hotspot */
+  getExcluded?: () => Promise<string[]>;
+  /** Time between checks (ms) */
+  intervalMs?: number;
+}
+
+export declare interface UplinkMonitor {
+  on<K extends UplinkEventType>(event: K, listener: (event: UplinkEventMap[K]) => void): this;
+  on(event: 'event', listener: (event: UplinkEvent) => void): this;
+  once<K extends UplinkEventType>(event: K, listener: (event: UplinkEventMap[K]) => void): this;
+  once(event: 'event', listener: (event: UplinkEvent) => void): this;
+  off<K extends UplinkEventType>(event: K, listener: (event: UplinkEventMap[K]) => void): this;
+  off(event: 'event', listener: (event: UplinkEvent) => void): this;
+}
+
+/**
+ * Probes every uplink and keeps traffic on the preferred one that works.
+ * A failing active uplink is left at once; a preferred uplink that comes back
+ * takes over after a few good checks, so a flapping link does not bounce
+ * traffic around. Switches are emitted under their own type and under 'event'.
+ */
+export class UplinkMonitor extends EventEmitter {
+  private uplinks: UplinkService;
+  private getExcluded: () => Promise<string[]>;
+  private intervalMs: number;
+  private timer?: NodeJS.Timeout;
+  private checking = false;
+  private failures = new Map<string, number>();
+  private successes = new Map<string, number>();
+  private lost = false;
+
+  /** Uplink this monitor routed traffic through */
+  current?: string;
+
+  constructor(options: UplinkMonitorOptions) {
+    super();
+    this.uplinks = options.uplinks;
+    this.getExcluded = options.getExcluded || (async () => []);
+    this.intervalMs = options.intervalMs ?? 15000;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.check(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private publish(event: UplinkEvent): void {
+    this.emit(event.type, event);
+    this.emit('event', event);
+  }
+
+  /**
+   * Probe the uplinks and switch when needed
+   * @returns The uplinks as probed
+   */
+  async check(): Promise<UplinkStatus[]> {
+    // A slow round of probes must not overlap the next one
+    if (this.checking) return [];
+    this.checking = true;
+    try {
+      const statuses = await this.uplinks.getStatus({ exclude: await this.getExcluded(), probe: true });
+      for (const status of statuses) {
+        const name = status.interfaceName;
+        if (status.healthy) {
+          this.failures.set(name, 0);
+          this.successes.set(name, (this.successes.get(name) || 0) + 1);
+        } else {
+          this.failures.set(name, (this.failures.get(name) || 0) + 1);
+          this.successes.set(name, 0);
+        }
+      }
+      await this.select(statuses);
+      return statuses;
+    } catch (error) {
+      console.error('Uplink check failed:', error);
+      return [];
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async select(statuses: UplinkStatus[]): Promise<void> {
+    const currentName = this.current ?? statuses.find(s => s.active)?.interfaceName;
+    const current = statuses.find(s => s.interfaceName === currentName);
+    const currentWorks = !!current && current.up && !current.disabled &&
+      (this.failures.get(current.interfaceName) || 0) < PROBE_FAILURES;
+    const best = statuses.find(s => s.up && !s.disabled && s.healthy);
+
+    if (!best) {
+      if (!this.lost && !currentWorks) {
+        this.lost = true;
+        this.publish({ type: 'uplink-lost', timestamp: new Date(), uplink: currentName });
+      }
+      return;
+    }
+    this.lost = false;
+
+    if (best.interfaceName === currentName) {
+      if (this.current === undefined) {
+        // Take over the uplink NetworkManager picked
+        await this.uplinks.activate(best);
+        this.current = best.interfaceName;
+      }
+      return;
+    }
+
+    let reason: string | undefined;
+    if (!current || !current.up) {
+      reason = currentName ? `${currentName} is down` : 'no uplink was in use';
+    } else if (current.disabled) {
+      reason = `${currentName} was disabled`;
+    } else if (!currentWorks) {
+      reason = `${currentName} stopped answering`;
+    } else if (best.priority < current.priority &&
+      (this.current === undefined || (this.successes.get(best.interfaceName) || 0) >= FAILBACK_CHECKS)) {
+      reason = `${best.interfaceName} is preferred and working`;
+    }
+    if (!reason) return;
+
+    await this.uplinks.activate(best);
+    this.current = best.interfaceName;
+    this.publish({ type: 'uplink-changed', timestamp: new Date(), from: currentName, to: best.interfaceName, reason });
+  }
+}
@@ -0,0 +1,204 @@
+import * as path from 'path';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { Uplink, UplinkKind, UplinkPreference, UplinkSettings, UplinkStatus } from '../interfaces/uplink.interface';
+import { createSystemBackend } from '../backends';
+import { ConfigManager } from '../utils/config.util';
+import { FirewallService, ChainHook } from './firewall.service';
+
+const UPLINK_CHAIN = 'WORKHIVE_UPLINK';
+const UPLINK_HOOKS: ChainHook[] = [{ parent: 'POSTROUTING' }];
+// Below the metrics NetworkManager gives its own default routes (100 and up)
+const UPLINK_ROUTE_METRIC = '10';
+export const DEFAULT_UPLINK_PROBE_HOST = '8.8.8.8';
+
+// Wired first, then the phone, then a Wi-Fi network
+const DEFAULT_PRIORITIES: Record<UplinkKind, number> = {
+  'ethernet': 10,
+  'usb-tether': 20,
+  'iphone': 20,
+  'wifi': 30
+};
+
+const TETHER_DRIVERS = new Set(['rndis_host', 'cdc_ether', 'cdc_ncm', 'cdc_eem']);
+
+/**
+ * Match an interface name against a preference's name, which may end in *
+ */
+export function matchesInterface(pattern: string, name: string): boolean {
+  return pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : pattern === name;
+}
+
+interface DefaultRoute {
+  dev: string;
+  gateway?: string;
+  metric: number;
+}
+
+/**
+ * Finds the interfaces that can reach the internet (Ethernet, USB tethering,
+ * an iPhone, Wi-Fi client on a spare adapter) and moves the default route
+ * and the NAT for hotspot clients between them. The chosen uplink gets a
+ * default route with a lower metric than NetworkManager's, so NM's own
+ * routes stay in place as the fallback.
+ */
+export class UplinkService {
+  private backend: SystemBackend;
+  private configManager: ConfigManager;
+  private firewall: FirewallService;
+
+  constructor(backend: SystemBackend = createSystemBackend(), configManager?: ConfigManager) {
+    this.backend = backend;
+    this.configManager = configManager || new ConfigManager(backend);
+    this.firewall = new FirewallService(backend);
+  }
+
+  async getSettings(): Promise<UplinkSettings> {
+    return (await this.configManager.loadSettings()).uplinks || {};
+  }
+
+  /**
+   * Set or clear (undefined) the priority and enabled state for an interface name or pattern
+   */
+  async setPreference(interfaceName: string, changes: Omit<UplinkPreference, 'interfaceName'>): Promise<void> {
+    const settings = await this.getSettings();
+    const preferences = settings.preferences || [];
+    const existing = preferences.find(p => p.interfaceName === interfaceName);
+    const updated: UplinkPreference = { ...existing, interfaceName, ...changes };
+    const keep = updated.priority !== undefined || updated.disabled;
+    settings.preferences = [
+      ...preferences.filter(p => p.interfaceName !== interfaceName),
+      ...(keep ? [updated] : [])
+    ];
+    await this.configManager.saveSettings({ uplinks: settings });
+  }
+
+  async setProbeHost(probeHost: string | undefined): Promise<void> {
+    const settings = await this.getSettings();
+    await this.configManager.saveSettings({ uplinks: { ...settings, probeHost } });
+  }
+
+  private async defaultRoutes(): Promise<DefaultRoute[]> {
+    const { stdout } = await this.backend.run('ip', ['-4', 'route', 'show', 'default'], { throwOnError: false });
+    return stdout.split('\n')
+      .filter(line => line.startsWith('default'))
+      .map(line => ({
+        dev: line.match(/\bdev (\S+)/)?.[1] || '',
+        gateway: line.match(/\bvia (\S+)/)?.[1],
+        metric: parseInt(line.match(/\bmetric (\d+)/)?.[1] || '0', 10)
+      }))
+      .filter(route => route.dev)
+      .sort((a, b) => a.metric - b.metric);
+  }
+
+  private async classify(name: string): Promise<UplinkKind | undefined> {
+    const { stdout } = await this.backend.run('readlink', ['-f', `/sys/class/net/${name}/device/driver`], { throwOnError: false });
+    const driver = stdout.trim() ? path.basename(stdout.trim()) : '';
+    if (driver === 'ipheth') return 'iphone';
+    if (TETHER_DRIVERS.has(driver) || /^(usb\d|enx)/.test(name)) return 'usb-tether';
+    if (/^(wlan|wlp|wlx)/.test(name)) return 'wifi';
+    if (/^(eth|enp|end|ens|eno)/.test(name)) return 'ethernet';
+    return undefined;
+  }
+
+  /**
+   * Interfaces that could carry internet traffic
+   * @param exclude Interfaces that cannot be uplinks, e.g. the one serving the hotspot
+   */
+  async listUplinks(exclude: string[] = []): Promise<Uplink[]> {
+    const { stdout } = await this.backend.run('ip', ['-4', '-br', 'addr', 'show'], { throwOnError: false });
+    const routes = await this.defaultRoutes();
+    const uplinks: Uplink[] = [];
+    for (const line of stdout.split('\n')) {
+      const [name, , ...addresses] = line.trim().split(/\s+/);
+      if (!name || exclude.includes(name)) continue;
+      const interfaceName = name.split('@')[0];
+      const kind = await this.classify(interfaceName);
+      if (!kind) continue;
+      const ipAddress = addresses.find(a => /^\d+\.\d+\.\d+\.\d+/.test(a))?.split('/')[0];
+      const route = routes.find(r => r.dev === interfaceName);
+      uplinks.push({ interfaceName, kind, up: !!ipAddress && !!route, ipAddress, gateway: route?.gateway });
+    }
+    return uplinks;
+  }
+
+  /**
+   * Interface carrying the default route
+   */
+  async getActiveInterface(): Promise<string | undefined> {
+    return (await this.defaultRoutes())[0]?.dev;
+  }
+
+  /**
+   * Uplinks with their priorities and, when probing, whether they reach the internet
+   */
+  async getStatus(options: { exclude?: string[]; probe?: boolean } = {}): Promise<UplinkStatus[]> {
+    const [uplinks, settings, active] = await Promise.all([
+      this.listUplinks(options.exclude),
+      this.getSettings(),
+      this.getActiveInterface()
+    ]);
+    const probeHost = settings.probeHost || DEFAULT_UPLINK_PROBE_HOST;
+
+    const statuses: UplinkStatus[] = [];
+    for (const uplink of uplinks) {
+      const preference = (settings.preferences || []).find(p => matchesInterface(p.interfaceName, uplink.interfaceName));
+      const status: UplinkStatus = {
+        ...uplink,
+        priority: preference?.priority ?? DEFAULT_PRIORITIES[uplink.kind],
+        disabled: !!preference?.disabled,
+        active: uplink.interfaceName === active
+      };
+      if (options.probe && uplink.up) {
+        status.latencyMs = await this.probe(uplink.interfaceName, probeHost);
+        status.healthy = status.latencyMs !== undefined;
+      }
+      statuses.push(status);
+    }
+    return statuses.sort((a, b) => a.priority - b.priority || a.interfaceName.localeCompare(b.interfaceName));
+  }
+
+  /**
+   * Ping out of one interface, whatever the default route says
+   * @returns Round trip in ms, or undefined when unanswered
+   */
+  async probe(interfaceName: string, host: string): Promise<number | undefined> {
+    const { stdout } = await this.backend.run('ping', ['-c', '1', '-W', '2', '-I', interfaceName, host], { throwOnError: false });
+    const rtt = stdout.match(/= [\d.]+\/([\d.]+)\//) || stdout.match(/time=([\d.]+) ms/);
+    return rtt ? parseFloat(rtt[1]) : undefined;
+  }
+
+  /**
+   * Send traffic, and hotspot clients' NAT, out of this uplink
+   */
+  async activate(uplink: Uplink): Promise<void> {
+    const route = uplink.gateway
+      ? ['default', 'via', uplink.gateway, 'dev', uplink.interfaceName]
+      : ['default', 'dev', uplink.interfaceName];
+    await this.backend.run('sudo', ['ip', 'route', 'replace', ...route, 'metric', UPLINK_ROUTE_METRIC]);
+    await this.removeRoutes(uplink.interfaceName);
+
+    // NetworkManager's shared-mode NAT only covers the subnets it set up itself
+    await this.firewall.ensureChain('nat', UPLINK_CHAIN, UPLINK_HOOKS);
+    await this.firewall.flushChain('nat', UPLINK_CHAIN);
+    await this.firewall.ensureRule('nat', UPLINK_CHAIN, ['-o', uplink.interfaceName, '-j', 'MASQUERADE']);
+  }
+
+  /**
+   * Hand routing back to NetworkManager
+   */
+  async release(): Promise<void> {
+    await this.removeRoutes();
+    await this.firewall.deleteChain('nat', UPLINK_CHAIN, UPLINK_HOOKS);
+  }
+
+  /**
+   * Delete the default routes added by activate, except the one through keep
+   */
+  private async removeRoutes(keep?: string): Promise<void> {
+    for (const route of await this.defaultRoutes()) {
+      if (String(route.metric) === UPLINK_ROUTE_METRIC && route.dev !== keep) {
+        await this.backend.run('sudo', ['ip', 'route', 'del', 'default', 'dev', route.dev, 'metric', UPLINK_ROUTE_METRIC], { throwOnError: false });
+      }
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { QuotaState, TrafficTotals, UsageEntry, UsagePeriod, UsageQuota, UsageReport, UsageScope } from '../interfaces/usage.interface';
+import { createSystemBackend } from '../backends';
+import { ConfigManager } from '../utils/config.util';
+import { FirewallService, ChainHook } from './firewall.service';
+
+const QUOTA_CHAIN = 'WORKHIVE_QUOTA';
+const QUOTA_HOOKS: ChainHook[] = [{ parent: 'FORWARD', first: true }];
+const DAYS_KEPT = 92;
+const MONTHS_KEPT = 24;
+
+interface UsageStore {
+  /** Last raw reading per counter, so samples can be turned into deltas */
+  counters: Record<string, TrafficTotals>;
+  /** Totals per "scope:target", bucketed by local day and month */
+  days: Record<string, Record<string, TrafficTotals>>;
+  months: Record<string, Record<string, TrafficTotals>>;
+}
+
+function pad(n: number): string {
+  return n.toString().padStart(2, '0');
+}
+
+/**
+ * Bucket key for a date: YYYY-MM-DD for days, YYYY-MM for months (local time)
+ */
+export function usagePeriodKey(period: UsagePeriod, date = new Date()): string {
+  const month = `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+  return period === 'month' ? month : `${month}-${pad(date.getDate())}`;
+}
+
+/**
+ * Traffic accounting for hotspot clients, uplink interfaces and WireGuard.
+ * Kernel counters reset when a station reassociates or the Pi reboots, so
+ * each sample only adds the growth since the previous one to the stored
+ * day and month totals. Quotas set to "cutoff" stop forwarding the target's
+ * traffic until the period rolls over.
+ */
+export class UsageService {
+  private backend: SystemBackend;
+  private firewall: FirewallService;
+  private storePath: string;
+
+  constructor(backend: SystemBackend = createSystemBackend(), configManager?: ConfigManager) {
+    this.backend = backend;
+    this.firewall = new FirewallService(backend);
+    const manager = configManager || new ConfigManager(backend);
+    this.storePath = path.join(manager.getConfigDir(), 'usage.json');
+  }
+
+  private async loadStore(): Promise<UsageStore> {
+    try {
+      const data = await fs.readFile(this.storePath, 'utf-8');
+      return { counters: {}, days: {}, months: {}, ...JSON.parse(data) };
+    } catch {
+      return { counters: {}, days: {}, months: {} };
+    }
+  }
+
+  private async saveStore(store: UsageStore): Promise<void> {
+    await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+    await fs.writeFile(this.storePath, JSON.stringify(store, null, 2));
+  }
+
+  /**
+   * Read every counter, add the growth since the last sample to today's and
+   * this month's totals, then enforce quotas
+   * @param hotspotInterface Interface serving hotspot clients, when in AP mode
+   */
+  async sample(quotas: UsageQuota[], hotspotInterface?: string, now = new Date()): Promise<QuotaState[]> {
+    // Without a hotspot there are no stations; a source that could not be read gives undefined
+    const sources: Array<{ prefix: string; readings?: Array<[string, TrafficTotals]> }> = [
+      { prefix: 'device:', readings: hotspotInterface ? await this.readStations(hotspotInterface) : [] },
+      { prefix: 'interface:', readings: await this.readInterfaces() },
+      { prefix: 'vpn:', readings: await this.readWireGuard() }
+    ];
+    const readings = new Map<string, TrafficTotals>(sources.flatMap(source => source.readings || []));
+    const unread = sources.filter(source => !source.readings).map(source => source.prefix);
+
+    const store = await this.loadStore();
+    const day = (store.days[usagePeriodKey('day', now)] ||= {});
+    const month = (store.months[usagePeriodKey('month', now)] ||= {});
+
+    for (const [key, reading] of readings) {
+      const last = store.counters[key];
+      const delta = {
+        // A counter below the last reading has been reset; count it from zero
+        download: last && reading.download >= last.download ? reading.download - last.download : reading.download,
+        upload: last && reading.upload >= last.upload ? reading.upload - last.upload : reading.upload
+      };
+      store.counters[key] = reading;
+      // Stations and WireGuard peers start counting when they appear; an
+      // interface seen for the first time has been counting since boot
+      if (!last && key.startsWith('interface:')) continue;
+
+      for (const bucket of [day, month]) {
+        const totals = bucket[key] || { download: 0, upload: 0 };
+        bucket[key] = { download: totals.download + delta.download, upload: totals.upload + delta.upload };
+      }
+    }
+
+    // A station or peer that comes back starts from zero again. One missing
+    // only because its source failed this time keeps its counter, or its
+    // traffic so far would be counted a second time on the next sample.
+    for (const key of Object.keys(store.counters)) {
+      if (key.startsWith('interface:') || readings.has(key) || unread.some(prefix => key.startsWith(prefix))) continue;
+      delete store.counters[key];
+    }
+
+    store.days = this.prune(store.days, DAYS_KEPT);
+    store.months = this.prune(store.months, MONTHS_KEPT);
+    await this.saveStore(store);
+
+    const states = this.evaluateQuotas(store, quotas, now);
+    await this.applyCutoffs(states);
+    return states;
+  }
+
+  /**
+   * Totals for one day or month
+   */
+  async getReport(period: UsagePeriod, quotas: UsageQuota[], date = new Date()): Promise<UsageReport> {
+    const store = await this.loadStore();
+    const key = usagePeriodKey(period, date);
+    const bucket = (period === 'day' ? store.days : store.months)[key] || {};
+    const entries: UsageEntry[] = Object.entries(bucket).map(([id, totals]) => {
+      const [scope, ...target] = id.split(':');
+      return { scope: scope as UsageScope, target: target.join(':'), ...totals };
+    });
+    entries.sort((a, b) => (b.download + b.upload) - (a.download + a.upload));
+    return { period, key, entries, quotas: this.evaluateQuotas(store, quotas, date) };
+  }
+
+  private evaluateQuotas(store: UsageStore, quotas: UsageQuota[], now: Date): QuotaState[] {
+    return quotas.map(quota => {
+      const bucket = (quota.period === 'day' ? store.days : store.months)[usagePeriodKey(quota.period, now)] || {};
+      const totals = bucket[`${quota.scope}:${quota.target}`];
+      const used = totals ? totals.download + totals.upload : 0;
+      return { quota, used, exceeded: used >= quota.limitBytes };
+    });
+  }
+
+  /**
+   * Drop forwarding for every target whose cutoff quota is used up
+   */
+  private async applyCutoffs(states: QuotaState[]): Promise<void> {
+    const cutoffs = states.filter(s => s.exceeded && s.quota.action === 'cutoff').map(s => s.quota);
+    if (cutoffs.length === 0) {
+      await this.firewall.deleteChain('filter', QUOTA_CHAIN, QUOTA_HOOKS);
+      return;
+    }
+
+    await this.firewall.ensureChain('filter', QUOTA_CHAIN, QUOTA_HOOKS);
+    await this.firewall.flushChain('filter', QUOTA_CHAIN);
+    for (const quota of cutoffs) {
+      const match = quota.scope === 'device'
+        ? ['-m', 'mac', '--mac-source', quota.target]
+        : ['-o', quota.target];
+      await this.firewall.ensureRule('filter', QUOTA_CHAIN, [...match, '-j', 'DROP']);
+    }
+  }
+
+  private prune(buckets: Record<string, Record<string, TrafficTotals>>, keep: number): Record<string, Record<string, TrafficTotals>> {
+    const keys = Object.keys(buckets).sort().slice(-keep);
+    return Object.fromEntries(keys.map(key => [key, buckets[key]]));
+  }
+
+  /**
+   * Per-station byte counters from the access point's point of view
+   * @returns undefined when the stations could not be read
+   */
+  private async readStations(interfaceName: string): Promise<Array<[string, TrafficTotals]> | undefined> {
+    let stdout: string;
+    try {
+      ({ stdout } = await this.backend.run('iw', ['dev', interfaceName, 'station', 'dump']));
+    } catch {
+      return undefined;
+    }
+
+    const readings: Array<[string, TrafficTotals]> = [];
+    for (const block of stdout.split(/^(?=Station )/m)) {
+      const mac = block.match(/^Station\s+([0-9a-f:]{17})/i)?.[1];
+      const rx = block.match(/rx bytes:\s*(\d+)/)?.[1];
+      const tx = block.match(/tx bytes:\s*(\d+)/)?.[1];
+      if (mac && rx !== undefined && tx !== undefined) {
+        // What the AP sent is what the device downloaded
+        readings.push([`device:${mac.toLowerCase()}`, { download: parseInt(tx, 10), upload: parseInt(rx, 10) }]);
+      }
+    }
+    return readings;
+  }
+
+  private async readInterfaces(): Promise<Array<[string, TrafficTotals]> | undefined> {
+    let stdout: string;
+    try {
+      ({ stdout } = await this.backend.run('ip', ['-brief', 'link', 'show']));
+    } catch {
+      return undefined;
+    }
+
+    const readings: Array<[string, TrafficTotals]> = [];
+    const names = stdout.split('\n').map(line => line.split(/\s+/)[0]?.split('@')[0]).filter(Boolean);
+    for (const name of names) {
+      // WireGuard interfaces are accounted separately
+      if (name === 'lo' || name.startsWith('wg')) continue;
+      try {
+        const rx = await this.backend.readFile(`/sys/class/net/${name}/statistics/rx_bytes`);
+        const tx = await this.backend.readFile(`/sys/class/net/${name}/statistics/tx_bytes`);
+        readings.push([`interface:${name}`, { download: parseInt(rx, 10) || 0, upload: parseInt(tx, 10) || 0 }]);
+      } catch {
+        // Interface went away between listing and reading
+      }
+    }
+    return readings;
+  }
+
+  /**
+   * Byte counters per tunnel, summed over its peers
+   * @returns undefined when wg could not be asked
+   */
+  private async readWireGuard(): Promise<Array<[string, TrafficTotals]> | undefined> {
+    let stdout: string;
+    try {
+      ({ stdout } = await this.backend.run('sudo', ['wg', 'show', 'all', 'transfer']));
+    } catch {
+      return undefined;
+    }
+
+    const totals = new Map<string, TrafficTotals>();
+    for (const line of stdout.split('\n').filter(l => l.trim())) {
+      const [interfaceName, , rx, tx] = line.split('\t');
+      const current = totals.get(interfaceName) || { download: 0, upload: 0 };
+      totals.set(interfaceName, {
+        download: current.download + (parseInt(rx, 10) || 0),
+        upload: current.upload + (parseInt(tx, 10) || 0)
+      });
+    }
+    return [...totals].map(([name, reading]) => [`vpn:${name}`, reading]);
+  }
+}
@@ -0,0 +1,324 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { WireGuardConfig, WireGuardPeer, WireGuardPeerStatus, WireGuardServerConfig } from '../interfaces/wireguard.interface';
+import { createSystemBackend } from '../backends';
+import { ConfigManager } from '../utils/config.util';
+import { intToIpv4, ipv4ToInt, parseCidr } from '../utils/ip.util';
+import { clientConfigToWg, formatWgConfig, WgQuickConfig } from '../utils/wg-config.util';
+import { isTunnelName, WireGuardService } from './wireguard.service';
+
+export interface WireGuardServerOptions {
+  /** Interface name (defaults to wg0) */
+  name?: string;
+  /** Public host or host:port teammates connect to */
+  endpoint: string;
+  listenPort?: number;
+  /** Server address and pool (defaults to 10.8.0.1/24) */
+  address?: string;
+  /** DNS server handed to teammates */
+  dns?: string;
+}
+
+/**
+ * Runs a WireGuard interface as a server for teammates. Peers and their keys
+ * are kept in the config directory; the wg-quick file is regenerated from it
+ * so wg-quick brings the
+ * same peers back after a reboot, and peers are added to the running
+ * interface with `wg set` so existing tunnels stay up.
+ */
+export class WireGuardServerService {
+  private backend: SystemBackend;
+  private wireguard: WireGuardService;
+  private statePath: string;
+  private peerConfigDir: string;
+
+  constructor(backend: SystemBackend = createSystemBackend(), configManager?: ConfigManager) {
+    this.backend = backend;
+    this.wireguard = new WireGuardService(backend, configManager);
+    const manager = configManager || new ConfigManager(backend);
+    this.statePath = path.join(manager.getConfigDir(), 'wireguard-server.json');
+    this.peerConfigDir = path.join(manager.getConfigDir(), 'wireguard-peers');
+  }
+
+  async load(): Promise<WireGuardServerConfig | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.statePath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private async save(config: WireGuardServerConfig): Promise<void> {
+    await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+    // Holds private keys
+    await fs.writeFile(this.statePath, JSON.stringify(config, null, 2), { mode: 0o600 });
+  }
+
+  private async require(): Promise<WireGuardServerConfig> {
+    const config = await this.load();
+    if (!config) {
+      throw new Error('WireGuard server is not set up; run "vpn server init" first');
+    }
+    return config;
+  }
+
+  /**
+   * Set up (or reconfigure) the server and start it. Existing peers are kept.
+   */
+  async init(options: WireGuardServerOptions): Promise<WireGuardServerConfig> {
+    const existing = await this.load();
+    const interfaceName = options.name || existing?.interfaceName || 'wg0';
+    if (!isTunnelName(interfaceName)) {
+      throw new Error(`Invalid interface name '${interfaceName}': use up to 15 letters, digits or _=+.-`);
+    }
+    const address = options.address || existing?.address || '10.8.0.1/24';
+    const pool = parseCidr(address);
+    if (pool.prefix > 30) {
+      throw new Error(`Address ${address} leaves no room for peers; use a /24 or similar`);
+    }
+    const listenPort = options.listenPort || existing?.listenPort || 51820;
+    const endpoint = options.endpoint.includes(':') ? options.endpoint : `${options.endpoint}:${listenPort}`;
+    const keys = existing ? { privateKey: existing.privateKey, publicKey: existing.publicKey } : await this.wireguard.generateKeys();
+
+    if (existing && existing.interfaceName !== interfaceName) {
+      // Renamed: take the old interface down for good
+      await this.wireguard.stop(existing.interfaceName);
+      await this.backend.run('sudo', ['rm', '-f', `/etc/wireguard/${existing.interfaceName}.conf`]);
+    }
+
+    const config: WireGuardServerConfig = {
+      interfaceName,
+      ...keys,
+      address,
+      listenPort,
+      endpoint,
+      dns: options.dns ?? existing?.dns,
+      peers: existing?.peers || []
+    };
+    await this.save(config);
+    await this.writeInterfaceConfig(config);
+
+    await this.backend.run('sudo', ['sysctl', '-w', 'net.ipv4.ip_forward=1']);
+    await this.backend.run('sudo', ['systemctl', 'enable', `wg-quick@${config.interfaceName}`]);
+    await this.backend.run('sudo', ['systemctl', 'restart', `wg-quick@${config.interfaceName}`]);
+    return config;
+  }
+
+  /**
+   * Create a teammate: keys, an address from the pool, and a live peer entry
+   * @returns The peer and the config the teammate imports
+   */
+  async addPeer(name: string, clientAllowedIPs: string[] = ['0.0.0.0/0']): Promise<{ peer: WireGuardPeer; clientConfig: WireGuardConfig }> {
+    const config = await this.require();
+    if (config.peers.some(p => p.name === name)) {
+      throw new Error(`Peer '${name}' already exists`);
+    }
+
+    const keys = await this.wireguard.generateKeys();
+    const peer: WireGuardPeer = {
+      name,
+      ...keys,
+      address: `${this.allocateAddress(config)}/32`,
+      clientAllowedIPs,
+      createdAt: new Date().toISOString()
+    };
+    config.peers.push(peer);
+    await this.save(config);
+    await this.writeInterfaceConfig(config);
+
+    if (await this.isRunning(config)) {
+      await this.backend.run('sudo', ['wg', 'set', config.interfaceName, 'peer', peer.publicKey, 'allowed-ips', peer.address]);
+    }
+    return { peer, clientConfig: this.clientConfig(config, peer) };
+  }
+
+  async removePeer(name: string): Promise<WireGuardPeer> {
+    const config = await this.require();
+    const peer = config.peers.find(p => p.name === name);
+    if (!peer) {
+      throw new Error(`Peer '${name}' not found`);
+    }
+
+    config.peers = config.peers.filter(p => p !== peer);
+    await this.save(config);
+    await this.writeInterfaceConfig(config);
+
+    if (await this.isRunning(config)) {
+      await this.backend.run('sudo', ['wg', 'set', config.interfaceName, 'peer', peer.publicKey, 'remove']);
+      if (peer.previousKey) {
+        await this.backend.run('sudo', ['wg', 'set', config.interfaceName, 'peer', peer.previousKey.publicKey, 'remove']);
+      }
+    }
+    return peer;
+  }
+
+  /**
+   * Give a peer a new keypair and address. The old key keeps its address and
+   * stays valid until the overlap ends, so the teammate can switch configs
+   * without losing the tunnel; a key left over from an earlier rotation is
+   * revoked now. The new config is also written to the peer's file.
+   */
+  async rotatePeerKey(name: string, overlapMs: number): Promise<{ peer: WireGuardPeer; clientConfig: WireGuardConfig; file: string }> {
+    const config = await this.require();
+    const peer = config.peers.find(p => p.name === name);
+    if (!peer) {
+      throw new Error(`Peer '${name}' not found`);
+    }
+
+    const running = await this.isRunning(config);
+    if (peer.previousKey && running) {
+      await this.backend.run('sudo', ['wg', 'set', config.interfaceName, 'peer', peer.previousKey.publicKey, 'remove']);
+    }
+    peer.previousKey = undefined;
+
+    const keys = await this.wireguard.generateKeys();
+    const now = new Date();
+    const previousKey = { publicKey: peer.publicKey, address: peer.address, expiresAt: new Date(now.getTime() + overlapMs).toISOString() };
+    // Allocated while the old address is still taken: both must route during the overlap
+    const address = `${this.allocateAddress(config)}/32`;
+    Object.assign(peer, { ...keys, address, previousKey, rotatedAt: now.toISOString() });
+    await this.save(config);
+    await this.writeInterfaceConfig(config);
+
+    if (running) {
+      await this.backend.run('sudo', ['wg', 'set', config.interfaceName, 'peer', peer.publicKey, 'allowed-ips', peer.address]);
+    }
+
+    const clientConfig = this.clientConfig(config, peer);
+    const file = path.join(this.peerConfigDir, `${peer.name}.conf`);
+    await fs.mkdir(this.peerConfigDir, { recursive: true });
+    await fs.writeFile(file, formatWgConfig(clientConfigToWg(clientConfig)), { mode: 0o600 });
+    return { peer, clientConfig, file };
+  }
+
+  /**
+   * Revoke old peer keys whose overlap has ended
+   * @returns Names of the peers whose old key was revoked
+   */
+  async revokeExpiredKeys(now = new Date()): Promise<string[]> {
+    const config = await this.load();
+    const expired = (config?.peers || []).filter(p => p.previousKey && new Date(p.previousKey.expiresAt) <= now);
+    if (!config || expired.length === 0) {
+      return [];
+    }
+
+    const running = await this.isRunning(config);
+    for (const peer of expired) {
+      if (running) {
+        await this.backend.run('sudo', ['wg', 'set', config.interfaceName, 'peer', peer.previousKey!.publicKey, 'remove']);
+      }
+      peer.previousKey = undefined;
+    }
+    await this.save(config);
+    await this.writeInterfaceConfig(config);
+    return expired.map(p => p.name);
+  }
+
+  async getPeer(name: string): Promise<{ peer: WireGuardPeer; clientConfig: WireGuardConfig }> {
+    const config = await this.require();
+    const peer = config.peers.find(p => p.name === name);
+    if (!peer) {
+      throw new Error(`Peer '${name}' not found`);
+    }
+    return { peer, clientConfig: this.clientConfig(config, peer) };
+  }
+
+  /**
+   * Peers with their live handshake and transfer figures
+   */
+  async listPeers(): Promise<WireGuardPeerStatus[]> {
+    const config = await this.require();
+    // Not running: peers are listed without live figures
+    const status = await this.wireguard.getStatus(config.interfaceName);
+
+    return config.peers.map(peer => {
+      const live = status.peers.find(p => p.publicKey === peer.publicKey);
+      return {
+        name: peer.name,
+        publicKey: peer.publicKey,
+        address: peer.address,
+        endpoint: live?.endpoint,
+        latestHandshake: live?.latestHandshake,
+        transferRx: live?.transferRx || 0,
+        transferTx: live?.transferTx || 0
+      };
+    });
+  }
+
+  private async isRunning(config: WireGuardServerConfig): Promise<boolean> {
+    const { stdout } = await this.backend.run('sudo', ['wg', 'show', config.interfaceName], { throwOnError: false });
+    return stdout.trim() !== '';
+  }
+
+  /**
+   * Lowest address in the pool not taken by the server or another peer
+   */
+  private allocateAddress(config: WireGuardServerConfig): string {
+    const pool = parseCidr(config.address);
+    const addresses = config.peers.flatMap(p => p.previousKey ? [p.address, p.previousKey.address] : [p.address]);
+    const taken = new Set([pool.address, ...addresses.map(address => ipv4ToInt(address.split('/')[0]))]);
+    for (let candidate = pool.network + 1; candidate < pool.broadcast; candidate++) {
+      if (!taken.has(candidate)) {
+        return intToIpv4(candidate);
+      }
+    }
+    throw new Error(`Address pool ${config.address} is full`);
+  }
+
+  private clientConfig(config: WireGuardServerConfig, peer: WireGuardPeer): WireGuardConfig {
+    return {
+      privateKey: peer.privateKey,
+      publicKey: peer.publicKey,
+      address: peer.address,
+      peerPublicKey: config.publicKey,
+      dns: config.dns,
+      endpoint: config.endpoint,
+      allowedIPs: peer.clientAllowedIPs,
+      persistentKeepalive: 25
+    };
+  }
+
+  private async writeInterfaceConfig(config: WireGuardServerConfig): Promise<void> {
+    const pool = parseCidr(config.address);
+    const subnet = `${intToIpv4(pool.network)}/${pool.prefix}`;
+    // Teammates reach the Pi's uplinks through NAT
+    const forward = [
+      `iptables -t nat %s POSTROUTING -s ${subnet} -j MASQUERADE`,
+      'iptables %s FORWARD -i %i -j ACCEPT',
+      'iptables %s FORWARD -o %i -j ACCEPT'
+    ];
+
+    const wg: WgQuickConfig = {
+      interface: {
+        privateKey: config.privateKey,
+        addresses: [config.address],
+        listenPort: config.listenPort,
+        dns: [],
+        preUp: [],
+        postUp: forward.map(rule => rule.replace('%s', '-A')),
+        preDown: [],
+        postDown: forward.map(rule => rule.replace('%s', '-D')),
+        comments: [],
+        notes: {}
+      },
+      peers: config.peers.flatMap(peer => [
+        {
+          publicKey: peer.publicKey,
+          allowedIPs: [peer.address],
+          comments: [`# ${peer.name}`],
+          notes: {}
+        },
+        ...(peer.previousKey ? [{
+          publicKey: peer.previousKey.publicKey,
+          allowedIPs: [peer.previousKey.address],
+          comments: [`# ${peer.name} (old key, until ${peer.previousKey.expiresAt})`],
+          notes: {}
+        }] : [])
+      ]),
+      trailingComments: []
+    };
+
+    await this.backend.writeFile(`/etc/wireguard/${config.interfaceName}.conf`, formatWgConfig(wg), { mode: 0o600 });
+  }
+}
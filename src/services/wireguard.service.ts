@@ -1,144 +1,428 @@
-import { executeCommand } from '../utils/command.util';
-import { WireGuardConfig, WireGuardStatus } from '../interfaces/wireguard.interface';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { TunnelHealthCheck, WireGuardClientOptions, WireGuardConfig, WireGuardPeerState, WireGuardStatus, WireGuardTunnel } from '../interfaces/wireguard.interface';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { createSystemBackend } from '../backends';
+import { ConfigManager } from '../utils/config.util';
+import { isIpv4 } from '../utils/ip.util';
+import { clientConfigToWg, formatWgConfig, isAddressOrCidr, isEndpoint, isWireGuardKey, mergeClientConfig, parseWgConfig, WgQuickConfig, wgToClientConfig } from '../utils/wg-config.util';
 
+// What the kernel accepts as an interface name
+const TUNNEL_NAME_PATTERN = /^[a-zA-Z0-9_=+.-]{1,15}$/;
+// The single tunnel older versions managed
+const LEGACY_TUNNEL = 'wg0';
+// Routing tables for tunnels that only carry traffic policy routing sends them
+const FIRST_POLICY_TABLE = 200;
+const POLICY_TABLES = 50;
+
+export function isTunnelName(name: string): boolean {
+  return TUNNEL_NAME_PATTERN.test(name);
+}
+
+function confPath(name: string): string {
+  return `/etc/wireguard/${name}.conf`;
+}
+
+function policyTable(config: WireGuardConfig): number | undefined {
+  const table = parseInt(config.table || '', 10);
+  return table >= FIRST_POLICY_TABLE && table < FIRST_POLICY_TABLE + POLICY_TABLES ? table : undefined;
+}
+
+/**
+ * Check client settings before anything is written
+ * @returns Problems found, empty when the options are usable
+ */
+export function validateClientOptions(options: WireGuardClientOptions): string[] {
+  const errors: string[] = [];
+  if (!options.peerPublicKey || !isWireGuardKey(options.peerPublicKey)) {
+    errors.push('Server public key must be a 44-character base64 WireGuard key');
+  }
+  if (options.presharedKey && !isWireGuardKey(options.presharedKey)) {
+    errors.push('Preshared key must be a 44-character base64 WireGuard key');
+  }
+  if (options.privateKey && !isWireGuardKey(options.privateKey)) {
+    errors.push('Private key must be a 44-character base64 WireGuard key');
+  }
+
+  if (!isEndpoint(options.endpoint || '')) {
+    errors.push('Endpoint must be host:port, e.g. vpn.example.com:51820');
+  }
+
+  const addresses = (options.address || '').split(',').map(a => a.trim()).filter(Boolean);
+  if (addresses.length === 0 || !addresses.every(isAddressOrCidr)) {
+    errors.push('Address must be the tunnel address assigned by the server, e.g. 10.8.0.2/32');
+  }
+  if (!options.allowedIPs || options.allowedIPs.length === 0 || !options.allowedIPs.every(ip => isAddressOrCidr(ip.trim()))) {
+    errors.push('Allowed IPs must be a list of networks, e.g. 0.0.0.0/0 or 10.8.0.0/24');
+  }
+  if (options.dns && !options.dns.split(',').every(server => isIpv4(server.trim()) || server.includes(':'))) {
+    errors.push('DNS must be one or more IP addresses');
+  }
+  if (options.mtu !== undefined && (!Number.isInteger(options.mtu) || options.mtu < 1280 || options.mtu > 9000)) {
+    errors.push('MTU must be a whole number between 1280 and 9000');
+  }
+  return errors;
+}
+
+/**
+ * Named client tunnels (e.g. "setip", "office"). Each tunnel is a wg-quick
+ * interface of the same name; its settings are kept in the config directory
+ * so it can be listed, exported and shared again after the conf file has
+ * been written.
+ */
 export class WireGuardService {
+  private backend: SystemBackend;
+  private statePath: string;
+
+  constructor(backend: SystemBackend = createSystemBackend(), configManager?: ConfigManager) {
+    this.backend = backend;
+    const manager = configManager || new ConfigManager(backend);
+    this.statePath = path.join(manager.getConfigDir(), 'wireguard-tunnels.json');
+  }
+
   async generateKeys(): Promise<{ privateKey: string; publicKey: string }> {
-    const { stdout: privateKey } = await executeCommand('wg genkey');
-    const { stdout: publicKey } = await executeCommand(`echo "${privateKey.trim()}" | wg pubkey`);
+    const { stdout: privateKey } = await this.backend.run('wg', ['genkey']);
+    const { stdout: publicKey } = await this.backend.run('wg', ['pubkey'], { input: privateKey.trim() });
     return {
       privateKey: privateKey.trim(),
       publicKey: publicKey.trim()
     };
   }
 
-  private async getPublicKey(privateKey: string): Promise<string> {
-    const { stdout } = await executeCommand(`echo "${privateKey}" | wg pubkey`);
+  async getPublicKey(privateKey: string): Promise<string> {
+    const { stdout } = await this.backend.run('wg', ['pubkey'], { input: privateKey });
     return stdout.trim();
   }
 
-  private async getFreeIP(baseIP: string, subnet: number): Promise<string> {
-    const parts = baseIP.split('.');
-    const base = parts.slice(0, 3).join('.');
-    const start = parseInt(parts[3]);
+  private async loadStore(): Promise<WireGuardTunnel[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.statePath, 'utf-8'));
+    } catch {
+      return this.adoptLegacyTunnel();
+    }
+  }
 
-    for (let i = start; i < 255; i++) {
-      const ip = `${base}.${i}/${subnet}`;
-      try {
-        const { stdout } = await executeCommand(`ping -c 1 -W 1 ${base}.${i}`);
-        if (!stdout.includes('1 received')) {
-          return ip;
-        }
-      } catch {
-        return ip;
+  private async saveStore(tunnels: WireGuardTunnel[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+    // Holds private keys
+    await fs.writeFile(this.statePath, JSON.stringify(tunnels, null, 2), { mode: 0o600 });
+  }
+
+  /**
+   * Older versions wrote a single client tunnel straight to wg0.conf; list it
+   * until the first tunnel change saves the store
+   */
+  private async adoptLegacyTunnel(): Promise<WireGuardTunnel[]> {
+    try {
+      const config = wgToClientConfig(parseWgConfig(await this.backend.readFile(confPath(LEGACY_TUNNEL))));
+      if (!config) return [];
+      const publicKey = await this.getPublicKey(config.privateKey);
+      return [{ name: LEGACY_TUNNEL, config: { ...config, publicKey }, createdAt: new Date().toISOString() }];
+    } catch {
+      return [];
+    }
+  }
+
+  async listTunnels(): Promise<WireGuardTunnel[]> {
+    return this.loadStore();
+  }
+
+  async getTunnel(name: string): Promise<WireGuardTunnel | null> {
+    const tunnels = await this.loadStore();
+    return tunnels.find(t => t.name === name) || null;
+  }
+
+  /**
+   * Store a tunnel and write its wg-quick file, replacing any tunnel of the same name
+   * @param wgQuick wg-quick file the settings were taken from; its other peers and comments are kept
+   */
+  async saveTunnel(name: string, config: WireGuardConfig, wgQuick?: WgQuickConfig): Promise<WireGuardTunnel> {
+    if (!isTunnelName(name)) {
+      throw new Error(`Invalid tunnel name '${name}': use up to 15 letters, digits or _=+.-`);
+    }
+    const tunnels = await this.loadStore();
+    const existing = tunnels.find(t => t.name === name);
+    const document = wgQuick ? mergeClientConfig(wgQuick, config) : clientConfigToWg(config);
+    const tunnel: WireGuardTunnel = {
+      ...existing,
+      name,
+      config,
+      createdAt: existing?.createdAt || new Date().toISOString(),
+      wgQuick: wgQuick ? document : undefined
+    };
+
+    await this.backend.writeFile(confPath(name), formatWgConfig(document), { mode: 0o600 });
+    await this.saveStore([...tunnels.filter(t => t.name !== name), tunnel]);
+    return tunnel;
+  }
+
+  /**
+   * Keep a tunnel's routes out of the main table, so it only carries traffic
+   * policy routing sends it; wg-quick puts them in a table of the tunnel's own
+   * @returns The tunnel's routing table
+   */
+  async usePolicyTable(name: string): Promise<number> {
+    const tunnels = await this.loadStore();
+    const tunnel = tunnels.find(t => t.name === name);
+    if (!tunnel) {
+      throw new Error(`Tunnel '${name}' not found`);
+    }
+    const current = policyTable(tunnel.config);
+    if (current !== undefined) {
+      return current;
+    }
+
+    const taken = new Set(tunnels.map(t => policyTable(t.config)));
+    for (let table = FIRST_POLICY_TABLE; table < FIRST_POLICY_TABLE + POLICY_TABLES; table++) {
+      if (!taken.has(table)) {
+        await this.setTable(tunnel, String(table));
+        return table;
       }
     }
-    throw new Error('No free IPs available');
+    throw new Error('No routing table left for policy routing');
   }
 
-  async setup(options: {
-    endpoint: string;
-    allowedIPs: string[];
-    dns?: string;
-    listenPort?: number;
-    privateKey?: string;
-  }): Promise<{ success: boolean; config?: WireGuardConfig }> {
+  /**
+   * Put a tunnel's routes back in the main table
+   */
+  async releasePolicyTable(name: string): Promise<void> {
+    const tunnel = await this.getTunnel(name);
+    if (tunnel && policyTable(tunnel.config) !== undefined) {
+      await this.setTable(tunnel, undefined);
+    }
+  }
+
+  /**
+   * Routing table of each tunnel used by policy routing, by tunnel name
+   */
+  async getPolicyTables(): Promise<Record<string, number>> {
+    const tables: Record<string, number> = {};
+    for (const tunnel of await this.loadStore()) {
+      const table = policyTable(tunnel.config);
+      if (table !== undefined) {
+        tables[tunnel.name] = table;
+      }
+    }
+    return tables;
+  }
+
+  private async setTable(tunnel: WireGuardTunnel, table: string | undefined): Promise<void> {
+    await this.saveTunnel(tunnel.name, { ...tunnel.config, table }, tunnel.wgQuick);
+    // wg-quick only reads the table when it brings the interface up
+    if ((await this.getStatus(tunnel.name)).active) {
+      await this.restart(tunnel.name);
+    }
+  }
+
+  /**
+   * Set or clear how the health monitor checks a tunnel
+   */
+  async setHealthCheck(name: string, healthCheck: TunnelHealthCheck | undefined): Promise<WireGuardTunnel> {
+    const tunnels = await this.loadStore();
+    const tunnel = tunnels.find(t => t.name === name);
+    if (!tunnel) {
+      throw new Error(`Tunnel '${name}' not found`);
+    }
+    const updated: WireGuardTunnel = { ...tunnel, healthCheck };
+    await this.saveStore(tunnels.map(t => t === tunnel ? updated : t));
+    return updated;
+  }
+
+  /**
+   * Prepare a new keypair for a tunnel. The tunnel keeps its current key
+   * until switchAt, which leaves time to register the new public key on the
+   * server; a pending key from an earlier rotation is replaced.
+   */
+  async rotateKey(name: string, overlapMs: number): Promise<{ publicKey: string; switchAt: string }> {
+    const tunnels = await this.loadStore();
+    const tunnel = tunnels.find(t => t.name === name);
+    if (!tunnel) {
+      throw new Error(`Tunnel '${name}' not found`);
+    }
+    const keys = await this.generateKeys();
+    const pendingKey = { ...keys, switchAt: new Date(Date.now() + overlapMs).toISOString() };
+    await this.saveStore(tunnels.map(t => t === tunnel ? { ...tunnel, pendingKey } : t));
+    return { publicKey: pendingKey.publicKey, switchAt: pendingKey.switchAt };
+  }
+
+  /**
+   * Switch tunnels whose pending key is due, restarting those that are up
+   * @returns Names of the tunnels switched
+   */
+  async applyPendingKeys(now = new Date()): Promise<string[]> {
+    const due = (await this.loadStore()).filter(t => t.pendingKey && new Date(t.pendingKey.switchAt) <= now);
+    for (const tunnel of due) {
+      const { privateKey, publicKey } = tunnel.pendingKey!;
+      await this.saveTunnel(tunnel.name, { ...tunnel.config, privateKey, publicKey }, tunnel.wgQuick);
+      await this.clearPendingKey(tunnel.name);
+      if ((await this.getStatus(tunnel.name)).active) {
+        await this.restart(tunnel.name);
+      }
+    }
+    return due.map(t => t.name);
+  }
+
+  private async clearPendingKey(name: string): Promise<void> {
+    const tunnels = await this.loadStore();
+    await this.saveStore(tunnels.map(t => t.name === name ? { ...t, pendingKey: undefined } : t));
+  }
+
+  /**
+   * Point the running tunnel at another endpoint of the same server. The
+   * wg-quick file is left alone, so a restart goes back to the usual endpoint.
+   */
+  async setEndpoint(name: string, endpoint: string): Promise<void> {
+    const tunnel = await this.getTunnel(name);
+    if (!tunnel) {
+      throw new Error(`Tunnel '${name}' not found`);
+    }
+    await this.backend.run('sudo', ['wg', 'set', name, 'peer', tunnel.config.peerPublicKey, 'endpoint', endpoint]);
+  }
+
+  /**
+   * Create (or replace) a tunnel and bring it up
+   */
+  async setup(name: string, options: WireGuardClientOptions): Promise<{ success: boolean; config?: WireGuardConfig; errors?: string[] }> {
+    const errors = validateClientOptions(options);
+    if (!isTunnelName(name)) {
+      errors.unshift('Tunnel name must be up to 15 letters, digits or _=+.-');
+    }
+    if (errors.length > 0) {
+      return { success: false, errors };
+    }
+
     try {
       // Generate keys if not provided
-      const keys = options.privateKey ? 
+      const keys = options.privateKey ?
         { privateKey: options.privateKey, publicKey: await this.getPublicKey(options.privateKey) } :
         await this.generateKeys();
 
-      // Get a free IP from the allowed range
-      const baseIP = options.allowedIPs[0].split('/')[0];
-      const subnet = parseInt(options.allowedIPs[0].split('/')[1]) || 24;
-      const ip = await this.getFreeIP(baseIP, subnet);
-
       const config: WireGuardConfig = {
         privateKey: keys.privateKey,
         publicKey: keys.publicKey,
-        address: ip,
+        address: options.address,
+        dns: options.dns,
+        mtu: options.mtu,
+        peerPublicKey: options.peerPublicKey,
+        presharedKey: options.presharedKey,
         endpoint: options.endpoint,
         allowedIPs: options.allowedIPs,
-        dns: options.dns,
-        persistentKeepalive: 25
+        persistentKeepalive: options.persistentKeepalive ?? 25
       };
+      // A replaced tunnel keeps carrying the traffic policy routing sends it
+      const existing = await this.getTunnel(name);
+      if (existing && policyTable(existing.config) !== undefined) {
+        config.table = existing.config.table;
+      }
 
-      const confContent = `[Interface]
-PrivateKey = ${keys.privateKey}
-Address = ${ip}
-${options.dns ? `DNS = ${options.dns}` : ''}
-ListenPort = ${options.listenPort || 51820}
-
-[Peer]
-PublicKey = ${keys.publicKey}
-AllowedIPs = ${options.allowedIPs.join(', ')}
-Endpoint = ${options.endpoint}
-PersistentKeepalive = 25`;
-
-      await executeCommand(`echo "${confContent}" | sudo tee /etc/wireguard/wg0.conf > /dev/null`);
-      await executeCommand('sudo chmod 600 /etc/wireguard/wg0.conf');
-      await executeCommand('sudo systemctl enable wg-quick@wg0');
-      await executeCommand('sudo systemctl start wg-quick@wg0');
+      await this.saveTunnel(name, config);
+      // A key rotated in for the old settings no longer applies
+      await this.clearPendingKey(name);
+      await this.backend.run('sudo', ['systemctl', 'enable', `wg-quick@${name}`]);
+      await this.backend.run('sudo', ['systemctl', 'restart', `wg-quick@${name}`]);
 
       return {
         success: true,
         config
       };
     } catch (error) {
-      console.error('Failed to setup WireGuard:', error);
+      console.error(`Failed to setup WireGuard tunnel ${name}:`, error);
       return { success: false };
     }
   }
 
-  async getStatus(): Promise<WireGuardStatus> {
-    try {
-      const { stdout } = await executeCommand('sudo wg show wg0');
-      if (!stdout) {
-        return { active: false };
-      }
+  /**
+   * Stop a tunnel and delete it along with its wg-quick file
+   */
+  async removeTunnel(name: string): Promise<boolean> {
+    const tunnels = await this.loadStore();
+    if (!tunnels.some(t => t.name === name)) {
+      return false;
+    }
+    await this.stop(name);
+    await this.backend.run('sudo', ['rm', '-f', confPath(name)]);
+    await this.saveStore(tunnels.filter(t => t.name !== name));
+    return true;
+  }
 
-      const lines = stdout.split('\n');
-      const status: WireGuardStatus = { active: true };
-
-      lines.forEach(line => {
-        const [key, value] = line.split(':').map(s => s.trim());
-        switch(key) {
-          case 'public key':
-            status.publicKey = value;
-            break;
-          case 'endpoint':
-            status.endpoint = value;
-            break;
-          case 'transfer':
-            const [rx, tx] = value.split('received,').map(s => s.trim());
-            status.transferRx = rx.replace('received', '').trim();
-            status.transferTx = tx.replace('sent', '').trim();
-            break;
-          case 'latest handshake':
-            status.lastHandshake = value;
-            break;
-        }
-      });
+  /**
+   * Live state of a tunnel and each of its peers
+   */
+  async getStatus(name: string): Promise<WireGuardStatus> {
+    const status: WireGuardStatus = { name, active: false, transferRx: 0, transferTx: 0, peers: [] };
+    let stdout: string;
+    try {
+      ({ stdout } = await this.backend.run('sudo', ['wg', 'show', name, 'dump']));
+    } catch {
+      return status;
+    }
 
+    const [header, ...peerLines] = stdout.split('\n').filter(l => l.trim());
+    if (!header) {
       return status;
-    } catch {
-      return { active: false };
     }
+    const [, publicKey, listenPort] = header.split('\t');
+    status.active = true;
+    status.publicKey = publicKey;
+    status.listenPort = parseInt(listenPort, 10) || undefined;
+
+    for (const line of peerLines) {
+      const [peerKey, , endpoint, allowedIPs, handshake, rx, tx] = line.split('\t');
+      const seconds = parseInt(handshake, 10) || 0;
+      const peer: WireGuardPeerState = {
+        publicKey: peerKey,
+        endpoint: endpoint && endpoint !== '(none)' ? endpoint : undefined,
+        allowedIPs: allowedIPs && allowedIPs !== '(none)' ? allowedIPs.split(',') : [],
+        latestHandshake: seconds > 0 ? new Date(seconds * 1000) : undefined,
+        transferRx: parseInt(rx, 10) || 0,
+        transferTx: parseInt(tx, 10) || 0
+      };
+      status.peers.push(peer);
+      status.transferRx += peer.transferRx;
+      status.transferTx += peer.transferTx;
+    }
+    return status;
+  }
+
+  /**
+   * Whether the tunnel comes up at boot; stopping a tunnel turns this off
+   */
+  async isEnabled(name: string): Promise<boolean> {
+    const { stdout } = await this.backend.run('systemctl', ['is-enabled', `wg-quick@${name}`], { throwOnError: false });
+    return stdout.trim() === 'enabled';
   }
 
-  async stop(): Promise<boolean> {
+  /**
+   * Take a tunnel down and up again, re-resolving its endpoint
+   */
+  async restart(name: string): Promise<boolean> {
+    try {
+      await this.backend.run('sudo', ['systemctl', 'restart', `wg-quick@${name}`]);
+      return true;
+    } catch (error) {
+      console.error(`Failed to restart WireGuard tunnel ${name}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Take a tunnel down; unless told otherwise it also stops coming up at boot
+   */
+  async stop(name: string, options: { disable?: boolean } = {}): Promise<boolean> {
     try {
       // More robust approach to stopping WireGuard
       // First check if the service is active
-      const { stdout: status } = await executeCommand('systemctl is-active wg-quick@wg0', false);
+      const { stdout: status } = await this.backend.run('systemctl', ['is-active', `wg-quick@${name}`], { throwOnError: false });
       
       if (status.trim() === 'active') {
-        await executeCommand('sudo systemctl stop wg-quick@wg0');
-        await executeCommand('sudo systemctl disable wg-quick@wg0');
+        await this.backend.run('sudo', ['systemctl', 'stop', `wg-quick@${name}`]);
+        if (options.disable !== false) {
+          await this.backend.run('sudo', ['systemctl', 'disable', `wg-quick@${name}`]);
+        }
       } else {
         // If service is not active, try to bring down the interface directly
         try {
-          await executeCommand('sudo ip link del dev wg0', false);
+          await this.backend.run('sudo', ['ip', 'link', 'del', 'dev', name], { throwOnError: false });
         } catch {
           // Interface might not exist, which is fine
         }
@@ -146,11 +430,11 @@ PersistentKeepalive = 25`;
       
       // Verify that the interface is gone
       try {
-        const { stdout: ifaceCheck } = await executeCommand('ip a show wg0', false);
+        const { stdout: ifaceCheck } = await this.backend.run('ip', ['a', 'show', name], { throwOnError: false });
         if (ifaceCheck.trim()) {
           // If interface still exists, try to force it down
-          await executeCommand('sudo ip link set wg0 down');
-          await executeCommand('sudo ip link del dev wg0');
+          await this.backend.run('sudo', ['ip', 'link', 'set', name, 'down']);
+          await this.backend.run('sudo', ['ip', 'link', 'del', 'dev', name]);
         }
       } catch {
         // Interface doesn't exist, which is what we want
@@ -158,36 +442,40 @@ PersistentKeepalive = 25`;
       
       return true;
     } catch (error) {
-      console.error('Failed to stop WireGuard:', error);
+      console.error(`Failed to stop WireGuard tunnel ${name}:`, error);
       return false;
     }
   }
 
-  async startVPN(): Promise<boolean> {
+  /**
+   * Bring a tunnel up; unless told otherwise it also comes up at boot from now on
+   */
+  async start(name: string, options: { enable?: boolean } = {}): Promise<boolean> {
     try {
-      // Check if WireGuard is already running
-      const status = await this.getStatus();
+      // Check if the tunnel is already running
+      const status = await this.getStatus(name);
       if (status.active) {
-        console.log('WireGuard is already running');
+        console.log(`WireGuard tunnel ${name} is already running`);
         return true;
       }
 
       // Check if the config file exists
-      const { stdout: configExists } = await executeCommand('test -f /etc/wireguard/wg0.conf && echo "exists"', false);
-      if (!configExists.includes('exists')) {
-        console.error('WireGuard configuration file not found');
+      if (!(await this.backend.fileExists(confPath(name)))) {
+        console.error(`WireGuard configuration for tunnel ${name} not found`);
         return false;
       }
 
       // Start WireGuard
-      await executeCommand('sudo systemctl enable wg-quick@wg0');
-      await executeCommand('sudo systemctl start wg-quick@wg0');
+      if (options.enable !== false) {
+        await this.backend.run('sudo', ['systemctl', 'enable', `wg-quick@${name}`]);
+      }
+      await this.backend.run('sudo', ['systemctl', 'start', `wg-quick@${name}`]);
 
       // Verify it's running
-      const { stdout: serviceStatus } = await executeCommand('systemctl is-active wg-quick@wg0', false);
+      const { stdout: serviceStatus } = await this.backend.run('systemctl', ['is-active', `wg-quick@${name}`], { throwOnError: false });
       return serviceStatus.trim() === 'active';
     } catch (error) {
-      console.error('Failed to start WireGuard:', error);
+      console.error(`Failed to start WireGuard tunnel ${name}:`, error);
       return false;
     }
   }
@@ -1,9 +1,13 @@
 import blessed from 'blessed';
 import { NetworkControl } from './services/network-control.service';
 import { WireGuardStatus } from './interfaces/wireguard.interface';
-import { getPublicIp } from './utils/display.util';
-import { executeCommand } from './utils/command.util';
-import { WiFiNetwork } from './interfaces/wifi.interface';
+import { KillSwitchState } from './services/kill-switch.service';
+import { UsageReport } from './interfaces/usage.interface';
+import { getPublicIp, formatAge, formatNetworkEvent, formatUplinkKind } from './utils/display.util';
+import { runCommand } from './utils/command.util';
+import { formatBytes } from './utils/size.util';
+import { HotspotOptions, WiFiNetwork } from './interfaces/wifi.interface';
+import { channelsForBand, formatHotspotOptions, HOTSPOT_BANDS, HOTSPOT_CHANNEL_WIDTHS, HOTSPOT_SECURITY_MODES, validateHotspotOptions } from './utils/hotspot.util';
 
 // Helper function for smart truncation
 function smartTruncateTagAware(text: string, maxLength: number): string {
@@ -52,11 +56,15 @@ interface StatusData {
     macAddress?: string;
     interfaceName?: string;
     publicIp?: string;
-    vpnDetails?: WireGuardStatus;
+    vpnDetails?: WireGuardStatus[];
+    killSwitch?: KillSwitchState & { tunnelUp: boolean };
     pingGatewayOk?: boolean;
     pingInternetOk?: boolean;
 }
 
+// blessed keeps a list's highlighted index in `selected`, which its typings leave out
+type SelectableList = blessed.Widgets.ListElement & { selected: number };
+
 // --- Main Application TUI ---
 
 let screen: blessed.Widgets.Screen | null = null;
@@ -90,13 +98,32 @@ async function updateStatusHeader() {
     try {
         const status = await networkControl.getStatus();
         const vpn = await networkControl.getWireGuardStatus();
+        const setip = await networkControl.getSetipStatus().catch(() => undefined);
+        const uplinks = await networkControl.getUplinks().catch(() => []);
+        const hotspot = await networkControl.getHotspotStatus().catch(() => undefined);
         const rawPubIp = await getPublicIp();
-        const pubIp = rawPubIp !== 'Not available' ? rawPubIp : 'N/A';
+        let pubIp = rawPubIp !== 'Not available' ? rawPubIp : 'N/A';
+        if (setip?.connected && setip.publicIp) {
+            // The address setip.io assigned is the one others reach the Pi at
+            const name = setip.subdomains[0]?.fqdn;
+            pubIp = `${setip.publicIp} (setip.io${name ? `: ${name}` : ''})`;
+        }
 
         let fullHeaderText = `Interface: {yellow-fg}${status.interfaceName || 'N/A'}{/yellow-fg} | Mode: {cyan-fg}${status.mode}{/cyan-fg} | `;
         fullHeaderText += `Status: ${status.connected ? `{green-fg}Connected (${status.ssid || 'N/A'}){/green-fg}` : '{red-fg}Disconnected{/red-fg}'} | `;
+        if (hotspot?.connected && hotspot.interfaceName !== status.interfaceName) {
+            // Hotspot on a second radio while this one stays joined upstream
+            fullHeaderText += `Hotspot: {yellow-fg}${hotspot.ssid} on ${hotspot.interfaceName}{/yellow-fg} | `;
+        }
+        const activeUplink = uplinks.find(u => u.active);
+        if (activeUplink) {
+            const standby = uplinks.filter(u => u.up && !u.disabled && !u.active).map(u => u.interfaceName);
+            fullHeaderText += `Uplink: {green-fg}${activeUplink.interfaceName} (${formatUplinkKind(activeUplink.kind)}){/green-fg}`;
+            fullHeaderText += standby.length > 0 ? ` standby: {yellow-fg}${standby.join(', ')}{/yellow-fg} | ` : ' | ';
+        }
         fullHeaderText += `Public IP: {magenta-fg}${pubIp}{/magenta-fg} | `;
-        fullHeaderText += `VPN: ${vpn.active ? '{green-fg}Active{/green-fg}' : '{red-fg}Inactive{/red-fg}'}`;
+        const activeTunnels = vpn.filter(t => t.active).map(t => t.name);
+        fullHeaderText += `VPN: ${activeTunnels.length > 0 ? `{green-fg}${activeTunnels.join(', ')}{/green-fg}` : '{red-fg}Inactive{/red-fg}'}`;
 
         // Get the effective content width of the box
         const maxWidth = statusHeaderBox.iwidth as number;
@@ -175,6 +202,184 @@ function clearInteractionPane() {
     screen.render();
 }
 
+/**
+ * Ask for a line of text in the interaction pane
+ * @returns The answer, or undefined when cancelled with escape
+ */
+function promptText(label: string, options: { censor?: boolean; initial?: string } = {}): Promise<string | undefined> {
+    return new Promise(resolve => {
+        if (!interactionPane || !screen) return resolve(undefined);
+        const input = blessed.textbox({
+            parent: interactionPane,
+            top: 0,
+            left: 0,
+            width: '100%',
+            height: 3,
+            label: ` ${label} `,
+            border: { type: 'line' },
+            style: { fg: 'white', border: { fg: 'green' } },
+            censor: !!options.censor,
+            inputOnFocus: true,
+        });
+        if (options.initial) input.setValue(options.initial);
+        input.on('submit', (value: string) => {
+            input.destroy();
+            resolve(value);
+        });
+        input.on('cancel', () => {
+            input.destroy();
+            resolve(undefined);
+        });
+        input.focus();
+        screen.render();
+    });
+}
+
+/**
+ * Let the user pick one of the items in the interaction pane
+ * @returns Index of the chosen item, or undefined when cancelled
+ */
+function promptChoice(label: string, items: string[]): Promise<number | undefined> {
+    return new Promise(resolve => {
+        if (!interactionPane || !screen) return resolve(undefined);
+        const list = blessed.list({
+            parent: interactionPane,
+            top: 0,
+            left: 0,
+            width: '100%',
+            height: '100%',
+            label: ` ${label} `,
+            items,
+            keys: true,
+            vi: true,
+            mouse: true,
+            tags: true,
+            style: {
+                fg: 'white',
+                selected: { bg: 'blue', fg: 'white', bold: true },
+                item: { hover: { bg: 'green' } }
+            },
+            border: { type: 'line' },
+            scrollbar: { ch: ' ', track: { bg: 'cyan' } },
+        });
+        list.select(0);
+        list.on('select', (_item: blessed.Widgets.BlessedElement, index: number) => {
+            list.destroy();
+            resolve(index);
+        });
+        list.key(['escape', 'left'], () => {
+            list.destroy();
+            resolve(undefined);
+        });
+        list.focus();
+        screen.render();
+    });
+}
+
+/**
+ * Walk through the hotspot settings one step at a time, then start it
+ */
+async function runHotspotWizard(nc: NetworkControl): Promise<void> {
+    if (!interactionPane || !screen) return;
+    interactionPane.setLabel(' Start Hotspot ');
+    interactionPane.setContent('');
+
+    const cancelled = () => {
+        showMessageInInteractionPane('Start Hotspot', 'Hotspot setup cancelled.', 'info');
+        mainMenuList?.focus();
+    };
+    const automatic = '{grey-fg}Automatic{/grey-fg}';
+
+    const ssid = (await promptText('Hotspot SSID'))?.trim();
+    if (!ssid) return cancelled();
+    const password = await promptText('Password (8-63 characters)', { censor: true });
+    if (password === undefined) return cancelled();
+
+    const radios = (await nc.getInterfaceStatuses().catch(() => [])).map(r => r.interfaceName).filter((name): name is string => !!name);
+    let interfaceName: string | undefined;
+    if (radios.length > 1) {
+        const radio = await promptChoice('Radio', [automatic, ...radios]);
+        if (radio === undefined) return cancelled();
+        interfaceName = radio > 0 ? radios[radio - 1] : undefined;
+    }
+
+    const options: HotspotOptions = {};
+    const band = await promptChoice('Band', [automatic, ...HOTSPOT_BANDS]);
+    if (band === undefined) return cancelled();
+    options.band = band > 0 ? HOTSPOT_BANDS[band - 1] : undefined;
+
+    if (options.band) {
+        const channels = channelsForBand(options.band);
+        const channel = await promptChoice('Channel', [automatic, ...channels.map(String)]);
+        if (channel === undefined) return cancelled();
+        options.channel = channel > 0 ? channels[channel - 1] : undefined;
+
+        const widths = HOTSPOT_CHANNEL_WIDTHS.filter(w => w !== 80 || options.band === '5GHz');
+        const width = await promptChoice('Channel width', [automatic, ...widths.map(w => `${w} MHz`)]);
+        if (width === undefined) return cancelled();
+        options.channelWidth = width > 0 ? widths[width - 1] : undefined;
+    }
+
+    const securityLabels = ['WPA2', 'WPA3 (newer devices only)', 'WPA2 with optional PMF'];
+    const security = await promptChoice('Security', securityLabels);
+    if (security === undefined) return cancelled();
+    options.security = HOTSPOT_SECURITY_MODES[security];
+
+    const hidden = await promptChoice('Broadcast the SSID?', ['Yes', 'No, hidden network']);
+    if (hidden === undefined) return cancelled();
+    options.hidden = hidden === 1 || undefined;
+
+    const isolation = await promptChoice('Client isolation', ['Off, clients can reach each other', 'On, clients only reach the internet']);
+    if (isolation === undefined) return cancelled();
+    options.isolation = isolation === 1 || undefined;
+
+    const country = await promptText('Country code, e.g. DE (blank to keep the current one)');
+    if (country === undefined) return cancelled();
+    options.country = country.trim() || undefined;
+
+    const maxClients = await promptText('Client limit (blank for none)');
+    if (maxClients === undefined) return cancelled();
+    options.maxClients = maxClients.trim() ? parseInt(maxClients, 10) : undefined;
+
+    const saveAs = await promptText('Save as profile (blank to skip)');
+    if (saveAs === undefined) return cancelled();
+
+    let validated: HotspotOptions;
+    try {
+        validated = validateHotspotOptions(options);
+    } catch (error) {
+        showMessageInInteractionPane('Start Hotspot', (error as Error).message, 'error');
+        mainMenuList?.focus();
+        return;
+    }
+
+    const summary = formatHotspotOptions(validated);
+    showMessageInInteractionPane('Start Hotspot', `Starting "${ssid}"${interfaceName ? ` on ${interfaceName}` : ''}${summary ? ` (${summary})` : ''}...`, 'info');
+    const started = await nc.startHotspot(ssid, password, { ...validated, interfaceName });
+    if (!started) {
+        showMessageInInteractionPane('Start Hotspot', 'Failed to start the hotspot. Check the password (8-63 characters) and that the radio supports the chosen band and channel.', 'error');
+        mainMenuList?.focus();
+        return;
+    }
+
+    const hotspot = await nc.getHotspotStatus().catch(() => undefined);
+    const lines = [`Hotspot "${ssid}" is running${hotspot?.interfaceName ? ` on ${hotspot.interfaceName}` : ''}.`];
+    if (hotspot?.ipAddress) lines.push(`Address: ${hotspot.ipAddress.split('/')[0]}`);
+    if (summary) lines.push(`Settings: ${summary}`);
+    if (saveAs.trim()) {
+        try {
+            await nc.saveCurrentSetup(saveAs.trim(), hotspot?.interfaceName, validated);
+            lines.push(`Saved as "${saveAs.trim()}".`);
+        } catch (error) {
+            lines.push(`{red-fg}Could not save the profile: ${(error as Error).message}{/red-fg}`);
+        }
+    }
+    logBox?.log(`{green-fg}Hotspot ${ssid} started{/green-fg}`);
+    showMessageInInteractionPane('Start Hotspot', lines.join('\n'), 'success');
+    updateStatusHeader();
+    mainMenuList?.focus();
+}
+
 async function handleMenuSelection(item: blessed.Widgets.BlessedElement, index: number) {
     const selectedOption = mainMenuItems[index];
     if (!interactionPane || !screen || !networkControl || !logBox) return;
@@ -257,14 +462,102 @@ async function handleMenuSelection(item: blessed.Widgets.BlessedElement, index:
             process.exit(0);
             break;
 
+        case 'Connected Devices':
+            interactionPane.setLabel(' Connected Devices ');
+            interactionPane.setContent('Loading devices... please wait.');
+            screen.render();
+            try {
+                let devices = await networkControl.getDeviceInventory();
+                let pending = new Set((await networkControl.getPendingDevices()).map(d => d.mac));
+                if (devices.length === 0) {
+                    interactionPane.setContent('No devices have connected to the hotspot yet.');
+                } else {
+                    const describeDevices = (): string[] => devices.map(d => {
+                        const state = d.online ? '{green-fg}● online{/green-fg} ' : '{grey-fg}○ offline{/grey-fg}';
+                        const name = d.label || d.hostname || 'Unknown device';
+                        const vendor = d.randomizedMac ? ' {grey-fg}random MAC{/grey-fg}' : (d.vendor ? ` {cyan-fg}${d.vendor}{/cyan-fg}` : '');
+                        const owner = d.owner ? ` [${d.owner}]` : '';
+                        const trust = d.blocked ? ' {red-fg}blocked{/red-fg}' : (d.trust === 'trusted' ? ' {green-fg}trusted{/green-fg}' : '');
+                        const waiting = pending.has(d.mac) ? ' {yellow-fg}awaiting approval{/yellow-fg}' : '';
+                        const seen = d.online ? `IP ${d.ip || 'N/A'}` : `last seen ${d.lastSeen ? new Date(d.lastSeen).toLocaleString() : 'N/A'}`;
+                        return `${state} ${name}${owner} (${d.mac})${vendor} ${seen}${trust}${waiting}`;
+                    });
+                    const online = devices.filter(d => d.online).length;
+                    const approvalHint = pending.size > 0 ? ` - ${pending.size} awaiting approval: a approve, t 4 hours, d deny` : '';
+                    interactionPane.setLabel(` Connected Devices (${online} online, ${devices.length - online} seen before)${approvalHint} `);
+                    const deviceList = blessed.list({
+                        parent: interactionPane,
+                        top: 0,
+                        left: 0,
+                        width: '100%',
+                        height: '100%',
+                        items: describeDevices(),
+                        keys: true,
+                        vi: true,
+                        mouse: true,
+                        tags: true,
+                        style: {
+                            fg: 'white',
+                            selected: { bg: 'blue', fg: 'white', bold: true },
+                            item: { hover: { bg: 'green' } }
+                        },
+                        border: { type: 'line' },
+                        scrollbar: { ch: ' ', track: { bg: 'cyan' } },
+                    }) as SelectableList;
+                    deviceList.select(0);
+                    deviceList.focus();
+
+                    const decide = async (action: 'approve' | 'approve-timed' | 'deny') => {
+                        const device = devices[deviceList.selected];
+                        if (!device || !networkControl) return;
+                        try {
+                            if (action === 'deny') {
+                                await networkControl.denyDevice(device.mac);
+                                logBox?.log(`{red-fg}Denied ${device.mac}{/red-fg}`);
+                            } else {
+                                await networkControl.approveDevice(device.mac, action === 'approve-timed' ? 4 : undefined);
+                                logBox?.log(`{green-fg}Approved ${device.mac}${action === 'approve-timed' ? ' for 4 hours' : ''}{/green-fg}`);
+                            }
+                            devices = await networkControl.getDeviceInventory();
+                            pending = new Set((await networkControl.getPendingDevices()).map(d => d.mac));
+                            deviceList.setItems(describeDevices());
+                        } catch (error) {
+                            logBox?.log(`{red-fg}Failed to update ${device.mac}: ${(error as Error).message}{/red-fg}`);
+                        }
+                        screen?.render();
+                    };
+                    deviceList.key(['a'], () => decide('approve'));
+                    deviceList.key(['t'], () => decide('approve-timed'));
+                    deviceList.key(['d'], () => decide('deny'));
+
+                    deviceList.key(['escape', 'left'], () => {
+                        deviceList.destroy();
+                        if (screen && interactionPane) {
+                            interactionPane.setContent('');
+                            interactionPane.setLabel(' Output ');
+                            if (mainMenuList) {
+                                mainMenuList.focus();
+                            }
+                            screen.render();
+                        }
+                    });
+                }
+            } catch (error) {
+                interactionPane.setContent(`{red-fg}Error loading devices: ${(error as Error).message}{/red-fg}`);
+            }
+            screen.render();
+            break;
+
+        case 'Start Hotspot':
+            await runHotspotWizard(networkControl);
+            break;
+
         case 'Connect to Network':
         case 'Disconnect from Current Network':
-        case 'Start Hotspot':
         case 'Stop Hotspot':
         case 'WireGuard VPN Management':
         case 'Network Configuration Management':
         case 'Network Diagnostics':
-        case 'Connected Devices':
         case 'Boot Configuration':
         case 'About WorkHive':
             showMessageInInteractionPane('Info', `Selected: ${selectedOption}
@@ -385,7 +678,24 @@ export async function launchMainTUI(nc: NetworkControl) {
     });
 
     await updateStatusHeader();
-    setInterval(updateStatusHeader, 5000);
+
+    // Refresh the header when something changes instead of polling; the slow timer catches public IP changes
+    const monitor = await networkControl.startEventMonitor();
+    monitor.on('event', event => {
+        updateStatusHeader();
+        if (logBox) {
+            logBox.log(formatNetworkEvent(event).replace(/\x1b\[[0-9;]*m/g, ''));
+            screen?.render();
+        }
+    });
+    monitor.on('client-joined', async event => {
+        const pending = await nc.getPendingDevices().catch(() => []);
+        if (logBox && pending.some(d => d.mac === event.mac)) {
+            logBox.log(`{yellow-fg}New device ${event.hostname || event.mac} is awaiting approval (Connected Devices: a approve, d deny){/yellow-fg}`);
+            screen?.render();
+        }
+    });
+    setInterval(updateStatusHeader, 60000);
 
     screen.render();
 
@@ -503,7 +813,9 @@ export async function showDynamicMultiPageStatusScreen(networkControlInstance: N
 
     let currentPage = 1;
     let currentStatusData: StatusData | null = null;
-    const refreshIntervalMs = 2000;
+    let currentUsage: { day: UsageReport; month: UsageReport } | null = null;
+    // Signal strength and pings still need a timer; state changes arrive as events
+    const refreshIntervalMs = 10000;
 
     function getOverviewContent(status: StatusData | null): string {
         if (!status) return '{center}Fetching data...{/center}';
@@ -518,24 +830,23 @@ export async function showDynamicMultiPageStatusScreen(networkControlInstance: N
 
         c += `VPN Status: `;
         if (status.vpnDetails) {
-            if (status.vpnDetails.active) {
-                c += `{green-fg}Active{/green-fg}`;
-                if (status.vpnDetails.endpoint) c += ` (Endpoint: ${status.vpnDetails.endpoint})`;
-                c += '\n';
+            const active = status.vpnDetails.filter(t => t.active);
+            if (active.length > 0) {
+                c += `{green-fg}Active{/green-fg} (${active.map(t => t.name).join(', ')})\n`;
             } else {
                 c += `{red-fg}Inactive{/red-fg}\n`;
             }
         } else {
             c += '{yellow-fg}Loading...{/yellow-fg}\n';
         }
-        c += '\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-5){/grey-fg}';
+        c += '\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-6){/grey-fg}';
         return c;
     }
 
     function getWifiDetailsContent(status: StatusData | null): string {
         if (!status) return '{center}Fetching data...{/center}';
         if (status.mode !== 'wifi' || !status.connected) {
-            return '{center}Not connected to Wi-Fi or Wi-Fi mode not active.\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-5){/grey-fg}{/center}';
+            return '{center}Not connected to Wi-Fi or Wi-Fi mode not active.\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-6){/grey-fg}{/center}';
         }
         let c = '{bold}Wi-Fi Details{/bold}\n\n';
         c += `SSID: {blue-fg}${status.ssid || 'N/A'}{/blue-fg}\n`;
@@ -543,21 +854,21 @@ export async function showDynamicMultiPageStatusScreen(networkControlInstance: N
         c += `Frequency: ${status.freq || 'N/A'}\n`;
         c += `Bitrate: ${status.bitrate || 'N/A'}\n`;
         c += `Security: ${status.security && status.security.length > 0 ? status.security.join(', ') : 'Open'}\n`;
-        c += '\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-5){/grey-fg}';
+        c += '\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-6){/grey-fg}';
         return c;
     }
 
     function getIpConfigContent(status: StatusData | null): string {
         if (!status) return '{center}Fetching data...{/center}';
         if (!status.connected) {
-            return '{center}Not connected.\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-5){/grey-fg}{/center}';
+            return '{center}Not connected.\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-6){/grey-fg}{/center}';
         }
         let c = '{bold}IP & MAC Configuration{/bold}\n\n';
         c += `IP Address: ${status.ipAddress || 'N/A'}\n`;
         c += `Gateway: ${status.gateway || 'N/A'}\n`;
         c += `MAC Address: ${status.macAddress || 'N/A'}\n`;
         c += `Interface Name: ${status.interfaceName || 'N/A'}\n`;
-        c += '\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-5){/grey-fg}';
+        c += '\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-6){/grey-fg}';
         return c;
     }
 
@@ -565,28 +876,68 @@ export async function showDynamicMultiPageStatusScreen(networkControlInstance: N
         if (!status) return '{center}Fetching data...{/center}';
         let c = '{bold}Connectivity Status{/bold}\n\n';
         if (!status.connected) {
-            return c + '{center}{yellow-fg}Device not connected to any network.\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-5){/grey-fg}{/yellow-fg}{/center}';
+            return c + '{center}{yellow-fg}Device not connected to any network.\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-6){/grey-fg}{/yellow-fg}{/center}';
         }
         c += `Gateway Reachable: ${status.pingGatewayOk ? '{green-fg}Yes{/green-fg}' : '{red-fg}No{/red-fg}'} (Ping to ${status.gateway || 'N/A'})\n`;
         c += `Internet Reachable: ${status.pingInternetOk ? '{green-fg}Yes{/green-fg}' : '{red-fg}No{/red-fg}'} (Ping to 8.8.8.8)\n`;
         c += `Public IP Address: {magenta-fg}${status.publicIp || (status.pingInternetOk ? 'Resolving...' : 'N/A')}{/magenta-fg}\n`;
-        c += '\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-5){/grey-fg}';
+        c += '\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-6){/grey-fg}';
         return c;
     }
 
     function getVpnDetailsContent(status: StatusData | null): string {
-        if (!status || !status.vpnDetails) return '{center}Fetching VPN data...\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-5){/grey-fg}{/center}';
+        if (!status || !status.vpnDetails) return '{center}Fetching VPN data...\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-6){/grey-fg}{/center}';
         let c = '{bold}WireGuard VPN Details{/bold}\n\n';
-        const vpn = status.vpnDetails;
-        c += `Status: ${vpn.active ? '{green-fg}Active{/green-fg}' : '{red-fg}Inactive{/red-fg}'}\n`;
-        if (vpn.active) {
-            c += `Public Key: ${vpn.publicKey || 'N/A'}\n`;
-            c += `Endpoint: ${vpn.endpoint || 'N/A'}\n`;
-            c += `Latest Handshake: ${vpn.lastHandshake || 'N/A'}\n`;
-            c += `Transfer RX: ${vpn.transferRx || 'N/A'}\n`;
-            c += `Transfer TX: ${vpn.transferTx || 'N/A'}\n`;
+        const killSwitch = status.killSwitch;
+        if (killSwitch?.armed) {
+            const via = `${killSwitch.interfaceName} clients via ${killSwitch.tunnels.join(', ')}`;
+            c += killSwitch.tunnelUp
+                ? `Kill Switch: {green-fg}Armed{/green-fg} (${via})\n\n`
+                : `Kill Switch: {red-fg}Armed, blocking - tunnel down{/red-fg} (${via})\n\n`;
+        } else {
+            c += 'Kill Switch: {yellow-fg}Off{/yellow-fg}\n\n';
+        }
+        if (status.vpnDetails.length === 0) {
+            c += 'No tunnels configured.\n';
+        }
+        for (const vpn of status.vpnDetails) {
+            c += `{bold}${vpn.name}{/bold}: ${vpn.active ? '{green-fg}Active{/green-fg}' : '{red-fg}Inactive{/red-fg}'}\n`;
+            if (vpn.active) {
+                c += `  Public Key: ${vpn.publicKey || 'N/A'}\n`;
+                c += `  Transfer RX: ${formatBytes(vpn.transferRx)}  TX: ${formatBytes(vpn.transferTx)}\n`;
+                for (const peer of vpn.peers) {
+                    c += `  Peer ${peer.publicKey.substring(0, 12)}…  ${peer.endpoint || 'no endpoint'}  `;
+                    c += `handshake ${peer.latestHandshake ? formatAge(peer.latestHandshake) : 'never'}\n`;
+                }
+            }
+            c += '\n';
+        }
+        c += '\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-6){/grey-fg}';
+        return c;
+    }
+
+    function getUsageContent(usage: { day: UsageReport; month: UsageReport } | null): string {
+        if (!usage) return '{center}Fetching usage data...\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-6){/grey-fg}{/center}';
+        let c = '{bold}Data Usage{/bold}\n';
+        for (const report of [usage.day, usage.month]) {
+            c += `\n{underline}${report.period === 'day' ? 'Today' : 'This month'} (${report.key}){/underline}\n`;
+            if (report.entries.length === 0) {
+                c += '{grey-fg}No traffic recorded{/grey-fg}\n';
+            }
+            for (const e of report.entries) {
+                const name = e.label || e.target;
+                c += `${e.scope.padEnd(9)} ${name.padEnd(20)} {cyan-fg}↓ ${formatBytes(e.download).padEnd(10)}{/cyan-fg} {magenta-fg}↑ ${formatBytes(e.upload).padEnd(10)}{/magenta-fg}\n`;
+            }
+        }
+        const quotas = usage.month.quotas;
+        if (quotas.length > 0) {
+            c += '\n{underline}Quotas{/underline}\n';
+            for (const { quota, used, exceeded } of quotas) {
+                const line = `${quota.scope} ${quota.target}: ${formatBytes(used)} of ${formatBytes(quota.limitBytes)} per ${quota.period} (${quota.action})`;
+                c += exceeded ? `{red-fg}${line} - used up{/red-fg}\n` : `${line}\n`;
+            }
         }
-        c += '\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-5){/grey-fg}';
+        c += '\n\n{grey-fg}Navigate: Left/Right Arrows or Number Keys (1-6){/grey-fg}';
         return c;
     }
 
@@ -597,23 +948,27 @@ export async function showDynamicMultiPageStatusScreen(networkControlInstance: N
         switch (currentPage) {
             case 1:
                 contentToDisplay = getOverviewContent(currentStatusData);
-                headerContent = '{center}[1: Overview]  2: Wi-Fi  3: IP/MAC  4: Conn  5: VPN  | <- Prev | Next -> | Q: Quit{/center}';
+                headerContent = '{center}[1: Overview]  2: Wi-Fi  3: IP/MAC  4: Conn  5: VPN  6: Usage  | <- Prev | Next -> | Q: Quit{/center}';
                 break;
             case 2:
                 contentToDisplay = getWifiDetailsContent(currentStatusData);
-                headerContent = '{center}1: Overview  [2: Wi-Fi]  3: IP/MAC  4: Conn  5: VPN  | <- Prev | Next -> | Q: Quit{/center}';
+                headerContent = '{center}1: Overview  [2: Wi-Fi]  3: IP/MAC  4: Conn  5: VPN  6: Usage  | <- Prev | Next -> | Q: Quit{/center}';
                 break;
             case 3:
                 contentToDisplay = getIpConfigContent(currentStatusData);
-                headerContent = '{center}1: Overview  2: Wi-Fi  [3: IP/MAC]  4: Conn  5: VPN  | <- Prev | Next -> | Q: Quit{/center}';
+                headerContent = '{center}1: Overview  2: Wi-Fi  [3: IP/MAC]  4: Conn  5: VPN  6: Usage  | <- Prev | Next -> | Q: Quit{/center}';
                 break;
             case 4:
                 contentToDisplay = getConnectivityContent(currentStatusData);
-                headerContent = '{center}1: Overview  2: Wi-Fi  3: IP/MAC  [4: Conn]  5: VPN  | <- Prev | Next -> | Q: Quit{/center}';
+                headerContent = '{center}1: Overview  2: Wi-Fi  3: IP/MAC  [4: Conn]  5: VPN  6: Usage  | <- Prev | Next -> | Q: Quit{/center}';
                 break;
             case 5:
                 contentToDisplay = getVpnDetailsContent(currentStatusData);
-                headerContent = '{center}1: Overview  2: Wi-Fi  3: IP/MAC  4: Conn  [5: VPN]  | <- Prev | Next -> | Q: Quit{/center}';
+                headerContent = '{center}1: Overview  2: Wi-Fi  3: IP/MAC  4: Conn  [5: VPN]  6: Usage  | <- Prev | Next -> | Q: Quit{/center}';
+                break;
+            case 6:
+                contentToDisplay = getUsageContent(currentUsage);
+                headerContent = '{center}1: Overview  2: Wi-Fi  3: IP/MAC  4: Conn  5: VPN  [6: Usage]  | <- Prev | Next -> | Q: Quit{/center}';
                 break;
             default:
                 contentToDisplay = '{red-fg}Invalid page.{/red-fg}';
@@ -632,7 +987,8 @@ export async function showDynamicMultiPageStatusScreen(networkControlInstance: N
 
     async function fetchDataAndRender() {
         let status: any;
-        let vpn: WireGuardStatus | undefined;
+        let vpn: WireGuardStatus[] | undefined;
+        let killSwitch: (KillSwitchState & { tunnelUp: boolean }) | undefined;
         let pubIp: string | undefined;
         let pingGatewayResult = false;
         let pingInternetResult = false;
@@ -640,26 +996,36 @@ export async function showDynamicMultiPageStatusScreen(networkControlInstance: N
         try {
             status = await networkControlInstance.getStatus();
             vpn = await networkControlInstance.getWireGuardStatus();
+            killSwitch = await networkControlInstance.getKillSwitchStatus();
             const rawPubIp = await getPublicIp();
             pubIp = rawPubIp !== 'Not available' ? rawPubIp : undefined;
 
             if (status && status.connected && status.gateway) {
                 try {
-                    await executeCommand(`ping -c 1 -W 1 ${status.gateway}`, false);
+                    await runCommand('ping', ['-c', '1', '-W', '1', status.gateway]);
                     pingGatewayResult = true;
                 } catch (e) { }
             }
             if (status && status.connected) {
                 try {
-                    await executeCommand(`ping -c 1 -W 1 8.8.8.8`, false);
+                    await runCommand('ping', ['-c', '1', '-W', '1', '8.8.8.8']);
                     pingInternetResult = true;
                 } catch (e) { }
             }
 
+            if (currentPage === 6) {
+                await networkControlInstance.sampleUsage();
+                currentUsage = {
+                    day: await networkControlInstance.getUsageReport('day'),
+                    month: await networkControlInstance.getUsageReport('month')
+                };
+            }
+
             currentStatusData = {
                 ...(status as StatusData),
                 publicIp: pubIp,
                 vpnDetails: vpn,
+                killSwitch,
                 pingGatewayOk: pingGatewayResult,
                 pingInternetOk: pingInternetResult,
             };
@@ -669,7 +1035,7 @@ export async function showDynamicMultiPageStatusScreen(networkControlInstance: N
                 connected: false,
                 mode: 'unknown',
                 publicIp: undefined,
-                vpnDetails: { active: false },
+                vpnDetails: [],
                 pingGatewayOk: false,
                 pingInternetOk: false,
             } as StatusData;
@@ -681,10 +1047,13 @@ export async function showDynamicMultiPageStatusScreen(networkControlInstance: N
     await fetchDataAndRender();
 
     const refreshTimer = setInterval(fetchDataAndRender, refreshIntervalMs);
+    const monitor = await networkControlInstance.startEventMonitor();
+    const onNetworkEvent = () => { fetchDataAndRender(); };
+    monitor.on('event', onNetworkEvent);
 
-    detailedStatusScreen.key(['1', '2', '3', '4', '5'], async (ch: string, key: { name: string }) => {
+    detailedStatusScreen.key(['1', '2', '3', '4', '5', '6'], async (ch: string, key: { name: string }) => {
         const newPage = parseInt(key.name);
-        if (newPage !== currentPage && [1, 2, 3, 4, 5].includes(newPage)) {
+        if (newPage !== currentPage && [1, 2, 3, 4, 5, 6].includes(newPage)) {
             currentPage = newPage;
             currentPageChanged = true;
             await fetchDataAndRender();
@@ -694,9 +1063,9 @@ export async function showDynamicMultiPageStatusScreen(networkControlInstance: N
     detailedStatusScreen.key(['left', 'right'], async (ch: string, key: { name: string }) => {
         let newPage = currentPage;
         if (key.name === 'left') {
-            newPage = currentPage > 1 ? currentPage - 1 : 5;
+            newPage = currentPage > 1 ? currentPage - 1 : 6;
         } else if (key.name === 'right') {
-            newPage = currentPage < 5 ? currentPage + 1 : 1;
+            newPage = currentPage < 6 ? currentPage + 1 : 1;
         }
         if (newPage !== currentPage) {
             currentPage = newPage;
@@ -707,6 +1076,7 @@ export async function showDynamicMultiPageStatusScreen(networkControlInstance: N
 
     detailedStatusScreen.key(['escape', 'q', 'C-c'], () => {
         clearInterval(refreshTimer);
+        monitor.off('event', onNetworkEvent);
         detailedStatusScreen.destroy();
     });
 
@@ -1,4 +1,4 @@
-import { exec } from 'child_process';
+import { exec, spawn } from 'child_process';
 
 /**
  * Execute a shell command
@@ -23,3 +23,155 @@ export async function executeCommand(
     });
   });
 }
+
+export interface RunCommandOptions {
+  /** Data written to the child's stdin (e.g. a private key for `wg pubkey`) */
+  input?: string;
+  /** Kill the process after this many milliseconds */
+  timeout?: number;
+  /** Abort the process when this signal fires */
+  signal?: AbortSignal;
+  /** Whether to reject on a non-zero exit code (defaults to true) */
+  throwOnError?: boolean;
+  /** Extra environment variables for the child */
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Error raised by runCommand. Carries the same fields as the errors produced by
+ * child_process.exec so existing error reporting keeps working.
+ */
+export class CommandError extends Error {
+  cmd: string;
+  stdout: string;
+  stderr: string;
+  code?: number;
+  killed: boolean;
+  signal: NodeJS.Signals | null;
+
+  constructor(message: string, details: {
+    cmd: string;
+    stdout: string;
+    stderr: string;
+    code?: number;
+    killed?: boolean;
+    signal?: NodeJS.Signals | null;
+  }) {
+    super(message);
+    this.name = 'CommandError';
+    this.cmd = details.cmd;
+    this.stdout = details.stdout;
+    this.stderr = details.stderr;
+    this.code = details.code;
+    this.killed = details.killed || false;
+    this.signal = details.signal || null;
+  }
+}
+
+/**
+ * Format a program and its arguments for log output. Arguments are quoted so
+ * the line can be read back, but it is never handed to a shell.
+ */
+export function formatCommand(program: string, args: string[] = []): string {
+  return [program, ...args]
+    .map(part => /^[\w@%+=:,./-]+$/.test(part) ? part : `'${part.replace(/'/g, `'\\''`)}'`)
+    .join(' ');
+}
+
+/**
+ * Run a program with an argument vector, without a shell.
+ * SSIDs, passwords and other untrusted values must be passed through `args`
+ * so they can never be interpreted as shell syntax.
+ * @param program The executable to run (resolved through PATH)
+ * @param args Arguments passed verbatim to the program
+ * @param options Stdin input, timeout, cancellation and error handling
+ * @returns Promise with trimmed stdout and stderr
+ */
+export async function runCommand(
+  program: string,
+  args: string[] = [],
+  options: RunCommandOptions = {}
+): Promise<{ stdout: string; stderr: string }> {
+  const { input, timeout, signal, throwOnError = true, env } = options;
+  const cmd = formatCommand(program, args);
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CommandError(`Command aborted: ${cmd}`, { cmd, stdout: '', stderr: '', killed: true }));
+      return;
+    }
+
+    const child = spawn(program, args, {
+      shell: false,
+      env: env ? { ...process.env, ...env } : process.env,
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let killed = false;
+    let settled = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const kill = () => {
+      if (!killed) {
+        killed = true;
+        child.kill('SIGTERM');
+      }
+    };
+    const onAbort = () => kill();
+
+    const finish = (error: CommandError | null) => {
+      if (settled) return;
+      settled = true;
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+
+      if (error && throwOnError) {
+        reject(error);
+      } else {
+        resolve({ stdout: stdout.trim(), stderr: stderr.trim() });
+      }
+    };
+
+    child.stdout.on('data', chunk => { stdout += chunk; });
+    child.stderr.on('data', chunk => { stderr += chunk; });
+
+    child.on('error', (err: NodeJS.ErrnoException) => {
+      stderr = stderr || err.message;
+      finish(new CommandError(`Command failed: ${cmd}\n${err.message}`, { cmd, stdout, stderr }));
+    });
+
+    child.on('close', (code, exitSignal) => {
+      if (code === 0 && !killed) {
+        finish(null);
+        return;
+      }
+      const reason = killed
+        ? (signal?.aborted ? 'aborted' : `timed out after ${timeout}ms`)
+        : `exited with code ${code}`;
+      const detail = stderr.trim() ? `\n${stderr.trim()}` : '';
+      finish(new CommandError(`Command failed: ${cmd} (${reason})${detail}`, {
+        cmd,
+        stdout: stdout.trim(),
+        stderr: stderr.trim(),
+        code: code === null ? undefined : code,
+        killed,
+        signal: exitSignal
+      }));
+    });
+
+    if (timeout && timeout > 0) {
+      timer = setTimeout(kill, timeout);
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    // Ignore EPIPE if the program exits before reading its input
+    child.stdin.on('error', () => undefined);
+    if (input !== undefined) {
+      child.stdin.end(input);
+    } else {
+      child.stdin.end();
+    }
+  });
+}
@@ -1,4 +1,12 @@
-import { executeCommand } from './command.util';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { NetworkBackendType } from '../interfaces/network-manager.interface';
+import { UsageQuota } from '../interfaces/usage.interface';
+import { KeyRotationSchedule } from '../interfaces/wireguard.interface';
+import { UplinkSettings } from '../interfaces/uplink.interface';
+import { HotspotOptions } from '../interfaces/wifi.interface';
+import { DhcpSettings } from '../interfaces/dhcp.interface';
+import { CaptivePortalSettings } from '../interfaces/portal.interface';
+import { createSystemBackend } from '../backends';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import * as os from 'os';
@@ -12,28 +20,125 @@ export interface NetworkConfig {
   dns?: string;
   createdDate: string;
   lastUsed?: string;
+  /** @deprecated Older profiles' switch for the single wg0 tunnel; see vpnTunnels */
   vpnEnabled?: boolean;
+  /** WireGuard tunnels to bring up after connecting to this network or starting this hotspot */
+  vpnTunnels?: string[];
+  /** Hotspot only: clients' traffic may leave only through vpnTunnels, never the raw uplink */
+  killSwitch?: boolean;
+  /** Hotspot only: split tunneling; traffic no rule matches uses the uplink */
+  routing?: RoutingRule[];
+  /** @deprecated Older profiles' on/off switch for a terms-only portal; see portal */
   captivePortal?: boolean;
+  /** Hotspot only: sign-in page new clients see before they get online */
+  portal?: CaptivePortalSettings;
   customDns?: {
     enabled: boolean;
     servers: string[];
   };
   deviceAuth?: {
+    /** Approval mode: unknown clients are quarantined until approved */
     enabled: boolean;
+    /** Permanently approved devices */
     allowedMacs?: string[];
+    /** Approvals that lapse at a set time */
+    timedApprovals?: DeviceApproval[];
   };
+  /** Hotspot bandwidth limits, applied with tc on the hotspot interface */
+  shaping?: TrafficShaping;
+  /** Hotspot only: band, channel, security and the other radio settings */
+  hotspot?: HotspotOptions;
+  /** Hotspot only: the DHCP server's network, pool, static leases and options */
+  dhcp?: DhcpSettings;
+}
+
+/**
+ * Tunnels a profile brings up; profiles from before named tunnels only had a
+ * flag for the single wg0 tunnel
+ */
+export function profileTunnels(config: NetworkConfig): string[] {
+  return config.vpnTunnels ?? (config.vpnEnabled ? ['wg0'] : []);
+}
+
+/**
+ * A profile's captive portal; older profiles only had a flag for a portal
+ * that asks to accept the terms
+ */
+export function profilePortal(config: NetworkConfig): CaptivePortalSettings | undefined {
+  return config.portal ?? (config.captivePortal ? { enabled: true, mode: 'terms' } : undefined);
+}
+
+export type RouteMatch = 'destination' | 'domain' | 'device';
+
+/**
+ * Sends matching hotspot traffic through a tunnel instead of the uplink
+ */
+export interface RoutingRule {
+  tunnel: string;
+  match: RouteMatch;
+  /** Network (CIDR or address), domain including its subdomains, or client MAC */
+  value: string;
+}
+
+export interface DeviceApproval {
+  mac: string;
+  approvedAt: string;
+  expiresAt: string;
+}
+
+export interface RateLimit {
+  /** Rate towards the client, e.g. "5mbit" */
+  download?: string;
+  /** Rate from the client */
+  upload?: string;
+}
+
+export interface DeviceRateLimit extends RateLimit {
+  mac: string;
+}
+
+export interface TrafficShaping extends RateLimit {
+  /** Queue flows fairly so one busy device cannot starve the others */
+  fairQueue?: boolean;
+  /** Caps for individual devices, within the hotspot-wide limit */
+  devices?: DeviceRateLimit[];
+}
+
+// Files in the config directory that are not network profiles
+const RESERVED_FILES = new Set(['default-config.json', 'settings.json', 'devices.json', 'oui.json', 'usage.json', 'wireguard-server.json', 'wireguard-tunnels.json', 'setip.json', 'ddns.json']);
+
+/**
+ * Application-wide settings, stored next to the network profiles
+ */
+export interface AppSettings {
+  networkBackend?: NetworkBackendType;
+  /** Data allowances checked by the usage accounting */
+  quotas?: UsageQuota[];
+  keyRotation?: KeyRotationSchedule;
+  /** Uplink priorities and health check */
+  uplinks?: UplinkSettings;
 }
 
 export class ConfigManager {
   private configDir: string;
   private dnsmasqConfigPath = '/etc/NetworkManager/dnsmasq.d/custom-dns.conf';
-  private dhcpConfigPath = '/etc/NetworkManager/dnsmasq.d/dhcp-options.conf';
+  // Read by the hotspot's dnsmasq, which NetworkManager starts with this conf-dir
+  private routingDnsmasqPath = '/etc/NetworkManager/dnsmasq-shared.d/workhive-routing.conf';
+  private hotspotDnsmasqPath = '/etc/NetworkManager/dnsmasq-shared.d/workhive-hotspot.conf';
   private defaultConfigPath: string;
+  private settingsPath: string;
+  private backend: SystemBackend;
 
-  constructor() {
+  constructor(backend: SystemBackend = createSystemBackend(), configDir?: string) {
     const homeDir = os.homedir() || '/home/pi';
-    this.configDir = path.join(homeDir, '.wifi_configs');
+    this.backend = backend;
+    this.configDir = configDir || process.env.WORKHIVE_CONFIG_DIR || path.join(homeDir, '.wifi_configs');
     this.defaultConfigPath = path.join(this.configDir, 'default-config.json');
+    this.settingsPath = path.join(this.configDir, 'settings.json');
+  }
+
+  getConfigDir(): string {
+    return this.configDir;
   }
 
   async init() {
@@ -62,7 +167,7 @@ export class ConfigManager {
     const configs: Array<{ id: string; config: NetworkConfig }> = [];
 
     for (const file of files) {
-      if (file.endsWith('.json')) {
+      if (file.endsWith('.json') && !RESERVED_FILES.has(file)) {
         const id = path.basename(file, '.json');
         const config = await this.loadConfig(id);
         if (config) {
@@ -102,7 +207,7 @@ export class ConfigManager {
 
   async deduplicateNetworkProfiles(): Promise<void> {
     // Get all connection profiles
-    const { stdout } = await executeCommand('nmcli -t -f NAME,TYPE connection');
+    const { stdout } = await this.backend.run('nmcli', ['-t', '-f', 'NAME,TYPE', 'connection']);
     const wifiProfiles = stdout.split('\n')
       .filter(line => line.includes(':802-11-wireless'))
       .map(line => line.split(':')[0]);
@@ -112,7 +217,7 @@ export class ConfigManager {
     
     for (const profile of wifiProfiles) {
       try {
-        const { stdout: ssid } = await executeCommand(`nmcli -g 802-11-wireless.ssid connection show "${profile}"`);
+        const { stdout: ssid } = await this.backend.run('nmcli', ['-g', '802-11-wireless.ssid', 'connection', 'show', profile]);
         if (ssid) {
           const profiles = profilesBySSID.get(ssid.trim()) || [];
           profiles.push(profile);
@@ -131,7 +236,7 @@ export class ConfigManager {
         const sortedProfiles = await Promise.all(
           profiles.map(async profile => {
             try {
-              const { stdout } = await executeCommand(`nmcli -g timestamp connection show "${profile}"`);
+              const { stdout } = await this.backend.run('nmcli', ['-g', 'connection.timestamp', 'connection', 'show', profile]);
               return { profile, timestamp: parseInt(stdout.trim()) || 0 };
             } catch {
               return { profile, timestamp: 0 };
@@ -143,34 +248,145 @@ export class ConfigManager {
 
         // Keep the most recent, delete others
         for (const { profile } of sortedProfiles.slice(1)) {
-          await executeCommand(`sudo nmcli connection delete "${profile}"`);
+          await this.backend.run('sudo', ['nmcli', 'connection', 'delete', profile]);
         }
       }
     }
   }
 
-  async updateDeviceAuth(allowedMacs: string[]): Promise<void> {
-    // Update DHCP config to only allow specific MAC addresses
-    const config = allowedMacs.map(mac => `dhcp-host=${mac}`).join('\n');
-    await fs.writeFile(this.dhcpConfigPath, config, { encoding: 'utf-8' });
-    await executeCommand('sudo systemctl restart NetworkManager');
+  async updateDeviceAuth(id: string, deviceAuth: NetworkConfig['deviceAuth']): Promise<void> {
+    const config = await this.loadConfig(id);
+    if (!config) {
+      throw new Error(`Config '${id}' not found`);
+    }
+    config.deviceAuth = deviceAuth;
+    await this.saveConfig(id, config);
+  }
+
+  async updateShaping(id: string, shaping: TrafficShaping | undefined): Promise<void> {
+    const config = await this.loadConfig(id);
+    if (!config) {
+      throw new Error(`Config '${id}' not found`);
+    }
+    config.shaping = shaping;
+    await this.saveConfig(id, config);
+  }
+
+  async updateVpnTunnels(id: string, tunnels: string[]): Promise<void> {
+    const config = await this.loadConfig(id);
+    if (!config) {
+      throw new Error(`Config '${id}' not found`);
+    }
+    config.vpnTunnels = tunnels;
+    delete config.vpnEnabled;
+    await this.saveConfig(id, config);
+  }
+
+  async updateKillSwitch(id: string, killSwitch: boolean): Promise<void> {
+    const config = await this.loadConfig(id);
+    if (!config) {
+      throw new Error(`Config '${id}' not found`);
+    }
+    config.killSwitch = killSwitch;
+    await this.saveConfig(id, config);
+  }
+
+  async updateRouting(id: string, routing: RoutingRule[]): Promise<void> {
+    const config = await this.loadConfig(id);
+    if (!config) {
+      throw new Error(`Config '${id}' not found`);
+    }
+    config.routing = routing.length > 0 ? routing : undefined;
+    await this.saveConfig(id, config);
+  }
+
+  async updateHotspotOptions(id: string, options: HotspotOptions | undefined): Promise<void> {
+    const config = await this.loadConfig(id);
+    if (!config) {
+      throw new Error(`Config '${id}' not found`);
+    }
+    config.hotspot = options && Object.keys(options).length > 0 ? options : undefined;
+    await this.saveConfig(id, config);
+  }
+
+  async updateDhcp(id: string, dhcp: DhcpSettings | undefined): Promise<void> {
+    const config = await this.loadConfig(id);
+    if (!config) {
+      throw new Error(`Config '${id}' not found`);
+    }
+    config.dhcp = dhcp && Object.values(dhcp).some(value => value !== undefined && !(Array.isArray(value) && value.length === 0)) ? dhcp : undefined;
+    await this.saveConfig(id, config);
+  }
+
+  async updatePortal(id: string, portal: CaptivePortalSettings | undefined): Promise<void> {
+    const config = await this.loadConfig(id);
+    if (!config) {
+      throw new Error(`Config '${id}' not found`);
+    }
+    config.portal = portal;
+    delete config.captivePortal;
+    await this.saveConfig(id, config);
+  }
+
+  /**
+   * Cap the leases the hotspot's dnsmasq hands out. NetworkManager's access
+   * point has no station limit of its own, so this is what limits clients.
+   * @returns Whether the file changed
+   */
+  async updateHotspotLimits(maxClients: number | undefined): Promise<boolean> {
+    const config = maxClients !== undefined ? `dhcp-lease-max=${maxClients}\n` : '';
+    let current = '';
+    try {
+      current = await this.backend.readFile(this.hotspotDnsmasqPath);
+    } catch {
+      // Not written yet
+    }
+    if (current.trim() === config.trim()) {
+      return false;
+    }
+    await this.backend.writeFile(this.hotspotDnsmasqPath, config);
+    return true;
+  }
+
+  /**
+   * Have the hotspot's dnsmasq add the addresses it resolves for each domain
+   * to the given ipset. dnsmasq only reads this when it starts.
+   * @param sets Domains by ipset name
+   * @returns Whether the file changed
+   */
+  async updateDomainSets(sets: Record<string, string[]>): Promise<boolean> {
+    const config = Object.entries(sets)
+      .filter(([, domains]) => domains.length > 0)
+      .map(([set, domains]) => `ipset=/${domains.join('/')}/${set}\n`)
+      .join('');
+    let current = '';
+    try {
+      current = await this.backend.readFile(this.routingDnsmasqPath);
+    } catch {
+      // Not written yet
+    }
+    if (current.trim() === config.trim()) {
+      return false;
+    }
+    await this.backend.writeFile(this.routingDnsmasqPath, config);
+    return true;
   }
 
   async updateDnsConfig(servers: string[]): Promise<void> {
     // Update dnsmasq config with custom DNS servers
     const config = servers.map(server => `server=${server}`).join('\n');
-    await fs.writeFile(this.dnsmasqConfigPath, config, { encoding: 'utf-8' });
-    await executeCommand('sudo systemctl restart NetworkManager');
+    await this.backend.writeFile(this.dnsmasqConfigPath, config);
+    await this.backend.run('sudo', ['systemctl', 'restart', 'NetworkManager']);
   }
 
-  async setHairpinNAT(enable: boolean): Promise<void> {
+  async setHairpinNAT(enable: boolean, interfaceName = 'wlan0'): Promise<void> {
     // Enable/disable hairpin NAT for the hotspot
     if (enable) {
-      await executeCommand('sudo sysctl -w net.ipv4.conf.all.route_localnet=1');
-      await executeCommand('sudo iptables -t nat -A POSTROUTING -o wlan0 -j MASQUERADE');
+      await this.backend.run('sudo', ['sysctl', '-w', 'net.ipv4.conf.all.route_localnet=1']);
+      await this.backend.run('sudo', ['iptables', '-t', 'nat', '-A', 'POSTROUTING', '-o', interfaceName, '-j', 'MASQUERADE']);
     } else {
-      await executeCommand('sudo sysctl -w net.ipv4.conf.all.route_localnet=0');
-      await executeCommand('sudo iptables -t nat -D POSTROUTING -o wlan0 -j MASQUERADE');
+      await this.backend.run('sudo', ['sysctl', '-w', 'net.ipv4.conf.all.route_localnet=0']);
+      await this.backend.run('sudo', ['iptables', '-t', 'nat', '-D', 'POSTROUTING', '-o', interfaceName, '-j', 'MASQUERADE']);
     }
   }
 
@@ -180,13 +396,16 @@ export class ConfigManager {
     dhcpStatus: any;
     systemLogs?: string[];
   }> {
-    const networkStatus = await executeCommand('nmcli device status');
-    const dnsStatus = await executeCommand('cat /etc/resolv.conf');
-    const dhcpStatus = await executeCommand('ps aux | grep dnsmasq');
+    const networkStatus = await this.backend.run('nmcli', ['device', 'status']);
+    const dnsStatus = { stdout: await this.backend.readFile('/etc/resolv.conf') };
+    const processes = await this.backend.run('ps', ['aux']);
+    const dhcpStatus = {
+      stdout: processes.stdout.split('\n').filter(line => line.includes('dnsmasq')).join('\n')
+    };
     
     let systemLogs;
     if (deep) {
-      const { stdout } = await executeCommand('journalctl -u NetworkManager -n 100');
+      const { stdout } = await this.backend.run('journalctl', ['-u', 'NetworkManager', '-n', '100']);
       systemLogs = stdout.split('\n');
     }
 
@@ -215,4 +434,19 @@ export class ConfigManager {
       return null;
     }
   }
-}
\ No newline at end of file
+
+  async loadSettings(): Promise<AppSettings> {
+    try {
+      const data = await fs.readFile(this.settingsPath, 'utf-8');
+      return JSON.parse(data);
+    } catch {
+      return {};
+    }
+  }
+
+  async saveSettings(settings: AppSettings): Promise<void> {
+    await this.init();
+    const current = await this.loadSettings();
+    await fs.writeFile(this.settingsPath, JSON.stringify({ ...current, ...settings }, null, 2), 'utf-8');
+  }
+}
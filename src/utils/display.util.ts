@@ -1,5 +1,10 @@
 import * as qrcode from 'qrcode-terminal';
 import { executeCommand } from './command.util';
+import { NetworkEvent } from '../interfaces/network-event.interface';
+import { formatBytes } from './size.util';
+import { WireGuardConfig, WireGuardStatus } from '../interfaces/wireguard.interface';
+import { clientConfigToWg, formatWgConfig } from './wg-config.util';
+import { UplinkKind } from '../interfaces/uplink.interface';
 
 // ANSI color codes for terminal output
 export const colors = {
@@ -146,51 +151,112 @@ export function formatSectionHeader(title: string): string {
          '\n' + colorize(`└${line}┘`, 'cyan');
 }
 
+/**
+ * How long ago a moment was, e.g. "42s ago" or "3h ago"
+ */
+export function formatAge(date: Date, now = new Date()): string {
+  const seconds = Math.max(0, Math.floor((now.getTime() - date.getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
+
 /**
  * Format VPN status with appropriate icons and colors
- * @param status VPN status object
+ * @param tunnels Status of each WireGuard tunnel
  * @returns Array of formatted VPN status lines
  */
-export function formatVpnStatus(status: { 
-  active: boolean;
-  endpoint?: string;
-  transferRx?: string;
-  transferTx?: string;
-  lastHandshake?: string;
-}): string[] {
+export function formatVpnStatus(tunnels: WireGuardStatus[]): string[] {
   const lines: string[] = [];
   
-  if (!status.active) {
-    lines.push(formatStatusLine('VPN Status', 'Disconnected', 'vpnDisconnected', 'red'));
+  if (!tunnels.some(t => t.active)) {
+    lines.push(formatStatusLine('VPN Status', tunnels.length === 0 ? 'No tunnels configured' : 'Disconnected', 'vpnDisconnected', 'red'));
     return lines;
   }
   
-  lines.push(formatStatusLine('VPN Status', 'Connected', 'vpn', 'green'));
-  
-  if (status.endpoint) {
-    lines.push(formatStatusLine('Endpoint', status.endpoint, 'server'));
-  }
-  
-  if (status.transferRx) {
-    lines.push(formatStatusLine('Data Received', status.transferRx, undefined, 'cyan'));
+  for (const tunnel of tunnels) {
+    if (!tunnel.active) {
+      lines.push(formatStatusLine(`Tunnel ${tunnel.name}`, 'Down', 'vpnDisconnected', 'red'));
+      continue;
+    }
+    lines.push(formatStatusLine(`Tunnel ${tunnel.name}`, 'Up', 'vpn', 'green'));
+    lines.push(formatStatusLine('  Data Received', formatBytes(tunnel.transferRx), undefined, 'cyan'));
+    lines.push(formatStatusLine('  Data Sent', formatBytes(tunnel.transferTx), undefined, 'magenta'));
+    for (const peer of tunnel.peers) {
+      const handshake = peer.latestHandshake ? `handshake ${formatAge(peer.latestHandshake)}` : 'no handshake';
+      lines.push(formatStatusLine(`  Peer ${peer.publicKey.substring(0, 12)}…`, `${peer.endpoint || 'no endpoint'}, ${handshake}`, 'server'));
+    }
   }
   
-  if (status.transferTx) {
-    lines.push(formatStatusLine('Data Sent', status.transferTx, undefined, 'magenta'));
+  return lines;
+}
+
+/**
+ * Format the VPN kill switch state as a status line
+ */
+export function formatKillSwitch(state: { armed: boolean; interfaceName?: string; tunnels: string[]; tunnelUp: boolean }): string {
+  if (!state.armed) {
+    return formatStatusLine('Kill Switch', 'Off', 'vpnDisconnected', 'yellow');
   }
-  
-  if (status.lastHandshake) {
-    lines.push(formatStatusLine('Last Handshake', status.lastHandshake));
+  const via = `${state.interfaceName} clients via ${state.tunnels.join(', ')}`;
+  return state.tunnelUp
+    ? formatStatusLine('Kill Switch', `Armed (${via})`, 'vpn', 'green')
+    : formatStatusLine('Kill Switch', `Armed, blocking: tunnel down (${via})`, 'vpn', 'red');
+}
+
+/**
+ * Lay out rows as a plain-text table with a bold header
+ * @param headers Column titles
+ * @param rows Cell values, one array per row
+ * @returns Table as a single string
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  // Measure without color codes so colorized cells line up
+  const visibleLength = (text: string) => text.replace(/\x1b\[[0-9;]*m/g, '').length;
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => visibleLength(row[i] || ''))));
+  const pad = (cell: string, width: number) => cell + ' '.repeat(Math.max(0, width - visibleLength(cell)));
+  const line = (cells: string[]) => cells.map((cell, i) => pad(cell || '', widths[i])).join('  ').trimEnd();
+  return [colorize(line(headers), 'bold'), ...rows.map(line)].join('\n');
+}
+
+/**
+ * Format a live network event as a single log line
+ * @param event Event from the network event monitor
+ * @returns Timestamped, colorized line
+ */
+export function formatNetworkEvent(event: NetworkEvent): string {
+  const time = colorize(event.timestamp.toLocaleTimeString(), 'dim');
+  switch (event.type) {
+    case 'connected':
+      return `${time} ${icons.connected} ${colorize('Connected', 'green')} to "${event.ssid || 'unknown'}" (${event.mode}) on ${event.interfaceName || 'unknown'}${event.ipAddress ? `, IP ${event.ipAddress}` : ''}`;
+    case 'disconnected':
+      return `${time} ${icons.disconnected} ${colorize('Disconnected', 'red')} from "${event.ssid || 'unknown'}"${event.previousMode ? ` (${event.previousMode})` : ''}`;
+    case 'ap-started':
+      return `${time} ${icons.hotspot} ${colorize('Hotspot started', 'green')}: "${event.ssid || 'unknown'}" on ${event.interfaceName || 'unknown'}${event.ipAddress ? `, gateway ${event.ipAddress}` : ''}`;
+    case 'client-joined':
+      return `${time} ${icons.client} ${colorize('Client joined', 'cyan')}: ${event.hostname || 'unknown'} ${event.mac}${event.ip ? ` (${event.ip})` : ''}`;
+    case 'vpn-handshake':
+      return `${time} ${icons.vpn} ${colorize('VPN handshake', 'magenta')} on ${event.interfaceName} with peer ${event.publicKey.substring(0, 12)}…`;
   }
-  
-  return lines;
 }
 
-export function generateNetworkQR(ssid: string, password?: string): Promise<void> {
+const UPLINK_KIND_LABELS: Record<UplinkKind, string> = {
+  'ethernet': 'Ethernet',
+  'usb-tether': 'USB tethering',
+  'iphone': 'iPhone (USB)',
+  'wifi': 'Wi-Fi client'
+};
+
+export function formatUplinkKind(kind: UplinkKind): string {
+  return UPLINK_KIND_LABELS[kind];
+}
+
+export function generateNetworkQR(ssid: string, password?: string, options: { hidden?: boolean; sae?: boolean } = {}): Promise<void> {
   return new Promise((resolve) => {
     const wifiString = password 
-      ? `WIFI:S:${ssid};T:WPA;P:${password};;`
-      : `WIFI:S:${ssid};T:nopass;;`;
+      ? `WIFI:S:${ssid};T:${options.sae ? 'SAE' : 'WPA'};P:${password};${options.hidden ? 'H:true;' : ''};`
+      : `WIFI:S:${ssid};T:nopass;${options.hidden ? 'H:true;' : ''};`;
     
     // Use the direct, synchronous approach without callbacks
     console.log(''); // Add a blank line before QR code
@@ -201,30 +267,16 @@ export function generateNetworkQR(ssid: string, password?: string): Promise<void
   });
 }
 
-export interface WireGuardConfig {
-  privateKey: string;
-  publicKey: string;
-  address: string;
-  dns?: string;
-  endpoint: string;
-  allowedIPs: string[];
-  persistentKeepalive?: number;
+/**
+ * Render a WireGuard client config in wg-quick format
+ */
+export function formatWireGuardConfig(config: WireGuardConfig): string {
+  return formatWgConfig(clientConfigToWg(config)).trimEnd();
 }
 
 export function generateWireGuardQR(config: WireGuardConfig): Promise<void> {
   return new Promise((resolve) => {
-    const configText = [
-      '[Interface]',
-      `PrivateKey = ${config.privateKey}`,
-      `Address = ${config.address}`,
-      config.dns ? `DNS = ${config.dns}` : '',
-      '',
-      '[Peer]',
-      `PublicKey = ${config.publicKey}`,
-      `AllowedIPs = ${config.allowedIPs.join(', ')}`,
-      `Endpoint = ${config.endpoint}`,
-      config.persistentKeepalive ? `PersistentKeepalive = ${config.persistentKeepalive}` : ''
-    ].filter(line => line).join('\n');
+    const configText = formatWireGuardConfig(config);
 
     // Use the direct, synchronous approach
     console.log(''); // Add a blank line before QR code
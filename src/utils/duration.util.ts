@@ -0,0 +1,32 @@
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400
+};
+
+const DURATION_PATTERN = /^(\d+)\s*([smhd]?)$/i;
+
+/**
+ * Parse a duration such as "90", "30m", "12h" or "7d" into seconds; a bare number is seconds
+ * @throws Error when the value is not a duration
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(DURATION_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid duration: ${value} (use e.g. 30m, 12h or 1d)`);
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[(match[2] || 's').toLowerCase()];
+}
+
+/**
+ * Shortest exact form of a number of seconds, e.g. "12h" or "90s"
+ */
+export function formatDuration(seconds: number): string {
+  for (const unit of ['d', 'h', 'm']) {
+    if (seconds >= DURATION_UNITS[unit] && seconds % DURATION_UNITS[unit] === 0) {
+      return `${seconds / DURATION_UNITS[unit]}${unit}`;
+    }
+  }
+  return `${seconds}s`;
+}
@@ -3,8 +3,11 @@ import fs from 'fs/promises';
 import path from 'path';
 import { ConfigManager, NetworkConfig } from './config.util';
 import { WireGuardConfig } from '../interfaces/wireguard.interface';
-import { executeCommand } from './command.util';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { createSystemBackend } from '../backends';
 import { EncryptionUtil } from './encrypt.util';
+import { parseWgConfig, WgConfigError, wgToClientConfig } from './wg-config.util';
+import { isTunnelName, WireGuardService } from '../services/wireguard.service';
 import os from 'os';
 
 export interface ExportData {
@@ -22,11 +25,15 @@ export interface ExportData {
 
 export class ExportImportManager {
   private configManager: ConfigManager;
+  private backend: SystemBackend;
+  private wireguard: WireGuardService;
   private exportDir: string;
   private currentVersion = '1.0.0';
 
-  constructor() {
-    this.configManager = new ConfigManager();
+  constructor(backend: SystemBackend = createSystemBackend(), configManager?: ConfigManager) {
+    this.backend = backend;
+    this.configManager = configManager || new ConfigManager(backend);
+    this.wireguard = new WireGuardService(backend, this.configManager);
     this.exportDir = path.join(os.homedir(), 'wifi_exports');
   }
 
@@ -121,55 +128,34 @@ export class ExportImportManager {
   }
 
   /**
-   * Exports WireGuard configuration to a JSON file
+   * Exports a WireGuard tunnel to a JSON file
    */
-  async exportWireGuardConfig(fileName?: string): Promise<string | null> {
+  async exportWireGuardConfig(name: string, fileName?: string): Promise<string | null> {
     await this.init();
     try {
-      // Read the WireGuard config file
-      const { stdout: confContent } = await executeCommand('sudo cat /etc/wireguard/wg0.conf');
-      
-      if (!confContent.trim()) {
-        throw new Error('WireGuard configuration not found');
-      }
-
-      // Parse the configuration
-      const privateKeyMatch = confContent.match(/PrivateKey\s*=\s*([^\s]+)/);
-      const addressMatch = confContent.match(/Address\s*=\s*([^\s]+)/);
-      const dnsMatch = confContent.match(/DNS\s*=\s*([^\s]+)/);
-      const publicKeyMatch = confContent.match(/PublicKey\s*=\s*([^\s]+)/);
-      const endpointMatch = confContent.match(/Endpoint\s*=\s*([^\s]+)/);
-      const allowedIPsMatch = confContent.match(/AllowedIPs\s*=\s*([^\n]+)/);
-      const persistentKeepaliveMatch = confContent.match(/PersistentKeepalive\s*=\s*([^\s]+)/);
-
-      if (!privateKeyMatch || !addressMatch || !publicKeyMatch || !endpointMatch || !allowedIPsMatch) {
-        throw new Error('Invalid WireGuard configuration format');
+      const tunnel = await this.wireguard.getTunnel(name);
+      if (!tunnel) {
+        throw new Error(`WireGuard tunnel '${name}' not found`);
       }
 
-      // Create a secure copy of the configuration with encrypted private key
+      // Create a secure copy of the configuration with encrypted keys;
+      // public keys can remain as-is since they're not sensitive
       const wgConfig: WireGuardConfig = {
-        privateKey: await EncryptionUtil.encrypt(privateKeyMatch[1]), // Encrypt the private key
-        address: addressMatch[1],
-        publicKey: publicKeyMatch[1], // Public key can remain as-is since it's not sensitive
-        endpoint: endpointMatch[1],
-        allowedIPs: allowedIPsMatch[1].split(',').map(ip => ip.trim()),
-        persistentKeepalive: persistentKeepaliveMatch ? parseInt(persistentKeepaliveMatch[1]) : undefined
+        ...tunnel.config,
+        privateKey: await EncryptionUtil.encrypt(tunnel.config.privateKey),
+        presharedKey: tunnel.config.presharedKey ? await EncryptionUtil.encrypt(tunnel.config.presharedKey) : undefined
       };
 
-      if (dnsMatch) {
-        wgConfig.dns = dnsMatch[1];
-      }
-
       const exportData: ExportData = {
         version: this.currentVersion,
         timestamp: new Date().toISOString(),
         wireguard: {
           config: wgConfig,
-          connectionName: 'wg0'
+          connectionName: name
         }
       };
 
-      const outputFileName = fileName || `wireguard_config_${new Date().toISOString().replace(/:/g, '-')}.json`;
+      const outputFileName = fileName || `wireguard_${name}_${new Date().toISOString().replace(/:/g, '-')}.json`;
       const filePath = path.join(this.exportDir, outputFileName);
       
       await fs.writeFile(filePath, JSON.stringify(exportData, null, 2));
@@ -181,14 +167,19 @@ export class ExportImportManager {
   }
 
   /**
-   * Imports WireGuard configuration from a JSON file
+   * Imports a WireGuard tunnel from a JSON export or a wg-quick .conf file
+   * @param name Tunnel name to use instead of the one in the file
    */
-  async importWireGuardConfig(filePath: string): Promise<{
+  async importWireGuardConfig(filePath: string, name?: string): Promise<{
     success: boolean;
+    name?: string;
     errors?: string[];
   }> {
     try {
       const content = await fs.readFile(filePath, 'utf-8');
+      if (!content.trimStart().startsWith('{')) {
+        return this.importWgQuickFile(filePath, content, name);
+      }
       const data = JSON.parse(content) as ExportData;
       
       if (!data.wireguard || !data.wireguard.config) {
@@ -196,7 +187,10 @@ export class ExportImportManager {
       }
 
       const config = { ...data.wireguard.config };
-      const connectionName = data.wireguard.connectionName || 'wg0';
+      const connectionName = name || data.wireguard.connectionName || 'wg0';
+      if (!isTunnelName(connectionName)) {
+        return { success: false, errors: [`Invalid WireGuard interface name: ${connectionName}`] };
+      }
 
       // Decrypt the private key if it's encrypted
       if (EncryptionUtil.isEncrypted(config.privateKey)) {
@@ -209,32 +203,29 @@ export class ExportImportManager {
           };
         }
       }
+      if (config.presharedKey && EncryptionUtil.isEncrypted(config.presharedKey)) {
+        try {
+          config.presharedKey = await EncryptionUtil.decrypt(config.presharedKey);
+        } catch (decryptError) {
+          return {
+            success: false,
+            errors: [`Failed to decrypt WireGuard preshared key: ${decryptError}`]
+          };
+        }
+      }
 
-      // Create WireGuard configuration
-      const confContent = `[Interface]
-PrivateKey = ${config.privateKey}
-Address = ${config.address}
-${config.dns ? `DNS = ${config.dns}` : ''}
-
-[Peer]
-PublicKey = ${config.publicKey}
-AllowedIPs = ${config.allowedIPs.join(', ')}
-Endpoint = ${config.endpoint}
-PersistentKeepalive = ${config.persistentKeepalive || 25}`;
-
-      // First make sure any existing WireGuard connection is stopped
-      try {
-        await executeCommand('sudo systemctl stop wg-quick@wg0', false);
-        await executeCommand('sudo systemctl disable wg-quick@wg0', false);
-      } catch {
-        // Ignore errors if service doesn't exist
+      // Exports from before local and peer keys were told apart only carry publicKey, the peer's key
+      if (!config.peerPublicKey) {
+        config.peerPublicKey = config.publicKey;
+        config.publicKey = await this.wireguard.getPublicKey(config.privateKey);
       }
+      config.persistentKeepalive = config.persistentKeepalive || 25;
 
-      // Write the configuration to the file
-      await executeCommand(`echo "${confContent}" | sudo tee /etc/wireguard/${connectionName}.conf > /dev/null`);
-      await executeCommand(`sudo chmod 600 /etc/wireguard/${connectionName}.conf`);
+      // Make sure the tunnel being replaced is stopped
+      await this.wireguard.stop(connectionName);
+      await this.wireguard.saveTunnel(connectionName, config);
 
-      return { success: true };
+      return { success: true, name: connectionName };
     } catch (error) {
       return {
         success: false,
@@ -242,4 +233,38 @@ PersistentKeepalive = ${config.persistentKeepalive || 25}`;
       };
     }
   }
+
+  /**
+   * Import a tunnel from a wg-quick file, e.g. one handed out by a VPN provider
+   */
+  private async importWgQuickFile(filePath: string, content: string, name?: string): Promise<{
+    success: boolean;
+    name?: string;
+    errors?: string[];
+  }> {
+    const connectionName = name || path.basename(filePath, '.conf');
+    if (!isTunnelName(connectionName)) {
+      return { success: false, errors: [`Invalid WireGuard interface name: ${connectionName}; pick one with --name`] };
+    }
+
+    let wgQuick;
+    let settings;
+    try {
+      wgQuick = parseWgConfig(content, path.basename(filePath));
+      settings = wgToClientConfig(wgQuick);
+    } catch (error) {
+      if (error instanceof WgConfigError) {
+        return { success: false, errors: error.issues.map(i => `line ${i.line}: ${i.message}`) };
+      }
+      throw error;
+    }
+    if (!settings) {
+      return { success: false, errors: ['No [Peer] with an Endpoint; only client tunnels can be imported'] };
+    }
+
+    const config: WireGuardConfig = { ...settings, publicKey: await this.wireguard.getPublicKey(settings.privateKey) };
+    await this.wireguard.stop(connectionName);
+    await this.wireguard.saveTunnel(connectionName, config, wgQuick);
+    return { success: true, name: connectionName };
+  }
 }
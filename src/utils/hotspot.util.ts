@@ -0,0 +1,95 @@
+import { HotspotBand, HotspotChannelWidth, HotspotOptions, HotspotSecurity } from '../interfaces/wifi.interface';
+
+export const HOTSPOT_BANDS: HotspotBand[] = ['2.4GHz', '5GHz'];
+export const HOTSPOT_SECURITY_MODES: HotspotSecurity[] = ['wpa2', 'wpa3', 'wpa2-pmf'];
+export const HOTSPOT_CHANNEL_WIDTHS: HotspotChannelWidth[] = [20, 40, 80];
+
+const CHANNELS_24GHZ = Array.from({ length: 14 }, (_, i) => i + 1);
+// 20 MHz channels; which of them may carry an access point depends on the country
+const CHANNELS_5GHZ = [
+  36, 40, 44, 48, 52, 56, 60, 64,
+  100, 104, 108, 112, 116, 120, 124, 128, 132, 136, 140, 144,
+  149, 153, 157, 161, 165
+];
+
+export function channelsForBand(band: HotspotBand): number[] {
+  return band === '5GHz' ? CHANNELS_5GHZ : CHANNELS_24GHZ;
+}
+
+export function bandForChannel(channel: number): HotspotBand | undefined {
+  return HOTSPOT_BANDS.find(band => channelsForBand(band).includes(channel));
+}
+
+/**
+ * Check hotspot options against each other, filling in the band a channel implies
+ * @throws Error naming the first problem
+ */
+export function validateHotspotOptions(options: HotspotOptions): HotspotOptions {
+  const result: HotspotOptions = { ...options };
+
+  if (result.band !== undefined && !HOTSPOT_BANDS.includes(result.band)) {
+    throw new Error(`Invalid band '${result.band}'. Use one of: ${HOTSPOT_BANDS.join(', ')}`);
+  }
+  if (result.channel !== undefined) {
+    const band = bandForChannel(result.channel);
+    if (!band) {
+      throw new Error(`Invalid channel ${result.channel}`);
+    }
+    if (result.band && result.band !== band) {
+      throw new Error(`Channel ${result.channel} is not in the ${result.band} band`);
+    }
+    result.band = band;
+  }
+  if (result.channelWidth !== undefined) {
+    if (!HOTSPOT_CHANNEL_WIDTHS.includes(result.channelWidth)) {
+      throw new Error(`Invalid channel width ${result.channelWidth}. Use one of: ${HOTSPOT_CHANNEL_WIDTHS.join(', ')}`);
+    }
+    if (result.channelWidth === 80 && result.band !== '5GHz') {
+      throw new Error('An 80 MHz channel needs the 5GHz band');
+    }
+  }
+  if (result.country !== undefined) {
+    if (!/^[a-z]{2}$/i.test(result.country)) {
+      throw new Error(`Invalid country code '${result.country}' (use two letters, e.g. DE)`);
+    }
+    result.country = result.country.toUpperCase();
+  }
+  if (result.security !== undefined && !HOTSPOT_SECURITY_MODES.includes(result.security)) {
+    throw new Error(`Invalid security '${result.security}'. Use one of: ${HOTSPOT_SECURITY_MODES.join(', ')}`);
+  }
+  if (result.maxClients !== undefined && !(Number.isInteger(result.maxClients) && result.maxClients > 0)) {
+    throw new Error('The client limit must be a whole number above 0');
+  }
+  return result;
+}
+
+/**
+ * NetworkManager key management and protected management frames (pmf) for a security mode.
+ * An access point takes a single key management, so there is no WPA2/WPA3 transition mode.
+ */
+export function hotspotKeyManagement(security: HotspotSecurity = 'wpa2'): { keyMgmt: string; pmf?: 'optional' | 'required' } {
+  switch (security) {
+    case 'wpa3': return { keyMgmt: 'sae', pmf: 'required' };
+    case 'wpa2-pmf': return { keyMgmt: 'wpa-psk', pmf: 'optional' };
+    default: return { keyMgmt: 'wpa-psk' };
+  }
+}
+
+/**
+ * One-line summary of the non-default hotspot options, e.g. "5GHz ch 36/80MHz, WPA3, hidden"
+ */
+export function formatHotspotOptions(options: HotspotOptions): string {
+  const radio = [
+    options.band,
+    options.channel !== undefined ? `ch ${options.channel}${options.channelWidth ? `/${options.channelWidth}MHz` : ''}` : undefined,
+    options.channel === undefined && options.channelWidth ? `${options.channelWidth}MHz` : undefined
+  ].filter(Boolean).join(' ');
+  return [
+    radio,
+    options.country,
+    options.security && options.security !== 'wpa2' ? options.security.toUpperCase() : undefined,
+    options.hidden ? 'hidden' : undefined,
+    options.isolation ? 'client isolation' : undefined,
+    options.maxClients !== undefined ? `max ${options.maxClients} clients` : undefined
+  ].filter(Boolean).join(', ');
+}
@@ -0,0 +1,129 @@
+/**
+ * Minimal HTTP client for web APIs such as setip.io and DNS providers
+ */
+
+export interface HttpClientOptions {
+  /** Sent as a bearer token */
+  token?: string;
+  /** Per-request time limit (default 15s) */
+  timeoutMs?: number;
+  /** Sent with every request, e.g. an Authorization header for basic auth */
+  headers?: Record<string, string>;
+}
+
+export interface HttpResponse {
+  status: number;
+  body: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Error message from a JSON error reply, in the forms common APIs use:
+ * { error: { message } }, { error: "..." }, { errors: [{ message }] } (Cloudflare) or { message }
+ */
+function apiErrorMessage(data: unknown): string | undefined {
+  if (!isRecord(data)) return undefined;
+  const { error, errors, message } = data;
+  if (isRecord(error) && typeof error.message === 'string') return error.message;
+  if (typeof error === 'string') return error;
+  if (Array.isArray(errors) && isRecord(errors[0]) && typeof errors[0].message === 'string') return errors[0].message;
+  if (typeof message === 'string') return message;
+  return undefined;
+}
+
+export class HttpClient {
+  private baseUrl: string;
+  private token?: string;
+  private timeoutMs: number;
+  private headers: Record<string, string>;
+
+  /**
+   * @param baseUrl API root; request paths are appended to it, so it may carry a version prefix
+   */
+  constructor(baseUrl: string, options: HttpClientOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.token = options.token;
+    this.timeoutMs = options.timeoutMs ?? 15000;
+    this.headers = options.headers || {};
+  }
+
+  /**
+   * @param path Appended to the base URL, unless it is a full URL itself
+   */
+  private url(path: string): string {
+    return /^https?:\/\//i.test(path) ? path : `${this.baseUrl}${path.startsWith('/') ? path : `/${path}`}`;
+  }
+
+  /**
+   * Send a request with a text body and return the reply whatever its status
+   */
+  async send(method: string, path: string, body?: string, headers: Record<string, string> = {}): Promise<HttpResponse> {
+    const url = this.url(path);
+    const allHeaders: Record<string, string> = { ...this.headers, ...headers };
+    if (this.token) allHeaders.Authorization = `Bearer ${this.token}`;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: allHeaders,
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+    } catch (error) {
+      // fetch reports network errors as "fetch failed" with the reason as its cause
+      const reason = (error as Error).name === 'TimeoutError'
+        ? `no answer within ${this.timeoutMs / 1000}s`
+        : (error as { cause?: Error }).cause?.message || (error as Error).message;
+      throw new Error(`${method} ${url} failed: ${reason}`);
+    }
+    return { status: response.status, body: await response.text() };
+  }
+
+  /**
+   * Send a request and parse the JSON reply
+   * @throws Error with the API's error message when the status is not 2xx
+   */
+  async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    const response = await this.send(method, path, body !== undefined ? JSON.stringify(body) : undefined, headers);
+
+    const text = response.body;
+    let data: unknown;
+    try {
+      data = text ? JSON.parse(text) : undefined;
+    } catch {
+      data = undefined;
+    }
+    if (response.status < 200 || response.status >= 300) {
+      const message = apiErrorMessage(data) || text.trim();
+      throw new Error(`${method} ${this.url(path)} failed: ${response.status}${message ? ` ${message}` : ''}`);
+    }
+    // The reply's shape is the API's contract; callers name it with T
+    return data as T;
+  }
+
+  get<T>(path: string): Promise<T> {
+    return this.request<T>('GET', path);
+  }
+
+  post<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('POST', path, body);
+  }
+
+  put<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('PUT', path, body);
+  }
+
+  patch<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('PATCH', path, body);
+  }
+
+  delete<T>(path: string): Promise<T> {
+    return this.request<T>('DELETE', path);
+  }
+}
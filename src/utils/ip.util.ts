@@ -0,0 +1,62 @@
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+export interface Ipv4Cidr {
+  /** Address as given, e.g. the server's own address in 10.8.0.1/24 */
+  address: number;
+  prefix: number;
+  network: number;
+  broadcast: number;
+}
+
+export function isIpv4(value: string): boolean {
+  const match = value.trim().match(IPV4_PATTERN);
+  return !!match && match.slice(1).every(octet => parseInt(octet, 10) <= 255);
+}
+
+/**
+ * @throws Error when the value is not a dotted IPv4 address
+ */
+export function ipv4ToInt(value: string): number {
+  if (!isIpv4(value)) {
+    throw new Error(`Invalid IPv4 address: ${value}`);
+  }
+  return value.trim().split('.').reduce((acc, octet) => acc * 256 + parseInt(octet, 10), 0);
+}
+
+export function intToIpv4(value: number): string {
+  return [24, 16, 8, 0].map(shift => Math.floor(value / 2 ** shift) % 256).join('.');
+}
+
+/**
+ * Parse "a.b.c.d/n"; a bare address is treated as /32
+ * @throws Error when the value is not an IPv4 CIDR
+ */
+export function parseCidr(value: string): Ipv4Cidr {
+  const [ip, prefixText] = value.trim().split('/');
+  const prefix = prefixText === undefined ? 32 : parseInt(prefixText, 10);
+  if (isNaN(prefix) || prefix < 0 || prefix > 32 || (prefixText !== undefined && !/^\d+$/.test(prefixText))) {
+    throw new Error(`Invalid CIDR: ${value}`);
+  }
+  const address = ipv4ToInt(ip);
+  const size = 2 ** (32 - prefix);
+  const network = Math.floor(address / size) * size;
+  return { address, prefix, network, broadcast: network + size - 1 };
+}
+
+export function isCidr(value: string): boolean {
+  try {
+    parseCidr(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether an address lies inside a CIDR block
+ */
+export function cidrContains(cidr: string, ip: string): boolean {
+  const { network, broadcast } = parseCidr(cidr);
+  const address = ipv4ToInt(ip);
+  return address >= network && address <= broadcast;
+}
@@ -0,0 +1,19 @@
+const MAC_PATTERN = /^([0-9a-f]{2}[:-]){5}[0-9a-f]{2}$/i;
+
+/**
+ * Check whether a string is a MAC address (colon or dash separated)
+ */
+export function isMacAddress(value: string): boolean {
+  return MAC_PATTERN.test(value.trim());
+}
+
+/**
+ * Normalize a MAC address to lower case with colons
+ * @throws Error when the value is not a MAC address
+ */
+export function normalizeMac(value: string): string {
+  if (!isMacAddress(value)) {
+    throw new Error(`Invalid MAC address: ${value}`);
+  }
+  return value.trim().toLowerCase().replace(/-/g, ':');
+}
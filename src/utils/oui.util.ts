@@ -0,0 +1,156 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+
+// IEEE registries: 24-bit (MA-L), 28-bit (MA-M) and 36-bit (MA-S) assignments
+export const IEEE_REGISTRY_URLS = [
+  'https://standards-oui.ieee.org/oui/oui.csv',
+  'https://standards-oui.ieee.org/oui28/mam.csv',
+  'https://standards-oui.ieee.org/oui36/oui36.csv'
+];
+
+// Prefix lengths in hex digits, longest first so the most specific assignment wins
+const PREFIX_LENGTHS = [9, 7, 6];
+
+export interface VendorInfo {
+  vendor?: string;
+  /** Locally administered address, e.g. a phone's per-network random MAC */
+  randomized: boolean;
+}
+
+/**
+ * Whether the locally administered bit is set in the first octet
+ */
+export function isLocallyAdministered(mac: string): boolean {
+  const firstOctet = parseInt(mac.replace(/[^0-9a-f]/gi, '').substring(0, 2), 16);
+  return !isNaN(firstOctet) && (firstOctet & 0x02) !== 0;
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+/**
+ * Parse an IEEE registry CSV (Registry,Assignment,Organization Name,Organization Address)
+ * into prefix -> organization entries
+ */
+export function parseIeeeCsv(csv: string): Record<string, string> {
+  const entries: Record<string, string> = {};
+  for (const line of csv.split(/\r?\n/).slice(1)) {
+    if (!line.trim()) continue;
+    const [, assignment, organization] = parseCsvLine(line);
+    if (assignment && organization && /^[0-9A-F]+$/i.test(assignment)) {
+      entries[assignment.toUpperCase()] = organization.trim();
+    }
+  }
+  return entries;
+}
+
+/**
+ * Offline MAC vendor lookup. Uses the IEEE database bundled with the
+ * oui-data package, or a newer copy fetched with `update()` when present.
+ */
+export class OuiDatabase {
+  private overridePath: string;
+  private entries?: Map<string, string>;
+  private loading?: Promise<Map<string, string>>;
+
+  constructor(overridePath?: string) {
+    this.overridePath = overridePath || path.join(os.homedir() || '/home/pi', '.wifi_configs', 'oui.json');
+  }
+
+  private async load(): Promise<Map<string, string>> {
+    if (this.entries) return this.entries;
+    if (!this.loading) {
+      this.loading = (async () => {
+        let data: Record<string, string>;
+        try {
+          data = JSON.parse(await fs.readFile(this.overridePath, 'utf-8'));
+        } catch {
+          data = JSON.parse(await fs.readFile(require.resolve('oui-data'), 'utf-8'));
+        }
+        // The bundled data carries the full postal address; keep only the company name
+        this.entries = new Map(Object.entries(data).map(([prefix, org]) => [prefix.toUpperCase(), org.split('\n')[0].trim()]));
+        return this.entries;
+      })();
+    }
+    return this.loading;
+  }
+
+  async lookup(mac: string): Promise<VendorInfo> {
+    const randomized = isLocallyAdministered(mac);
+    const hex = mac.replace(/[^0-9a-f]/gi, '').toUpperCase();
+    if (randomized || hex.length !== 12) {
+      return { randomized };
+    }
+
+    const entries = await this.load();
+    for (const length of PREFIX_LENGTHS) {
+      const vendor = entries.get(hex.substring(0, length));
+      if (vendor) {
+        return { vendor, randomized };
+      }
+    }
+    return { randomized };
+  }
+
+  /**
+   * Number of prefixes in the active database and where it came from
+   */
+  async info(): Promise<{ entries: number; source: string }> {
+    const entries = await this.load();
+    const updated = await fs.access(this.overridePath).then(() => true).catch(() => false);
+    return { entries: entries.size, source: updated ? this.overridePath : 'bundled (oui-data)' };
+  }
+
+  /**
+   * Download the current IEEE registries and store them as the override database
+   * @returns Number of prefixes stored
+   */
+  async update(backend: SystemBackend): Promise<number> {
+    const entries: Record<string, string> = {};
+    for (const url of IEEE_REGISTRY_URLS) {
+      const { stdout } = await backend.run('curl', ['-fsSL', '--max-time', '120', url]);
+      Object.assign(entries, parseIeeeCsv(stdout));
+    }
+
+    const count = Object.keys(entries).length;
+    if (count === 0) {
+      throw new Error('Downloaded registry contained no assignments');
+    }
+
+    await fs.mkdir(path.dirname(this.overridePath), { recursive: true });
+    await fs.writeFile(this.overridePath, JSON.stringify(entries));
+    this.entries = undefined;
+    this.loading = undefined;
+    return count;
+  }
+}
@@ -0,0 +1,48 @@
+// Multipliers to bits per second; "bps" units are bytes per second as in tc
+const RATE_UNITS: Record<string, number> = {
+  bit: 1,
+  kbit: 1e3,
+  mbit: 1e6,
+  gbit: 1e9,
+  k: 1e3,
+  m: 1e6,
+  g: 1e9,
+  bps: 8,
+  kbps: 8e3,
+  mbps: 8e6,
+  gbps: 8e9
+};
+
+const RATE_PATTERN = /^(\d+(?:\.\d+)?)\s*([a-z]+)$/i;
+
+/**
+ * Parse a rate such as "5mbit", "512kbit", "2mbps" or "10M" into bits per second
+ * @throws Error when the value is not a rate
+ */
+export function parseRate(value: string): number {
+  const match = value.trim().match(RATE_PATTERN);
+  const multiplier = match && RATE_UNITS[match[2].toLowerCase()];
+  if (!match || !multiplier || parseFloat(match[1]) <= 0) {
+    throw new Error(`Invalid rate: ${value} (use e.g. 512kbit, 5mbit or 1gbit)`);
+  }
+  return Math.round(parseFloat(match[1]) * multiplier);
+}
+
+export function isRate(value: string): boolean {
+  try {
+    parseRate(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Human readable form of a rate in bits per second
+ */
+export function formatRate(bitsPerSecond: number): string {
+  if (bitsPerSecond >= 1e9) return `${+(bitsPerSecond / 1e9).toFixed(2)} Gbit/s`;
+  if (bitsPerSecond >= 1e6) return `${+(bitsPerSecond / 1e6).toFixed(2)} Mbit/s`;
+  if (bitsPerSecond >= 1e3) return `${+(bitsPerSecond / 1e3).toFixed(2)} kbit/s`;
+  return `${bitsPerSecond} bit/s`;
+}
@@ -0,0 +1,42 @@
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  k: 1e3,
+  kb: 1e3,
+  m: 1e6,
+  mb: 1e6,
+  g: 1e9,
+  gb: 1e9,
+  t: 1e12,
+  tb: 1e12,
+  kib: 1024,
+  mib: 1024 ** 2,
+  gib: 1024 ** 3,
+  tib: 1024 ** 4
+};
+
+const SIZE_PATTERN = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/i;
+
+/**
+ * Parse a data amount such as "500MB", "5GB" or "1.5GiB" into bytes.
+ * Plain units are decimal, as on phone plans.
+ * @throws Error when the value is not a size
+ */
+export function parseSize(value: string): number {
+  const match = value.trim().match(SIZE_PATTERN);
+  const multiplier = match && SIZE_UNITS[(match[2] || 'b').toLowerCase()];
+  if (!match || !multiplier) {
+    throw new Error(`Invalid size: ${value} (use e.g. 500MB or 5GB)`);
+  }
+  return Math.round(parseFloat(match[1]) * multiplier);
+}
+
+/**
+ * Human readable form of a byte count, in decimal units
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1e12) return `${(bytes / 1e12).toFixed(2)} TB`;
+  if (bytes >= 1e9) return `${(bytes / 1e9).toFixed(2)} GB`;
+  if (bytes >= 1e6) return `${(bytes / 1e6).toFixed(1)} MB`;
+  if (bytes >= 1e3) return `${(bytes / 1e3).toFixed(1)} kB`;
+  return `${bytes} B`;
+}
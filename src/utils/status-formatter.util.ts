@@ -1,5 +1,5 @@
-import { executeCommand } from './command.util';
 import { 
+  formatAge,
   formatSectionHeader, 
   formatStatusLine,
   colorize,
@@ -7,6 +7,44 @@ import {
   getPublicIp,
   formatVpnStatus
 } from './display.util';
+import { SetipStatus } from '../interfaces/setip.interface';
+import { DdnsRecordStatus } from '../interfaces/ddns.interface';
+import { NetworkStatus } from '../interfaces/network-manager.interface';
+import { SystemBackend } from '../interfaces/system-backend.interface';
+import { createSystemBackend } from '../backends';
+
+/**
+ * One line per dynamic DNS record: where it points and whether updates go through
+ */
+export function formatDdnsStatus(records: DdnsRecordStatus[], now = new Date()): string[] {
+  return records.map(record => {
+    if (record.lastError) {
+      const retry = record.retryAt ? `, retry ${new Date(record.retryAt).toLocaleTimeString()}` : '';
+      return formatStatusLine(record.hostname, `update failing (${record.lastError}${retry})`, 'dns', 'red');
+    }
+    if (!record.ip) {
+      return formatStatusLine(record.hostname, 'not updated yet', 'dns', 'yellow');
+    }
+    const updated = record.updatedAt ? ` (updated ${formatAge(new Date(record.updatedAt), now)})` : '';
+    return formatStatusLine(record.hostname, `${record.ip}${updated}`, 'dns', 'green');
+  });
+}
+
+/**
+ * One line per Wi-Fi radio: serving a hotspot, joined to a network or idle
+ */
+export function formatRadioRoles(radios: NetworkStatus[]): string[] {
+  return radios.map(radio => {
+    const name = radio.interfaceName || 'unknown';
+    if (!radio.connected) {
+      return formatStatusLine(name, 'Idle', 'interface', 'dim');
+    }
+    if (radio.mode === 'ap') {
+      return formatStatusLine(name, `Hotspot "${radio.ssid}"${radio.ipAddress ? ` on ${radio.ipAddress}` : ''}`, 'hotspot', 'yellow');
+    }
+    return formatStatusLine(name, `Client of "${radio.ssid}"${radio.ipAddress ? `, ${radio.ipAddress}` : ''}`, 'client', 'green');
+  });
+}
 
 /**
  * Formats and displays the network status in a visually appealing way
@@ -15,8 +53,10 @@ export async function displayFormattedStatus(
   status: any, 
   vpnStatus: any, 
   matchingConfig?: any,
-  isDetailed = false
+  isDetailed = false,
+  extras: { setip?: SetipStatus; ddns?: DdnsRecordStatus[]; radios?: NetworkStatus[]; backend?: SystemBackend } = {}
 ): Promise<void> {
+  const { setip, ddns, radios, backend = createSystemBackend() } = extras;
   console.log(formatSectionHeader('NETWORK STATUS'));
   
   if (!status.connected) {
@@ -54,6 +94,10 @@ export async function displayFormattedStatus(
     if (status.gateway) {
       console.log(formatStatusLine('Gateway', status.gateway, 'gateway'));
     }
+
+    if (status.uplink) {
+      console.log(formatStatusLine('Uplink', status.uplink, 'internet', 'cyan'));
+    }
     
     // Display most recent saved configuration if it exists
     if (matchingConfig) {
@@ -67,10 +111,16 @@ export async function displayFormattedStatus(
       console.log(colorize(`${checkmark} Configuration matches active network state`, 'green'));
     }
     
+    // Hotspot and upstream Wi-Fi on separate adapters
+    if (radios && radios.length > 1) {
+      console.log(formatSectionHeader('RADIOS'));
+      formatRadioRoles(radios).forEach(line => console.log(line));
+    }
+
     // Show detailed interface information
     console.log(formatSectionHeader('INTERFACE STATUS'));
     try {
-      const { stdout } = await executeCommand('ip -br addr');
+      const { stdout } = await backend.run('ip', ['-br', 'addr']);
       const interfaces = stdout.split('\n')
         .filter(line => line.trim())
         .map(line => {
@@ -87,14 +137,14 @@ export async function displayFormattedStatus(
       });
     } catch (err) {
       console.log(colorize('• ', 'blue') + 
-                 colorize('wlan0:', 'green') + ' ' + 
+                 colorize(`${status.interfaceName || 'wlan0'}:`, 'green') + ' ' + 
                  status.ipAddress + '/24');
     }
     
     // Check internet connectivity
     console.log(formatSectionHeader('CONNECTIVITY TEST'));
     try {
-      const { stdout } = await executeCommand('ping -c 1 -W 2 8.8.8.8', false);
+      const { stdout } = await backend.run('ping', ['-c', '1', '-W', '2', '8.8.8.8'], { throwOnError: false });
       const isConnected = stdout.includes('1 received');
       console.log(formatStatusLine('Internet', 
         isConnected ? 'Reachable' : 'Not reachable', 
@@ -116,13 +166,13 @@ export async function displayFormattedStatus(
         if (status.freq) console.log(formatStatusLine('Frequency', status.freq));
         if (status.bitrate) console.log(formatStatusLine('Bitrate', status.bitrate));
         
-        const { stdout: wifiInfo } = await executeCommand('iwconfig wlan0', false);
+        const { stdout: wifiInfo } = await backend.run('iwconfig', [status.interfaceName || 'wlan0'], { throwOnError: false });
         if (wifiInfo) {
           console.log('\n' + colorize('WiFi Interface Details:', 'bold'));
           console.log(wifiInfo);
         }
         
-        const { stdout: routeInfo } = await executeCommand('ip route show', false);
+        const { stdout: routeInfo } = await backend.run('ip', ['route', 'show'], { throwOnError: false });
         if (routeInfo) {
           console.log('\n' + colorize('Routing Information:', 'bold'));
           console.log(routeInfo);
@@ -137,4 +187,19 @@ export async function displayFormattedStatus(
   console.log(formatSectionHeader('VPN STATUS'));
   const vpnStatusLines = formatVpnStatus(vpnStatus);
   vpnStatusLines.forEach(line => console.log(line));
+
+  if (setip?.registered) {
+    console.log(formatSectionHeader('SETIP.IO'));
+    console.log(formatStatusLine('Tunnel', `${setip.tunnel} (${setip.connected ? 'up' : 'down'})`,
+      setip.connected ? 'vpn' : 'vpnDisconnected', setip.connected ? 'green' : 'red'));
+    console.log(formatStatusLine('Public IP', setip.publicIp || 'Not assigned yet', 'internet', 'cyan'));
+    if (setip.subdomains.length > 0) {
+      console.log(formatStatusLine('Subdomains', setip.subdomains.map(s => s.fqdn).join(', '), 'dns'));
+    }
+  }
+
+  if (ddns?.length) {
+    console.log(formatSectionHeader('DYNAMIC DNS'));
+    formatDdnsStatus(ddns).forEach(line => console.log(line));
+  }
 }
@@ -0,0 +1,387 @@
+import { WireGuardConfig } from '../interfaces/wireguard.interface';
+import { isCidr, isIpv4 } from './ip.util';
+
+// 32 bytes, base64 encoded
+const KEY_PATTERN = /^[A-Za-z0-9+/]{42}[AEIMQUYcgkosw048]=$/;
+const ENDPOINT_PATTERN = /^(\[[0-9a-f:]+\]|[^\s:[\]]+):(\d+)$/i;
+
+export function isWireGuardKey(value: string): boolean {
+  return KEY_PATTERN.test(value.trim());
+}
+
+export function isEndpoint(value: string): boolean {
+  const match = value.match(ENDPOINT_PATTERN);
+  const port = match ? parseInt(match[2], 10) : 0;
+  return port >= 1 && port <= 65535;
+}
+
+/**
+ * IPv4 address or CIDR; IPv6 is passed through to wg-quick as is
+ */
+export function isAddressOrCidr(value: string): boolean {
+  return value.includes(':') || isCidr(value) || isIpv4(value);
+}
+
+export interface WgQuickInterface {
+  privateKey: string;
+  addresses: string[];
+  listenPort?: number;
+  /** DNS servers and search domains */
+  dns: string[];
+  mtu?: number;
+  /** Routing table for AllowedIPs routes: "off", "auto" or a table id/name */
+  table?: string;
+  fwMark?: string;
+  preUp: string[];
+  postUp: string[];
+  preDown: string[];
+  postDown: string[];
+  saveConfig?: boolean;
+  /** Comment lines above [Interface] */
+  comments: string[];
+  /** Comment lines above (or after) a setting, by setting name */
+  notes: Record<string, string[]>;
+}
+
+export interface WgQuickPeer {
+  publicKey: string;
+  presharedKey?: string;
+  allowedIPs: string[];
+  endpoint?: string;
+  persistentKeepalive?: number;
+  /** Comment lines above [Peer], e.g. the peer's name */
+  comments: string[];
+  notes: Record<string, string[]>;
+}
+
+export interface WgQuickConfig {
+  interface: WgQuickInterface;
+  peers: WgQuickPeer[];
+  /** Comment lines after the last setting */
+  trailingComments: string[];
+}
+
+export interface WgConfigIssue {
+  line: number;
+  message: string;
+}
+
+export class WgConfigError extends Error {
+  issues: WgConfigIssue[];
+
+  constructor(issues: WgConfigIssue[], source = 'WireGuard config') {
+    super(`Invalid ${source}:\n${issues.map(i => `  line ${i.line}: ${i.message}`).join('\n')}`);
+    this.name = 'WgConfigError';
+    this.issues = issues;
+  }
+}
+
+type Section = 'Interface' | 'Peer';
+type Field = { name: string; list?: boolean; check?: (value: string) => string | null };
+
+const positiveInt = (max: number) => (value: string) =>
+  /^\d+$/.test(value) && parseInt(value, 10) > 0 && parseInt(value, 10) <= max ? null : `must be a whole number between 1 and ${max}`;
+const key = (value: string) => isWireGuardKey(value) ? null : 'must be a 44-character base64 WireGuard key';
+
+// Settings wg-quick understands, by lower-cased name
+const FIELDS: Record<Section, Record<string, Field>> = {
+  Interface: {
+    privatekey: { name: 'PrivateKey', check: key },
+    address: { name: 'Address', list: true, check: v => isAddressOrCidr(v) ? null : `'${v}' is not an address` },
+    listenport: { name: 'ListenPort', check: positiveInt(65535) },
+    dns: { name: 'DNS', list: true },
+    mtu: { name: 'MTU', check: positiveInt(65535) },
+    table: { name: 'Table', check: v => /^[\w.-]+$/.test(v) ? null : 'must be off, auto or a routing table' },
+    fwmark: { name: 'FwMark', check: v => /^(off|\d+|0x[0-9a-f]+)$/i.test(v) ? null : 'must be off or a number' },
+    preup: { name: 'PreUp' },
+    postup: { name: 'PostUp' },
+    predown: { name: 'PreDown' },
+    postdown: { name: 'PostDown' },
+    saveconfig: { name: 'SaveConfig', check: v => /^(true|false)$/.test(v) ? null : 'must be true or false' }
+  },
+  Peer: {
+    publickey: { name: 'PublicKey', check: key },
+    presharedkey: { name: 'PresharedKey', check: key },
+    allowedips: { name: 'AllowedIPs', list: true, check: v => isAddressOrCidr(v) ? null : `'${v}' is not a network` },
+    endpoint: { name: 'Endpoint', check: v => isEndpoint(v) ? null : 'must be host:port' },
+    persistentkeepalive: { name: 'PersistentKeepalive', check: v => v === 'off' || /^\d+$/.test(v) && parseInt(v, 10) <= 65535 ? null : 'must be off or a number of seconds' }
+  }
+};
+
+// Settings that may be given more than once, each adding to the list
+const REPEATABLE = new Set(['Address', 'DNS', 'AllowedIPs', 'PreUp', 'PostUp', 'PreDown', 'PostDown']);
+
+function emptyInterface(): WgQuickInterface {
+  return { privateKey: '', addresses: [], dns: [], preUp: [], postUp: [], preDown: [], postDown: [], comments: [], notes: {} };
+}
+
+function emptyPeer(): WgQuickPeer {
+  return { publicKey: '', allowedIPs: [], comments: [], notes: {} };
+}
+
+/**
+ * Parse a wg-quick file: one [Interface] and any number of [Peer] sections.
+ * Comments are kept with the section or setting they precede.
+ * @param source Shown in error messages, e.g. the file name
+ * @throws WgConfigError listing every problem with its line number
+ */
+export function parseWgConfig(text: string, source?: string): WgQuickConfig {
+  const issues: WgConfigIssue[] = [];
+  let iface: WgQuickInterface | undefined;
+  let interfaceLine = 0;
+  const peers: Array<{ peer: WgQuickPeer; line: number }> = [];
+  let section: Section | undefined;
+  let seen = new Set<string>();
+  let pending: string[] = [];
+
+  const lines = text.split(/\r?\n/);
+  lines.forEach((raw, index) => {
+    const lineNo = index + 1;
+    const hash = raw.indexOf('#');
+    const content = (hash >= 0 ? raw.slice(0, hash) : raw).trim();
+    const comment = hash >= 0 ? raw.slice(hash).trim() : undefined;
+
+    if (!content) {
+      if (comment) pending.push(comment);
+      return;
+    }
+
+    const header = content.match(/^\[(\w+)\]$/);
+    if (header) {
+      const name = header[1].toLowerCase();
+      seen = new Set();
+      if (name === 'interface') {
+        if (iface) {
+          issues.push({ line: lineNo, message: `[Interface] given twice (first on line ${interfaceLine})` });
+        }
+        iface = emptyInterface();
+        iface.comments = pending;
+        interfaceLine = lineNo;
+        section = 'Interface';
+      } else if (name === 'peer') {
+        const peer = emptyPeer();
+        peer.comments = pending;
+        peers.push({ peer, line: lineNo });
+        section = 'Peer';
+      } else {
+        issues.push({ line: lineNo, message: `unknown section [${header[1]}]` });
+        section = undefined;
+      }
+      if (comment && section) (section === 'Peer' ? peers[peers.length - 1].peer : iface!).comments.push(comment);
+      pending = [];
+      return;
+    }
+
+    const setting = content.match(/^([A-Za-z]+)\s*=\s*(.*)$/);
+    if (!setting) {
+      issues.push({ line: lineNo, message: `expected "Key = Value", got '${content}'` });
+      return;
+    }
+    if (!section) {
+      issues.push({ line: lineNo, message: `${setting[1]} is outside an [Interface] or [Peer] section` });
+      return;
+    }
+
+    const field = FIELDS[section][setting[1].toLowerCase()];
+    if (!field) {
+      issues.push({ line: lineNo, message: `unknown ${section} setting '${setting[1]}'` });
+      return;
+    }
+    if (seen.has(field.name) && !REPEATABLE.has(field.name)) {
+      issues.push({ line: lineNo, message: `${field.name} given twice in one section` });
+      return;
+    }
+    seen.add(field.name);
+
+    const value = setting[2].trim();
+    const values = field.list ? value.split(',').map(v => v.trim()).filter(Boolean) : [value];
+    if (values.length === 0 || value === '') {
+      issues.push({ line: lineNo, message: `${field.name} has no value` });
+      return;
+    }
+    for (const v of values) {
+      const problem = field.check?.(v);
+      if (problem) issues.push({ line: lineNo, message: `${field.name} ${problem}` });
+    }
+
+    const target = section === 'Interface' ? iface! : peers[peers.length - 1].peer;
+    const notes = [...pending, ...(comment ? [comment] : [])];
+    if (notes.length > 0) target.notes[field.name] = [...(target.notes[field.name] || []), ...notes];
+    pending = [];
+
+    if (section === 'Interface') {
+      applyInterfaceSetting(iface!, field.name, value, values);
+    } else {
+      applyPeerSetting(peers[peers.length - 1].peer, field.name, value, values);
+    }
+  });
+
+  if (!iface) {
+    issues.push({ line: 1, message: 'no [Interface] section' });
+  } else if (!iface.privateKey) {
+    issues.push({ line: interfaceLine, message: '[Interface] has no PrivateKey' });
+  }
+  for (const { peer, line } of peers) {
+    if (!peer.publicKey) {
+      issues.push({ line, message: '[Peer] has no PublicKey' });
+    }
+  }
+
+  if (issues.length > 0) {
+    issues.sort((a, b) => a.line - b.line);
+    throw new WgConfigError(issues, source);
+  }
+  return { interface: iface!, peers: peers.map(p => p.peer), trailingComments: pending };
+}
+
+function applyInterfaceSetting(iface: WgQuickInterface, name: string, value: string, values: string[]): void {
+  switch (name) {
+    case 'PrivateKey': iface.privateKey = value; break;
+    case 'Address': iface.addresses.push(...values); break;
+    case 'ListenPort': iface.listenPort = parseInt(value, 10); break;
+    case 'DNS': iface.dns.push(...values); break;
+    case 'MTU': iface.mtu = parseInt(value, 10); break;
+    case 'Table': iface.table = value; break;
+    case 'FwMark': iface.fwMark = value; break;
+    case 'PreUp': iface.preUp.push(value); break;
+    case 'PostUp': iface.postUp.push(value); break;
+    case 'PreDown': iface.preDown.push(value); break;
+    case 'PostDown': iface.postDown.push(value); break;
+    case 'SaveConfig': iface.saveConfig = value === 'true'; break;
+  }
+}
+
+function applyPeerSetting(peer: WgQuickPeer, name: string, value: string, values: string[]): void {
+  switch (name) {
+    case 'PublicKey': peer.publicKey = value; break;
+    case 'PresharedKey': peer.presharedKey = value; break;
+    case 'AllowedIPs': peer.allowedIPs.push(...values); break;
+    case 'Endpoint': peer.endpoint = value; break;
+    case 'PersistentKeepalive': peer.persistentKeepalive = value === 'off' ? 0 : parseInt(value, 10); break;
+  }
+}
+
+/**
+ * Render a wg-quick file
+ */
+export function formatWgConfig(config: WgQuickConfig): string {
+  const out: string[] = [];
+  const emit = (notes: Record<string, string[]>, name: string, value: string | number | boolean | undefined) => {
+    if (value === undefined || value === '') return;
+    out.push(...(notes[name] || []), `${name} = ${value}`);
+  };
+  const emitEach = (notes: Record<string, string[]>, name: string, values: string[]) => {
+    values.forEach((value, i) => emit(i === 0 ? notes : {}, name, value));
+  };
+
+  const iface = config.interface;
+  out.push(...iface.comments, '[Interface]');
+  emit(iface.notes, 'PrivateKey', iface.privateKey);
+  emit(iface.notes, 'Address', iface.addresses.join(', '));
+  emit(iface.notes, 'ListenPort', iface.listenPort);
+  emit(iface.notes, 'DNS', iface.dns.join(', '));
+  emit(iface.notes, 'MTU', iface.mtu);
+  emit(iface.notes, 'Table', iface.table);
+  emit(iface.notes, 'FwMark', iface.fwMark);
+  // Hook commands may contain commas, so each keeps its own line
+  emitEach(iface.notes, 'PreUp', iface.preUp);
+  emitEach(iface.notes, 'PostUp', iface.postUp);
+  emitEach(iface.notes, 'PreDown', iface.preDown);
+  emitEach(iface.notes, 'PostDown', iface.postDown);
+  emit(iface.notes, 'SaveConfig', iface.saveConfig);
+
+  for (const peer of config.peers) {
+    out.push('', ...peer.comments, '[Peer]');
+    emit(peer.notes, 'PublicKey', peer.publicKey);
+    emit(peer.notes, 'PresharedKey', peer.presharedKey);
+    emit(peer.notes, 'AllowedIPs', peer.allowedIPs.join(', '));
+    emit(peer.notes, 'Endpoint', peer.endpoint);
+    emit(peer.notes, 'PersistentKeepalive', peer.persistentKeepalive || undefined);
+  }
+
+  if (config.trailingComments.length > 0) {
+    out.push('', ...config.trailingComments);
+  }
+  return out.join('\n') + '\n';
+}
+
+/**
+ * wg-quick form of a point-to-point client tunnel
+ */
+export function clientConfigToWg(config: WireGuardConfig): WgQuickConfig {
+  return {
+    interface: {
+      ...emptyInterface(),
+      privateKey: config.privateKey,
+      addresses: config.address.split(',').map(a => a.trim()).filter(Boolean),
+      dns: config.dns ? config.dns.split(',').map(d => d.trim()).filter(Boolean) : [],
+      mtu: config.mtu,
+      table: config.table,
+      fwMark: config.fwMark,
+      preUp: config.preUp || [],
+      postUp: config.postUp || [],
+      preDown: config.preDown || [],
+      postDown: config.postDown || []
+    },
+    peers: [{
+      ...emptyPeer(),
+      publicKey: config.peerPublicKey,
+      presharedKey: config.presharedKey,
+      allowedIPs: config.allowedIPs,
+      endpoint: config.endpoint,
+      persistentKeepalive: config.persistentKeepalive
+    }],
+    trailingComments: []
+  };
+}
+
+function nonEmpty(values: string[]): string[] | undefined {
+  return values.length > 0 ? values : undefined;
+}
+
+/**
+ * Client tunnel settings from a wg-quick file, taken from its first peer with an endpoint
+ * @returns The settings without this end's public key, or null when no peer has an endpoint
+ */
+export function wgToClientConfig(config: WgQuickConfig): Omit<WireGuardConfig, 'publicKey'> | null {
+  const peer = config.peers.find(p => p.endpoint);
+  if (!peer || !peer.endpoint) {
+    return null;
+  }
+  return {
+    privateKey: config.interface.privateKey,
+    address: config.interface.addresses.join(', '),
+    dns: config.interface.dns.length > 0 ? config.interface.dns.join(', ') : undefined,
+    mtu: config.interface.mtu,
+    table: config.interface.table,
+    fwMark: config.interface.fwMark,
+    preUp: nonEmpty(config.interface.preUp),
+    postUp: nonEmpty(config.interface.postUp),
+    preDown: nonEmpty(config.interface.preDown),
+    postDown: nonEmpty(config.interface.postDown),
+    peerPublicKey: peer.publicKey,
+    presharedKey: peer.presharedKey,
+    endpoint: peer.endpoint,
+    allowedIPs: peer.allowedIPs,
+    persistentKeepalive: peer.persistentKeepalive
+  };
+}
+
+/**
+ * Write client tunnel settings into a wg-quick file: the interface and the
+ * first peer with an endpoint take the settings, while other peers, comments
+ * and settings the client model has no place for are kept
+ */
+export function mergeClientConfig(base: WgQuickConfig, config: WireGuardConfig): WgQuickConfig {
+  const fresh = clientConfigToWg(config);
+  const { comments, notes, listenPort, saveConfig, ...settings } = fresh.interface;
+  const peers = [...base.peers];
+  const index = peers.findIndex(p => p.endpoint);
+  const { comments: peerComments, notes: peerNotes, ...peerSettings } = fresh.peers[0];
+  if (index >= 0) {
+    peers[index] = { ...peers[index], ...peerSettings };
+  } else {
+    peers.unshift(fresh.peers[0]);
+  }
+  return { ...base, interface: { ...base.interface, ...settings }, peers };
+}
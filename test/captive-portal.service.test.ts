@@ -0,0 +1,143 @@
+import * as dgram from 'dgram';
+import { PortalAuthorizedEvent } from '../src/interfaces/network-event.interface';
+import { CaptivePortalSettings } from '../src/interfaces/portal.interface';
+import { CaptivePortalService } from '../src/services/captive-portal.service';
+
+const PHONE = 'aa:bb:cc:00:00:01';
+const LAPTOP = 'aa:bb:cc:00:00:02';
+
+// A DNS query for example.com, type A
+function dnsQuery(id: number): Buffer {
+  const header = Buffer.from([id >> 8, id & 0xff, 0x01, 0x00, 0, 1, 0, 0, 0, 0, 0, 0]);
+  const name = Buffer.from([7, ...Buffer.from('example'), 3, ...Buffer.from('com'), 0]);
+  return Buffer.concat([header, name, Buffer.from([0, 1, 0, 1])]);
+}
+
+describe('captive portal through a local HTTP client', () => {
+  let portal: CaptivePortalService;
+  let settings: CaptivePortalSettings | undefined;
+  // Every request comes from 127.0.0.1; this is the device it stands for
+  let device: string | undefined;
+  let authorized: Map<string, { hours: number; voucher?: string }>;
+  let base: string;
+
+  const postForm = (fields: Record<string, string>) => fetch(`${base}/portal`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(fields).toString()
+  });
+
+  beforeEach(async () => {
+    settings = { enabled: true, mode: 'terms' };
+    device = PHONE;
+    authorized = new Map();
+    portal = new CaptivePortalService({
+      getContext: async () => ({ settings, ssid: 'PiNet', address: '10.42.0.1' }),
+      identify: async ip => (ip === '127.0.0.1' ? device : undefined),
+      isAuthorized: async mac => authorized.has(mac),
+      authorize: async (mac, hours, voucher) => {
+        authorized.set(mac, { hours, voucher });
+        const used = settings?.vouchers?.find(v => v.code === voucher);
+        if (used) Object.assign(used, { usedBy: mac, usedAt: new Date().toISOString() });
+        return new Date(Date.now() + hours * 3600 * 1000);
+      },
+      httpPort: 0,
+      dnsPort: 0,
+      host: '127.0.0.1'
+    });
+    await portal.start();
+    base = `http://127.0.0.1:${portal.httpPort}`;
+  });
+
+  afterEach(async () => {
+    await portal.stop();
+  });
+
+  it('redirects any other page to the portal on the hotspot address', async () => {
+    const res = await fetch(`${base}/generate_204`, { redirect: 'manual' });
+
+    expect(res.status).toBe(302);
+    expect(res.headers.get('location')).toBe(`http://10.42.0.1/portal?url=${encodeURIComponent(`${base}/generate_204`)}`);
+  });
+
+  it('shows the sign-in form', async () => {
+    const res = await fetch(`${base}/portal?url=http%3A%2F%2Fexample.com%2F`);
+    const html = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(html).toContain('<h1>Welcome to PiNet</h1>');
+    expect(html).toContain('name="accept"');
+    expect(html).toContain('<input type="hidden" name="url" value="http://example.com/">');
+  });
+
+  it('authorizes a device that accepts the terms', async () => {
+    const signedIn = new Promise<PortalAuthorizedEvent>(resolve => portal.once('portal-authorized', resolve));
+
+    const res = await postForm({ accept: 'yes', url: 'http://example.com/' });
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain('Continue to http://example.com/');
+    expect(await signedIn).toMatchObject({ mac: PHONE, ip: '127.0.0.1', method: 'terms' });
+    expect(authorized.get(PHONE)).toEqual({ hours: 24, voucher: undefined });
+    expect(await (await fetch(`${base}/portal`)).text()).toContain('This device is signed in.');
+  });
+
+  it('rejects a wrong password and accepts the right one', async () => {
+    settings = { enabled: true, mode: 'password', password: 'letmein', durationHours: 2 };
+
+    const wrong = await postForm({ password: 'guess' });
+    expect(wrong.status).toBe(403);
+    expect(await wrong.text()).toContain('Wrong password.');
+    expect(authorized.size).toBe(0);
+
+    const right = await postForm({ password: 'letmein' });
+    expect(right.status).toBe(200);
+    expect(await right.text()).toContain('<h1>You are online</h1>');
+    expect(authorized.get(PHONE)?.hours).toBe(2);
+  });
+
+  it('redeems a voucher for one device only', async () => {
+    settings = { enabled: true, mode: 'voucher', vouchers: [{ code: 'ABCD2345', createdAt: new Date().toISOString() }] };
+
+    expect((await postForm({ voucher: 'abcd-2345' })).status).toBe(200);
+    expect(authorized.get(PHONE)?.voucher).toBe('ABCD2345');
+
+    device = LAPTOP;
+    const reused = await postForm({ voucher: 'ABCD2345' });
+    expect(reused.status).toBe(403);
+    expect(await reused.text()).toContain('This voucher has already been used.');
+    expect(authorized.has(LAPTOP)).toBe(false);
+  });
+
+  it('turns away devices that are not hotspot clients', async () => {
+    device = undefined;
+
+    const res = await fetch(`${base}/portal`);
+
+    expect(res.status).toBe(403);
+    expect(await res.text()).toContain('Device not recognized');
+  });
+
+  it('needs no sign-in when the profile has no portal', async () => {
+    settings = undefined;
+
+    expect(await (await fetch(`${base}/portal`)).text()).toContain('No sign-in needed');
+  });
+
+  it('answers DNS queries with the hotspot address', async () => {
+    const client = dgram.createSocket('udp4');
+    try {
+      const reply = await new Promise<Buffer>((resolve, reject) => {
+        client.once('message', resolve);
+        client.once('error', reject);
+        client.send(dnsQuery(0x1234), portal.dnsPort!, '127.0.0.1');
+      });
+
+      expect(reply.readUInt16BE(0)).toBe(0x1234);
+      expect(reply.readUInt16BE(6)).toBe(1);
+      expect([...reply.subarray(reply.length - 4)]).toEqual([10, 42, 0, 1]);
+    } finally {
+      client.close();
+    }
+  });
+});
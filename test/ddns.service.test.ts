@@ -0,0 +1,113 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeBackend } from '../src/backends/fake.backend';
+import { DdnsService } from '../src/services/ddns.service';
+import { ConfigManager } from '../src/utils/config.util';
+import { MockHttpServer, MockReply, RecordedRequest, startMockHttpServer } from './support/http-server';
+
+describe('dynamic DNS against a local provider', () => {
+  let server: MockHttpServer;
+  let reply: (request: RecordedRequest) => MockReply;
+  let configDir: string;
+  let publicIp: string;
+  let ddns: DdnsService;
+
+  beforeAll(async () => {
+    server = await startMockHttpServer(request => reply(request));
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    server.requests.length = 0;
+    publicIp = '203.0.113.7';
+    configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'workhive-test-'));
+    const backend = FakeBackend.withDefaults();
+    ddns = new DdnsService(backend, new ConfigManager(backend, configDir), { lookupIp: async () => publicIp });
+  });
+
+  afterEach(async () => {
+    await fs.rm(configDir, { recursive: true, force: true });
+  });
+
+  describe('update URL', () => {
+    beforeEach(async () => {
+      await ddns.addRecord({
+        provider: 'http',
+        hostname: 'pi.example.com',
+        url: `${server.url}/nic/update?hostname={hostname}&myip={ip}`,
+        username: 'user',
+        password: 'pass',
+        successPattern: '^(good|nochg)'
+      });
+    });
+
+    it('sends the address and only updates again when it changes', async () => {
+      reply = () => ({ body: 'good 203.0.113.7' });
+
+      expect(await ddns.update()).toEqual([{ hostname: 'pi.example.com', ip: '203.0.113.7', outcome: 'updated' }]);
+      expect(await ddns.update()).toEqual([{ hostname: 'pi.example.com', ip: '203.0.113.7', outcome: 'unchanged' }]);
+
+      expect(server.requests).toHaveLength(1);
+      expect(server.requests[0].url).toBe('/nic/update?hostname=pi.example.com&myip=203.0.113.7');
+      expect(server.requests[0].headers.authorization).toBe(`Basic ${Buffer.from('user:pass').toString('base64')}`);
+    });
+
+    it('backs off when the reply does not match the success pattern', async () => {
+      reply = () => ({ body: 'badauth' });
+
+      const [result] = await ddns.update();
+
+      expect(result).toMatchObject({ outcome: 'failed', error: 'Update rejected: badauth' });
+      expect((await ddns.update())[0].outcome).toBe('deferred');
+      expect(server.requests).toHaveLength(1);
+    });
+  });
+
+  describe('Cloudflare API', () => {
+    beforeEach(async () => {
+      await ddns.addRecord({
+        provider: 'cloudflare',
+        hostname: 'pi.example.com',
+        apiToken: 'cf-token',
+        zoneId: 'zone1',
+        apiUrl: `${server.url}/client/v4`
+      });
+    });
+
+    it('creates the record, then patches it', async () => {
+      const records: Array<{ id: string; content: string }> = [];
+      reply = request => {
+        if (request.method === 'GET') return { body: { success: true, result: records } };
+        const content = JSON.parse(request.body).content;
+        if (request.method === 'POST') records.push({ id: 'rec1', content });
+        return { body: { success: true, result: { id: 'rec1', content } } };
+      };
+
+      await ddns.update();
+      publicIp = '203.0.113.99';
+      await ddns.update();
+
+      expect(server.requests.map(r => `${r.method} ${r.url}`)).toEqual([
+        'GET /client/v4/zones/zone1/dns_records?type=A&name=pi.example.com',
+        'POST /client/v4/zones/zone1/dns_records',
+        'GET /client/v4/zones/zone1/dns_records?type=A&name=pi.example.com',
+        'PATCH /client/v4/zones/zone1/dns_records/rec1'
+      ]);
+      expect(JSON.parse(server.requests[3].body)).toMatchObject({ type: 'A', name: 'pi.example.com', content: '203.0.113.99' });
+      expect(server.requests.every(r => r.headers.authorization === 'Bearer cf-token')).toBe(true);
+    });
+
+    it('reports the error message from the API', async () => {
+      reply = () => ({ status: 403, body: { success: false, errors: [{ code: 9109, message: 'Invalid access token' }] } });
+
+      const [result] = await ddns.update();
+
+      expect(result.outcome).toBe('failed');
+      expect(result.error).toMatch(/failed: 403 Invalid access token$/);
+    });
+  });
+});
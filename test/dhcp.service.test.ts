@@ -0,0 +1,69 @@
+import { FakeBackend } from '../src/backends/fake.backend';
+import { DhcpService, resolveDhcpSettings } from '../src/services/dhcp.service';
+
+const PHONE = 'AA:BB:CC:00:00:01';
+
+describe('hotspot DHCP settings', () => {
+  let backend: FakeBackend;
+  let dhcp: DhcpService;
+
+  beforeEach(() => {
+    backend = FakeBackend.withDefaults();
+    dhcp = new DhcpService(backend);
+  });
+
+  it('fills in the gateway and pool from the subnet', () => {
+    expect(resolveDhcpSettings({ subnet: '192.168.50.0/24' })).toMatchObject({
+      gateway: '192.168.50.1',
+      rangeStart: '192.168.50.10',
+      rangeEnd: '192.168.50.254',
+      leaseTime: 3600
+    });
+  });
+
+  it('normalizes the subnet, gateway and MACs', () => {
+    const settings = dhcp.validate({
+      subnet: '192.168.50.1/24',
+      staticLeases: [{ mac: PHONE, ip: '192.168.50.20', hostname: 'phone' }]
+    });
+
+    expect(settings).toEqual({
+      subnet: '192.168.50.0/24',
+      gateway: '192.168.50.1',
+      staticLeases: [{ mac: 'aa:bb:cc:00:00:01', ip: '192.168.50.20', hostname: 'phone' }]
+    });
+  });
+
+  it('rejects reservations that cannot be handed out', () => {
+    const lease = (ip: string, mac = PHONE) => ({ mac, ip });
+
+    expect(() => dhcp.validate({ staticLeases: [lease('10.42.1.20')] })).toThrow('The static lease 10.42.1.20 is not a usable address in 10.42.0.0/24');
+    expect(() => dhcp.validate({ staticLeases: [lease('10.42.0.255')] })).toThrow(/not a usable address/);
+    expect(() => dhcp.validate({ staticLeases: [lease('10.42.0.1')] })).toThrow('10.42.0.1 is the gateway address');
+    expect(() => dhcp.validate({ staticLeases: [lease('10.42.0.20', 'aa:bb:cc')] })).toThrow('Invalid MAC address: aa:bb:cc');
+    expect(() => dhcp.validate({ staticLeases: [{ ...lease('10.42.0.20'), hostname: 'my_phone' }] })).toThrow(/Invalid hostname 'my_phone'/);
+  });
+
+  it('rejects the same device or address reserved twice', () => {
+    expect(() => dhcp.validate({
+      staticLeases: [{ mac: PHONE, ip: '10.42.0.20' }, { mac: PHONE.toLowerCase(), ip: '10.42.0.21' }]
+    })).toThrow('aa:bb:cc:00:00:01 has more than one static lease');
+    expect(() => dhcp.validate({
+      staticLeases: [{ mac: PHONE, ip: '10.42.0.20' }, { mac: 'aa:bb:cc:00:00:02', ip: '10.42.0.20' }]
+    })).toThrow('10.42.0.20 is reserved more than once');
+  });
+
+  it('rejects a pool that is backwards or holds the gateway', () => {
+    expect(() => dhcp.validate({ rangeStart: '10.42.0.100' })).toThrow('Give both the first and the last address of the range');
+    expect(() => dhcp.validate({ rangeStart: '10.42.0.100', rangeEnd: '10.42.0.50' })).toThrow(/ends before it starts/);
+    expect(() => dhcp.validate({ rangeStart: '10.42.0.1', rangeEnd: '10.42.0.50' })).toThrow(/contains the gateway address/);
+    expect(() => dhcp.validate({ leaseTime: 60 })).toThrow('The lease time must be at least 120 seconds');
+  });
+
+  it('writes the reservations where dnsmasq reads them', async () => {
+    await dhcp.apply(dhcp.validate({ staticLeases: [{ mac: PHONE, ip: '10.42.0.20', hostname: 'phone' }] }));
+
+    expect(backend.files.get('/etc/workhive/dhcp-reservations')).toBe('aa:bb:cc:00:00:01,10.42.0.20,phone\n');
+    expect(backend.files.get('/etc/NetworkManager/dnsmasq-shared.d/workhive-dhcp.conf')).toContain('dhcp-hostsfile=/etc/workhive/dhcp-reservations');
+  });
+});
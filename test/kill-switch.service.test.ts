@@ -0,0 +1,49 @@
+import { FakeBackend } from '../src/backends/fake.backend';
+import { KillSwitchService } from '../src/services/kill-switch.service';
+
+describe('VPN kill switch', () => {
+  let backend: FakeBackend;
+  let killSwitch: KillSwitchService;
+
+  beforeEach(() => {
+    backend = FakeBackend.withDefaults();
+    killSwitch = new KillSwitchService(backend);
+  });
+
+  it('lets hotspot traffic out through the tunnels only', async () => {
+    await killSwitch.apply('wlan0', ['wg0', 'office']);
+
+    expect(backend.iptables).toEqual([
+      'filter FORWARD -j WORKHIVE_KILLSWITCH',
+      'filter :WORKHIVE_KILLSWITCH',
+      'filter WORKHIVE_KILLSWITCH -i wlan0 -o wg0 -j RETURN',
+      'filter WORKHIVE_KILLSWITCH -i wlan0 -o office -j RETURN',
+      'filter WORKHIVE_KILLSWITCH -i wlan0 -o wlan0 -j RETURN',
+      'filter WORKHIVE_KILLSWITCH -i wlan0 -j DROP'
+    ]);
+  });
+
+  it('replaces the rules when the tunnels change', async () => {
+    await killSwitch.apply('wlan0', ['wg0']);
+    await killSwitch.apply('wlan0', ['office']);
+
+    expect(backend.iptables.filter(rule => rule.includes('-j RETURN'))).toEqual([
+      'filter WORKHIVE_KILLSWITCH -i wlan0 -o office -j RETURN',
+      'filter WORKHIVE_KILLSWITCH -i wlan0 -o wlan0 -j RETURN'
+    ]);
+  });
+
+  it('reads back what the rules allow', async () => {
+    await killSwitch.apply('wlan1', ['wg0', 'office']);
+
+    expect(await killSwitch.getState()).toEqual({ armed: true, interfaceName: 'wlan1', tunnels: ['wg0', 'office'] });
+  });
+
+  it('disarms without tunnels', async () => {
+    await killSwitch.apply('wlan0', ['wg0']);
+    await killSwitch.apply('wlan0', []);
+
+    expect(backend.iptables).toEqual([]);
+    expect(await killSwitch.getState()).toEqual({ armed: false, tunnels: [] });
+  });
+});
@@ -0,0 +1,135 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeBackend } from '../src/backends/fake.backend';
+import { NetworkControl } from '../src/services/network-control.service';
+import { splitTerseLine } from '../src/services/nmcli.service';
+
+describe('NetworkControl on the simulated system', () => {
+  let backend: FakeBackend;
+  let control: NetworkControl;
+  let configDir: string;
+
+  beforeEach(async () => {
+    backend = FakeBackend.withDefaults();
+    configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'workhive-test-'));
+    control = new NetworkControl({ backend, configDir });
+    // The services report progress and failures on the console
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    control.stopEventMonitor();
+    await fs.rm(configDir, { recursive: true, force: true });
+  });
+
+  describe('scanning', () => {
+    it('lists networks in range with their signal and security', async () => {
+      const networks = await control.scanNetworks();
+      const bySsid = (ssid: string) => networks.find(n => n.ssid === ssid);
+
+      expect(networks.map(n => n.ssid).sort()).toEqual(['CoffeeShop', 'HomeNet', 'Phone 5G']);
+      expect(bySsid('HomeNet')).toMatchObject({ bssid: '02:00:00:00:01:02', signal: 88, security: ['WPA2'] });
+      expect(bySsid('CoffeeShop')?.security).toEqual([]);
+      expect(bySsid('Phone 5G')?.security).toEqual(['WPA2', 'WPA3']);
+    });
+
+    it('keeps escaped colons inside terse fields', () => {
+      expect(splitTerseLine('Cafe\\: Free:02\\:00\\:00\\:00\\:01\\:01:72')).toEqual(['Cafe: Free', '02:00:00:00:01:01', '72']);
+    });
+
+    it('reads SSIDs containing colons', async () => {
+      backend.addAccessPoint({ ssid: 'Lab:5', bssid: '02:00:00:00:01:04', signal: 95, freq: 5200, security: 'WPA2', password: 'labpass1' });
+
+      const networks = await control.scanNetworks();
+
+      expect(networks.find(n => n.bssid === '02:00:00:00:01:04')?.ssid).toBe('Lab:5');
+    });
+  });
+
+  describe('status', () => {
+    it('reports disconnected before joining a network', async () => {
+      const status = await control.getStatus();
+
+      expect(status.connected).toBe(false);
+    });
+
+    it('reports the joined network', async () => {
+      await control.connect('HomeNet', 'correcthorse');
+
+      const status = await control.getStatus();
+
+      expect(status).toMatchObject({ connected: true, mode: 'wifi', ssid: 'HomeNet', interfaceName: 'wlan0' });
+      expect(status.ipAddress).toBeDefined();
+    });
+
+    it('rejects a wrong password', async () => {
+      expect(await control.connect('HomeNet', 'wrong-password')).toBe(false);
+      expect((await control.getStatus()).connected).toBe(false);
+    });
+  });
+
+  describe('hotspot', () => {
+    it('starts and stops an access point', async () => {
+      expect(await control.startHotspot('PiNet', 'password123')).toBe(true);
+
+      const running = await control.getHotspotStatus();
+      expect(running).toMatchObject({ connected: true, mode: 'ap', ssid: 'PiNet', interfaceName: 'wlan0' });
+
+      expect(await control.stopHotspot()).toBe(true);
+      expect((await control.getHotspotStatus()).connected).toBe(false);
+    });
+
+    it('runs beside an upstream connection on a second radio', async () => {
+      backend.addRadio({ name: 'wlan1', type: 'wifi', mac: 'dc:a6:32:00:00:03' });
+      await control.connect('HomeNet', 'correcthorse', 'wlan1');
+
+      await control.startHotspot('PiNet', 'password123');
+
+      expect(await control.getStatus()).toMatchObject({ mode: 'wifi', ssid: 'HomeNet', interfaceName: 'wlan1' });
+      expect(await control.getHotspotStatus()).toMatchObject({ mode: 'ap', ssid: 'PiNet', interfaceName: 'wlan0' });
+    });
+  });
+
+  describe('saved configurations', () => {
+    it('activates a saved client profile', async () => {
+      await control.connect('HomeNet', 'correcthorse');
+      await control.saveCurrentSetup('home');
+      await control.disconnect();
+
+      expect(await control.activateConfig('home')).toBe(true);
+
+      expect(await control.getStatus()).toMatchObject({ connected: true, ssid: 'HomeNet' });
+    });
+
+    it('activates a saved hotspot profile', async () => {
+      await control.startHotspot('PiNet', 'password123');
+      await control.saveCurrentSetup('travel');
+      await control.stopHotspot();
+
+      expect(await control.activateConfig('travel')).toBe(true);
+
+      expect(await control.getHotspotStatus()).toMatchObject({ connected: true, mode: 'ap', ssid: 'PiNet' });
+    });
+
+    it('keeps approval mode when the hotspot is saved again', async () => {
+      await control.startHotspot('PiNet', 'password123');
+      await control.saveCurrentSetup('travel');
+      await control.setApprovalMode(true, 'travel');
+      await control.approveDevice('AA:BB:CC:00:00:01', undefined, 'travel');
+
+      await control.saveCurrentSetup('travel');
+
+      const saved = JSON.parse(await fs.readFile(path.join(configDir, 'travel.json'), 'utf-8'));
+      expect(saved).toMatchObject({ ssid: 'PiNet', mode: 'hotspot', password: 'password123' });
+      expect(saved.deviceAuth).toMatchObject({ enabled: true, allowedMacs: ['aa:bb:cc:00:00:01'] });
+    });
+
+    it('fails to activate an unknown profile', async () => {
+      expect(await control.activateConfig('nowhere')).toBe(false);
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+});
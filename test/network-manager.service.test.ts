@@ -0,0 +1,278 @@
+import { ChildProcessWithoutNullStreams, spawn, spawnSync } from 'child_process';
+import * as dbus from 'dbus-next';
+import { FakeBackend } from '../src/backends/fake.backend';
+import { NetworkEvent } from '../src/interfaces/network-event.interface';
+import { NetworkEventMonitor } from '../src/services/network-events.service';
+import { NetworkManager, NM_PATH, NM_SERVICE } from '../src/services/network-manager.service';
+
+const DEVICE_PATH = `${NM_PATH}/Devices/3`;
+const HOME_AP_PATH = `${NM_PATH}/AccessPoint/7`;
+const OPEN_AP_PATH = `${NM_PATH}/AccessPoint/8`;
+const ACTIVE_PATH = `${NM_PATH}/ActiveConnection/1`;
+const SETTINGS_PATH = `${NM_PATH}/Settings`;
+const CONNECTION_PATH = `${NM_PATH}/Settings/1`;
+const IP4_PATH = `${NM_PATH}/IP4Config/2`;
+
+const NM_DEVICE_STATE_DISCONNECTED = 30;
+const NM_DEVICE_STATE_ACTIVATED = 100;
+
+const { Interface, ACCESS_READ } = dbus.interface;
+const v = (signature: string, value: unknown) => new dbus.Variant(signature, value);
+
+// A NetworkManager with one radio associated to HomeNet, as much of it as the client reads
+
+class ManagerStub extends Interface {
+  ActiveConnections = [ACTIVE_PATH];
+  deactivated: string[] = [];
+
+  GetDevices(): string[] {
+    return [DEVICE_PATH];
+  }
+
+  DeactivateConnection(path: string): void {
+    this.deactivated.push(path);
+    this.ActiveConnections = [];
+  }
+
+  StateChanged(state: number): number {
+    return state;
+  }
+}
+ManagerStub.configureMembers({
+  properties: { ActiveConnections: { signature: 'ao', access: ACCESS_READ } },
+  methods: { GetDevices: { outSignature: 'ao' }, DeactivateConnection: { inSignature: 'o' } },
+  signals: { StateChanged: { signature: 'u' } }
+});
+
+class DeviceStub extends Interface {
+  DeviceType = 2;
+  State = NM_DEVICE_STATE_ACTIVATED;
+  Interface = 'wlan0';
+  ActiveConnection = ACTIVE_PATH;
+  Ip4Config = IP4_PATH;
+
+  StateChanged(newState: number, oldState: number, reason: number): [number, number, number] {
+    return [newState, oldState, reason];
+  }
+}
+DeviceStub.configureMembers({
+  properties: {
+    DeviceType: { signature: 'u', access: ACCESS_READ },
+    State: { signature: 'u', access: ACCESS_READ },
+    Interface: { signature: 's', access: ACCESS_READ },
+    ActiveConnection: { signature: 'o', access: ACCESS_READ },
+    Ip4Config: { signature: 'o', access: ACCESS_READ }
+  },
+  signals: { StateChanged: { signature: 'uuu' } }
+});
+
+class WirelessStub extends Interface {
+  HwAddress = 'dc:a6:32:00:00:01';
+  Bitrate = 433000;
+  ActiveAccessPoint = HOME_AP_PATH;
+
+  RequestScan(): void {
+    // What NetworkManager answers right after a scan; the client then uses the cached list
+    throw new dbus.DBusError(`${NM_SERVICE}.Device.NotAllowed`, 'Scanning not allowed immediately following previous scan');
+  }
+
+  GetAllAccessPoints(): string[] {
+    return [OPEN_AP_PATH, HOME_AP_PATH];
+  }
+}
+WirelessStub.configureMembers({
+  properties: {
+    HwAddress: { signature: 's', access: ACCESS_READ },
+    Bitrate: { signature: 'u', access: ACCESS_READ },
+    ActiveAccessPoint: { signature: 'o', access: ACCESS_READ }
+  },
+  methods: { RequestScan: { inSignature: 'a{sv}' }, GetAllAccessPoints: { outSignature: 'ao' } }
+});
+
+class AccessPointStub extends Interface {
+  Ssid: Buffer;
+  Strength: number;
+  Frequency: number;
+  HwAddress: string;
+  Flags: number;
+  WpaFlags = 0;
+  RsnFlags: number;
+
+  constructor(ssid: string, bssid: string, strength: number, frequency: number, secured: boolean) {
+    super(`${NM_SERVICE}.AccessPoint`);
+    this.Ssid = Buffer.from(ssid);
+    this.HwAddress = bssid;
+    this.Strength = strength;
+    this.Frequency = frequency;
+    this.Flags = secured ? 0x1 : 0;
+    this.RsnFlags = secured ? 0x100 : 0;
+  }
+}
+AccessPointStub.configureMembers({
+  properties: {
+    Ssid: { signature: 'ay', access: ACCESS_READ },
+    Strength: { signature: 'y', access: ACCESS_READ },
+    Frequency: { signature: 'u', access: ACCESS_READ },
+    HwAddress: { signature: 's', access: ACCESS_READ },
+    Flags: { signature: 'u', access: ACCESS_READ },
+    WpaFlags: { signature: 'u', access: ACCESS_READ },
+    RsnFlags: { signature: 'u', access: ACCESS_READ }
+  }
+});
+
+class ActiveConnectionStub extends Interface {
+  Connection = CONNECTION_PATH;
+  Devices = [DEVICE_PATH];
+}
+ActiveConnectionStub.configureMembers({
+  properties: {
+    Connection: { signature: 'o', access: ACCESS_READ },
+    Devices: { signature: 'ao', access: ACCESS_READ }
+  }
+});
+
+class SettingsStub extends Interface {
+  ListConnections(): string[] {
+    return [CONNECTION_PATH];
+  }
+}
+SettingsStub.configureMembers({ methods: { ListConnections: { outSignature: 'ao' } } });
+
+class ConnectionStub extends Interface {
+  mode = 'infrastructure';
+
+  GetSettings(): Record<string, Record<string, dbus.Variant>> {
+    return {
+      connection: { id: v('s', 'HomeNet'), type: v('s', '802-11-wireless'), timestamp: v('t', BigInt(1700000000)) },
+      '802-11-wireless': { ssid: v('ay', Buffer.from('HomeNet')), mode: v('s', this.mode) }
+    };
+  }
+}
+ConnectionStub.configureMembers({ methods: { GetSettings: { outSignature: 'a{sa{sv}}' } } });
+
+class Ip4ConfigStub extends Interface {
+  AddressData = [{ address: v('s', '192.168.1.50'), prefix: v('u', 24) }];
+  Gateway = '192.168.1.1';
+}
+Ip4ConfigStub.configureMembers({
+  properties: {
+    AddressData: { signature: 'aa{sv}', access: ACCESS_READ },
+    Gateway: { signature: 's', access: ACCESS_READ }
+  }
+});
+
+// The client and the stub meet on a private session bus
+const describeWithDbus = spawnSync('dbus-daemon', ['--version']).error ? describe.skip : describe;
+
+describeWithDbus('NetworkManager over a session bus', () => {
+  let daemon: ChildProcessWithoutNullStreams;
+  let serviceBus: dbus.MessageBus;
+  let manager: ManagerStub;
+  let device: DeviceStub;
+  let connection: ConnectionStub;
+  let client: NetworkManager;
+  const savedEnv = { bus: process.env.WORKHIVE_DBUS_BUS, address: process.env.DBUS_SESSION_BUS_ADDRESS };
+
+  beforeAll(async () => {
+    daemon = spawn('dbus-daemon', ['--session', '--nofork', '--print-address=1']);
+    const address = await new Promise<string>((resolve, reject) => {
+      daemon.stdout.once('data', data => resolve(data.toString().trim()));
+      daemon.once('error', reject);
+    });
+    process.env.WORKHIVE_DBUS_BUS = 'session';
+    process.env.DBUS_SESSION_BUS_ADDRESS = address;
+
+    serviceBus = dbus.sessionBus();
+    await serviceBus.requestName(NM_SERVICE, 0);
+    manager = new ManagerStub(NM_SERVICE);
+    device = new DeviceStub(`${NM_SERVICE}.Device`);
+    connection = new ConnectionStub(`${NM_SERVICE}.Settings.Connection`);
+    serviceBus.export(NM_PATH, manager);
+    serviceBus.export(DEVICE_PATH, device);
+    serviceBus.export(DEVICE_PATH, new WirelessStub(`${NM_SERVICE}.Device.Wireless`));
+    serviceBus.export(HOME_AP_PATH, new AccessPointStub('HomeNet', '02:00:00:00:01:02', 88, 5180, true));
+    serviceBus.export(OPEN_AP_PATH, new AccessPointStub('CoffeeShop', '02:00:00:00:01:01', 72, 2437, false));
+    serviceBus.export(ACTIVE_PATH, new ActiveConnectionStub(`${NM_SERVICE}.Connection.Active`));
+    serviceBus.export(SETTINGS_PATH, new SettingsStub(`${NM_SERVICE}.Settings`));
+    serviceBus.export(CONNECTION_PATH, connection);
+    serviceBus.export(IP4_PATH, new Ip4ConfigStub(`${NM_SERVICE}.IP4Config`));
+
+    client = new NetworkManager();
+  });
+
+  afterAll(() => {
+    client?.close();
+    serviceBus?.disconnect();
+    daemon?.kill();
+    process.env.WORKHIVE_DBUS_BUS = savedEnv.bus;
+    process.env.DBUS_SESSION_BUS_ADDRESS = savedEnv.address;
+    if (savedEnv.bus === undefined) delete process.env.WORKHIVE_DBUS_BUS;
+    if (savedEnv.address === undefined) delete process.env.DBUS_SESSION_BUS_ADDRESS;
+  });
+
+  it('reads the connection status', async () => {
+    const status = await client.getStatus();
+
+    expect(status).toEqual({
+      connected: true,
+      mode: 'wifi',
+      ssid: 'HomeNet',
+      interfaceName: 'wlan0',
+      macAddress: 'dc:a6:32:00:00:01',
+      bitrate: '433 Mbit/s',
+      signal: 88,
+      freq: '5180 MHz',
+      security: ['WPA2'],
+      ipAddress: '192.168.1.50',
+      gateway: '192.168.1.1'
+    });
+  });
+
+  it('lists access points strongest first', async () => {
+    const networks = await client.scanNetworks();
+
+    expect(networks).toEqual([
+      { ssid: 'HomeNet', bssid: '02:00:00:00:01:02', signal: 88, freq: '5180 MHz', security: ['WPA2'] },
+      { ssid: 'CoffeeShop', bssid: '02:00:00:00:01:01', signal: 72, freq: '2437 MHz', security: [] }
+    ]);
+  });
+
+  it('only stops an access point connection', async () => {
+    expect(await client.stopHotspot()).toBe(false);
+
+    connection.mode = 'ap';
+    expect(await client.stopHotspot()).toBe(true);
+    expect(manager.deactivated).toEqual([ACTIVE_PATH]);
+
+    connection.mode = 'infrastructure';
+    manager.ActiveConnections = [ACTIVE_PATH];
+  });
+
+  it('turns device signals into events', async () => {
+    device.State = NM_DEVICE_STATE_DISCONNECTED;
+    const backend = FakeBackend.withDefaults();
+    backend.supportsDbus = true;
+    const monitor = new NetworkEventMonitor({
+      backend,
+      getStatus: () => client.getStatus()
+    });
+    await monitor.start();
+    try {
+      expect(monitor.usingDbus).toBe(true);
+      const connected = new Promise<NetworkEvent>(resolve => monitor.once('connected', resolve));
+
+      device.State = NM_DEVICE_STATE_ACTIVATED;
+      device.StateChanged(NM_DEVICE_STATE_ACTIVATED, NM_DEVICE_STATE_DISCONNECTED, 0);
+
+      expect(await connected).toMatchObject({ type: 'connected', ssid: 'HomeNet', interfaceName: 'wlan0' });
+    } finally {
+      monitor.stop();
+    }
+  });
+});
+
+describe('NetworkManager without D-Bus', () => {
+  it('refuses a system that has no bus', () => {
+    expect(() => new NetworkManager({ backend: FakeBackend.withDefaults() })).toThrow(/no D-Bus/);
+  });
+});
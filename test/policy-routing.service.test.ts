@@ -0,0 +1,32 @@
+import { FakeBackend } from '../src/backends/fake.backend';
+import { PolicyRoutingService } from '../src/services/policy-routing.service';
+
+describe('split tunneling', () => {
+  let backend: FakeBackend;
+  let routing: PolicyRoutingService;
+
+  beforeEach(() => {
+    backend = FakeBackend.withDefaults();
+    backend.sysctl.set('net.ipv4.conf.all.rp_filter', '1');
+    routing = new PolicyRoutingService(backend);
+  });
+
+  it('loosens the reverse path filter while rules apply and restores it after', async () => {
+    await routing.apply('wlan0', [{ tunnel: 'office', match: 'destination', value: '10.20.0.0/16' }], { office: 51820 });
+    expect(backend.sysctl.get('net.ipv4.conf.all.rp_filter')).toBe('2');
+
+    // Applying again keeps the setting from before the first time
+    await routing.apply('wlan0', [{ tunnel: 'office', match: 'device', value: 'aa:bb:cc:00:00:01' }], { office: 51820 });
+    await routing.clear();
+
+    expect(backend.sysctl.get('net.ipv4.conf.all.rp_filter')).toBe('1');
+  });
+
+  it('leaves the reverse path filter alone without routed tunnels', async () => {
+    await routing.apply('wlan0', [{ tunnel: 'office', match: 'destination', value: '10.20.0.0/16' }], {});
+    await routing.clear();
+
+    expect(backend.sysctl.get('net.ipv4.conf.all.rp_filter')).toBe('1');
+    expect(backend.commandLog.some(cmd => cmd.includes('rp_filter=2'))).toBe(false);
+  });
+});
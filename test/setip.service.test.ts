@@ -0,0 +1,100 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeBackend } from '../src/backends/fake.backend';
+import { NetworkControl } from '../src/services/network-control.service';
+import { MockHttpServer, RecordedRequest, startMockHttpServer } from './support/http-server';
+
+const SERVER_KEY = 'S'.repeat(42) + 'A=';
+
+describe('setip.io client against a local API', () => {
+  let server: MockHttpServer;
+  let backend: FakeBackend;
+  let control: NetworkControl;
+  let configDir: string;
+  let publicIp: string;
+
+  const api = (request: RecordedRequest) => {
+    const route = `${request.method} ${request.url}`;
+    if (route === 'POST /v1/devices') return { status: 201, body: { deviceId: 'dev-1', token: 'secret-token' } };
+    if (request.headers.authorization !== 'Bearer secret-token') return { status: 401, body: { error: { message: 'invalid token' } } };
+    if (route === 'GET /v1/devices/dev-1/tunnel') {
+      return {
+        body: {
+          endpoint: 'gw.setip.io:51820',
+          serverPublicKey: SERVER_KEY,
+          address: '100.64.12.7/32',
+          allowedIPs: ['0.0.0.0/0'],
+          publicIp
+        }
+      };
+    }
+    if (route === 'POST /v1/devices/dev-1/subdomains') {
+      const { name, target } = JSON.parse(request.body);
+      if (name === 'taken') return { status: 409, body: { errors: [{ message: 'subdomain taken' }] } };
+      return { status: 201, body: { name, fqdn: `${name}.setip.io`, target } };
+    }
+    if (route === 'PUT /v1/devices/dev-1/subdomains/myapp') {
+      return { body: { name: 'myapp', fqdn: 'myapp.setip.io', target: JSON.parse(request.body).target } };
+    }
+    return { status: 404, body: { message: `no route for ${route}` } };
+  };
+
+  beforeAll(async () => {
+    server = await startMockHttpServer(request => api(request));
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    publicIp = '203.0.113.7';
+    server.requests.length = 0;
+    backend = FakeBackend.withDefaults();
+    configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'workhive-test-'));
+    control = new NetworkControl({ backend, configDir, setipApiUrl: `${server.url}/v1` });
+  });
+
+  afterEach(async () => {
+    await fs.rm(configDir, { recursive: true, force: true });
+  });
+
+  it('registers with a new WireGuard key', async () => {
+    const registration = await control.registerSetip({ name: 'pi' });
+
+    expect(registration).toMatchObject({ deviceId: 'dev-1', token: 'secret-token', tunnel: 'setip' });
+    expect(JSON.parse(server.requests[0].body)).toEqual({ name: 'pi', publicKey: registration.publicKey });
+  });
+
+  it('writes the tunnel parameters and brings the tunnel up', async () => {
+    await control.registerSetip();
+
+    const { params } = await control.connectSetip();
+
+    expect(params.publicIp).toBe('203.0.113.7');
+    const conf = backend.files.get('/etc/wireguard/setip.conf');
+    expect(conf).toContain('Endpoint = gw.setip.io:51820');
+    expect(conf).toContain(`PublicKey = ${SERVER_KEY}`);
+    expect(await control.getSetipStatus()).toMatchObject({ registered: true, connected: true, publicIp: '203.0.113.7' });
+  });
+
+  it('repoints claimed subdomains when the public IP changes', async () => {
+    await control.registerSetip();
+    await control.connectSetip();
+    await control.claimSetipSubdomain('myapp');
+
+    publicIp = '203.0.113.99';
+    const { updated } = await control.connectSetip();
+
+    expect(updated).toEqual([{ name: 'myapp', fqdn: 'myapp.setip.io', target: '203.0.113.99' }]);
+    expect(server.requests.map(r => `${r.method} ${r.url}`)).toContain('PUT /v1/devices/dev-1/subdomains/myapp');
+  });
+
+  it('reports the error message from the API', async () => {
+    await control.registerSetip();
+    await control.connectSetip();
+
+    await expect(control.claimSetipSubdomain('taken')).rejects.toThrow(/failed: 409 subdomain taken$/);
+  });
+});
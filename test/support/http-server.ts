@@ -0,0 +1,48 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface MockReply {
+  status?: number;
+  /** Sent as is when a string, as JSON otherwise */
+  body?: unknown;
+}
+
+export interface MockHttpServer {
+  /** Root URL, e.g. http://127.0.0.1:41234 */
+  url: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * HTTP server on a free loopback port that records every request and answers with the handler's reply
+ */
+export async function startMockHttpServer(handler: (request: RecordedRequest) => MockReply): Promise<MockHttpServer> {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const request = { method: req.method || 'GET', url: req.url || '/', headers: req.headers, body: Buffer.concat(chunks).toString() };
+      requests.push(request);
+      const reply = handler(request);
+      const text = typeof reply.body === 'string' ? reply.body : reply.body === undefined ? '' : JSON.stringify(reply.body);
+      res.writeHead(reply.status ?? 200, { 'Content-Type': typeof reply.body === 'string' ? 'text/plain' : 'application/json' });
+      res.end(text);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
@@ -0,0 +1,131 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeBackend } from '../src/backends/fake.backend';
+import { TunnelHealthEvent } from '../src/interfaces/network-event.interface';
+import { TunnelHealthMonitor } from '../src/services/tunnel-health.service';
+import { WireGuardService } from '../src/services/wireguard.service';
+import { ConfigManager } from '../src/utils/config.util';
+
+const OFFICE_KEY = 'O'.repeat(42) + 'A=';
+const BACKUP_KEY = 'B'.repeat(42) + 'A=';
+
+describe('tunnel health monitor', () => {
+  let backend: FakeBackend;
+  let wireguard: WireGuardService;
+  let monitor: TunnelHealthMonitor;
+  let configDir: string;
+  let events: TunnelHealthEvent[];
+  let switches: number;
+
+  // Only the clock is faked; the config files are still written to disk
+  const advance = async (seconds: number) => {
+    jest.setSystemTime(Date.now() + seconds * 1000);
+    await monitor.checkAll();
+  };
+  const handshake = (name: string) => {
+    backend.wireguard.get(name)!.peers[0].latestHandshake = Math.floor(Date.now() / 1000);
+  };
+  const types = () => events.map(event => event.type);
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'] });
+    jest.setSystemTime(new Date(2026, 4, 10, 12, 0));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    backend = FakeBackend.withDefaults();
+    configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'workhive-test-'));
+    wireguard = new WireGuardService(backend, new ConfigManager(backend, configDir));
+
+    for (const [name, key] of [['office', OFFICE_KEY], ['backup', BACKUP_KEY]]) {
+      const result = await wireguard.setup(name, { endpoint: `${name}.example.com:51820`, peerPublicKey: key, address: '10.8.0.2/32', allowedIPs: ['0.0.0.0/0'] });
+      expect(result.success).toBe(true);
+    }
+    await wireguard.stop('backup');
+    await wireguard.setHealthCheck('office', { secondaryTunnel: 'backup' });
+
+    switches = 0;
+    monitor = new TunnelHealthMonitor({ backend, wireguard, onSwitch: async () => { switches++; } });
+    events = [];
+    monitor.on('event', event => events.push(event));
+    monitor.watch(['office']);
+  });
+
+  afterEach(async () => {
+    monitor.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    await fs.rm(configDir, { recursive: true, force: true });
+  });
+
+  it('leaves a tunnel with a recent handshake alone', async () => {
+    handshake('office');
+
+    await advance(60);
+
+    expect(events).toEqual([]);
+  });
+
+  it('gives a new tunnel time for its first handshake', async () => {
+    await advance(10);
+
+    expect(events).toEqual([]);
+  });
+
+  it('restarts a stale tunnel, then fails over to its secondary', async () => {
+    await advance(31);
+    expect(types()).toEqual(['tunnel-stale', 'tunnel-restarted']);
+    expect(events[0]).toMatchObject({ tunnel: 'office', reason: 'no handshake yet' });
+
+    await advance(31);
+    expect(events[2]).toMatchObject({ type: 'tunnel-failover', tunnel: 'office', secondary: 'backup' });
+    expect(monitor.tunnels).toEqual(['backup']);
+    expect(monitor.standIns.get('office')).toBe('backup');
+    expect(backend.wireguard.has('office')).toBe(false);
+    expect(backend.wireguard.has('backup')).toBe(true);
+    // The profile's own tunnel is still the one that comes up at boot
+    expect(await wireguard.isEnabled('office')).toBe(true);
+    expect(await wireguard.isEnabled('backup')).toBe(false);
+    expect(switches).toBe(1);
+  });
+
+  it('tries the primary again after ten minutes and keeps it once it works', async () => {
+    await advance(31);
+    await advance(31);
+    handshake('backup');
+
+    await advance(300);
+    expect(types()).not.toContain('tunnel-failback');
+
+    await advance(300);
+    expect(events[events.length - 1]).toMatchObject({ type: 'tunnel-failback', tunnel: 'office', secondary: 'backup' });
+    expect(monitor.tunnels).toEqual(['office']);
+
+    handshake('office');
+    await advance(31);
+    // Down from the first stale check until now
+    expect(events[events.length - 1]).toMatchObject({ type: 'tunnel-recovered', tunnel: 'office', downSeconds: 31 + 600 + 31 });
+    expect(monitor.standIns.size).toBe(0);
+    expect(switches).toBe(2);
+  });
+
+  it('returns to the secondary when the primary is still down', async () => {
+    await advance(31);
+    await advance(31);
+    handshake('backup');
+    await advance(600);
+
+    await advance(31);
+
+    expect(events[events.length - 1]).toMatchObject({ type: 'tunnel-failover', tunnel: 'office', secondary: 'backup' });
+    expect(monitor.tunnels).toEqual(['backup']);
+    expect(types().filter(type => type === 'tunnel-restarted')).toHaveLength(1);
+  });
+
+  it('ignores a tunnel stopped on purpose', async () => {
+    await wireguard.stop('office');
+
+    await advance(60);
+
+    expect(events).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeBackend } from '../src/backends/fake.backend';
+import { UplinkEvent } from '../src/interfaces/network-event.interface';
+import { UplinkMonitor } from '../src/services/uplink-monitor.service';
+import { UplinkService } from '../src/services/uplink.service';
+import { ConfigManager } from '../src/utils/config.util';
+
+describe('uplink failover', () => {
+  let backend: FakeBackend;
+  let monitor: UplinkMonitor;
+  let configDir: string;
+  let events: UplinkEvent[];
+  // Interfaces whose probes go unanswered
+  let dead: Set<string>;
+
+  const plugIn = (name: string, ipAddress: string, gateway: string) => {
+    backend.addRadio({ name, type: 'ethernet', mac: `dc:a6:32:00:01:0${backend.radios.length}`, connection: name });
+    backend.connections.push({ name, ssid: '', mode: 'infrastructure', ipAddress, gateway, timestamp: 0 });
+  };
+  const checks = async (count: number) => {
+    for (let i = 0; i < count; i++) await monitor.check();
+  };
+  const uplinkRoutes = () => backend.routes.filter(route => route.endsWith('metric 10'));
+
+  beforeEach(async () => {
+    backend = FakeBackend.withDefaults();
+    // Cable (eth0) preferred over the tethered phone (usb0)
+    backend.radios = backend.radios.filter(r => r.name !== 'eth0');
+    plugIn('eth0', '192.168.1.20/24', '192.168.1.1');
+    plugIn('usb0', '192.168.42.100/24', '192.168.42.129');
+    dead = new Set();
+    backend.on('ping', args => {
+      const answered = !dead.has(args[args.indexOf('-I') + 1]);
+      return { stdout: answered ? 'rtt min/avg/max/mdev = 12.0/12.0/12.0/0.0 ms' : '', stderr: '' };
+    });
+
+    configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'workhive-test-'));
+    monitor = new UplinkMonitor({ uplinks: new UplinkService(backend, new ConfigManager(backend, configDir)) });
+    events = [];
+    monitor.on('event', event => events.push(event));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    monitor.stop();
+    await fs.rm(configDir, { recursive: true, force: true });
+  });
+
+  it('takes over the preferred uplink', async () => {
+    await monitor.check();
+
+    expect(monitor.current).toBe('eth0');
+    expect(uplinkRoutes()).toEqual(['default via 192.168.1.1 dev eth0 metric 10']);
+    expect(events).toEqual([]);
+  });
+
+  it('fails over after the active uplink misses two probes', async () => {
+    await monitor.check();
+    dead.add('eth0');
+
+    await monitor.check();
+    expect(monitor.current).toBe('eth0');
+
+    await monitor.check();
+    expect(monitor.current).toBe('usb0');
+    expect(uplinkRoutes()).toEqual(['default via 192.168.42.129 dev usb0 metric 10']);
+    expect(events).toEqual([expect.objectContaining({ type: 'uplink-changed', from: 'eth0', to: 'usb0', reason: 'eth0 stopped answering' })]);
+  });
+
+  it('fails back once the preferred uplink has answered three times', async () => {
+    await monitor.check();
+    dead.add('eth0');
+    await checks(2);
+    dead.delete('eth0');
+
+    await checks(2);
+    expect(monitor.current).toBe('usb0');
+
+    await monitor.check();
+    expect(monitor.current).toBe('eth0');
+    expect(uplinkRoutes()).toEqual(['default via 192.168.1.1 dev eth0 metric 10']);
+    expect(events[events.length - 1]).toMatchObject({ from: 'usb0', to: 'eth0', reason: 'eth0 is preferred and working' });
+  });
+
+  it('reports once when no uplink works', async () => {
+    await monitor.check();
+    dead.add('eth0');
+    dead.add('usb0');
+
+    await checks(4);
+
+    expect(events).toEqual([expect.objectContaining({ type: 'uplink-lost', uplink: 'eth0' })]);
+  });
+});
@@ -0,0 +1,107 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeBackend, FakeClient } from '../src/backends/fake.backend';
+import { UsageService } from '../src/services/usage.service';
+import { ConfigManager } from '../src/utils/config.util';
+
+const PHONE = 'aa:bb:cc:00:00:01';
+
+describe('data usage accounting', () => {
+  let backend: FakeBackend;
+  let usage: UsageService;
+  let configDir: string;
+  let phone: FakeClient;
+
+  const setUplinkCounters = (rx: number, tx: number) => {
+    backend.files.set('/sys/class/net/eth0/statistics/rx_bytes', String(rx));
+    backend.files.set('/sys/class/net/eth0/statistics/tx_bytes', String(tx));
+  };
+  const entry = async (period: 'day' | 'month', date: Date, id: string) =>
+    (await usage.getReport(period, [], date)).entries.find(e => `${e.scope}:${e.target}` === id);
+
+  beforeEach(async () => {
+    backend = FakeBackend.withDefaults();
+    configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'workhive-test-'));
+    usage = new UsageService(backend, new ConfigManager(backend, configDir));
+    phone = { mac: PHONE, ip: '10.42.0.10', signal: -50, connectedSeconds: 60, rxBytes: 1000, txBytes: 5000 };
+    backend.joinClient(phone);
+    setUplinkCounters(700000, 300000);
+  });
+
+  afterEach(async () => {
+    await fs.rm(configDir, { recursive: true, force: true });
+  });
+
+  it('adds the growth of each counter since the last sample', async () => {
+    const now = new Date(2026, 4, 10, 12, 0);
+    await usage.sample([], 'wlan0', now);
+
+    // A station counts from when it appears; an interface's first reading only sets the baseline
+    expect(await entry('day', now, `device:${PHONE}`)).toMatchObject({ download: 5000, upload: 1000 });
+    expect(await entry('day', now, 'interface:eth0')).toBeUndefined();
+
+    phone.txBytes = 8000;
+    phone.rxBytes = 1500;
+    setUplinkCounters(710000, 302000);
+    await usage.sample([], 'wlan0', now);
+
+    expect(await entry('day', now, `device:${PHONE}`)).toMatchObject({ download: 8000, upload: 1500 });
+    expect(await entry('day', now, 'interface:eth0')).toMatchObject({ download: 10000, upload: 2000 });
+  });
+
+  it('counts a reset counter from zero', async () => {
+    const now = new Date(2026, 4, 10, 12, 0);
+    await usage.sample([], 'wlan0', now);
+
+    // The phone reassociated, so the AP counts its traffic afresh
+    phone.txBytes = 300;
+    phone.rxBytes = 100;
+    await usage.sample([], 'wlan0', now);
+
+    expect(await entry('day', now, `device:${PHONE}`)).toMatchObject({ download: 5300, upload: 1100 });
+  });
+
+  it('starts new day and month totals at midnight', async () => {
+    const lastDay = new Date(2026, 2, 31, 23, 50);
+    const firstDay = new Date(2026, 3, 1, 0, 10);
+    await usage.sample([], 'wlan0', lastDay);
+
+    phone.txBytes = 9000;
+    await usage.sample([], 'wlan0', firstDay);
+
+    expect(await entry('day', lastDay, `device:${PHONE}`)).toMatchObject({ download: 5000 });
+    expect(await entry('day', firstDay, `device:${PHONE}`)).toMatchObject({ download: 4000, upload: 0 });
+    expect(await entry('month', lastDay, `device:${PHONE}`)).toMatchObject({ download: 5000 });
+    expect(await entry('month', firstDay, `device:${PHONE}`)).toMatchObject({ download: 4000 });
+    expect((await usage.getReport('month', [], firstDay)).key).toBe('2026-04');
+  });
+
+  it('keeps a station counter when the stations cannot be read', async () => {
+    const now = new Date(2026, 4, 10, 12, 0);
+    let stationsReadable = true;
+    backend.on('iw', args => {
+      if (!stationsReadable) throw new Error('command failed: iw');
+      return { stdout: `Station ${PHONE} (on ${args[1]})\n\trx bytes:\t${phone.rxBytes}\n\ttx bytes:\t${phone.txBytes}`, stderr: '' };
+    });
+    await usage.sample([], 'wlan0', now);
+
+    stationsReadable = false;
+    await usage.sample([], 'wlan0', now);
+    stationsReadable = true;
+    phone.txBytes = 6000;
+    await usage.sample([], 'wlan0', now);
+
+    expect(await entry('day', now, `device:${PHONE}`)).toMatchObject({ download: 6000 });
+  });
+
+  it('cuts off a device whose quota is used up', async () => {
+    const now = new Date(2026, 4, 10, 12, 0);
+    const quotas = [{ scope: 'device' as const, target: PHONE, period: 'day' as const, limitBytes: 5000, action: 'cutoff' as const }];
+
+    const [state] = await usage.sample(quotas, 'wlan0', now);
+
+    expect(state).toMatchObject({ used: 6000, exceeded: true });
+    expect(backend.iptables.some(rule => rule.includes(`--mac-source ${PHONE}`) && rule.includes('-j DROP'))).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import { WireGuardConfig } from '../src/interfaces/wireguard.interface';
+import { formatWgConfig, mergeClientConfig, parseWgConfig, WgConfigError, wgToClientConfig } from '../src/utils/wg-config.util';
+
+const PRIVATE_KEY = 'p'.repeat(42) + 'A=';
+const SERVER_KEY = 's'.repeat(42) + 'A=';
+const LAPTOP_KEY = 'l'.repeat(42) + 'A=';
+const PSK = 'k'.repeat(42) + 'A=';
+
+const SITE_TO_SITE = `# Office link, managed by hand
+[Interface]
+PrivateKey = ${PRIVATE_KEY}
+Address = 10.8.0.2/24, 10.8.1.2/24
+# Office resolver
+DNS = 10.8.0.1
+PostUp = iptables -A FORWARD -i %i -j ACCEPT; iptables -t nat -A POSTROUTING -o eth0 -j MASQUERADE
+
+# Laptop
+[Peer]
+PublicKey = ${LAPTOP_KEY}
+AllowedIPs = 10.8.0.3/32
+
+# Office gateway
+[Peer]
+PublicKey = ${SERVER_KEY}
+PresharedKey = ${PSK}
+AllowedIPs = 10.8.0.0/24, 192.168.10.0/24
+Endpoint = vpn.example.com:51820
+PersistentKeepalive = 25
+
+# end of file
+`;
+
+function issueLines(text: string): number[] {
+  try {
+    parseWgConfig(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(WgConfigError);
+    return (error as WgConfigError).issues.map(issue => issue.line);
+  }
+  throw new Error('Expected the config to be rejected');
+}
+
+describe('wg-quick config files', () => {
+  it('writes back what it read, comments and every peer included', () => {
+    const parsed = parseWgConfig(SITE_TO_SITE);
+
+    expect(parsed.peers).toHaveLength(2);
+    expect(parsed.peers[1]).toMatchObject({ endpoint: 'vpn.example.com:51820', persistentKeepalive: 25, comments: ['# Office gateway'] });
+    expect(parsed.interface.notes.DNS).toEqual(['# Office resolver']);
+    expect(formatWgConfig(parsed)).toBe(SITE_TO_SITE);
+  });
+
+  it('reports the line of a bad key', () => {
+    const text = SITE_TO_SITE.replace(`PublicKey = ${LAPTOP_KEY}`, 'PublicKey = not-a-key');
+
+    expect(issueLines(text)).toEqual([11]);
+    expect(() => parseWgConfig(text, 'office.conf')).toThrow(/^Invalid office\.conf:\n {2}line 11: PublicKey must be a 44-character base64 WireGuard key$/);
+  });
+
+  it('reports the line of a setting without =', () => {
+    expect(issueLines(`[Interface]\nPrivateKey = ${PRIVATE_KEY}\nAddress 10.8.0.2/24\n`)).toEqual([3]);
+  });
+
+  it('reports the line of an unknown section', () => {
+    const text = `[Interface]\nPrivateKey = ${PRIVATE_KEY}\n\n[Peers]\nPublicKey = ${SERVER_KEY}\n`;
+
+    expect(() => parseWgConfig(text)).toThrow(/line 4: unknown section \[Peers\]/);
+    expect(issueLines(text)).toEqual([4, 5]);
+  });
+
+  it('takes the client tunnel from the first peer with an endpoint', () => {
+    const client = wgToClientConfig(parseWgConfig(SITE_TO_SITE));
+
+    expect(client).toMatchObject({
+      privateKey: PRIVATE_KEY,
+      address: '10.8.0.2/24, 10.8.1.2/24',
+      dns: '10.8.0.1',
+      peerPublicKey: SERVER_KEY,
+      presharedKey: PSK,
+      endpoint: 'vpn.example.com:51820',
+      allowedIPs: ['10.8.0.0/24', '192.168.10.0/24']
+    });
+    expect(wgToClientConfig(parseWgConfig(`[Interface]\nPrivateKey = ${PRIVATE_KEY}\n`))).toBeNull();
+  });
+
+  it('merges client settings into that peer and keeps the others', () => {
+    const base = parseWgConfig(SITE_TO_SITE);
+    const client: WireGuardConfig = {
+      ...wgToClientConfig(base)!,
+      publicKey: 'unused',
+      endpoint: 'vpn2.example.com:51820',
+      mtu: 1380
+    };
+
+    const merged = formatWgConfig(mergeClientConfig(base, client));
+
+    expect(merged).toContain('MTU = 1380');
+    expect(merged).toContain('# Laptop\n[Peer]\nPublicKey = ' + LAPTOP_KEY);
+    expect(merged).toContain('# Office gateway\n[Peer]');
+    expect(merged).toContain('Endpoint = vpn2.example.com:51820');
+    expect(merged).not.toContain('vpn.example.com');
+    expect(merged).toContain('# end of file');
+  });
+});
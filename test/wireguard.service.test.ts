@@ -0,0 +1,171 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeBackend } from '../src/backends/fake.backend';
+import { WireGuardServerService } from '../src/services/wireguard-server.service';
+import { WireGuardService } from '../src/services/wireguard.service';
+import { ConfigManager } from '../src/utils/config.util';
+
+const SERVER_KEY = 'S'.repeat(42) + 'A=';
+const HOUR = 3600 * 1000;
+
+describe('named WireGuard tunnels', () => {
+  let backend: FakeBackend;
+  let wireguard: WireGuardService;
+  let configDir: string;
+
+  const setup = (name: string, endpoint: string) => wireguard.setup(name, {
+    endpoint,
+    peerPublicKey: SERVER_KEY,
+    address: '10.8.0.2/32',
+    allowedIPs: ['10.8.0.0/24']
+  });
+
+  beforeEach(async () => {
+    backend = FakeBackend.withDefaults();
+    configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'workhive-test-'));
+    wireguard = new WireGuardService(backend, new ConfigManager(backend, configDir));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(configDir, { recursive: true, force: true });
+  });
+
+  it('keeps each tunnel in its own interface and conf file', async () => {
+    await setup('office', 'office.example.com:51820');
+    await setup('team', 'team.example.com:51820');
+
+    expect((await wireguard.listTunnels()).map(t => t.name)).toEqual(['office', 'team']);
+    expect(backend.files.get('/etc/wireguard/office.conf')).toContain('Endpoint = office.example.com:51820');
+    expect(backend.files.get('/etc/wireguard/team.conf')).toContain('Endpoint = team.example.com:51820');
+    expect(await wireguard.getStatus('office')).toMatchObject({ name: 'office', active: true });
+    expect(await wireguard.getStatus('team')).toMatchObject({ name: 'team', active: true });
+  });
+
+  it('stops and removes one tunnel without touching the others', async () => {
+    await setup('office', 'office.example.com:51820');
+    await setup('team', 'team.example.com:51820');
+
+    await wireguard.stop('office');
+    expect((await wireguard.getStatus('office')).active).toBe(false);
+    expect(await wireguard.isEnabled('office')).toBe(false);
+    expect((await wireguard.getStatus('team')).active).toBe(true);
+
+    expect(await wireguard.removeTunnel('office')).toBe(true);
+    expect(backend.files.has('/etc/wireguard/office.conf')).toBe(false);
+    expect((await wireguard.listTunnels()).map(t => t.name)).toEqual(['team']);
+    expect(await wireguard.removeTunnel('office')).toBe(false);
+  });
+
+  it('rejects names the kernel would not take', async () => {
+    const result = await setup('office-vpn-primary', 'office.example.com:51820');
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0]).toMatch(/^Tunnel name must be up to 15/);
+  });
+
+  it('lists the tunnel older versions wrote to wg0.conf', async () => {
+    const privateKey = (await wireguard.generateKeys()).privateKey;
+    backend.files.set('/etc/wireguard/wg0.conf', `[Interface]\nPrivateKey = ${privateKey}\nAddress = 10.8.0.2/32\n\n[Peer]\nPublicKey = ${SERVER_KEY}\nEndpoint = vpn.example.com:51820\nAllowedIPs = 0.0.0.0/0\n`);
+
+    const [tunnel] = await wireguard.listTunnels();
+
+    expect(tunnel).toMatchObject({ name: 'wg0', config: { endpoint: 'vpn.example.com:51820', peerPublicKey: SERVER_KEY } });
+  });
+});
+
+describe('WireGuard key rotation', () => {
+  let backend: FakeBackend;
+  let configManager: ConfigManager;
+  let configDir: string;
+
+  beforeEach(async () => {
+    backend = FakeBackend.withDefaults();
+    configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'workhive-test-'));
+    configManager = new ConfigManager(backend, configDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(configDir, { recursive: true, force: true });
+  });
+
+  describe('client tunnels', () => {
+    let wireguard: WireGuardService;
+
+    beforeEach(async () => {
+      wireguard = new WireGuardService(backend, configManager);
+      const result = await wireguard.setup('office', {
+        endpoint: 'vpn.example.com:51820',
+        peerPublicKey: SERVER_KEY,
+        address: '10.8.0.2/32',
+        allowedIPs: ['0.0.0.0/0']
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('keeps the current key until the switch time', async () => {
+      const current = (await wireguard.getStatus('office')).publicKey;
+
+      const { publicKey, switchAt } = await wireguard.rotateKey('office', HOUR);
+
+      expect(publicKey).not.toBe(current);
+      expect(new Date(switchAt).getTime()).toBeGreaterThan(Date.now() + HOUR - 60000);
+      expect(await wireguard.applyPendingKeys()).toEqual([]);
+      expect((await wireguard.getStatus('office')).publicKey).toBe(current);
+    });
+
+    it('switches to the new key and restarts the tunnel once due', async () => {
+      const { publicKey } = await wireguard.rotateKey('office', HOUR);
+
+      expect(await wireguard.applyPendingKeys(new Date(Date.now() + 2 * HOUR))).toEqual(['office']);
+
+      expect((await wireguard.getStatus('office')).publicKey).toBe(publicKey);
+      expect((await wireguard.getTunnel('office'))?.pendingKey).toBeUndefined();
+      expect(await wireguard.applyPendingKeys(new Date(Date.now() + 3 * HOUR))).toEqual([]);
+    });
+  });
+
+  describe('server peers', () => {
+    let server: WireGuardServerService;
+    const livePeers = () => backend.wireguard.get('wg0')!.peers.map(p => p.publicKey);
+
+    beforeEach(async () => {
+      server = new WireGuardServerService(backend, configManager);
+      await server.init({ endpoint: 'pi.example.com' });
+      await server.addPeer('alice');
+    });
+
+    it('accepts both keys on separate addresses during the overlap', async () => {
+      const before = (await server.getPeer('alice')).peer;
+
+      const { peer, clientConfig } = await server.rotatePeerKey('alice', HOUR);
+
+      expect(peer.previousKey).toMatchObject({ publicKey: before.publicKey, address: before.address });
+      expect(peer.address).not.toBe(before.address);
+      expect(clientConfig.address).toBe(peer.address);
+      expect(livePeers()).toEqual(expect.arrayContaining([before.publicKey, peer.publicKey]));
+    });
+
+    it('revokes the old key when the overlap ends', async () => {
+      const oldKey = (await server.getPeer('alice')).peer.publicKey;
+      const { peer } = await server.rotatePeerKey('alice', HOUR);
+
+      expect(await server.revokeExpiredKeys()).toEqual([]);
+      expect(await server.revokeExpiredKeys(new Date(Date.now() + 2 * HOUR))).toEqual(['alice']);
+
+      expect(livePeers()).toEqual([peer.publicKey]);
+      expect(backend.files.get('/etc/wireguard/wg0.conf')).not.toContain(oldKey);
+    });
+
+    it('revokes a leftover key at once when rotating again', async () => {
+      const first = await server.rotatePeerKey('alice', HOUR);
+      const second = await server.rotatePeerKey('alice', HOUR);
+
+      expect(second.peer.previousKey?.publicKey).toBe(first.peer.publicKey);
+      expect(livePeers()).toEqual(expect.arrayContaining([first.peer.publicKey, second.peer.publicKey]));
+      expect(livePeers()).toHaveLength(2);
+    });
+  });
+});